@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { UserCircle, Receipt, LogOut } from 'lucide-react';
+import Navigation from '@/components/Navigation';
+import CustomerSignIn from '@/components/CustomerSignIn';
+import ReferralCard from '@/components/ReferralCard';
+import WalletCard from '@/components/WalletCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Customer } from '@/lib/supabase';
+import { fetchCustomer, updateCustomerProfile, signOutCustomer } from '@/lib/customer';
+import { toast } from 'sonner';
+
+export default function AccountPage() {
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [displayName, setDisplayName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchCustomer()
+      .then(handleCustomer)
+      .catch((err) => console.error('Error loading account:', err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleCustomer = (value: Customer | null) => {
+    setCustomer(value);
+    setDisplayName(value?.display_name ?? '');
+  };
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      handleCustomer(await updateCustomerProfile(displayName));
+      toast.success('Profile updated');
+    } catch (err) {
+      console.error('Error updating profile:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to update profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOutCustomer();
+      handleCustomer(null);
+      toast.success('Signed out');
+    } catch (err) {
+      console.error('Error signing out:', err);
+      toast.error('Could not sign out. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {loading ? (
+          <div className="h-48 bg-gray-200 rounded-lg animate-pulse"></div>
+        ) : customer ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <UserCircle className="h-5 w-5 mr-2" />
+                My Account
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <p className="text-sm text-gray-600">Signed in as</p>
+                <p className="font-semibold">+{customer.phone}</p>
+              </div>
+
+              <form onSubmit={handleSaveProfile} className="space-y-2">
+                <Label htmlFor="display-name">Name</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="display-name"
+                    placeholder="What should we call you?"
+                    value={displayName}
+                    onChange={(e) => setDisplayName(e.target.value)}
+                    maxLength={100}
+                  />
+                  <Button type="submit" disabled={isSaving} className="bg-green-600 hover:bg-green-700">
+                    Save
+                  </Button>
+                </div>
+              </form>
+
+              <div className="flex flex-wrap gap-2">
+                <Link href="/orders">
+                  <Button variant="outline">
+                    <Receipt className="h-4 w-4 mr-2" />
+                    My Orders
+                  </Button>
+                </Link>
+                <Button variant="outline" onClick={handleSignOut}>
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign Out
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <UserCircle className="h-5 w-5 mr-2" />
+                Sign In
+              </CardTitle>
+              <p className="text-sm text-gray-600">
+                Optional. Sign in with your phone number to see your orders and rewards on any device and pay from a wallet.
+                Orders and rewards from this device will be added to your account.
+              </p>
+            </CardHeader>
+            <CardContent>
+              <CustomerSignIn onSignedIn={handleCustomer} />
+            </CardContent>
+          </Card>
+        )}
+
+        {!loading && <WalletCard />}
+        {!loading && <ReferralCard />}
+      </div>
+    </div>
+  );
+}
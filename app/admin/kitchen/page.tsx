@@ -0,0 +1,36 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import KitchenDisplay from '@/components/admin/KitchenDisplay';
+import { adminFetch } from '@/lib/admin-api';
+import { hasPermission } from '@/lib/admin-roles';
+import { AdminUser } from '@/lib/supabase';
+
+// Full-screen board for a tablet in the kitchen, outside the tabbed dashboard
+export default function KitchenDisplayPage() {
+  const [admin, setAdmin] = useState<AdminUser | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    adminFetch<{ admin: AdminUser }>('/session')
+      .then(({ admin }) => {
+        if (!hasPermission(admin.role, 'orders.view')) {
+          router.replace('/admin');
+          return;
+        }
+        setAdmin(admin);
+      })
+      .catch(() => router.replace('/admin/login'));
+  }, [router]);
+
+  if (!admin) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500"></div>
+      </div>
+    );
+  }
+
+  return <KitchenDisplay role={admin.role} />;
+}
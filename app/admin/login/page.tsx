@@ -0,0 +1,10 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import AdminLoginForm from '@/components/admin/AdminLoginForm';
+
+export default function AdminLoginPage() {
+  const router = useRouter();
+
+  return <AdminLoginForm onLogin={() => router.replace('/admin')} />;
+}
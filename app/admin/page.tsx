@@ -1,32 +1,48 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import AdminLoginForm from '@/components/admin/AdminLoginForm';
+import { useRouter } from 'next/navigation';
 import AdminNav from '@/components/admin/AdminNav';
 import OrdersQueue from '@/components/admin/OrdersQueue';
 import MenuManagement from '@/components/admin/MenuManagement';
+import ComboManagement from '@/components/admin/ComboManagement';
+import PaymentsDashboard from '@/components/admin/PaymentsDashboard';
+import WalletManagement from '@/components/admin/WalletManagement';
+import RefundsReport from '@/components/admin/RefundsReport';
+import BankAccountManagement from '@/components/admin/BankAccountManagement';
+import DeliverySettings from '@/components/admin/DeliverySettings';
+import ScheduleSettings from '@/components/admin/ScheduleSettings';
+import PromoCodeManagement from '@/components/admin/PromoCodeManagement';
+import LoyaltyManagement from '@/components/admin/LoyaltyManagement';
+import ReferralReport from '@/components/admin/ReferralReport';
+import { adminFetch } from '@/lib/admin-api';
+import { getAllowedTabs } from '@/lib/admin-roles';
+import { AdminUser } from '@/lib/supabase';
 
 export default function AdminPage() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [admin, setAdmin] = useState<AdminUser | null>(null);
   const [activeTab, setActiveTab] = useState('orders');
   const [isLoading, setIsLoading] = useState(true);
+  const router = useRouter();
 
   useEffect(() => {
-    // Check if admin is already authenticated
-    const authenticated = localStorage.getItem('admin_authenticated') === 'true';
-    setIsAuthenticated(authenticated);
-    setIsLoading(false);
-  }, []);
-
-  const handleLogin = () => {
-    setIsAuthenticated(true);
-  };
+    // The middleware already rejects requests without a signed cookie; this
+    // confirms the session has not been revoked server-side.
+    adminFetch<{ admin: AdminUser }>('/session')
+      .then(({ admin }) => {
+        setAdmin(admin);
+        setActiveTab(getAllowedTabs(admin.role)[0]?.id ?? 'orders');
+      })
+      .catch(() => router.replace('/admin/login'))
+      .finally(() => setIsLoading(false));
+  }, [router]);
 
   const handleLogout = () => {
-    setIsAuthenticated(false);
+    setAdmin(null);
+    router.replace('/admin/login');
   };
 
-  if (isLoading) {
+  if (isLoading || !admin) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
@@ -34,22 +50,31 @@ export default function AdminPage() {
     );
   }
 
-  if (!isAuthenticated) {
-    return <AdminLoginForm onLogin={handleLogin} />;
-  }
+  const allowedTabs = getAllowedTabs(admin.role).map((tab) => tab.id);
 
   return (
     <div className="min-h-screen bg-gray-50">
       <AdminNav 
+        admin={admin}
         activeTab={activeTab} 
         onTabChange={setActiveTab}
         onLogout={handleLogout} 
       />
       
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {activeTab === 'orders' && <OrdersQueue />}
-        {activeTab === 'menu' && <MenuManagement />}
+        {activeTab === 'orders' && allowedTabs.includes('orders') && <OrdersQueue role={admin.role} />}
+        {activeTab === 'menu' && allowedTabs.includes('menu') && <MenuManagement />}
+        {activeTab === 'combos' && allowedTabs.includes('combos') && <ComboManagement />}
+        {activeTab === 'payments' && allowedTabs.includes('payments') && <PaymentsDashboard />}
+        {activeTab === 'wallets' && allowedTabs.includes('wallets') && <WalletManagement role={admin.role} />}
+        {activeTab === 'refunds' && allowedTabs.includes('refunds') && <RefundsReport />}
+        {activeTab === 'bank-accounts' && allowedTabs.includes('bank-accounts') && <BankAccountManagement />}
+        {activeTab === 'delivery' && allowedTabs.includes('delivery') && <DeliverySettings />}
+        {activeTab === 'schedule' && allowedTabs.includes('schedule') && <ScheduleSettings />}
+        {activeTab === 'promotions' && allowedTabs.includes('promotions') && <PromoCodeManagement />}
+        {activeTab === 'referrals' && allowedTabs.includes('referrals') && <ReferralReport />}
+        {activeTab === 'loyalty' && allowedTabs.includes('loyalty') && <LoyaltyManagement />}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
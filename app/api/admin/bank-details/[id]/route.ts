@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickBankDetailFields, validateBankDetail } from '@/lib/bank-details';
+
+type RouteContext = { params: { id: string } };
+
+export const PATCH = withAdmin<RouteContext>(async (request, admin, { params }) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickBankDetailFields(body);
+
+  const validationError = validateBankDetail(fields, false);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('bank_details')
+    .update({ ...fields, updated_by: admin.id })
+    .eq('id', params.id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    if (error.hint === 'last_active_account') return jsonError(error.message, 409);
+    return jsonError(error.message, 400);
+  }
+
+  if (!data) {
+    return jsonError('Bank account not found', 404);
+  }
+
+  return NextResponse.json({ account: data });
+}, { permission: 'bank_details.manage' });
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+
+export const POST = withAdmin(async (request, admin) => {
+  const { ids } = await request.json().catch(() => ({}));
+
+  if (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string')) {
+    return jsonError('ids must be a list of bank account ids', 400);
+  }
+
+  const { error } = await getServiceClient().rpc('reorder_bank_details', {
+    p_ids: ids,
+    p_admin_id: admin.id,
+  });
+
+  if (error) {
+    if (error.code === '42501') return jsonError(error.message, 403);
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ success: true });
+}, { permission: 'bank_details.manage' });
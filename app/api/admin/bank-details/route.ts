@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickBankDetailFields, validateBankDetail } from '@/lib/bank-details';
+
+// Lists every account, including inactive ones, in checkout order
+export const GET = withAdmin(async () => {
+  const { data, error } = await getServiceClient()
+    .from('bank_details')
+    .select('*')
+    .order('sort_order')
+    .order('created_at');
+
+  if (error) {
+    return jsonError(error.message, 500);
+  }
+
+  return NextResponse.json({ accounts: data });
+}, { permission: 'bank_details.manage' });
+
+export const POST = withAdmin(async (request, admin) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickBankDetailFields(body);
+
+  const validationError = validateBankDetail(fields, true);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const client = getServiceClient();
+
+  // New accounts go to the bottom of the list
+  const { data: last } = await client
+    .from('bank_details')
+    .select('sort_order')
+    .order('sort_order', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await client
+    .from('bank_details')
+    .insert([{
+      ...fields,
+      sort_order: (last?.sort_order ?? 0) + 1,
+      created_by: admin.id,
+      updated_by: admin.id,
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ account: data }, { status: 201 });
+}, { permission: 'bank_details.manage' });
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickCampusLocationFields, validateCampusLocation } from '@/lib/campus-locations';
+
+type RouteContext = { params: { id: string } };
+
+export const PATCH = withAdmin<RouteContext>(async (request, _admin, { params }) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickCampusLocationFields(body);
+
+  const validationError = validateCampusLocation(fields, false);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('campus_locations')
+    .update(fields)
+    .eq('id', params.id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '23505') return jsonError('A location with this name already exists', 409);
+    return jsonError(error.message, 400);
+  }
+
+  if (!data) {
+    return jsonError('Location not found', 404);
+  }
+
+  return NextResponse.json({ location: data });
+}, { permission: 'delivery.manage' });
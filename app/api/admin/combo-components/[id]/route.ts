@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import {
+  pickComboComponentFields,
+  pickComboSwaps,
+  saveComboSwaps,
+  validateComboComponent,
+  validateComboSwaps,
+} from '@/lib/combos';
+
+type RouteContext = { params: { id: string } };
+
+// Updates the component; a swaps list, when sent, replaces the existing one
+export const PATCH = withAdmin<RouteContext>(async (request, _admin, { params }) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickComboComponentFields(body);
+  const swaps = pickComboSwaps(body);
+
+  const validationError = validateComboComponent(fields, false);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const client = getServiceClient();
+
+  // Check the swaps before changing anything, against the default item they'd sit beside
+  if (swaps) {
+    let defaultFoodItemId = fields.food_item_id;
+    if (!defaultFoodItemId) {
+      const { data: existing } = await client
+        .from('combo_components')
+        .select('food_item_id')
+        .eq('id', params.id)
+        .maybeSingle();
+      defaultFoodItemId = existing?.food_item_id;
+    }
+
+    const swapsError = validateComboSwaps(swaps, defaultFoodItemId);
+    if (swapsError) {
+      return jsonError(swapsError, 400);
+    }
+  }
+
+  const { data, error } = await client
+    .from('combo_components')
+    .update(fields)
+    .eq('id', params.id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '23505') return jsonError('This combo already has a component with this label', 409);
+    if (error.code === '23503') return jsonError('Menu item not found', 404);
+    return jsonError(error.message, 400);
+  }
+
+  if (!data) {
+    return jsonError('Combo component not found', 404);
+  }
+
+  if (swaps) {
+    const saveError = await saveComboSwaps(client, data.id, swaps);
+    if (saveError) {
+      return jsonError(saveError.message, 400);
+    }
+  }
+
+  return NextResponse.json({ component: data });
+}, { permission: 'menu.manage' });
+
+export const DELETE = withAdmin<RouteContext>(async (_request, _admin, { params }) => {
+  const { data, error } = await getServiceClient()
+    .from('combo_components')
+    .delete()
+    .eq('id', params.id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  if (!data) {
+    return jsonError('Combo component not found', 404);
+  }
+
+  return NextResponse.json({ component: data });
+}, { permission: 'menu.manage' });
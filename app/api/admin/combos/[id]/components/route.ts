@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import {
+  pickComboComponentFields,
+  pickComboSwaps,
+  saveComboSwaps,
+  validateComboComponent,
+  validateComboSwaps,
+} from '@/lib/combos';
+
+type RouteContext = { params: { id: string } };
+
+export const POST = withAdmin<RouteContext>(async (request, _admin, { params }) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickComboComponentFields(body);
+  const swaps = pickComboSwaps(body) ?? [];
+
+  const validationError =
+    validateComboComponent(fields, true) ?? validateComboSwaps(swaps, fields.food_item_id);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const client = getServiceClient();
+
+  // New components go to the end of the combo
+  const { data: last } = await client
+    .from('combo_components')
+    .select('sort_order')
+    .eq('combo_id', params.id)
+    .order('sort_order', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await client
+    .from('combo_components')
+    .insert([{ ...fields, combo_id: params.id, sort_order: fields.sort_order ?? (last?.sort_order ?? 0) + 1 }])
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') return jsonError('This combo already has a component with this label', 409);
+    if (error.code === '23503') return jsonError('Combo or menu item not found', 404);
+    return jsonError(error.message, 400);
+  }
+
+  const swapError = await saveComboSwaps(client, data.id, swaps);
+  if (swapError) {
+    return jsonError(swapError.message, 400);
+  }
+
+  return NextResponse.json({ component: data }, { status: 201 });
+}, { permission: 'menu.manage' });
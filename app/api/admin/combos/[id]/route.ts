@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { ADMIN_COMBO_SELECT, pickComboFields, validateCombo } from '@/lib/combos';
+
+type RouteContext = { params: { id: string } };
+
+export const PATCH = withAdmin<RouteContext>(async (request, _admin, { params }) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickComboFields(body);
+
+  const validationError = validateCombo(fields, false);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('combos')
+    .update(fields)
+    .eq('id', params.id)
+    .select(ADMIN_COMBO_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '23505') return jsonError('A combo with this name already exists', 409);
+    return jsonError(error.message, 400);
+  }
+
+  if (!data) {
+    return jsonError('Combo not found', 404);
+  }
+
+  return NextResponse.json({ combo: data });
+}, { permission: 'menu.manage' });
+
+// Past orders keep the combo's name and components
+export const DELETE = withAdmin<RouteContext>(async (_request, _admin, { params }) => {
+  const { data, error } = await getServiceClient()
+    .from('combos')
+    .delete()
+    .eq('id', params.id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  if (!data) {
+    return jsonError('Combo not found', 404);
+  }
+
+  return NextResponse.json({ combo: data });
+}, { permission: 'menu.manage' });
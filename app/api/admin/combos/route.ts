@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { ADMIN_COMBO_SELECT, pickComboFields, validateCombo } from '@/lib/combos';
+
+// Lists every combo, including hidden ones, with their components and swaps
+export const GET = withAdmin(async () => {
+  const { data, error } = await getServiceClient()
+    .from('combos')
+    .select(ADMIN_COMBO_SELECT)
+    .order('sort_order')
+    .order('name');
+
+  if (error) {
+    return jsonError(error.message, 500);
+  }
+
+  return NextResponse.json({ combos: data });
+}, { permission: 'menu.manage' });
+
+export const POST = withAdmin(async (request) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickComboFields(body);
+
+  const validationError = validateCombo(fields, true);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const client = getServiceClient();
+
+  // New combos go to the end of the menu's combo row
+  const { data: last } = await client
+    .from('combos')
+    .select('sort_order')
+    .order('sort_order', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await client
+    .from('combos')
+    .insert([{ ...fields, sort_order: fields.sort_order ?? (last?.sort_order ?? 0) + 1 }])
+    .select(ADMIN_COMBO_SELECT)
+    .single();
+
+  if (error) {
+    if (error.code === '23505') return jsonError('A combo with this name already exists', 409);
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ combo: data }, { status: 201 });
+}, { permission: 'menu.manage' });
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickDeliveryZoneFields, validateDeliveryZone } from '@/lib/delivery-zones';
+
+// Lists every zone, including inactive ones, in checkout order
+export const GET = withAdmin(async () => {
+  const { data, error } = await getServiceClient()
+    .from('delivery_zones')
+    .select('*')
+    .order('sort_order')
+    .order('name');
+
+  if (error) {
+    return jsonError(error.message, 500);
+  }
+
+  return NextResponse.json({ zones: data });
+}, { permission: 'delivery.manage' });
+
+export const POST = withAdmin(async (request) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickDeliveryZoneFields(body);
+
+  const validationError = validateDeliveryZone(fields, true);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const client = getServiceClient();
+
+  // New zones go to the bottom of the list
+  const { data: last } = await client
+    .from('delivery_zones')
+    .select('sort_order')
+    .order('sort_order', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await client
+    .from('delivery_zones')
+    .insert([{ ...fields, sort_order: fields.sort_order ?? (last?.sort_order ?? 0) + 1 }])
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') return jsonError('A zone with this name already exists', 409);
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ zone: data }, { status: 201 });
+}, { permission: 'delivery.manage' });
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickOptionGroupFields, validateOptionGroup } from '@/lib/food-options';
+
+type RouteContext = { params: { id: string } };
+
+// Lists the item's option groups with their options, including unavailable ones
+export const GET = withAdmin<RouteContext>(async (_request, _admin, { params }) => {
+  const { data, error } = await getServiceClient()
+    .from('food_option_groups')
+    .select('*, food_options(*)')
+    .eq('food_item_id', params.id)
+    .order('sort_order')
+    .order('name');
+
+  if (error) {
+    return jsonError(error.message, 500);
+  }
+
+  return NextResponse.json({ groups: data });
+}, { permission: 'menu.manage' });
+
+export const POST = withAdmin<RouteContext>(async (request, _admin, { params }) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickOptionGroupFields(body);
+
+  const validationError = validateOptionGroup(fields, true);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const client = getServiceClient();
+
+  // New groups go to the bottom of the picker
+  const { data: last } = await client
+    .from('food_option_groups')
+    .select('sort_order')
+    .eq('food_item_id', params.id)
+    .order('sort_order', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await client
+    .from('food_option_groups')
+    .insert([{ ...fields, food_item_id: params.id, sort_order: fields.sort_order ?? (last?.sort_order ?? 0) + 1 }])
+    .select('*, food_options(*)')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') return jsonError('This item already has a group with this name', 409);
+    if (error.code === '23503') return jsonError('Menu item not found', 404);
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ group: data }, { status: 201 });
+}, { permission: 'menu.manage' });
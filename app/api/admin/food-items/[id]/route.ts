@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickFoodItemFields, validateStockFields } from '@/lib/food-items';
+
+type RouteContext = { params: { id: string } };
+
+export const PATCH = withAdmin<RouteContext>(async (request, _admin, { params }) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickFoodItemFields(body);
+
+  const validationError = validateStockFields(fields);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('food_items')
+    .update(fields)
+    .eq('id', params.id)
+    .select()
+    .single();
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ item: data });
+}, { permission: 'menu.manage' });
+
+export const DELETE = withAdmin<RouteContext>(async (_request, _admin, { params }) => {
+  const { error } = await getServiceClient()
+    .from('food_items')
+    .delete()
+    .eq('id', params.id);
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ success: true });
+}, { permission: 'menu.manage' });
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+
+// Resets every item with a daily par to it now, e.g. when the scheduled restock isn't set up
+export const POST = withAdmin(async () => {
+  const { data, error } = await getServiceClient().rpc('restock_daily_par');
+
+  if (error) {
+    return jsonError(error.message, 500);
+  }
+
+  return NextResponse.json({ restocked: data });
+}, { permission: 'menu.manage' });
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickFoodItemFields, validateStockFields } from '@/lib/food-items';
+
+export const POST = withAdmin(async (request) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickFoodItemFields(body);
+
+  const validationError = validateStockFields(fields);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('food_items')
+    .insert([fields])
+    .select()
+    .single();
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ item: data }, { status: 201 });
+}, { permission: 'menu.manage' });
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickFoodOptionFields, validateFoodOption } from '@/lib/food-options';
+
+type RouteContext = { params: { id: string } };
+
+export const PATCH = withAdmin<RouteContext>(async (request, _admin, { params }) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickFoodOptionFields(body);
+
+  const validationError = validateFoodOption(fields, false);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('food_options')
+    .update(fields)
+    .eq('id', params.id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '23505') return jsonError('This group already has an option with this name', 409);
+    return jsonError(error.message, 400);
+  }
+
+  if (!data) {
+    return jsonError('Option not found', 404);
+  }
+
+  return NextResponse.json({ option: data });
+}, { permission: 'menu.manage' });
+
+export const DELETE = withAdmin<RouteContext>(async (_request, _admin, { params }) => {
+  const { data, error } = await getServiceClient()
+    .from('food_options')
+    .delete()
+    .eq('id', params.id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  if (!data) {
+    return jsonError('Option not found', 404);
+  }
+
+  return NextResponse.json({ option: data });
+}, { permission: 'menu.manage' });
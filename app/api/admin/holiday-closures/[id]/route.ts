@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+
+type RouteContext = { params: { id: string } };
+
+// Reopens a day; pre-orders become bookable for it again
+export const DELETE = withAdmin<RouteContext>(async (_request, _admin, { params }) => {
+  const { data, error } = await getServiceClient()
+    .from('holiday_closures')
+    .delete()
+    .eq('id', params.id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  if (!data) {
+    return jsonError('Closure not found', 404);
+  }
+
+  return NextResponse.json({ closure: data });
+}, { permission: 'schedule.manage' });
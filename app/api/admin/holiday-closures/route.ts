@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickHolidayClosureFields, validateHolidayClosure } from '@/lib/operating-hours';
+
+export const GET = withAdmin(async () => {
+  const { data, error } = await getServiceClient()
+    .from('holiday_closures')
+    .select('*')
+    .order('closed_on');
+
+  if (error) {
+    return jsonError(error.message, 500);
+  }
+
+  return NextResponse.json({ closures: data });
+}, { permission: 'schedule.manage' });
+
+export const POST = withAdmin(async (request, admin) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickHolidayClosureFields(body);
+
+  const validationError = validateHolidayClosure(fields);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('holiday_closures')
+    .insert([{ ...fields, created_by: admin.id }])
+    .select()
+    .single();
+
+  if (error?.code === '23505') {
+    return jsonError('That day is already closed', 409);
+  }
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ closure: data }, { status: 201 });
+}, { permission: 'schedule.manage' });
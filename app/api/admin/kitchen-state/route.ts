@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+
+export const GET = withAdmin(async () => {
+  const { data, error } = await getServiceClient()
+    .from('kitchen_state')
+    .select('is_paused, pause_reason, paused_at, paused_by, updated_at')
+    .eq('id', true)
+    .single();
+
+  if (error) {
+    return jsonError(error.message, 500);
+  }
+
+  return NextResponse.json({ state: data });
+}, { permission: 'kitchen.pause' });
+
+// Pauses or resumes ASAP orders; pre-orders for valid slots are still taken
+export const PATCH = withAdmin(async (request, admin) => {
+  const body = await request.json().catch(() => ({}));
+
+  if (typeof body.is_paused !== 'boolean') {
+    return jsonError('is_paused must be true or false', 400);
+  }
+
+  const pauseReason = typeof body.pause_reason === 'string' ? body.pause_reason.trim() : '';
+  if (pauseReason.length > 100) {
+    return jsonError('Reason must be 100 characters or fewer', 400);
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('kitchen_state')
+    .update(
+      body.is_paused
+        ? { is_paused: true, pause_reason: pauseReason || null, paused_at: new Date().toISOString(), paused_by: admin.id }
+        : { is_paused: false, pause_reason: null, paused_at: null, paused_by: null }
+    )
+    .eq('id', true)
+    .select('is_paused, pause_reason, paused_at, paused_by, updated_at')
+    .single();
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ state: data });
+}, { permission: 'kitchen.pause' });
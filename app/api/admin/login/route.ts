@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient, jsonError } from '@/lib/admin-auth';
+import { AdminRole } from '@/lib/supabase';
+import { ADMIN_SESSION_COOKIE, ADMIN_SESSION_TTL_SECONDS, createSessionToken } from '@/lib/admin-session';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json().catch(() => ({}));
+
+    if (typeof username !== 'string' || typeof password !== 'string' || !username.trim() || !password) {
+      return jsonError('Username and password are required', 400);
+    }
+
+    const supabase = getServiceClient();
+
+    const { data: matches, error } = await supabase.rpc('verify_admin_credentials', {
+      p_username: username.trim(),
+      p_password: password,
+    });
+
+    if (error?.hint === 'too_many_attempts') return jsonError(error.message, 429);
+    if (error) throw error;
+
+    const admin = (matches as { id: string; username: string; role: AdminRole }[] | null)?.[0];
+    if (!admin) {
+      return jsonError('Invalid username or password', 401);
+    }
+
+    const expiresAt = Date.now() + ADMIN_SESSION_TTL_SECONDS * 1000;
+
+    const { data: session, error: sessionError } = await supabase
+      .from('admin_sessions')
+      .insert({
+        admin_id: admin.id,
+        user_agent: request.headers.get('user-agent') || '',
+        expires_at: new Date(expiresAt).toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (sessionError) throw sessionError;
+
+    const response = NextResponse.json({
+      admin: { id: admin.id, username: admin.username, role: admin.role, session_id: session.id },
+    });
+
+    response.cookies.set(ADMIN_SESSION_COOKIE, await createSessionToken(session.id, expiresAt, 'admin'), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      path: '/',
+      maxAge: ADMIN_SESSION_TTL_SECONDS,
+    });
+
+    return response;
+  } catch (err) {
+    console.error('Error during admin login:', err);
+    return jsonError('Login failed. Please try again.', 500);
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/lib/admin-auth';
+import { ADMIN_SESSION_COOKIE, verifySessionToken } from '@/lib/admin-session';
+
+export async function POST(request: NextRequest) {
+  const token = await verifySessionToken(request.cookies.get(ADMIN_SESSION_COOKIE)?.value, 'admin');
+
+  if (token) {
+    const { error } = await getServiceClient()
+      .from('admin_sessions')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', token.sessionId);
+
+    if (error) {
+      console.error('Error revoking admin session:', error);
+    }
+  }
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(ADMIN_SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+
+// The latest ledger entries, optionally for one customer's session
+export const GET = withAdmin(async (request) => {
+  const sessionId = request.nextUrl.searchParams.get('session_id');
+
+  let query = getServiceClient()
+    .from('loyalty_ledger')
+    .select('*, orders(tracking_id, customer_name, customer_phone), customers(phone, display_name)')
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (sessionId) {
+    query = query.eq('session_id', sessionId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return jsonError(error.message, 500);
+  }
+
+  return NextResponse.json({ entries: data });
+}, { permission: 'loyalty.manage' });
+
+// Adds or removes rewards by hand; the customer is found by phone number or tracking ID
+export const POST = withAdmin(async (request, admin) => {
+  const { lookup, amount, note } = await request.json().catch(() => ({}));
+
+  if (typeof lookup !== 'string' || !lookup.trim()) {
+    return jsonError('Enter a phone number or tracking ID', 400);
+  }
+
+  if (!Number.isInteger(amount) || amount === 0) {
+    return jsonError('Amount must be a whole number other than zero', 400);
+  }
+
+  if (typeof note !== 'string' || !note.trim()) {
+    return jsonError('Add a note explaining the adjustment', 400);
+  }
+
+  const { data, error } = await getServiceClient().rpc('adjust_loyalty_balance', {
+    p_lookup: lookup.trim(),
+    p_amount: amount,
+    p_note: note.trim(),
+    p_admin_id: admin.id,
+  });
+
+  if (error) {
+    if (error.code === 'P0002') return jsonError(error.message, 404);
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ entry: data }, { status: 201 });
+}, { permission: 'loyalty.manage' });
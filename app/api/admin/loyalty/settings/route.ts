@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickLoyaltySettingsFields, validateLoyaltySettings } from '@/lib/loyalty';
+
+const SETTINGS_SELECT =
+  'is_active, mode, naira_per_point, point_value, min_redeem_points, stamps_required, stamp_min_subtotal, updated_at';
+
+export const GET = withAdmin(async () => {
+  const { data, error } = await getServiceClient()
+    .from('loyalty_settings')
+    .select(SETTINGS_SELECT)
+    .eq('id', true)
+    .single();
+
+  if (error) {
+    return jsonError(error.message, 500);
+  }
+
+  return NextResponse.json({ settings: data });
+}, { permission: 'loyalty.manage' });
+
+// Changes apply to orders delivered from now on; existing balances are kept
+export const PATCH = withAdmin(async (request, admin) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickLoyaltySettingsFields(body);
+
+  const validationError = validateLoyaltySettings(fields);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('loyalty_settings')
+    .update({ ...fields, updated_by: admin.id })
+    .eq('id', true)
+    .select(SETTINGS_SELECT)
+    .single();
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ settings: data });
+}, { permission: 'loyalty.manage' });
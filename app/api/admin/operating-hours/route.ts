@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickOperatingHoursFields, validateOperatingHours } from '@/lib/operating-hours';
+
+export const GET = withAdmin(async () => {
+  const { data, error } = await getServiceClient()
+    .from('operating_hours')
+    .select('*')
+    .order('day_of_week');
+
+  if (error) {
+    return jsonError(error.message, 500);
+  }
+
+  return NextResponse.json({ hours: data });
+}, { permission: 'schedule.manage' });
+
+// Saves the whole week at once so the form can't leave it half-updated
+export const PUT = withAdmin(async (request, admin) => {
+  const body = await request.json().catch(() => ({}));
+
+  if (!Array.isArray(body.hours) || body.hours.length === 0) {
+    return jsonError('Hours are required', 400);
+  }
+
+  const rows = body.hours.map((day: Record<string, unknown>) => pickOperatingHoursFields(day));
+
+  for (const row of rows) {
+    const validationError = validateOperatingHours(row);
+    if (validationError) {
+      return jsonError(validationError, 400);
+    }
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('operating_hours')
+    .upsert(rows.map((row: object) => ({ ...row, updated_by: admin.id })), { onConflict: 'day_of_week' })
+    .select()
+    .order('day_of_week');
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ hours: data });
+}, { permission: 'schedule.manage' });
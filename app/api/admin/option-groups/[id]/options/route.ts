@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickFoodOptionFields, validateFoodOption } from '@/lib/food-options';
+
+type RouteContext = { params: { id: string } };
+
+export const POST = withAdmin<RouteContext>(async (request, _admin, { params }) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickFoodOptionFields(body);
+
+  const validationError = validateFoodOption(fields, true);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const client = getServiceClient();
+
+  // New options go to the bottom of their group
+  const { data: last } = await client
+    .from('food_options')
+    .select('sort_order')
+    .eq('group_id', params.id)
+    .order('sort_order', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await client
+    .from('food_options')
+    .insert([{ ...fields, group_id: params.id, sort_order: fields.sort_order ?? (last?.sort_order ?? 0) + 1 }])
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') return jsonError('This group already has an option with this name', 409);
+    if (error.code === '23503') return jsonError('Option group not found', 404);
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ option: data }, { status: 201 });
+}, { permission: 'menu.manage' });
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickOptionGroupFields, validateOptionGroup } from '@/lib/food-options';
+
+type RouteContext = { params: { id: string } };
+
+export const PATCH = withAdmin<RouteContext>(async (request, _admin, { params }) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickOptionGroupFields(body);
+
+  const validationError = validateOptionGroup(fields, false);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('food_option_groups')
+    .update(fields)
+    .eq('id', params.id)
+    .select('*, food_options(*)')
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '23505') return jsonError('This item already has a group with this name', 409);
+    return jsonError(error.message, 400);
+  }
+
+  if (!data) {
+    return jsonError('Option group not found', 404);
+  }
+
+  return NextResponse.json({ group: data });
+}, { permission: 'menu.manage' });
+
+// Removes the group and its options; past orders keep their option snapshot
+export const DELETE = withAdmin<RouteContext>(async (_request, _admin, { params }) => {
+  const { data, error } = await getServiceClient()
+    .from('food_option_groups')
+    .delete()
+    .eq('id', params.id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  if (!data) {
+    return jsonError('Option group not found', 404);
+  }
+
+  return NextResponse.json({ group: data });
+}, { permission: 'menu.manage' });
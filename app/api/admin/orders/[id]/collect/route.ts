@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { canSetOrderStatus } from '@/lib/admin-roles';
+
+// Hands a pickup order over once the customer's pickup code checks out
+export const POST = withAdmin<{ params: { id: string } }>(async (request, admin, { params }) => {
+  const { code } = await request.json().catch(() => ({}));
+
+  if (typeof code !== 'string' || !/^\d{4}$/.test(code.trim())) {
+    return jsonError('Enter the 4-digit pickup code', 400);
+  }
+
+  if (!canSetOrderStatus(admin.role, 'delivered', 'pickup')) {
+    return jsonError('Your role cannot hand over pickup orders', 403);
+  }
+
+  const { data, error } = await getServiceClient().rpc('collect_pickup_order', {
+    p_order_id: params.id,
+    p_code: code.trim(),
+    p_admin_id: admin.id,
+  });
+
+  if (error) {
+    if (error.code === '42501') return jsonError(error.message, 403);
+    if (error.code === 'P0002') return jsonError(error.message, 404);
+    if (error.hint === 'invalid_pickup_code') return jsonError(error.message, 422);
+    if (error.hint === 'illegal_transition') return jsonError(error.message, 409);
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ order: data });
+});
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+
+const PAYMENT_ACTIONS = {
+  confirm: 'confirm_payment',
+  reject: 'reject_payment',
+} as const;
+
+export const POST = withAdmin<{ params: { id: string } }>(async (request, admin, { params }) => {
+  const { action, note } = await request.json().catch(() => ({}));
+
+  if (!(action in PAYMENT_ACTIONS)) {
+    return jsonError('Action must be confirm or reject', 400);
+  }
+
+  if (note !== undefined && note !== null && typeof note !== 'string') {
+    return jsonError('Note must be text', 400);
+  }
+
+  const { data, error } = await getServiceClient().rpc(PAYMENT_ACTIONS[action as keyof typeof PAYMENT_ACTIONS], {
+    p_order_id: params.id,
+    p_admin_id: admin.id,
+    p_note: note ?? null,
+  });
+
+  if (error) {
+    if (error.code === '42501') return jsonError(error.message, 403);
+    if (error.code === 'P0002') return jsonError(error.message, 404);
+    return jsonError(error.message, 409);
+  }
+
+  return NextResponse.json({ payment: data });
+}, { permission: 'payments.confirm' });
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { validateRefundRequest } from '@/lib/refunds';
+
+type RouteContext = { params: { id: string } };
+
+// Refunds already issued on the order, newest first, with the items they covered
+export const GET = withAdmin<RouteContext>(async (_request, _admin, { params }) => {
+  const { data, error } = await getServiceClient()
+    .from('order_refunds')
+    .select('*, order_refund_items(*), admin_credentials(username)')
+    .eq('order_id', params.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return jsonError(error.message, 500);
+  }
+
+  return NextResponse.json({ refunds: data });
+}, { permission: 'payments.view' });
+
+// Refunds the whole remaining amount, or the given items when items is set
+export const POST = withAdmin<RouteContext>(async (request, admin, { params }) => {
+  const { reason, items, destination } = await request.json().catch(() => ({}));
+
+  const validationError = validateRefundRequest(reason, items, destination);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const { data, error } = await getServiceClient().rpc('issue_order_refund', {
+    p_order_id: params.id,
+    p_admin_id: admin.id,
+    p_reason: reason.trim(),
+    p_items: items ?? null,
+    p_destination: destination ?? null,
+  });
+
+  if (error) {
+    if (error.code === '42501') return jsonError(error.message, 403);
+    if (error.code === 'P0002') return jsonError(error.message, 404);
+    return jsonError(error.message, 409);
+  }
+
+  return NextResponse.json({ refund: data });
+}, { permission: 'payments.confirm' });
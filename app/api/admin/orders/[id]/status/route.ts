@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { canSetOrderStatus } from '@/lib/admin-roles';
+import { isOrderStatus } from '@/lib/order-status';
+
+export const PATCH = withAdmin<{ params: { id: string } }>(async (request, admin, { params }) => {
+  const { status, note } = await request.json().catch(() => ({}));
+
+  if (!isOrderStatus(status)) {
+    return jsonError('Invalid order status', 400);
+  }
+
+  if (note !== undefined && typeof note !== 'string') {
+    return jsonError('Note must be text', 400);
+  }
+
+  if (!canSetOrderStatus(admin.role, status)) {
+    return jsonError(`Your role cannot set orders to ${status.replace(/_/g, ' ')}`, 403);
+  }
+
+  // The database checks the transition against the order's current status
+  const { data, error } = await getServiceClient().rpc('transition_order_status', {
+    p_order_id: params.id,
+    p_new_status: status,
+    p_admin_id: admin.id,
+    p_note: note ?? null,
+  });
+
+  if (error) {
+    if (error.code === '42501') return jsonError(error.message, 403);
+    if (error.code === 'P0002') return jsonError(error.message, 404);
+    if (error.hint === 'illegal_transition' || error.hint === 'pickup_code_required') {
+      return jsonError(error.message, 409);
+    }
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ order: data });
+});
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+
+const PAYMENT_STATUSES = ['pending', 'processing', 'completed', 'failed', 'refunded'];
+const PAYMENT_METHODS = ['bank_transfer', 'cash_on_delivery', 'card_payment', 'wallet'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Lists payment_history with the order it pays for and the cashier audit trail.
+// Filters: status, method, bank_account, from, to (YYYY-MM-DD, inclusive)
+export const GET = withAdmin(async (request) => {
+  const params = request.nextUrl.searchParams;
+  const status = params.get('status');
+  const method = params.get('method');
+  const bankAccount = params.get('bank_account');
+  const from = params.get('from');
+  const to = params.get('to');
+
+  if (status && !PAYMENT_STATUSES.includes(status)) return jsonError('Unknown payment status', 400);
+  if (method && !PAYMENT_METHODS.includes(method)) return jsonError('Unknown payment method', 400);
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return jsonError('Dates must be in YYYY-MM-DD format', 400);
+  }
+
+  const client = getServiceClient();
+
+  // Days are kitchen-local, as in the refunds report
+  let range: { start: string | null; end: string | null } = { start: null, end: null };
+  if (from || to) {
+    const { data, error } = await client.rpc('kitchen_day_range', { p_from: from, p_to: to });
+    if (error) return jsonError(error.message, 500);
+    range = data;
+  }
+
+  let query = client
+    .from('payment_history')
+    .select(`
+      *,
+      orders!inner (
+        id,
+        tracking_id,
+        total_amount,
+        status,
+        payment_status,
+        payment_bank_detail_id,
+        transfer_sender_name,
+        payment_account:bank_details ( id, bank_name, account_number )
+      )
+    `)
+    .order('created_at', { ascending: false })
+    .limit(200);
+
+  if (status) query = query.eq('status', status);
+  if (method) query = query.eq('payment_method', method);
+  if (bankAccount) query = query.eq('orders.payment_bank_detail_id', bankAccount);
+  if (range.start) query = query.gte('created_at', range.start);
+  if (range.end) query = query.lt('created_at', range.end);
+
+  const { data: payments, error } = await query;
+  if (error) return jsonError(error.message, 500);
+
+  const orderIds = Array.from(new Set((payments ?? []).map((payment) => payment.order_id)));
+
+  const [{ data: confirmations, error: confirmationsError }, { data: bankAccounts, error: bankAccountsError }] =
+    await Promise.all([
+      orderIds.length > 0
+        ? client
+            .from('payment_confirmation_history')
+            .select('*, admin_credentials ( username )')
+            .in('order_id', orderIds)
+            .order('created_at', { ascending: true })
+        : Promise.resolve({ data: [], error: null }),
+      client.from('bank_details').select('id, bank_name, account_number, is_active').order('sort_order'),
+    ]);
+
+  if (confirmationsError) return jsonError(confirmationsError.message, 500);
+  if (bankAccountsError) return jsonError(bankAccountsError.message, 500);
+
+  return NextResponse.json({
+    payments: (payments ?? []).map(({ orders, ...payment }) => ({
+      ...payment,
+      order: orders,
+      // Refunds are negative entries and never match the order total
+      amount_mismatch: Number(payment.amount) > 0 && Number(payment.amount) !== Number(orders.total_amount),
+      confirmations: (confirmations ?? []).filter((entry) => entry.order_id === payment.order_id),
+    })),
+    bank_accounts: bankAccounts ?? [],
+  });
+}, { permission: 'payments.view' });
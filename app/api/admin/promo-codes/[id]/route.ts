@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickPromoCodeFields, validatePromoCode } from '@/lib/promotions';
+
+type RouteContext = { params: { id: string } };
+
+// Codes that have been used are kept for reporting; owners switch them off instead of deleting
+export const PATCH = withAdmin<RouteContext>(async (request, _admin, { params }) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickPromoCodeFields(body);
+  const client = getServiceClient();
+
+  const { data: existing, error: fetchError } = await client
+    .from('promo_codes')
+    .select('*')
+    .eq('id', params.id)
+    .maybeSingle();
+
+  if (fetchError) {
+    return jsonError(fetchError.message, 500);
+  }
+
+  if (!existing) {
+    return jsonError('Promo code not found', 404);
+  }
+
+  // The rule fields depend on the discount type, so check the code as it will be saved
+  const validationError = validatePromoCode({ ...existing, ...fields }, false);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const { data, error } = await client
+    .from('promo_codes')
+    .update(fields)
+    .eq('id', params.id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '23505') return jsonError('A promo code with this code already exists', 409);
+    return jsonError(error.message, 400);
+  }
+
+  if (!data) {
+    return jsonError('Promo code not found', 404);
+  }
+
+  return NextResponse.json({ promo_code: data });
+}, { permission: 'promotions.manage' });
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickPromoCodeFields, validatePromoCode } from '@/lib/promotions';
+
+interface RedemptionRow {
+  discount_amount: number;
+  orders: { status: string; total_amount: number } | null;
+}
+
+// Lists every code, newest first, with how often it has been used and what it cost.
+// Cancelled orders don't count towards uses, discounts or revenue.
+export const GET = withAdmin(async () => {
+  const { data, error } = await getServiceClient()
+    .from('promo_codes')
+    .select('*, promo_redemptions(discount_amount, orders(status, total_amount))')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return jsonError(error.message, 500);
+  }
+
+  const promoCodes = (data ?? []).map(({ promo_redemptions, ...promo }) => {
+    const redemptions = ((promo_redemptions ?? []) as RedemptionRow[]).filter(
+      (redemption) => redemption.orders && redemption.orders.status !== 'cancelled'
+    );
+
+    return {
+      ...promo,
+      usage: {
+        redemptions: redemptions.length,
+        discount_total: redemptions.reduce((total, redemption) => total + Number(redemption.discount_amount), 0),
+        revenue_total: redemptions.reduce((total, redemption) => total + Number(redemption.orders?.total_amount ?? 0), 0),
+      },
+    };
+  });
+
+  return NextResponse.json({ promo_codes: promoCodes });
+}, { permission: 'promotions.manage' });
+
+export const POST = withAdmin(async (request, admin) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickPromoCodeFields(body);
+
+  const validationError = validatePromoCode(fields, true);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('promo_codes')
+    .insert([{ ...fields, created_by: admin.id }])
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') return jsonError('A promo code with this code already exists', 409);
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ promo_code: data }, { status: 201 });
+}, { permission: 'promotions.manage' });
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickReferralSettingsFields, validateReferralSettings } from '@/lib/referrals';
+
+const SETTINGS_SELECT = 'is_active, referrer_credit, referee_credit, updated_at';
+
+// The programme settings and the customers who have referred the most
+export const GET = withAdmin(async () => {
+  const client = getServiceClient();
+
+  const [{ data: settings, error: settingsError }, { data: referrers, error: referrersError }] = await Promise.all([
+    client.from('referral_settings').select(SETTINGS_SELECT).eq('id', true).single(),
+    client.rpc('top_referrers', { p_limit: 50 }),
+  ]);
+
+  if (settingsError) {
+    return jsonError(settingsError.message, 500);
+  }
+
+  if (referrersError) {
+    return jsonError(referrersError.message, 500);
+  }
+
+  return NextResponse.json({ settings, referrers });
+}, { permission: 'promotions.manage' });
+
+// Changes apply to orders placed from now on; pending referrals keep their credits
+export const PATCH = withAdmin(async (request, admin) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickReferralSettingsFields(body);
+
+  const validationError = validateReferralSettings(fields);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('referral_settings')
+    .update({ ...fields, updated_by: admin.id })
+    .eq('id', true)
+    .select(SETTINGS_SELECT)
+    .single();
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ settings: data });
+}, { permission: 'promotions.manage' });
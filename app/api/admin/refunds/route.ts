@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Refunds issued per kitchen-local day, plus the individual refunds on those
+// days. from and to are YYYY-MM-DD, inclusive, and both required.
+export const GET = withAdmin(async (request) => {
+  const params = request.nextUrl.searchParams;
+  const from = params.get('from');
+  const to = params.get('to');
+
+  if (!from || !to || !DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+    return jsonError('Dates must be in YYYY-MM-DD format', 400);
+  }
+  if (from > to) {
+    return jsonError('The start date must be before the end date', 400);
+  }
+
+  const client = getServiceClient();
+
+  // Both group by kitchen-local day, so the list matches the daily totals
+  const [{ data: days, error: daysError }, { data: refunds, error: refundsError }] = await Promise.all([
+    client.rpc('refunds_by_day', { p_from: from, p_to: to }),
+    client.rpc('refunds_in_range', { p_from: from, p_to: to }),
+  ]);
+
+  if (daysError) return jsonError(daysError.message, 500);
+  if (refundsError) return jsonError(refundsError.message, 500);
+
+  return NextResponse.json({ days, refunds });
+}, { permission: 'payments.view' });
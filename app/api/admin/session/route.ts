@@ -0,0 +1,6 @@
+import { NextResponse } from 'next/server';
+import { withAdmin } from '@/lib/admin-auth';
+
+export const GET = withAdmin(async (_request, admin) => {
+  return NextResponse.json({ admin });
+});
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickTimeSlotFields, validateTimeSlot } from '@/lib/time-slots';
+
+type RouteContext = { params: { id: string } };
+
+// Changes apply to future bookings; orders already placed keep their time
+export const PATCH = withAdmin<RouteContext>(async (request, _admin, { params }) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickTimeSlotFields(body);
+
+  const validationError = validateTimeSlot(fields, false);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('order_time_slots')
+    .update(fields)
+    .eq('id', params.id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  if (!data) {
+    return jsonError('Time slot not found', 404);
+  }
+
+  return NextResponse.json({ slot: data });
+}, { permission: 'schedule.manage' });
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+import { pickTimeSlotFields, validateTimeSlot } from '@/lib/time-slots';
+
+// Lists every slot, including inactive ones, in the order of the day
+export const GET = withAdmin(async () => {
+  const { data, error } = await getServiceClient()
+    .from('order_time_slots')
+    .select('*')
+    .order('start_time')
+    .order('label');
+
+  if (error) {
+    return jsonError(error.message, 500);
+  }
+
+  return NextResponse.json({ slots: data });
+}, { permission: 'schedule.manage' });
+
+export const POST = withAdmin(async (request) => {
+  const body = await request.json().catch(() => ({}));
+  const fields = pickTimeSlotFields(body);
+
+  const validationError = validateTimeSlot(fields, true);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('order_time_slots')
+    .insert([fields])
+    .select()
+    .single();
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ slot: data }, { status: 201 });
+}, { permission: 'schedule.manage' });
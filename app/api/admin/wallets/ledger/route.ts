@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+
+// The latest wallet ledger entries, optionally for one customer
+export const GET = withAdmin(async (request) => {
+  const customerId = request.nextUrl.searchParams.get('customer_id');
+
+  let query = getServiceClient()
+    .from('wallet_ledger')
+    .select('*, orders(tracking_id), wallet_topups(reference), customers(phone, display_name), admin_credentials(username)')
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (customerId) {
+    query = query.eq('customer_id', customerId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return jsonError(error.message, 500);
+  }
+
+  return NextResponse.json({ entries: data });
+}, { permission: 'payments.view' });
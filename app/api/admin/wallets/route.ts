@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, jsonError, withAdmin } from '@/lib/admin-auth';
+
+// Every wallet's balance, and the top-ups customers have started or reported
+// that haven't been confirmed yet
+export const GET = withAdmin(async () => {
+  const client = getServiceClient();
+
+  const [{ data: wallets, error: walletsError }, { data: topups, error: topupsError }] = await Promise.all([
+    client.rpc('wallet_balances'),
+    client
+      .from('wallet_topups')
+      .select('*, customers ( phone, display_name ), bank_details ( bank_name, account_number )')
+      .in('status', ['pending', 'processing', 'failed'])
+      .order('created_at', { ascending: false })
+      .limit(100),
+  ]);
+
+  if (walletsError) {
+    return jsonError(walletsError.message, 500);
+  }
+
+  if (topupsError) {
+    return jsonError(topupsError.message, 500);
+  }
+
+  return NextResponse.json({ wallets, topups });
+}, { permission: 'payments.view' });
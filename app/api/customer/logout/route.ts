@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/lib/admin-auth';
+import { verifySessionToken } from '@/lib/admin-session';
+import { CUSTOMER_SESSION_COOKIE, getCustomerSession } from '@/lib/customer-auth';
+
+// Signs this device out and moves the account to a new session id, so the id
+// this browser held no longer reads the account's orders
+export async function POST(request: NextRequest) {
+  const token = await verifySessionToken(request.cookies.get(CUSTOMER_SESSION_COOKIE)?.value, 'customer');
+
+  if (token) {
+    const supabase = getServiceClient();
+    const customer = await getCustomerSession(request);
+
+    if (customer) {
+      const { error } = await supabase.rpc('rotate_customer_session_id', { p_customer_id: customer.id });
+
+      if (error) {
+        console.error('Error rotating customer session id:', error);
+      }
+    }
+
+    const { error } = await supabase
+      .from('customer_sessions')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', token.sessionId);
+
+    if (error) {
+      console.error('Error revoking customer session:', error);
+    }
+  }
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(CUSTOMER_SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient, jsonError } from '@/lib/admin-auth';
+import { getSmsSender } from '@/lib/sms';
+
+// Sends a sign-in code to the given phone number
+export async function POST(request: NextRequest) {
+  const { phone } = await request.json().catch(() => ({}));
+
+  if (typeof phone !== 'string' || !phone.trim()) {
+    return jsonError('Phone number is required', 400);
+  }
+
+  try {
+    const sender = getSmsSender();
+
+    const { data, error } = await getServiceClient().rpc('issue_customer_otp', { p_phone: phone });
+
+    if (error) {
+      if (error.hint === 'invalid_phone') return jsonError(error.message, 400);
+      if (error.hint === 'otp_rate_limited') return jsonError(error.message, 429);
+      throw error;
+    }
+
+    const otp = data as { phone: string; code: string };
+    await sender.send(otp.phone, `Your FPI Food Hub code is ${otp.code}. It expires in 10 minutes.`);
+
+    return NextResponse.json({
+      phone: otp.phone,
+      // Lets developers sign in without reading server logs
+      dev_code: sender.name === 'stub' ? otp.code : undefined,
+    });
+  } catch (err) {
+    console.error('Error sending sign-in code:', err);
+    return jsonError('Could not send the code. Please try again.', 500);
+  }
+}
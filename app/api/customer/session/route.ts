@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient, jsonError } from '@/lib/admin-auth';
+import { getCustomerSession } from '@/lib/customer-auth';
+
+export async function GET(request: NextRequest) {
+  const customer = await getCustomerSession(request);
+  if (!customer) {
+    return jsonError('Not signed in', 401);
+  }
+
+  return NextResponse.json({ customer });
+}
+
+// Updates the signed-in customer's profile
+export async function PATCH(request: NextRequest) {
+  const customer = await getCustomerSession(request);
+  if (!customer) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const { display_name } = await request.json().catch(() => ({}));
+
+  if (typeof display_name !== 'string' || display_name.trim().length > 100) {
+    return jsonError('Name must be text of at most 100 characters', 400);
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('customers')
+    .update({ display_name: display_name.trim() || null })
+    .eq('id', customer.id)
+    .select('id, phone, display_name, session_id')
+    .single();
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ customer: data });
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient, jsonError } from '@/lib/admin-auth';
+import { createSessionToken } from '@/lib/admin-session';
+import { CUSTOMER_SESSION_COOKIE, CUSTOMER_SESSION_TTL_SECONDS } from '@/lib/customer-auth';
+import { Customer } from '@/lib/supabase';
+
+// Checks a sign-in code and merges this device's anonymous orders into the account
+export async function POST(request: NextRequest) {
+  const { phone, code, session_id } = await request.json().catch(() => ({}));
+
+  if (typeof phone !== 'string' || typeof code !== 'string' || !/^\d{6}$/.test(code)) {
+    return jsonError('Enter the 6-digit code we sent you', 400);
+  }
+
+  try {
+    const supabase = getServiceClient();
+
+    const { data, error } = await supabase.rpc('verify_customer_otp', {
+      p_phone: phone,
+      p_code: code,
+      p_session_id: typeof session_id === 'string' && session_id ? session_id : null,
+    });
+
+    if (error) {
+      if (error.hint === 'otp_expired') return jsonError(error.message, 410);
+      throw error;
+    }
+
+    const result = data as { verified: boolean; attempts_left?: number; merged_orders?: number; customer?: Customer };
+    if (!result.verified || !result.customer) {
+      return jsonError('That code is not correct', 401, { attempts_left: result.attempts_left });
+    }
+
+    const expiresAt = Date.now() + CUSTOMER_SESSION_TTL_SECONDS * 1000;
+
+    const { data: session, error: sessionError } = await supabase
+      .from('customer_sessions')
+      .insert({
+        customer_id: result.customer.id,
+        user_agent: request.headers.get('user-agent') || '',
+        expires_at: new Date(expiresAt).toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (sessionError) throw sessionError;
+
+    const response = NextResponse.json({ customer: result.customer, merged_orders: result.merged_orders ?? 0 });
+
+    response.cookies.set(CUSTOMER_SESSION_COOKIE, await createSessionToken(session.id, expiresAt, 'customer'), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: CUSTOMER_SESSION_TTL_SECONDS,
+    });
+
+    return response;
+  } catch (err) {
+    console.error('Error verifying sign-in code:', err);
+    return jsonError('Sign in failed. Please try again.', 500);
+  }
+}
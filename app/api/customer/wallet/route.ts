@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient, jsonError } from '@/lib/admin-auth';
+import { getCustomerSession } from '@/lib/customer-auth';
+
+// The signed-in customer's balance, latest entries and top-ups. Wallets belong
+// to accounts, so guests get an empty one.
+export async function GET(request: NextRequest) {
+  const customer = await getCustomerSession(request);
+  if (!customer) {
+    return NextResponse.json({ wallet: { has_account: false, balance: 0, entries: [], topups: [] } });
+  }
+
+  const { data, error } = await getServiceClient().rpc('get_wallet_status', { p_customer_id: customer.id });
+
+  if (error) {
+    return jsonError(error.message, 500);
+  }
+
+  return NextResponse.json({ wallet: data });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient, jsonError } from '@/lib/admin-auth';
+import { getCustomerSession } from '@/lib/customer-auth';
+
+// Reports the bank transfer for one of the signed-in customer's top-ups
+export async function POST(request: NextRequest) {
+  const customer = await getCustomerSession(request);
+  if (!customer) {
+    return jsonError('Sign in to use a wallet', 401);
+  }
+
+  const { reference, bank_detail_id, sender_name } = await request.json().catch(() => ({}));
+
+  if (typeof reference !== 'string' || typeof bank_detail_id !== 'string') {
+    return jsonError('reference and bank_detail_id are required', 400);
+  }
+
+  const { data, error } = await getServiceClient().rpc('mark_wallet_topup_paid', {
+    p_customer_id: customer.id,
+    p_reference: reference,
+    p_bank_detail_id: bank_detail_id,
+    p_sender_name: typeof sender_name === 'string' ? sender_name : null,
+  });
+
+  if (error) {
+    if (error.code === 'P0002') return jsonError(error.message, 404);
+    return jsonError(error.message, 409);
+  }
+
+  return NextResponse.json({ topup: data });
+}
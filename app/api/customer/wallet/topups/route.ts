@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient, jsonError } from '@/lib/admin-auth';
+import { getCustomerSession } from '@/lib/customer-auth';
+
+// Starts a top-up for the signed-in customer, replacing any unreported one
+export async function POST(request: NextRequest) {
+  const customer = await getCustomerSession(request);
+  if (!customer) {
+    return jsonError('Sign in to use a wallet', 401);
+  }
+
+  const { amount } = await request.json().catch(() => ({}));
+
+  if (typeof amount !== 'number') {
+    return jsonError('amount is required', 400);
+  }
+
+  const { data, error } = await getServiceClient().rpc('request_wallet_topup', {
+    p_customer_id: customer.id,
+    p_amount: amount,
+  });
+
+  if (error) {
+    return jsonError(error.message, 400);
+  }
+
+  return NextResponse.json({ topup: data });
+}
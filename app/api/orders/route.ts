@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient, jsonError } from '@/lib/admin-auth';
+import { getClientKey, getCustomerSession } from '@/lib/customer-auth';
+
+// Places an order. Prices, discounts and stock are worked out by
+// create_order_with_items; this route decides who the order belongs to. A
+// signed-in customer's orders go to their account's session, and only they
+// can pay from their wallet.
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+
+  if (
+    !body ||
+    typeof body.tracking_id !== 'string' ||
+    typeof body.session_id !== 'string' ||
+    !Array.isArray(body.order_items)
+  ) {
+    return jsonError('tracking_id, session_id and order_items are required', 400);
+  }
+
+  const supabase = getServiceClient();
+  const customer = await getCustomerSession(request);
+  const clientKey = getClientKey(request, customer);
+
+  const { data, error } = await supabase.rpc('create_order_with_items', {
+    p_session_id: customer?.session_id ?? body.session_id,
+    p_tracking_id: body.tracking_id,
+    p_order_items: body.order_items,
+    p_customer_note: body.customer_note ?? '',
+    p_expected_total: body.expected_total ?? null,
+    p_customer_phone: body.customer_phone ?? null,
+    p_customer_name: body.customer_name ?? null,
+    p_delivery_location_id: body.delivery_location_id ?? null,
+    p_delivery_room: body.delivery_room ?? null,
+    p_delivery_zone_id: body.delivery_zone_id ?? null,
+    p_fulfilment_mode: body.fulfilment_mode ?? 'delivery',
+    p_time_slot_id: body.time_slot_id ?? null,
+    p_scheduled_for: body.scheduled_for ?? null,
+    p_promo_code: body.promo_code ?? null,
+    p_redeem_loyalty: body.redeem_loyalty === true,
+    p_referral_code: body.referral_code ?? null,
+    p_pay_with_wallet: body.pay_with_wallet === true,
+    p_customer_id: customer?.id ?? null,
+    p_client_key: clientKey,
+  });
+
+  if (error) {
+    if (error.hint === 'too_many_attempts') return jsonError(error.message, 429, { hint: error.hint });
+
+    // The order rolled back, so an unknown code is counted separately
+    if (error.hint === 'promo_invalid' && typeof body.promo_code === 'string') {
+      const { error: guessError } = await supabase.rpc('record_promo_code_guess', {
+        p_client_key: clientKey,
+        p_code: body.promo_code,
+      });
+
+      if (guessError) {
+        console.error('Error recording promo code attempt:', guessError);
+      }
+    }
+
+    return jsonError(error.message, 409, { hint: error.hint, details: error.details });
+  }
+
+  return NextResponse.json({ order: data });
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import { getServiceClient, jsonError } from '@/lib/admin-auth';
+import { getPaymentProvider, recordPaymentResult } from '@/lib/payment-gateway';
+
+// Starts an online payment for an order placed from the caller's session.
+// The amount is read from the order, never from the request.
+export async function POST(request: NextRequest) {
+  const { tracking_id, session_id, email } = await request.json().catch(() => ({}));
+
+  if (typeof tracking_id !== 'string' || typeof session_id !== 'string') {
+    return jsonError('tracking_id and session_id are required', 400);
+  }
+
+  try {
+    const provider = getPaymentProvider();
+    const reference = `PAY-${tracking_id}-${randomBytes(3).toString('hex').toUpperCase()}`;
+
+    const { data, error } = await getServiceClient().rpc('start_online_payment', {
+      p_tracking_id: tracking_id,
+      p_session_id: session_id,
+      p_reference: reference,
+      p_provider: provider.name,
+    });
+
+    if (error) {
+      if (error.code === 'P0002') return jsonError(error.message, 404);
+      return jsonError(error.message, 409, error.hint);
+    }
+
+    const payment = data as { amount: number; tracking_id: string };
+
+    try {
+      const result = await provider.initialize({
+        reference,
+        amount: Number(payment.amount),
+        email: typeof email === 'string' && email ? email : undefined,
+        callbackUrl: `${request.nextUrl.origin}/order-success?tracking=${encodeURIComponent(tracking_id)}`,
+        metadata: { tracking_id },
+      });
+
+      return NextResponse.json({ reference: result.reference, authorization_url: result.authorizationUrl });
+    } catch (err) {
+      // The gateway never saw this reference; close it so the customer can retry
+      await recordPaymentResult(provider, {
+        // Events are logged once per id, so each failed payment needs its own
+        eventId: `initialize_failed:${reference}`,
+        reference,
+        status: 'failed',
+        amount: Number(payment.amount),
+        raw: { message: err instanceof Error ? err.message : String(err) },
+      });
+      throw err;
+    }
+  } catch (err) {
+    console.error('Error starting online payment:', err);
+    return jsonError('Could not start the payment. Please try again.', 502);
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { getServiceClient, jsonError } from '@/lib/admin-auth';
+import { getActiveProviderName, getMockPaymentSecret } from '@/lib/payment-gateway';
+import { createMockWebhook } from '@/lib/payment-gateway/mock';
+import { handlePaymentWebhook } from '@/lib/payment-gateway/webhook';
+
+// Simulates the customer completing or abandoning a payment on the mock gateway
+export async function POST(request: NextRequest) {
+  // Only when explicitly configured with PAYMENT_PROVIDER=mock
+  if (getActiveProviderName() !== 'mock') {
+    return jsonError('The mock payment provider is disabled', 404);
+  }
+
+  let secret: string;
+  try {
+    secret = getMockPaymentSecret();
+  } catch (err) {
+    console.error('Mock payment provider unavailable:', err);
+    return jsonError('The mock payment provider is not set up', 503);
+  }
+
+  const { reference, outcome } = await request.json().catch(() => ({}));
+
+  if (typeof reference !== 'string' || (outcome !== 'success' && outcome !== 'failure')) {
+    return jsonError('reference and an outcome of success or failure are required', 400);
+  }
+
+  const { data: payment, error } = await getServiceClient()
+    .from('payment_history')
+    .select('amount')
+    .eq('reference', reference)
+    .maybeSingle();
+
+  if (error) return jsonError(error.message, 500);
+  if (!payment) return jsonError('Unknown payment reference', 404);
+
+  const webhook = createMockWebhook(secret, reference, Number(payment.amount), outcome === 'success');
+  return handlePaymentWebhook('mock', webhook.rawBody, webhook.headers);
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jsonError } from '@/lib/admin-auth';
+import { getPaymentProvider, recordPaymentResult } from '@/lib/payment-gateway';
+
+// Called when the customer returns from the gateway, in case the webhook has
+// not arrived yet. Results are recorded through the same idempotent path.
+export async function GET(request: NextRequest) {
+  const reference = request.nextUrl.searchParams.get('reference');
+
+  if (!reference) {
+    return jsonError('reference is required', 400);
+  }
+
+  try {
+    const provider = getPaymentProvider();
+    const result = await provider.verify(reference);
+    await recordPaymentResult(provider, result);
+
+    return NextResponse.json({ reference, status: result.status });
+  } catch (err) {
+    console.error('Error verifying payment:', err);
+    return jsonError('Could not verify the payment', 502);
+  }
+}
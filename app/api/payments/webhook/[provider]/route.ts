@@ -0,0 +1,8 @@
+import { NextRequest } from 'next/server';
+import { handlePaymentWebhook } from '@/lib/payment-gateway/webhook';
+
+export async function POST(request: NextRequest, { params }: { params: { provider: string } }) {
+  // The signature covers the exact bytes sent, so read the body as text
+  const rawBody = await request.text();
+  return handlePaymentWebhook(params.provider, rawBody, request.headers);
+}
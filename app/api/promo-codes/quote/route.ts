@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient, jsonError } from '@/lib/admin-auth';
+import { getClientKey, getCustomerSession } from '@/lib/customer-auth';
+
+// Previews a promo code on the cart. Unknown codes count against the caller's
+// signed-in account or IP address, never a session id it chose.
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+
+  if (!body || typeof body.code !== 'string' || !Array.isArray(body.order_items)) {
+    return jsonError('code and order_items are required', 400);
+  }
+
+  const customer = await getCustomerSession(request);
+
+  const { data, error } = await getServiceClient().rpc('quote_promo_code', {
+    p_code: body.code,
+    p_order_items: body.order_items,
+    p_fulfilment_mode: body.fulfilment_mode ?? 'delivery',
+    p_delivery_zone_id: body.delivery_zone_id ?? null,
+    p_customer_phone: body.customer_phone ?? null,
+    p_session_id: customer?.session_id ?? (typeof body.session_id === 'string' ? body.session_id : null),
+    p_client_key: getClientKey(request, customer),
+  });
+
+  if (error) {
+    if (error.hint === 'too_many_attempts') return jsonError(error.message, 429, { hint: error.hint });
+    return jsonError(error.message, 409, { hint: error.hint, details: error.details });
+  }
+
+  // Unknown codes come back empty so the attempt counts towards the limit
+  if (!data) {
+    return jsonError('This promo code is not valid', 404, { hint: 'promo_invalid' });
+  }
+
+  return NextResponse.json({ quote: data });
+}
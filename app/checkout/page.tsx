@@ -1,18 +1,47 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { CreditCard, MapPin, User, MessageCircle } from 'lucide-react';
+import { CreditCard, MapPin, User, MessageCircle, AlertTriangle, Landmark, ShoppingBag, Clock, Tag, X, Gift } from 'lucide-react';
+import Link from 'next/link';
 import Navigation from '@/components/Navigation';
+import BankAccountList from '@/components/BankAccountList';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { getCart, getCartTotal, clearCart, CartItem } from '@/lib/cart';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getCart, getCartTotal, clearCart, removeFromCart, syncCartPrices, updateCartItemQuantity, CartItem } from '@/lib/cart';
 import { getSessionId, generateTrackingId } from '@/lib/session';
-import { supabase } from '@/lib/supabase';
+import { formatCartLineDetails } from '@/lib/menu-options';
+import { quoteCart, getPriceChanges, describeQuoteError, toOrderLines, PriceChange } from '@/lib/pricing';
+import { fetchActiveBankAccounts, startOnlinePayment } from '@/lib/payments';
+import {
+  fetchCampusLocations,
+  fetchDeliveryZones,
+  getSavedDeliveryDetails,
+  saveDeliveryDetails,
+  validateDeliveryDetails,
+  CAMPUS_LOCATION_TYPE_LABELS,
+} from '@/lib/delivery';
+import {
+  describeNextOpening,
+  fetchAvailableTimeSlots,
+  fetchKitchenStatus,
+  formatScheduledTime,
+  getSlotKey,
+} from '@/lib/schedule';
+import { quotePromoCode } from '@/lib/promotions';
+import { canRedeemLoyalty, fetchLoyaltyStatus, formatLoyaltyBalance, getLoyaltyRedemption } from '@/lib/loyalty';
+import { clearPendingReferralCode, fetchReferralStatus, getPendingReferralCode } from '@/lib/referrals';
+import { fetchWalletStatus } from '@/lib/wallet';
+import { placeOrder, OrderRequestError } from '@/lib/orders';
+import { AvailableTimeSlot, BankDetail, KitchenStatus, CampusLocation, DeliveryZone, LoyaltyStatus, Order, OrderQuote, OrderQuoteError, PromoQuote, ReferralStatus, WalletStatus } from '@/lib/supabase';
 import { toast } from 'sonner';
 
 export default function CheckoutPage() {
@@ -20,8 +49,78 @@ export default function CheckoutPage() {
   const [total, setTotal] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
   const [customerNote, setCustomerNote] = useState('');
+  const [fulfilmentMode, setFulfilmentMode] = useState<Order['fulfilment_mode']>('delivery');
+  const [customerName, setCustomerName] = useState('');
+  const [customerPhone, setCustomerPhone] = useState('');
+  const [deliveryLocationId, setDeliveryLocationId] = useState('');
+  const [deliveryRoom, setDeliveryRoom] = useState('');
+  const [campusLocations, setCampusLocations] = useState<CampusLocation[]>([]);
+  const [deliveryZoneId, setDeliveryZoneId] = useState('');
+  const [deliveryZones, setDeliveryZones] = useState<DeliveryZone[]>([]);
+  const [orderTiming, setOrderTiming] = useState<'asap' | 'scheduled'>('asap');
+  const [timeSlots, setTimeSlots] = useState<AvailableTimeSlot[]>([]);
+  const [selectedSlotKey, setSelectedSlotKey] = useState('');
+  const [kitchenStatus, setKitchenStatus] = useState<KitchenStatus | null>(null);
+  const [quote, setQuote] = useState<OrderQuote | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [priceChanges, setPriceChanges] = useState<PriceChange[]>([]);
+  const [quoteErrors, setQuoteErrors] = useState<OrderQuoteError[]>([]);
+  const [bankAccounts, setBankAccounts] = useState<BankDetail[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState<'bank_transfer' | 'card_payment' | 'wallet'>('bank_transfer');
+  const [promoCodeInput, setPromoCodeInput] = useState('');
+  const [promo, setPromo] = useState<PromoQuote | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+  const [loyaltyStatus, setLoyaltyStatus] = useState<LoyaltyStatus | null>(null);
+  const [redeemLoyalty, setRedeemLoyalty] = useState(false);
+  const [referralStatus, setReferralStatus] = useState<ReferralStatus | null>(null);
+  const [referralCode, setReferralCode] = useState('');
+  const [walletStatus, setWalletStatus] = useState<WalletStatus | null>(null);
   const router = useRouter();
 
+  useEffect(() => {
+    fetchActiveBankAccounts()
+      .then(setBankAccounts)
+      .catch((error) => console.error('Error fetching bank accounts:', error));
+  }, []);
+
+  useEffect(() => {
+    const saved = getSavedDeliveryDetails();
+    if (saved) {
+      setFulfilmentMode(saved.mode ?? 'delivery');
+      setCustomerName(saved.name);
+      setCustomerPhone(saved.phone);
+      setDeliveryRoom(saved.room);
+    }
+
+    fetchCampusLocations()
+      .then((locations) => {
+        setCampusLocations(locations);
+        // A saved location may have been retired since the last order
+        if (saved && locations.some((location) => location.id === saved.locationId)) {
+          setDeliveryLocationId(saved.locationId);
+        }
+      })
+      .catch((error) => console.error('Error fetching delivery locations:', error));
+
+    fetchDeliveryZones()
+      .then((zones) => {
+        setDeliveryZones(zones);
+        if (saved && zones.some((zone) => zone.id === saved.zoneId)) {
+          setDeliveryZoneId(saved.zoneId);
+        } else if (zones.length === 1) {
+          setDeliveryZoneId(zones[0].id);
+        }
+      })
+      .catch((error) => console.error('Error fetching delivery zones:', error));
+
+    refreshTimeSlots();
+    refreshKitchenStatus();
+    refreshLoyaltyStatus();
+    refreshReferralStatus();
+    refreshWalletStatus();
+    setReferralCode(getPendingReferralCode());
+  }, []);
+
   useEffect(() => {
     const cartItems = getCart();
     const cartTotal = getCartTotal();
@@ -33,8 +132,187 @@ export default function CheckoutPage() {
     
     setCart(cartItems);
     setTotal(cartTotal);
+    refreshQuote(cartItems);
   }, [router]);
 
+  // Re-prices the cart on the server and shows any changes to the customer
+  const refreshQuote = async (cartItems: CartItem[]) => {
+    setIsQuoting(true);
+
+    try {
+      const result = await quoteCart(cartItems);
+      const changes = getPriceChanges(cartItems, result);
+
+      if (changes.length > 0) {
+        syncCartPrices(Object.fromEntries(changes.map(change => [change.key, change.newPrice])));
+        setCart(getCart());
+      }
+
+      setQuote(result);
+      setTotal(Number(result.total_amount));
+      setPriceChanges(changes);
+      setQuoteErrors(result.errors);
+      return result;
+    } catch (error) {
+      console.error('Error pricing cart:', error);
+      toast.error('Could not check current prices. Please try again.');
+      return null;
+    } finally {
+      setIsQuoting(false);
+    }
+  };
+
+  // Zone fees can change while the customer is checking out
+  const refreshZones = async () => {
+    try {
+      setDeliveryZones(await fetchDeliveryZones());
+    } catch (error) {
+      console.error('Error fetching delivery zones:', error);
+    }
+  };
+
+  // Slots fill up while the customer is checking out
+  const refreshTimeSlots = async () => {
+    try {
+      const slots = await fetchAvailableTimeSlots();
+      setTimeSlots(slots);
+      setSelectedSlotKey((key) =>
+        slots.some((slot) => getSlotKey(slot) === key && slot.remaining > 0) ? key : ''
+      );
+    } catch (error) {
+      console.error('Error fetching time slots:', error);
+    }
+  };
+
+  // While the kitchen is closed only pre-orders can be placed
+  const refreshKitchenStatus = async () => {
+    try {
+      const status = await fetchKitchenStatus();
+      setKitchenStatus(status);
+      if (!status.is_open) {
+        setOrderTiming('scheduled');
+      }
+    } catch (error) {
+      console.error('Error fetching kitchen status:', error);
+    }
+  };
+
+  const refreshLoyaltyStatus = async () => {
+    try {
+      const status = await fetchLoyaltyStatus(getSessionId());
+      setLoyaltyStatus(status);
+      if (!canRedeemLoyalty(status)) {
+        setRedeemLoyalty(false);
+      }
+    } catch (error) {
+      console.error('Error fetching loyalty status:', error);
+    }
+  };
+
+  // Referral credit is spent automatically, so checkout needs the current balance
+  const refreshReferralStatus = async () => {
+    try {
+      setReferralStatus(await fetchReferralStatus(getSessionId()));
+    } catch (error) {
+      console.error('Error fetching referral status:', error);
+    }
+  };
+
+  // Signed-in customers can pay from their wallet if it covers the order
+  const refreshWalletStatus = async () => {
+    try {
+      setWalletStatus(await fetchWalletStatus());
+    } catch (error) {
+      console.error('Error fetching wallet:', error);
+    }
+  };
+
+  // Prices the cart with a promo code on the server; a code that no longer applies is dropped
+  const applyPromoCode = useCallback(async (code: string, cartItems: CartItem[] = cart) => {
+    setIsApplyingPromo(true);
+
+    try {
+      setPromo(await quotePromoCode({
+        code,
+        cart: cartItems,
+        fulfilmentMode,
+        deliveryZoneId: fulfilmentMode === 'delivery' ? deliveryZoneId || null : null,
+        customerPhone,
+        sessionId: getSessionId(),
+      }));
+      return true;
+    } catch (error) {
+      setPromo(null);
+      toast.error(error instanceof Error ? error.message : 'Could not apply this promo code');
+      return false;
+    } finally {
+      setIsApplyingPromo(false);
+    }
+  }, [cart, fulfilmentMode, deliveryZoneId, customerPhone]);
+
+  const handleApplyPromo = async () => {
+    if (!promoCodeInput.trim()) return;
+
+    if (await applyPromoCode(promoCodeInput.trim())) {
+      setPromoCodeInput('');
+    }
+  };
+
+  // The discount depends on what's in the cart, how it's delivered and who
+  // it's for. Keyed on the code so a fresh quote doesn't trigger another.
+  const appliedPromoCode = promo?.code;
+  useEffect(() => {
+    if (appliedPromoCode) {
+      applyPromoCode(appliedPromoCode);
+    }
+  }, [appliedPromoCode, applyPromoCode]);
+
+  const selectedZone = deliveryZones.find((zone) => zone.id === deliveryZoneId);
+  const isPickup = fulfilmentMode === 'pickup';
+  const deliveryFee = isPickup ? 0 : Number(selectedZone?.fee ?? 0);
+  const discount = promo ? Number(promo.discount_amount) : 0;
+  // Rewards pay for whatever is left after any promo code
+  const loyaltyRedemption = redeemLoyalty && loyaltyStatus
+    ? getLoyaltyRedemption(loyaltyStatus, total + deliveryFee - discount, cart.map((item) => item.price))
+    : { redeemed: 0, discount: 0 };
+  const referralCredit = Math.min(
+    Math.max(Number(referralStatus?.credit_balance ?? 0), 0),
+    total + deliveryFee - discount - loyaltyRedemption.discount
+  );
+  const orderTotal = total + deliveryFee - discount - loyaltyRedemption.discount - referralCredit;
+  const canEnterReferral = referralStatus?.can_be_referred ?? false;
+  const walletCoversOrder = Number(walletStatus?.balance ?? 0) >= orderTotal;
+  // Discounts can cover the whole order; the server then marks it paid
+  const nothingToPay = orderTotal <= 0;
+  const belowMinimum = !isPickup && !!selectedZone && total < Number(selectedZone.min_order_amount);
+
+  const isScheduled = orderTiming === 'scheduled';
+  const selectedSlot = timeSlots.find((slot) => getSlotKey(slot) === selectedSlotKey);
+  const kitchenClosed = kitchenStatus !== null && !kitchenStatus.is_open;
+
+  const handleRemoveUnavailable = () => {
+    quoteErrors.forEach(error => {
+      const key = cart[error.index]?.key ?? error.food_item_id;
+      if (!key) return;
+
+      // Keep what's left of a low-stock item rather than dropping it
+      if (error.reason === 'out_of_stock' && error.available) {
+        updateCartItemQuantity(key, error.available);
+      } else {
+        removeFromCart(key);
+      }
+    });
+
+    const cartItems = getCart();
+    if (cartItems.length === 0) {
+      router.push('/');
+      return;
+    }
+
+    setCart(cartItems);
+    refreshQuote(cartItems);
+  };
+
   const handlePlaceOrder = async () => {
     setIsProcessing(true);
 
@@ -44,26 +322,142 @@ export default function CheckoutPage() {
         throw new Error('Cart is empty');
       }
 
-      // Validate total amount
-      if (total <= 0) {
+      const deliveryDetails = {
+        mode: fulfilmentMode,
+        name: customerName,
+        phone: customerPhone,
+        locationId: deliveryLocationId,
+        room: deliveryRoom,
+        zoneId: deliveryZoneId,
+      };
+
+      const deliveryError = validateDeliveryDetails(deliveryDetails);
+      if (deliveryError) {
+        toast.error(deliveryError);
+        return;
+      }
+
+      // The customer must have seen a valid server-side quote
+      if (!quote || quote.errors.length > 0) {
         throw new Error('Invalid order total');
       }
 
-      const sessionId = getSessionId();
+      if (!isScheduled && kitchenClosed) {
+        toast.error(kitchenStatus?.message ?? 'The kitchen is closed right now');
+        return;
+      }
+
+      if (isScheduled && !selectedSlot) {
+        toast.error('Please choose a time for your order');
+        return;
+      }
+
+      if (!nothingToPay && paymentMethod === 'wallet' && !walletCoversOrder) {
+        toast.error('Your wallet balance doesn\'t cover this order. Please top up or choose another way to pay.');
+        return;
+      }
+
+      if (belowMinimum) {
+        toast.error(`Orders to ${selectedZone?.name} must be at least ₦${Number(selectedZone?.min_order_amount).toLocaleString()}`);
+        return;
+      }
+
       const trackingId = generateTrackingId();
 
-      // Start a transaction
-      const { data: order, error: orderError } = await supabase.rpc('create_order_with_items', {
-        p_session_id: sessionId,
-        p_total_amount: total,
-        p_tracking_id: trackingId,
-        p_customer_note: customerNote,
-        p_order_items: cart.map(item => ({
-          food_item_id: item.id,
-          quantity: item.quantity,
-          unit_price: item.price
-        }))
-      });
+      // Prices are recomputed in the database; the expected total guards against changes
+      let orderError: OrderRequestError | null = null;
+      try {
+        await placeOrder({
+          tracking_id: trackingId,
+          customer_note: customerNote,
+          customer_phone: customerPhone,
+          customer_name: customerName,
+          delivery_location_id: isPickup ? null : deliveryLocationId,
+          delivery_room: isPickup ? null : deliveryRoom,
+          delivery_zone_id: isPickup ? null : deliveryZoneId,
+          fulfilment_mode: fulfilmentMode,
+          time_slot_id: isScheduled ? selectedSlot?.time_slot_id ?? null : null,
+          scheduled_for: isScheduled ? selectedSlot?.starts_at ?? null : null,
+          order_items: toOrderLines(cart),
+          expected_total:
+            Number(quote.total_amount) + deliveryFee - discount - loyaltyRedemption.discount - referralCredit,
+          promo_code: promo?.code ?? null,
+          redeem_loyalty: loyaltyRedemption.redeemed > 0,
+          referral_code: canEnterReferral && referralCode.trim() ? referralCode.trim() : null,
+          pay_with_wallet: !nothingToPay && paymentMethod === 'wallet',
+        });
+      } catch (error) {
+        if (!(error instanceof OrderRequestError)) throw error;
+        orderError = error;
+      }
+
+      if (orderError?.hint === 'price_changed') {
+        await Promise.all([
+          refreshQuote(cart),
+          refreshZones(),
+          refreshLoyaltyStatus(),
+          refreshReferralStatus(),
+          refreshWalletStatus(),
+          promo && applyPromoCode(promo.code),
+        ]);
+        toast.warning('Some prices have changed. Please review your order before confirming.');
+        return;
+      }
+
+      if (orderError?.hint === 'order_items_invalid') {
+        setQuoteErrors(JSON.parse(orderError.details || '[]'));
+        toast.error('Some items in your cart can no longer be ordered.');
+        return;
+      }
+
+      if (orderError?.hint === 'promo_invalid') {
+        setPromo(null);
+        toast.error(`${orderError.message}. Your order has not been placed.`);
+        return;
+      }
+
+      if (orderError?.hint === 'loyalty_unavailable') {
+        setRedeemLoyalty(false);
+        await refreshLoyaltyStatus();
+        toast.error(orderError.message);
+        return;
+      }
+
+      if (orderError?.hint === 'referral_invalid') {
+        setReferralCode('');
+        clearPendingReferralCode();
+        toast.error(`${orderError.message}. Your order has not been placed.`);
+        return;
+      }
+
+      if (orderError?.hint === 'wallet_unavailable' || orderError?.hint === 'insufficient_wallet_balance') {
+        await refreshWalletStatus();
+        toast.error(orderError.message);
+        return;
+      }
+
+      if (orderError?.hint === 'invalid_phone' || orderError?.hint === 'invalid_delivery_details') {
+        toast.error(orderError.message);
+        return;
+      }
+
+      if (orderError?.hint === 'below_minimum_order') {
+        await refreshZones();
+        toast.error(orderError.message);
+        return;
+      }
+
+      if (orderError?.hint === 'kitchen_closed') {
+        await Promise.all([refreshKitchenStatus(), refreshTimeSlots()]);
+        toast.error(orderError.message);
+        return;
+      }
+
+      if (orderError?.hint === 'slot_full' || orderError?.hint === 'slot_unavailable') {
+        await refreshTimeSlots();
+        toast.error(orderError.message);
+        return;
+      }
 
       if (orderError) {
         console.error('Error creating order:', orderError);
@@ -72,7 +466,22 @@ export default function CheckoutPage() {
 
       // Clear cart and redirect
       clearCart();
+      clearPendingReferralCode();
+      saveDeliveryDetails(deliveryDetails);
       toast.success('Order placed successfully!');
+
+      if (!nothingToPay && paymentMethod === 'card_payment') {
+        try {
+          const { authorization_url } = await startOnlinePayment(trackingId);
+          window.location.href = authorization_url;
+          return;
+        } catch (error) {
+          // The order exists; the customer can retry payment from the success page
+          console.error('Error starting online payment:', error);
+          toast.error('Could not open the payment page. You can try again from your order.');
+        }
+      }
+
       router.push(`/order-success?tracking=${trackingId}`);
       
     } catch (error) {
@@ -82,9 +491,9 @@ export default function CheckoutPage() {
       if (error instanceof Error) {
         if (error.message.includes('duplicate key')) {
           toast.error('This order has already been placed. Please try again.');
-        } else if (error.message.includes('cart is empty')) {
+        } else if (error.message.includes('Cart is empty')) {
           toast.error('Your cart is empty. Please add items before placing an order.');
-        } else if (error.message.includes('invalid order total')) {
+        } else if (error.message.includes('Invalid order total')) {
           toast.error('Invalid order total. Please try again.');
         } else {
           toast.error('Failed to place order. Please try again.');
@@ -117,8 +526,52 @@ export default function CheckoutPage() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
+                {priceChanges.length > 0 && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Prices have changed</AlertTitle>
+                    <AlertDescription>
+                      <ul className="mt-1 space-y-1">
+                        {priceChanges.map((change) => (
+                          <li key={change.key}>
+                            {change.name}:{' '}
+                            <span className="line-through text-gray-500">₦{change.oldPrice.toLocaleString()}</span>{' '}
+                            ₦{change.newPrice.toLocaleString()}
+                          </li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {quoteErrors.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Some items can&apos;t be ordered</AlertTitle>
+                    <AlertDescription>
+                      <ul className="mt-1 space-y-1">
+                        {quoteErrors.map((error) => (
+                          <li key={`${error.index}-${error.food_item_id}`}>
+                            {describeQuoteError(error, cart)}
+                          </li>
+                        ))}
+                      </ul>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleRemoveUnavailable}
+                        className="mt-3"
+                      >
+                        {quoteErrors.some((error) => error.reason === 'out_of_stock' && error.available)
+                          ? 'Update my cart'
+                          : 'Remove these items'}
+                      </Button>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 {cart.map((item) => (
-                  <div key={item.id} className="flex justify-between items-center">
+                  <div key={item.key} className="flex justify-between items-center">
                     <div className="flex items-center space-x-3">
                       <div className="w-12 h-12 bg-gray-200 rounded-lg overflow-hidden">
                         <img
@@ -129,6 +582,9 @@ export default function CheckoutPage() {
                       </div>
                       <div>
                         <h4 className="font-medium">{item.name}</h4>
+                        {formatCartLineDetails(item) && (
+                          <p className="text-xs text-gray-500">{formatCartLineDetails(item)}</p>
+                        )}
                         <p className="text-sm text-gray-600">Qty: {item.quantity}</p>
                       </div>
                     </div>
@@ -141,7 +597,7 @@ export default function CheckoutPage() {
                 <Separator />
                 
                 <div className="flex justify-between items-center text-lg font-bold">
-                  <span>Total:</span>
+                  <span>Subtotal:</span>
                   <span className="text-green-600">₦{total.toLocaleString()}</span>
                 </div>
               </CardContent>
@@ -150,6 +606,204 @@ export default function CheckoutPage() {
 
           {/* Order Details */}
           <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <MapPin className="h-5 w-5 mr-2" />
+                  Delivery Details
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <RadioGroup
+                    value={fulfilmentMode}
+                    onValueChange={(value) => setFulfilmentMode(value as Order['fulfilment_mode'])}
+                    className="grid grid-cols-2 gap-3"
+                  >
+                    <Label
+                      htmlFor="mode-delivery"
+                      className="flex items-center space-x-2 border rounded-lg p-3 cursor-pointer font-normal"
+                    >
+                      <RadioGroupItem value="delivery" id="mode-delivery" />
+                      <MapPin className="h-4 w-4 text-gray-500" />
+                      <span className="font-medium">Deliver to me</span>
+                    </Label>
+                    <Label
+                      htmlFor="mode-pickup"
+                      className="flex items-center space-x-2 border rounded-lg p-3 cursor-pointer font-normal"
+                    >
+                      <RadioGroupItem value="pickup" id="mode-pickup" />
+                      <ShoppingBag className="h-4 w-4 text-gray-500" />
+                      <span className="font-medium">Pick up</span>
+                    </Label>
+                  </RadioGroup>
+                  {isPickup && (
+                    <p className="text-sm text-gray-600">
+                      Collect your order at the counter. You&apos;ll get a pickup code to show staff once it&apos;s placed.
+                    </p>
+                  )}
+                  <div>
+                    <Label htmlFor="name">Name</Label>
+                    <div className="relative">
+                      <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                      <Input
+                        id="name"
+                        placeholder={isPickup ? 'Who is collecting?' : 'Who should we deliver to?'}
+                        value={customerName}
+                        onChange={(e) => setCustomerName(e.target.value)}
+                        className="pl-9"
+                        maxLength={100}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <Label htmlFor="phone">Phone Number</Label>
+                    <Input
+                      id="phone"
+                      type="tel"
+                      placeholder="e.g. 08012345678"
+                      value={customerPhone}
+                      onChange={(e) => setCustomerPhone(e.target.value)}
+                      maxLength={20}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {isPickup ? 'We text this number if there is a problem.' : 'The rider calls this number on arrival.'}{' '}
+                      The last 4 digits let you track this order from any device.
+                    </p>
+                  </div>
+                  {!isPickup && (
+                    <>
+                      <div>
+                        <Label>Delivery Zone</Label>
+                        <Select value={deliveryZoneId} onValueChange={setDeliveryZoneId}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose your delivery zone" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {deliveryZones.map((zone) => (
+                              <SelectItem key={zone.id} value={zone.id}>
+                                {zone.name} · {Number(zone.fee) > 0 ? `₦${Number(zone.fee).toLocaleString()}` : 'Free'}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {selectedZone?.description && (
+                          <p className="text-xs text-gray-500 mt-1">{selectedZone.description}</p>
+                        )}
+                        {belowMinimum && (
+                          <p className="text-xs text-red-600 mt-1">
+                            Orders to {selectedZone?.name} must be at least ₦{Number(selectedZone?.min_order_amount).toLocaleString()}.
+                          </p>
+                        )}
+                      </div>
+                      <div>
+                        <Label>Campus Location</Label>
+                        <Select value={deliveryLocationId} onValueChange={setDeliveryLocationId}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose a hostel, faculty or landmark" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(CAMPUS_LOCATION_TYPE_LABELS) as CampusLocation['type'][]).map((type) => {
+                              const options = campusLocations.filter((location) => location.type === type);
+                              if (options.length === 0) return null;
+
+                              return (
+                                <SelectGroup key={type}>
+                                  <SelectLabel>{CAMPUS_LOCATION_TYPE_LABELS[type]}</SelectLabel>
+                                  {options.map((location) => (
+                                    <SelectItem key={location.id} value={location.id}>
+                                      {location.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectGroup>
+                              );
+                            })}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label htmlFor="room">Room or Office</Label>
+                        <Input
+                          id="room"
+                          placeholder="e.g. Block C, Room 214"
+                          value={deliveryRoom}
+                          onChange={(e) => setDeliveryRoom(e.target.value)}
+                          maxLength={50}
+                        />
+                      </div>
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Clock className="h-5 w-5 mr-2" />
+                  When
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {kitchenClosed && (
+                    <Alert>
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle>{kitchenStatus.message}</AlertTitle>
+                      <AlertDescription>
+                        {describeNextOpening(kitchenStatus) ?? 'We are not taking orders for right now.'}{' '}
+                        {timeSlots.length > 0 && 'You can still pre-order for one of the time slots below.'}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  <RadioGroup
+                    value={orderTiming}
+                    onValueChange={(value) => setOrderTiming(value as 'asap' | 'scheduled')}
+                    className="grid grid-cols-2 gap-3"
+                  >
+                    <Label
+                      htmlFor="timing-asap"
+                      className="flex items-center space-x-2 border rounded-lg p-3 cursor-pointer font-normal"
+                    >
+                      <RadioGroupItem value="asap" id="timing-asap" disabled={kitchenClosed} />
+                      <span className="font-medium">As soon as possible</span>
+                    </Label>
+                    <Label
+                      htmlFor="timing-scheduled"
+                      className="flex items-center space-x-2 border rounded-lg p-3 cursor-pointer font-normal"
+                    >
+                      <RadioGroupItem value="scheduled" id="timing-scheduled" disabled={timeSlots.length === 0} />
+                      <span className="font-medium">Schedule for later</span>
+                    </Label>
+                  </RadioGroup>
+                  {isScheduled && (
+                    <div>
+                      <Label>Time</Label>
+                      <Select value={selectedSlotKey} onValueChange={setSelectedSlotKey}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose a time" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {timeSlots.map((slot) => (
+                            <SelectItem key={getSlotKey(slot)} value={getSlotKey(slot)} disabled={slot.remaining <= 0}>
+                              {slot.label} · {formatScheduledTime(slot.starts_at, slot.ends_at)}
+                              {slot.remaining <= 0 && ' (full)'}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-gray-500 mt-1">
+                        We start preparing shortly before your slot so it arrives fresh.
+                      </p>
+                    </div>
+                  )}
+                  {timeSlots.length === 0 && (
+                    <p className="text-sm text-gray-600">No pre-order slots are open right now.</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center">
@@ -175,29 +829,210 @@ export default function CheckoutPage() {
 
             <Card>
               <CardHeader>
-                <CardTitle>Payment Simulation</CardTitle>
+                <CardTitle className="flex items-center">
+                  <Landmark className="h-5 w-5 mr-2" />
+                  Payment
+                </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
-                  <p className="text-blue-800 text-sm">
-                    <strong>Demo Mode:</strong> This is a simulated payment process. 
-                    No actual payment will be processed.
+                {nothingToPay ? (
+                  <p className="mb-4 text-sm text-gray-600">
+                    Your discounts cover this order, so there&apos;s nothing to pay.
                   </p>
-                </div>
+                ) : (
+                  <>
+                    <RadioGroup
+                      value={paymentMethod}
+                      onValueChange={(value) => setPaymentMethod(value as 'bank_transfer' | 'card_payment' | 'wallet')}
+                      className="mb-4"
+                    >
+                      <Label
+                        htmlFor="pay-transfer"
+                        className="flex items-start space-x-3 border rounded-lg p-3 cursor-pointer font-normal"
+                      >
+                        <RadioGroupItem value="bank_transfer" id="pay-transfer" className="mt-0.5" />
+                        <span>
+                          <span className="block font-medium">Bank transfer</span>
+                          <span className="block text-sm text-gray-600">
+                            After you place your order you&apos;ll get a unique transfer reference to use with
+                            any of the accounts below.
+                          </span>
+                        </span>
+                      </Label>
+                      <Label
+                        htmlFor="pay-online"
+                        className="flex items-start space-x-3 border rounded-lg p-3 cursor-pointer font-normal"
+                      >
+                        <RadioGroupItem value="card_payment" id="pay-online" className="mt-0.5" />
+                        <span>
+                          <span className="block font-medium">Pay online</span>
+                          <span className="block text-sm text-gray-600">
+                            Pay with your card on our secure payment page. Your order is confirmed automatically.
+                          </span>
+                        </span>
+                      </Label>
+                      {walletStatus?.has_account && (
+                        <Label
+                          htmlFor="pay-wallet"
+                          className="flex items-start space-x-3 border rounded-lg p-3 cursor-pointer font-normal"
+                        >
+                          <RadioGroupItem value="wallet" id="pay-wallet" className="mt-0.5" disabled={!walletCoversOrder} />
+                          <span>
+                            <span className="block font-medium">
+                              Wallet (₦{Number(walletStatus.balance).toLocaleString()})
+                            </span>
+                            <span className="block text-sm text-gray-600">
+                              {walletCoversOrder ? (
+                                'Paid straight away from your balance.'
+                              ) : (
+                                <>
+                                  Your balance doesn&apos;t cover this order.{' '}
+                                  <Link href="/account" className="text-green-700 underline">
+                                    Top up
+                                  </Link>
+                                </>
+                              )}
+                            </span>
+                          </span>
+                        </Label>
+                      )}
+                    </RadioGroup>
+
+                    {paymentMethod === 'bank_transfer' && (
+                      <div className="mb-4">
+                        <BankAccountList accounts={bankAccounts} />
+                      </div>
+                    )}
+                  </>
+                )}
                 
+                <div className="mb-4">
+                  <Label htmlFor="promo-code">Promo Code</Label>
+                  {promo ? (
+                    <div className="flex items-center justify-between border border-green-200 bg-green-50 rounded-lg p-3 mt-1">
+                      <span className="flex items-center gap-2 text-sm">
+                        <Tag className="h-4 w-4 text-green-600" />
+                        <span>
+                          <span className="font-medium">{promo.code}</span>
+                          {promo.description && <span className="block text-gray-600">{promo.description}</span>}
+                        </span>
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={() => setPromo(null)} aria-label="Remove promo code">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2 mt-1">
+                      <Input
+                        id="promo-code"
+                        placeholder="Enter code"
+                        value={promoCodeInput}
+                        onChange={(e) => setPromoCodeInput(e.target.value.toUpperCase())}
+                        onKeyDown={(e) => e.key === 'Enter' && handleApplyPromo()}
+                        maxLength={30}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={handleApplyPromo}
+                        disabled={isApplyingPromo || !promoCodeInput.trim()}
+                      >
+                        {isApplyingPromo ? 'Applying...' : 'Apply'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {canEnterReferral && (
+                  <div className="mb-4">
+                    <Label htmlFor="referral-code">Referral Code (Optional)</Label>
+                    <Input
+                      id="referral-code"
+                      placeholder="e.g. FPI-AB12CD"
+                      value={referralCode}
+                      onChange={(e) => setReferralCode(e.target.value.toUpperCase())}
+                      maxLength={20}
+                      className="mt-1"
+                    />
+                    {Number(referralStatus?.referee_credit) > 0 && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Referred by a friend? Enter their code and you&apos;ll get ₦{Number(referralStatus?.referee_credit).toLocaleString()}{' '}
+                        credit once this first order is delivered.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {loyaltyStatus?.is_active && (
+                  <div className="mb-4 border rounded-lg p-3">
+                    {canRedeemLoyalty(loyaltyStatus) ? (
+                      <Label htmlFor="redeem-loyalty" className="flex items-start gap-3 font-normal cursor-pointer">
+                        <Checkbox
+                          id="redeem-loyalty"
+                          checked={redeemLoyalty}
+                          onCheckedChange={(checked) => setRedeemLoyalty(checked === true)}
+                          className="mt-0.5"
+                        />
+                        <span>
+                          <span className="block font-medium">
+                            {loyaltyStatus.mode === 'points' ? 'Use my points' : 'Use my stamp card'}
+                          </span>
+                          <span className="block text-sm text-gray-600">
+                            {loyaltyStatus.mode === 'points'
+                              ? `You have ${formatLoyaltyBalance(loyaltyStatus)}, worth ₦${Number(loyaltyStatus.point_value).toLocaleString()} each.`
+                              : 'Your card is full: your most expensive item is free.'}
+                          </span>
+                        </span>
+                      </Label>
+                    ) : (
+                      <p className="flex items-start gap-2 text-sm text-gray-600">
+                        <Gift className="h-4 w-4 mt-0.5 text-green-600" />
+                        {loyaltyStatus.mode === 'points'
+                          ? `You have ${formatLoyaltyBalance(loyaltyStatus)}. Earn 1 point for every ₦${Number(loyaltyStatus.naira_per_point).toLocaleString()} once your order is delivered, and redeem from ${loyaltyStatus.min_redeem_points} points.`
+                          : `You have ${formatLoyaltyBalance(loyaltyStatus)}. Get a stamp for every delivered order and a free meal when your card is full.`}
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 <div className="space-y-3">
                   <div className="flex items-center justify-between text-sm">
                     <span className="text-gray-600">Subtotal:</span>
                     <span>₦{total.toLocaleString()}</span>
                   </div>
                   <div className="flex items-center justify-between text-sm">
-                    <span className="text-gray-600">Delivery Fee:</span>
-                    <span className="text-green-600">Free</span>
+                    <span className="text-gray-600">
+                      {isPickup ? 'Pickup' : `Delivery Fee${selectedZone ? ` (${selectedZone.name})` : ''}`}:
+                    </span>
+                    {deliveryFee > 0 ? (
+                      <span>₦{deliveryFee.toLocaleString()}</span>
+                    ) : (
+                      <span className="text-green-600">Free</span>
+                    )}
                   </div>
+                  {discount > 0 && (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-gray-600">Discount ({promo?.code}):</span>
+                      <span className="text-green-600">−₦{discount.toLocaleString()}</span>
+                    </div>
+                  )}
+                  {loyaltyRedemption.discount > 0 && (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-gray-600">
+                        {loyaltyStatus?.mode === 'points' ? `Points (${loyaltyRedemption.redeemed.toLocaleString()})` : 'Stamp card'}:
+                      </span>
+                      <span className="text-green-600">−₦{loyaltyRedemption.discount.toLocaleString()}</span>
+                    </div>
+                  )}
+                  {referralCredit > 0 && (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-gray-600">Referral credit:</span>
+                      <span className="text-green-600">−₦{referralCredit.toLocaleString()}</span>
+                    </div>
+                  )}
                   <Separator />
                   <div className="flex items-center justify-between font-semibold">
                     <span>Total Amount:</span>
-                    <span className="text-green-600">₦{total.toLocaleString()}</span>
+                    <span className="text-green-600">₦{orderTotal.toLocaleString()}</span>
                   </div>
                 </div>
               </CardContent>
@@ -205,10 +1040,14 @@ export default function CheckoutPage() {
 
             <Button
               onClick={handlePlaceOrder}
-              disabled={isProcessing}
+              disabled={isProcessing || isQuoting || isApplyingPromo || !quote || quoteErrors.length > 0 || belowMinimum || (isScheduled ? !selectedSlot : kitchenClosed)}
               className="w-full bg-green-600 hover:bg-green-700 text-white py-3 text-lg"
             >
-              {isProcessing ? 'Processing Order...' : `Place Order - ₦${total.toLocaleString()}`}
+              {isProcessing
+                ? 'Processing Order...'
+                : isQuoting
+                  ? 'Checking prices...'
+                  : `Place Order - ₦${orderTotal.toLocaleString()}`}
             </Button>
 
             <p className="text-xs text-gray-500 text-center">
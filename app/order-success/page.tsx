@@ -1,26 +1,65 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
-import { CheckCircle, Clock, Package, Truck, ChefHat } from 'lucide-react';
+import { CheckCircle, Clock, Package, Truck, ChefHat, ShoppingBag } from 'lucide-react';
 import Navigation from '@/components/Navigation';
+import BankTransferPayment from '@/components/BankTransferPayment';
+import OnlinePayment from '@/components/OnlinePayment';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { supabase, Order, OrderItem } from '@/lib/supabase';
 import { getSessionId } from '@/lib/session';
+import { verifyOnlinePayment } from '@/lib/payments';
+import { getOrderStatusColor, getOrderStatusLabel } from '@/lib/order-status';
+import { formatScheduledTime } from '@/lib/schedule';
+import { formatOrderItemDetails } from '@/lib/menu-options';
 import { format } from 'date-fns';
+import { toast } from 'sonner';
 
 interface OrderWithItems extends Order {
-  order_items: (OrderItem & { food_items: { name: string; price: number } })[];
+  // Null on combo rows
+  order_items: (OrderItem & { food_items: { name: string; price: number } | null })[];
 }
 
 export default function OrderSuccessPage() {
   const searchParams = useSearchParams();
   const trackingId = searchParams.get('tracking');
+  // Set by the payment gateway when it redirects the customer back
+  const paymentReference = searchParams.get('reference');
   const [order, setOrder] = useState<OrderWithItems | null>(null);
   const [loading, setLoading] = useState(true);
+  const [payByTransfer, setPayByTransfer] = useState(false);
+
+  const fetchOrder = useCallback(async () => {
+    if (!trackingId) return;
+
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        order_items (
+          *,
+          food_items (
+            name,
+            price
+          )
+        )
+      `)
+      .eq('tracking_id', trackingId)
+      .eq('session_id', getSessionId())
+      .single();
+
+    if (error) {
+      console.error('Error fetching order:', error);
+    } else {
+      setOrder(data);
+    }
+    
+    setLoading(false);
+  }, [trackingId]);
 
   useEffect(() => {
     if (trackingId) {
@@ -47,35 +86,18 @@ export default function OrderSuccessPage() {
         channel.unsubscribe();
       };
     }
-  }, [trackingId]);
-
-  const fetchOrder = async () => {
-    if (!trackingId) return;
+  }, [trackingId, fetchOrder]);
 
-    const { data, error } = await supabase
-      .from('orders')
-      .select(`
-        *,
-        order_items (
-          *,
-          food_items (
-            name,
-            price
-          )
-        )
-      `)
-      .eq('tracking_id', trackingId)
-      .eq('session_id', getSessionId())
-      .single();
+  useEffect(() => {
+    if (!paymentReference) return;
 
-    if (error) {
-      console.error('Error fetching order:', error);
-    } else {
-      setOrder(data);
-    }
-    
-    setLoading(false);
-  };
+    verifyOnlinePayment(paymentReference)
+      .then(({ status }) => {
+        if (status === 'failed') toast.error('Your payment was not successful.');
+        fetchOrder();
+      })
+      .catch((error) => console.error('Error verifying payment:', error));
+  }, [paymentReference, fetchOrder]);
 
   const getStatusIcon = (status: Order['status']) => {
     switch (status) {
@@ -86,6 +108,8 @@ export default function OrderSuccessPage() {
         return <CheckCircle className="h-5 w-5" />;
       case 'preparing':
         return <ChefHat className="h-5 w-5" />;
+      case 'ready_for_pickup':
+        return <ShoppingBag className="h-5 w-5" />;
       case 'dispatched':
         return <Truck className="h-5 w-5" />;
       case 'delivered':
@@ -95,39 +119,22 @@ export default function OrderSuccessPage() {
     }
   };
 
-  const getStatusColor = (status: Order['status']) => {
+  const getStatusMessage = (status: Order['status'], mode: Order['fulfilment_mode']) => {
     switch (status) {
       case 'pending':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'payment_received':
-        return 'bg-blue-100 text-blue-800';
-      case 'confirmed':
-        return 'bg-green-100 text-green-800';
-      case 'preparing':
-        return 'bg-orange-100 text-orange-800';
-      case 'dispatched':
-        return 'bg-purple-100 text-purple-800';
-      case 'delivered':
-        return 'bg-green-100 text-green-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
-
-  const getStatusMessage = (status: Order['status']) => {
-    switch (status) {
-      case 'pending':
-        return 'Your order has been received and is waiting for payment confirmation.';
+        return 'Your order has been received. Complete your payment below to get it started.';
       case 'payment_received':
         return 'Payment received! Your order is being reviewed.';
       case 'confirmed':
         return 'Order confirmed! We\'re getting ready to prepare your food.';
       case 'preparing':
         return 'Your delicious meal is being prepared with care.';
+      case 'ready_for_pickup':
+        return 'Your order is ready! Show your pickup code at the counter to collect it.';
       case 'dispatched':
         return 'Your order is on the way to your location!';
       case 'delivered':
-        return 'Order delivered! Enjoy your meal!';
+        return mode === 'pickup' ? 'Order collected! Enjoy your meal!' : 'Order delivered! Enjoy your meal!';
       default:
         return 'Order status updated.';
     }
@@ -178,7 +185,7 @@ export default function OrderSuccessPage() {
             Order Not Found
           </h1>
           <p className="text-gray-600 mb-8">
-            We couldn't find an order with this tracking ID.
+            We couldn&apos;t find an order with this tracking ID.
           </p>
           <Link href="/">
             <Button className="bg-green-600 hover:bg-green-700">
@@ -213,16 +220,23 @@ export default function OrderSuccessPage() {
           <CardHeader>
             <CardTitle className="flex items-center justify-between">
               <span>Order Status</span>
-              <Badge className={`${getStatusColor(order.status)} flex items-center gap-1`}>
+              <Badge className={`${getOrderStatusColor(order.status)} flex items-center gap-1`}>
                 {getStatusIcon(order.status)}
-                {order.status.replace('_', ' ').toUpperCase()}
+                {getOrderStatusLabel(order.status, order.fulfilment_mode).toUpperCase()}
               </Badge>
             </CardTitle>
           </CardHeader>
           <CardContent>
             <p className="text-gray-700 mb-4">
-              {getStatusMessage(order.status)}
+              {getStatusMessage(order.status, order.fulfilment_mode)}
             </p>
+            {order.fulfilment_mode === 'pickup' && order.pickup_code && order.status !== 'delivered' && order.status !== 'cancelled' && (
+              <div className="border-2 border-dashed border-teal-300 bg-teal-50 rounded-lg p-4 mb-4 text-center">
+                <p className="text-sm text-teal-800">Pickup code</p>
+                <p className="text-4xl font-mono font-bold tracking-[0.3em] text-teal-900">{order.pickup_code}</p>
+                <p className="text-xs text-teal-700 mt-1">Show this code at the counter when you collect your order.</p>
+              </div>
+            )}
             <div className="bg-gray-50 rounded-lg p-4">
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
@@ -235,21 +249,46 @@ export default function OrderSuccessPage() {
                     {format(new Date(order.created_at), 'PPp')}
                   </p>
                 </div>
+                {order.scheduled_for && (
+                  <div className="col-span-2">
+                    <span className="text-gray-600">Scheduled For:</span>
+                    <p className="font-semibold">{formatScheduledTime(order.scheduled_for)}</p>
+                  </div>
+                )}
               </div>
             </div>
+            {order.customer_phone && (
+              <p className="text-sm text-gray-600 mt-3">
+                Track this order from any device at{' '}
+                <Link href={`/track?code=${order.tracking_id}`} className="text-green-700 underline">
+                  /track
+                </Link>{' '}
+                with your tracking ID and the last 4 digits of your phone number.
+              </p>
+            )}
           </CardContent>
         </Card>
 
+        {/* Payment */}
+        {order.payment_method === 'card_payment' && !payByTransfer ? (
+          <OnlinePayment order={order} onPayByTransfer={() => setPayByTransfer(true)} />
+        ) : (
+          <BankTransferPayment order={order} onReported={fetchOrder} />
+        )}
+
         {/* Order Details */}
         <Card className="mb-8">
           <CardHeader>
             <CardTitle>Order Details</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            {order.order_items.map((item) => (
+            {order.order_items.filter((item) => !item.parent_item_id).map((item) => (
               <div key={item.id} className="flex justify-between items-center">
                 <div>
-                  <h4 className="font-medium">{item.food_items.name}</h4>
+                  <h4 className="font-medium">{item.food_items?.name ?? item.combo_name}</h4>
+                  {formatOrderItemDetails(item) && (
+                    <p className="text-sm text-gray-600">{formatOrderItemDetails(item)}</p>
+                  )}
                   <p className="text-sm text-gray-600">Quantity: {item.quantity}</p>
                 </div>
                 <span className="font-semibold">
@@ -258,11 +297,53 @@ export default function OrderSuccessPage() {
               </div>
             ))}
             
-            <div className="border-t pt-4">
+            <div className="border-t pt-4 space-y-2">
+              {(order.delivery_fee > 0 || order.discount_amount > 0 || order.loyalty_discount > 0 || order.referral_credit > 0) && (
+                <>
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-gray-600">Subtotal:</span>
+                    <span>₦{order.subtotal_amount.toLocaleString()}</span>
+                  </div>
+                  {order.delivery_fee > 0 && (
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-gray-600">
+                        Delivery{order.delivery_zone_name ? ` (${order.delivery_zone_name})` : ''}:
+                      </span>
+                      <span>₦{order.delivery_fee.toLocaleString()}</span>
+                    </div>
+                  )}
+                  {order.discount_amount > 0 && (
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-gray-600">
+                        Discount{order.promo_code ? ` (${order.promo_code})` : ''}:
+                      </span>
+                      <span className="text-green-600">−₦{order.discount_amount.toLocaleString()}</span>
+                    </div>
+                  )}
+                  {order.loyalty_discount > 0 && (
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-gray-600">Rewards:</span>
+                      <span className="text-green-600">−₦{order.loyalty_discount.toLocaleString()}</span>
+                    </div>
+                  )}
+                  {order.referral_credit > 0 && (
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-gray-600">Referral credit:</span>
+                      <span className="text-green-600">−₦{order.referral_credit.toLocaleString()}</span>
+                    </div>
+                  )}
+                </>
+              )}
               <div className="flex justify-between items-center text-lg font-bold">
                 <span>Total:</span>
                 <span className="text-green-600">₦{order.total_amount.toLocaleString()}</span>
               </div>
+              {order.refunded_amount > 0 && (
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-gray-600">{order.refund_status === 'full' ? 'Refunded:' : 'Partly refunded:'}</span>
+                  <span className="text-red-600">₦{Number(order.refunded_amount).toLocaleString()}</span>
+                </div>
+              )}
             </div>
 
             {order.customer_note && (
@@ -282,7 +363,7 @@ export default function OrderSuccessPage() {
                 📱 Real-time Updates
               </h4>
               <p className="text-blue-800 text-sm">
-                You'll receive popup notifications as your order progresses through each stage. 
+                You&apos;ll receive popup notifications as your order progresses through each stage. 
                 Keep this page open or save your tracking ID: <strong>{order.tracking_id}</strong>
               </p>
             </div>
@@ -0,0 +1,284 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Receipt, RotateCcw, ChevronRight } from 'lucide-react';
+import Navigation from '@/components/Navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { useNotifications } from '@/contexts/NotificationContext';
+import { supabase, FoodItem, Order, OrderItem } from '@/lib/supabase';
+import { getSessionId } from '@/lib/session';
+import { addToCart } from '@/lib/cart';
+import { getOrderStatusColor, getOrderStatusLabel } from '@/lib/order-status';
+import { PAYMENT_STATUS_LABELS, getPaymentStatusColor } from '@/lib/payments';
+import { formatScheduledTime } from '@/lib/schedule';
+import { formatOrderItemDetails, getOptionsPriceDelta } from '@/lib/menu-options';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+interface OrderWithItems extends Order {
+  order_items: (OrderItem & { food_items: Pick<FoodItem, 'id' | 'name' | 'price' | 'image_url' | 'available'> | null })[];
+}
+
+export default function OrdersPage() {
+  const [orders, setOrders] = useState<OrderWithItems[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { lastOrderUpdate } = useNotifications();
+  const router = useRouter();
+
+  useEffect(() => {
+    fetchOrders();
+
+    // Signing in switches to the account's session and its orders
+    window.addEventListener('sessionChanged', fetchOrders);
+    return () => window.removeEventListener('sessionChanged', fetchOrders);
+  }, []);
+
+  // NotificationContext already listens to this session's orders
+  useEffect(() => {
+    if (lastOrderUpdate) {
+      fetchOrders();
+    }
+  }, [lastOrderUpdate]);
+
+  const fetchOrders = async () => {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        order_items (
+          *,
+          food_items (
+            id,
+            name,
+            price,
+            image_url,
+            available
+          )
+        )
+      `)
+      .eq('session_id', getSessionId())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching orders:', error);
+      toast.error('Failed to load your orders');
+    } else {
+      setOrders(data || []);
+    }
+
+    setLoading(false);
+  };
+
+  // Combo components are listed under their combo rather than as lines of their own
+  const getOrderLines = (order: OrderWithItems) => order.order_items.filter((item) => !item.parent_item_id);
+
+  // Adds the order's items back to the cart at today's prices
+  const handleReorder = (order: OrderWithItems) => {
+    const unavailable: string[] = [];
+    const lines = getOrderLines(order);
+
+    lines.forEach((item) => {
+      // Combos go back as ordered; checkout re-prices them and flags any that can't be had
+      if (item.combo_name) {
+        if (!item.combo_id) {
+          unavailable.push(item.combo_name);
+          return;
+        }
+
+        addToCart(
+          {
+            id: item.combo_id,
+            name: item.combo_name,
+            price: item.unit_price,
+            image_url: '',
+            components: item.components,
+          },
+          item.quantity
+        );
+        return;
+      }
+
+      const foodItem = item.food_items;
+      if (!foodItem || !foodItem.available) {
+        unavailable.push(foodItem?.name ?? 'An item');
+        return;
+      }
+
+      // Options keep their ordered price; checkout re-prices them if they've changed
+      addToCart(
+        {
+          id: foodItem.id,
+          name: foodItem.name,
+          price: foodItem.price + getOptionsPriceDelta(item.options ?? []),
+          image_url: foodItem.image_url,
+          options: item.options ?? [],
+        },
+        item.quantity
+      );
+    });
+
+    if (unavailable.length === lines.length) {
+      toast.error('None of the items in this order are available right now');
+      return;
+    }
+
+    if (unavailable.length > 0) {
+      toast.warning(`Not available right now: ${unavailable.join(', ')}`);
+    } else {
+      toast.success('Items added to your cart');
+    }
+
+    router.push('/cart');
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navigation />
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-40 bg-gray-200 rounded-lg animate-pulse"></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-6">My Orders</h1>
+
+        {orders.length === 0 ? (
+          <div className="text-center py-16">
+            <Receipt className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600 mb-2">You haven&apos;t placed any orders on this device yet.</p>
+            <p className="text-sm text-gray-500 mb-6">
+              Ordered on another phone? <Link href="/account" className="text-green-700 underline">Sign in</Link> to see those orders here.
+            </p>
+            <Link href="/">
+              <Button className="bg-green-600 hover:bg-green-700">Browse the Menu</Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {orders.map((order) => (
+              <Card key={order.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex flex-wrap justify-between items-start gap-2">
+                    <div>
+                      <CardTitle className="text-lg">{order.tracking_id}</CardTitle>
+                      <p className="text-sm text-gray-600">{format(new Date(order.created_at), 'PPp')}</p>
+                      {order.scheduled_for && (
+                        <p className="text-sm text-indigo-700">
+                          Scheduled for {formatScheduledTime(order.scheduled_for)}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Badge className={getOrderStatusColor(order.status)}>
+                        {getOrderStatusLabel(order.status, order.fulfilment_mode)}
+                      </Badge>
+                      {order.status !== 'cancelled' && (
+                        <Badge className={getPaymentStatusColor(order.payment_status)}>
+                          {PAYMENT_STATUS_LABELS[order.payment_status]}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <ul className="space-y-1 text-sm">
+                    {getOrderLines(order).map((item) => (
+                      <li key={item.id} className="flex justify-between">
+                        <span>
+                          {item.quantity}× {item.food_items?.name ?? item.combo_name ?? 'Removed item'}
+                          {formatOrderItemDetails(item) && (
+                            <span className="text-gray-500"> ({formatOrderItemDetails(item)})</span>
+                          )}
+                        </span>
+                        <span>₦{(item.unit_price * item.quantity).toLocaleString()}</span>
+                      </li>
+                    ))}
+                  </ul>
+
+                  {order.delivery_fee > 0 && (
+                    <div className="flex justify-between text-sm text-gray-600">
+                      <span>Delivery{order.delivery_zone_name ? ` (${order.delivery_zone_name})` : ''}</span>
+                      <span>₦{order.delivery_fee.toLocaleString()}</span>
+                    </div>
+                  )}
+
+                  {order.discount_amount > 0 && (
+                    <div className="flex justify-between text-sm text-gray-600">
+                      <span>Discount{order.promo_code ? ` (${order.promo_code})` : ''}</span>
+                      <span className="text-green-600">−₦{order.discount_amount.toLocaleString()}</span>
+                    </div>
+                  )}
+
+                  {order.loyalty_discount > 0 && (
+                    <div className="flex justify-between text-sm text-gray-600">
+                      <span>Rewards</span>
+                      <span className="text-green-600">−₦{order.loyalty_discount.toLocaleString()}</span>
+                    </div>
+                  )}
+
+                  {order.referral_credit > 0 && (
+                    <div className="flex justify-between text-sm text-gray-600">
+                      <span>Referral credit</span>
+                      <span className="text-green-600">−₦{order.referral_credit.toLocaleString()}</span>
+                    </div>
+                  )}
+
+                  <Separator />
+
+                  <div className="flex justify-between items-center font-semibold">
+                    <span>Total</span>
+                    <span className="text-green-600">₦{order.total_amount.toLocaleString()}</span>
+                  </div>
+
+                  {order.refunded_amount > 0 && (
+                    <div className="flex justify-between text-sm text-gray-600">
+                      <span>{order.refund_status === 'full' ? 'Refunded' : 'Partly refunded'}</span>
+                      <span className="text-red-600">₦{Number(order.refunded_amount).toLocaleString()}</span>
+                    </div>
+                  )}
+
+                  {order.updated_at !== order.created_at && (
+                    <p className="text-xs text-gray-500">
+                      Last updated {format(new Date(order.updated_at), 'PPp')}
+                    </p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2 pt-1">
+                    <Link href={`/order-success?tracking=${order.tracking_id}`}>
+                      <Button variant="outline" size="sm">
+                        View Details
+                        <ChevronRight className="h-4 w-4 ml-1" />
+                      </Button>
+                    </Link>
+                    <Button
+                      size="sm"
+                      onClick={() => handleReorder(order)}
+                      className="bg-green-600 hover:bg-green-700"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Reorder
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
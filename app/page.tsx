@@ -4,36 +4,52 @@ import { useState, useEffect } from 'react';
 import { Search, Filter } from 'lucide-react';
 import Navigation from '@/components/Navigation';
 import FoodCard from '@/components/FoodCard';
+import ComboCard from '@/components/ComboCard';
+import KitchenStatusBanner from '@/components/KitchenStatusBanner';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { supabase, FoodItem } from '@/lib/supabase';
+import { supabase, Combo, FoodItem } from '@/lib/supabase';
+import { formatComboComponents, getComboComponents } from '@/lib/combos';
+import { savePendingReferralCode } from '@/lib/referrals';
 import { toast } from 'sonner';
 
 export default function Home() {
   const [foodItems, setFoodItems] = useState<FoodItem[]>([]);
   const [filteredItems, setFilteredItems] = useState<FoodItem[]>([]);
+  const [combos, setCombos] = useState<Combo[]>([]);
+  const [filteredCombos, setFilteredCombos] = useState<Combo[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
 
-  const categories = ['all', 'Rice', 'Snacks', 'Drinks', 'Swallow', 'Protein', 'Others'];
+  const categories = ['all', 'Combos', 'Rice', 'Snacks', 'Drinks', 'Swallow', 'Protein', 'Others'];
 
   useEffect(() => {
     fetchFoodItems();
+    savePendingReferralCode(window.location.search);
   }, []);
 
   useEffect(() => {
     filterItems();
-  }, [foodItems, searchQuery, selectedCategory]);
+  }, [foodItems, combos, searchQuery, selectedCategory]);
 
   const fetchFoodItems = async () => {
     setLoading(true);
     
-    const { data, error } = await supabase
-      .from('food_items')
-      .select('*')
-      .eq('available', true)
-      .order('name');
+    const [{ data, error }, { data: comboData, error: comboError }] = await Promise.all([
+      supabase
+        .from('food_items')
+        .select('*, food_option_groups(*, food_options(*))')
+        .eq('available', true)
+        .order('name'),
+      // Components come with their items, available or not, so cards can tell what's missing
+      supabase
+        .from('combos')
+        .select('*, combo_components(*, food_items(*), combo_component_swaps(*, food_items(*)))')
+        .eq('is_active', true)
+        .order('sort_order')
+        .order('name'),
+    ]);
 
     if (error) {
       console.error('Error fetching food items:', error);
@@ -41,32 +57,52 @@ export default function Home() {
     } else {
       setFoodItems(data || []);
     }
+
+    if (comboError) {
+      console.error('Error fetching combos:', comboError);
+    } else {
+      setCombos(comboData || []);
+    }
     
     setLoading(false);
   };
 
   const filterItems = () => {
     let filtered = foodItems;
+    let matchingCombos = combos;
 
-    // Filter by search query
+    // Filter by search query; combos also match on what's in them
     if (searchQuery) {
+      const query = searchQuery.toLowerCase();
       filtered = filtered.filter(item =>
-        item.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        item.description.toLowerCase().includes(searchQuery.toLowerCase())
+        item.name.toLowerCase().includes(query) ||
+        item.description.toLowerCase().includes(query)
+      );
+      matchingCombos = matchingCombos.filter(combo =>
+        combo.name.toLowerCase().includes(query) ||
+        (combo.description ?? '').toLowerCase().includes(query) ||
+        formatComboComponents(getComboComponents(combo)).toLowerCase().includes(query)
       );
     }
 
     // Filter by category
-    if (selectedCategory !== 'all') {
+    if (selectedCategory === 'Combos') {
+      filtered = [];
+    } else if (selectedCategory !== 'all') {
       filtered = filtered.filter(item => item.category === selectedCategory);
+      matchingCombos = [];
     }
 
     setFilteredItems(filtered);
+    setFilteredCombos(matchingCombos);
   };
 
+  const resultCount = filteredItems.length + filteredCombos.length;
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Navigation />
+      <KitchenStatusBanner />
       
       {/* Hero Section */}
       <div className="bg-gradient-to-r from-green-600 to-green-700 text-white">
@@ -113,7 +149,7 @@ export default function Home() {
           </div>
           
           <p className="text-gray-600">
-            {filteredItems.length} item{filteredItems.length !== 1 ? 's' : ''} found
+            {resultCount} item{resultCount !== 1 ? 's' : ''} found
           </p>
         </div>
 
@@ -129,7 +165,7 @@ export default function Home() {
               </div>
             ))}
           </div>
-        ) : filteredItems.length === 0 ? (
+        ) : resultCount === 0 ? (
           <div className="text-center py-12">
             <div className="text-gray-400 mb-4">
               <Search className="h-16 w-16 mx-auto" />
@@ -144,10 +180,30 @@ export default function Home() {
             </p>
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {filteredItems.map((item) => (
-              <FoodCard key={item.id} item={item} />
-            ))}
+          <div className="space-y-10">
+            {filteredCombos.length > 0 && (
+              <section>
+                <h2 className="text-2xl font-bold text-gray-900 mb-4">Combo Meals</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                  {filteredCombos.map((combo) => (
+                    <ComboCard key={combo.id} combo={combo} />
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {filteredItems.length > 0 && (
+              <section>
+                {filteredCombos.length > 0 && (
+                  <h2 className="text-2xl font-bold text-gray-900 mb-4">Menu</h2>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                  {filteredItems.map((item) => (
+                    <FoodCard key={item.id} item={item} />
+                  ))}
+                </div>
+              </section>
+            )}
           </div>
         )}
       </div>
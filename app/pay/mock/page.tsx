@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { CreditCard } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+
+// Stand-in for a hosted gateway checkout page, used with PAYMENT_PROVIDER=mock
+export default function MockPaymentPage() {
+  const searchParams = useSearchParams();
+  const reference = searchParams.get('reference') || '';
+  const amount = Number(searchParams.get('amount') || 0);
+  const callback = searchParams.get('callback') || '/';
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleOutcome = async (outcome: 'success' | 'failure') => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/payments/mock', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reference, outcome }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Mock payment failed');
+      }
+
+      const url = new URL(callback, window.location.origin);
+      url.searchParams.set('reference', reference);
+      window.location.href = url.toString();
+    } catch (error) {
+      console.error('Error simulating payment:', error);
+      toast.error(error instanceof Error ? error.message : 'Mock payment failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <CreditCard className="h-5 w-5 mr-2" />
+            Mock Payment Gateway
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            No money moves here. Choose an outcome to send a signed webhook back to FPI Food Hub.
+          </p>
+
+          <div className="bg-gray-50 rounded-lg p-4 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Reference</span>
+              <span className="font-mono">{reference}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Amount</span>
+              <span className="font-semibold">₦{amount.toLocaleString()}</span>
+            </div>
+          </div>
+
+          <Button
+            onClick={() => handleOutcome('success')}
+            disabled={isSubmitting || !reference}
+            className="w-full bg-green-600 hover:bg-green-700"
+          >
+            Simulate successful payment
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleOutcome('failure')}
+            disabled={isSubmitting || !reference}
+            className="w-full text-red-600 hover:text-red-700 hover:bg-red-50"
+          >
+            Simulate failed payment
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
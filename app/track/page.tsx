@@ -0,0 +1,170 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Search, CheckCircle, Circle, XCircle } from 'lucide-react';
+import Navigation from '@/components/Navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { supabase, Order, OrderTracking } from '@/lib/supabase';
+import { ORDER_STATUS_LABELS, getOrderStatusColor, getOrderStatusLabel, getOrderTimeline } from '@/lib/order-status';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+const TRACKING_ID_PATTERN = /^FPI-[A-Z0-9]{6}$/;
+
+export default function TrackOrderPage() {
+  const searchParams = useSearchParams();
+  const [trackingId, setTrackingId] = useState(searchParams.get('code')?.toUpperCase() ?? '');
+  const [phoneDigits, setPhoneDigits] = useState('');
+  const [tracking, setTracking] = useState<OrderTracking | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Keep a found order current without exposing anything beyond track_order()
+  useEffect(() => {
+    if (!tracking || ['delivered', 'cancelled'].includes(tracking.status)) return;
+
+    const interval = setInterval(() => lookup(tracking.tracking_id, phoneDigits, true), 30000);
+    return () => clearInterval(interval);
+  }, [tracking, phoneDigits]);
+
+  const lookup = async (code: string, digits: string, silent = false) => {
+    const { data, error } = await supabase.rpc('track_order', {
+      p_tracking_id: code,
+      p_phone_last_digits: digits,
+    });
+
+    if (error) {
+      console.error('Error tracking order:', error);
+      if (!silent) {
+        toast.error(error.hint === 'too_many_attempts' ? error.message : 'Could not look up this order. Please try again.');
+      }
+      return;
+    }
+
+    if (!data) {
+      setTracking(null);
+      if (!silent) toast.error('No order matches that tracking ID and phone number');
+      return;
+    }
+
+    setTracking(data as OrderTracking);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const code = trackingId.trim().toUpperCase();
+    if (!TRACKING_ID_PATTERN.test(code)) {
+      toast.error('Tracking IDs look like FPI-AB12CD');
+      return;
+    }
+    if (!/^\d{4}$/.test(phoneDigits)) {
+      toast.error('Enter the last 4 digits of the phone number used for the order');
+      return;
+    }
+
+    setIsSearching(true);
+    await lookup(code, phoneDigits);
+    setIsSearching(false);
+  };
+
+  const reachedAt = (status: Order['status']) =>
+    tracking?.timeline.find((entry) => entry.status === status)?.created_at;
+
+  const cancelledAt = reachedAt('cancelled');
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <h1 className="text-3xl font-bold text-gray-900">Track an Order</h1>
+
+        <Card>
+          <CardContent className="pt-6">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="tracking-id">Tracking ID</Label>
+                <Input
+                  id="tracking-id"
+                  placeholder="FPI-XXXXXX"
+                  value={trackingId}
+                  onChange={(e) => setTrackingId(e.target.value.toUpperCase())}
+                  maxLength={10}
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="phone-digits">Last 4 digits of your phone number</Label>
+                <Input
+                  id="phone-digits"
+                  inputMode="numeric"
+                  placeholder="1234"
+                  value={phoneDigits}
+                  onChange={(e) => setPhoneDigits(e.target.value.replace(/\D/g, '').slice(0, 4))}
+                />
+              </div>
+              <Button type="submit" disabled={isSearching} className="w-full bg-green-600 hover:bg-green-700">
+                <Search className="h-4 w-4 mr-2" />
+                {isSearching ? 'Searching...' : 'Track Order'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {tracking && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="font-mono">{tracking.tracking_id}</span>
+                <Badge className={getOrderStatusColor(tracking.status)}>
+                  {getOrderStatusLabel(tracking.status, tracking.fulfilment_mode)}
+                </Badge>
+              </CardTitle>
+              <p className="text-sm text-gray-600">Placed {format(new Date(tracking.created_at), 'PPp')}</p>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-4">
+                {getOrderTimeline(tracking.fulfilment_mode).map((status) => {
+                  const at = reachedAt(status);
+                  // Steps after a cancellation never happen
+                  if (!at && cancelledAt) return null;
+
+                  return (
+                    <li key={status} className="flex items-start space-x-3">
+                      {at ? (
+                        <CheckCircle className="h-5 w-5 text-green-600 mt-0.5" />
+                      ) : (
+                        <Circle className="h-5 w-5 text-gray-300 mt-0.5" />
+                      )}
+                      <div>
+                        <p className={at ? 'font-medium text-gray-900' : 'text-gray-400'}>
+                          {getOrderStatusLabel(status, tracking.fulfilment_mode)}
+                        </p>
+                        {at && <p className="text-sm text-gray-600">{format(new Date(at), 'PPp')}</p>}
+                      </div>
+                    </li>
+                  );
+                })}
+
+                {cancelledAt && (
+                  <li className="flex items-start space-x-3">
+                    <XCircle className="h-5 w-5 text-red-600 mt-0.5" />
+                    <div>
+                      <p className="font-medium text-gray-900">{ORDER_STATUS_LABELS.cancelled}</p>
+                      <p className="text-sm text-gray-600">{format(new Date(cancelledAt), 'PPp')}</p>
+                    </div>
+                  </li>
+                )}
+              </ol>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
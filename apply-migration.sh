@@ -24,14 +24,17 @@ curl -X POST "${NEXT_PUBLIC_SUPABASE_URL}/rest/v1/rpc/create_order_with_items" \
   -H "Content-Type: application/json" \
   -d '{
     "p_session_id": "test-session-'$(date +%s)'",
-    "p_total_amount": 1500.00,
     "p_tracking_id": "TEST-'$(date +%s)'",
     "p_customer_note": "Test order",
+    "p_customer_phone": "08012345678",
+    "p_customer_name": "Test Customer",
+    "p_delivery_location_id": "00000000-0000-0000-0000-000000000000",
+    "p_delivery_room": "Room 1",
+    "p_delivery_zone_id": "00000000-0000-0000-0000-000000000000",
     "p_order_items": [
       {
         "food_item_id": "00000000-0000-0000-0000-000000000000",
-        "quantity": 2,
-        "unit_price": 750.00
+        "quantity": 2
       }
     ]
   }' 
\ No newline at end of file
@@ -0,0 +1,74 @@
+'use client';
+
+import { Copy, Landmark, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { BankDetail } from '@/lib/supabase';
+import { toast } from 'sonner';
+
+interface BankAccountListProps {
+  accounts: Pick<BankDetail, 'id' | 'bank_name' | 'account_name' | 'account_number'>[];
+  selectedId?: string | null;
+  onSelect?: (id: string) => void;
+}
+
+export default function BankAccountList({ accounts, selectedId, onSelect }: BankAccountListProps) {
+  const handleCopy = async (accountNumber: string) => {
+    try {
+      await navigator.clipboard.writeText(accountNumber);
+      toast.success('Account number copied');
+    } catch {
+      toast.error('Could not copy. Please copy the number manually.');
+    }
+  };
+
+  if (accounts.length === 0) {
+    return (
+      <p className="text-sm text-gray-600">
+        No bank accounts are available right now. Please contact the food hub.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {accounts.map((account) => {
+        const isSelected = selectedId === account.id;
+
+        return (
+          <div
+            key={account.id}
+            onClick={() => onSelect?.(account.id)}
+            className={`rounded-lg border p-4 transition-colors ${
+              onSelect ? 'cursor-pointer hover:border-green-400' : ''
+            } ${isSelected ? 'border-green-600 bg-green-50' : 'border-gray-200 bg-white'}`}
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div className="flex items-start space-x-3">
+                <Landmark className="h-5 w-5 text-green-600 mt-0.5" />
+                <div>
+                  <p className="font-semibold text-gray-900">{account.bank_name}</p>
+                  <p className="text-lg font-mono tracking-wider">{account.account_number}</p>
+                  <p className="text-sm text-gray-600">{account.account_name}</p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                {isSelected && <CheckCircle className="h-5 w-5 text-green-600" />}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleCopy(account.account_number);
+                  }}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
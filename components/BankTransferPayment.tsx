@@ -0,0 +1,192 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Copy, Clock, CheckCircle, AlertTriangle, Landmark, Undo2 } from 'lucide-react';
+import BankAccountList from '@/components/BankAccountList';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { BankDetail, Order } from '@/lib/supabase';
+import { fetchActiveBankAccounts, markTransferPaid } from '@/lib/payments';
+import { toast } from 'sonner';
+
+interface BankTransferPaymentProps {
+  order: Order;
+  onReported: () => void;
+}
+
+export default function BankTransferPayment({ order, onReported }: BankTransferPaymentProps) {
+  const [accounts, setAccounts] = useState<BankDetail[]>([]);
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(order.payment_bank_detail_id);
+  const [senderName, setSenderName] = useState(order.transfer_sender_name || '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchActiveBankAccounts()
+      .then((data) => {
+        setAccounts(data);
+        if (data.length === 1) setSelectedAccountId(data[0].id);
+      })
+      .catch((error) => {
+        console.error('Error fetching bank accounts:', error);
+        toast.error('Failed to load bank accounts');
+      });
+  }, []);
+
+  const handleCopyReference = async () => {
+    try {
+      await navigator.clipboard.writeText(order.transfer_reference);
+      toast.success('Reference copied');
+    } catch {
+      toast.error('Could not copy. Please copy the reference manually.');
+    }
+  };
+
+  const handleMarkPaid = async () => {
+    if (!selectedAccountId) {
+      toast.error('Please select the account you paid into');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await markTransferPaid(order.tracking_id, selectedAccountId, senderName);
+      toast.success('Thanks! A cashier will confirm your transfer shortly.');
+      onReported();
+    } catch (error) {
+      console.error('Error reporting transfer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to report payment. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (order.status === 'cancelled') {
+    return null;
+  }
+
+  if (order.payment_status === 'completed') {
+    return (
+      <Card className="mb-8">
+        <CardContent className="pt-6 flex items-center space-x-3">
+          <CheckCircle className="h-6 w-6 text-green-600" />
+          <div>
+            <p className="font-semibold text-gray-900">Payment confirmed</p>
+            <p className="text-sm text-gray-600">
+              {order.payment_method === 'wallet'
+                ? 'Paid from your wallet'
+                : Number(order.total_amount) === 0
+                  ? 'Your discounts covered this order'
+                  : `Reference ${order.transfer_reference}`}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (order.payment_status === 'refunded') {
+    return (
+      <Card className="mb-8">
+        <CardContent className="pt-6 flex items-center space-x-3">
+          <Undo2 className="h-6 w-6 text-gray-600" />
+          <div>
+            <p className="font-semibold text-gray-900">Payment refunded</p>
+            <p className="text-sm text-gray-600">
+              ₦{Number(order.refunded_amount).toLocaleString()} has been refunded on this order.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (order.payment_status === 'processing') {
+    return (
+      <Card className="mb-8">
+        <CardContent className="pt-6 flex items-center space-x-3">
+          <Clock className="h-6 w-6 text-blue-600" />
+          <div>
+            <p className="font-semibold text-gray-900">Confirming your transfer</p>
+            <p className="text-sm text-gray-600">
+              A cashier is matching reference <strong>{order.transfer_reference}</strong> with our bank records.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Landmark className="h-5 w-5 mr-2" />
+          Pay by Bank Transfer
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {order.payment_status === 'failed' && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>We couldn&apos;t find your transfer</AlertTitle>
+            <AlertDescription>
+              Please check that you used the reference below and the exact amount, then let us know again.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-2">
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-gray-600">Amount to transfer</span>
+            <span className="text-xl font-bold text-green-700">₦{order.total_amount.toLocaleString()}</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-gray-600">Transfer reference</span>
+            <button
+              type="button"
+              onClick={handleCopyReference}
+              className="flex items-center font-mono font-semibold text-gray-900 hover:text-green-700"
+            >
+              {order.transfer_reference}
+              <Copy className="h-4 w-4 ml-2" />
+            </button>
+          </div>
+          <p className="text-xs text-gray-600">
+            Put this reference in the transfer narration so we can match your payment.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Account you paid into</Label>
+          <BankAccountList
+            accounts={accounts}
+            selectedId={selectedAccountId}
+            onSelect={setSelectedAccountId}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sender-name">Sender account name (Optional)</Label>
+          <Input
+            id="sender-name"
+            placeholder="Name on the account you sent from"
+            value={senderName}
+            onChange={(e) => setSenderName(e.target.value)}
+            maxLength={100}
+          />
+        </div>
+
+        <Button
+          onClick={handleMarkPaid}
+          disabled={isSubmitting || accounts.length === 0}
+          className="w-full bg-green-600 hover:bg-green-700"
+        >
+          {isSubmitting ? 'Sending...' : 'I have paid'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
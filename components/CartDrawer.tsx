@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { getCart, updateCartItemQuantity, removeFromCart, getCartTotal, clearCart, CartItem } from '@/lib/cart';
+import { formatCartLineDetails } from '@/lib/menu-options';
 import { toast } from 'sonner';
 
 export default function CartDrawer() {
@@ -30,17 +31,17 @@ export default function CartDrawer() {
     setTotal(getCartTotal());
   };
 
-  const handleQuantityChange = (id: string, newQuantity: number) => {
+  const handleQuantityChange = (key: string, newQuantity: number) => {
     if (newQuantity <= 0) {
-      removeFromCart(id);
+      removeFromCart(key);
       toast.success('Item removed from cart');
     } else {
-      updateCartItemQuantity(id, newQuantity);
+      updateCartItemQuantity(key, newQuantity);
     }
   };
 
-  const handleRemoveItem = (id: string, name: string) => {
-    removeFromCart(id);
+  const handleRemoveItem = (key: string, name: string) => {
+    removeFromCart(key);
     toast.success(`${name} removed from cart`);
   };
 
@@ -71,7 +72,7 @@ export default function CartDrawer() {
       
       <div className="space-y-4">
         {cart.map((item) => (
-          <Card key={item.id}>
+          <Card key={item.key}>
             <CardContent className="p-4">
               <div className="flex items-center space-x-4">
                 <div className="w-16 h-16 bg-gray-200 rounded-lg overflow-hidden flex-shrink-0">
@@ -84,6 +85,9 @@ export default function CartDrawer() {
                 
                 <div className="flex-1">
                   <h4 className="font-semibold text-gray-900">{item.name}</h4>
+                  {formatCartLineDetails(item) && (
+                    <p className="text-sm text-gray-500">{formatCartLineDetails(item)}</p>
+                  )}
                   <p className="text-green-600 font-medium">₦{item.price.toLocaleString()}</p>
                 </div>
                 
@@ -91,7 +95,7 @@ export default function CartDrawer() {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => handleQuantityChange(item.id, item.quantity - 1)}
+                    onClick={() => handleQuantityChange(item.key, item.quantity - 1)}
                   >
                     <Minus className="h-3 w-3" />
                   </Button>
@@ -101,7 +105,7 @@ export default function CartDrawer() {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
+                    onClick={() => handleQuantityChange(item.key, item.quantity + 1)}
                   >
                     <Plus className="h-3 w-3" />
                   </Button>
@@ -110,7 +114,7 @@ export default function CartDrawer() {
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => handleRemoveItem(item.id, item.name)}
+                  onClick={() => handleRemoveItem(item.key, item.name)}
                   className="text-red-500 hover:text-red-700 hover:bg-red-50"
                 >
                   <Trash2 className="h-4 w-4" />
@@ -0,0 +1,216 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardFooter } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Combo, ComboComponent } from '@/lib/supabase';
+import { addToCart, getCartQuantityForItem } from '@/lib/cart';
+import {
+  formatComboComponents,
+  getComboComponents,
+  getComboSwapsPriceDelta,
+  isComboAvailable,
+  sortComboComponents,
+} from '@/lib/combos';
+import { toast } from 'sonner';
+
+interface ComboCardProps {
+  combo: Combo;
+}
+
+// Each component starts on its default item, or its first available swap if the default is off
+function getDefaultSwaps(combo: Combo): Record<string, string> {
+  const swaps: Record<string, string> = {};
+  for (const component of combo.combo_components ?? []) {
+    if (!component.food_items?.available) {
+      const swap = component.combo_component_swaps?.find(s => s.food_items?.available);
+      if (swap) swaps[component.id] = swap.food_item_id;
+    }
+  }
+  return swaps;
+}
+
+export default function ComboCard({ combo }: ComboCardProps) {
+  const [quantity, setQuantity] = useState(() => getCartQuantityForItem(combo.id));
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [swaps, setSwaps] = useState<Record<string, string>>(() => getDefaultSwaps(combo));
+
+  const components = sortComboComponents(combo.combo_components);
+  const hasSwaps = components.some(component => (component.combo_component_swaps?.length ?? 0) > 0);
+  const available = isComboAvailable(combo);
+
+  const chosen = getComboComponents(combo, swaps);
+  const unitPrice = Number(combo.price) + getComboSwapsPriceDelta(chosen);
+
+  // What the components would cost bought one by one
+  const separatePrice = components.reduce(
+    (total, component) => total + Number(component.food_items?.price ?? 0) * component.quantity,
+    0
+  );
+  const saving = separatePrice - Number(combo.price);
+
+  const handleAddToCart = () => {
+    addToCart({
+      id: combo.id,
+      name: combo.name,
+      price: unitPrice,
+      image_url: combo.image_url ?? '',
+      components: chosen,
+    });
+    setQuantity(prev => prev + 1);
+    setIsDialogOpen(false);
+    setSwaps(getDefaultSwaps(combo));
+    toast.success(`${combo.name} added to cart!`);
+  };
+
+  const getChoices = (component: ComboComponent) => [
+    {
+      food_item_id: component.food_item_id,
+      name: component.food_items?.name ?? component.label,
+      price_delta: 0,
+      available: Boolean(component.food_items?.available),
+    },
+    ...(component.combo_component_swaps ?? []).map(swap => ({
+      food_item_id: swap.food_item_id,
+      name: swap.food_items?.name ?? 'Unavailable item',
+      price_delta: Number(swap.price_delta),
+      available: Boolean(swap.food_items?.available),
+    })),
+  ];
+
+  const formatDelta = (delta: number) =>
+    delta === 0 ? null : `${delta > 0 ? '+' : '−'}₦${Math.abs(delta).toLocaleString()}`;
+
+  return (
+    <Card className="group hover:shadow-lg transition-shadow duration-300 border-green-200">
+      <CardContent className="p-0">
+        <div className="relative overflow-hidden rounded-t-lg">
+          <Image
+            src={combo.image_url || '/api/placeholder/300/200'}
+            alt={combo.name}
+            width={300}
+            height={200}
+            className="w-full h-48 object-cover group-hover:scale-105 transition-transform duration-300"
+          />
+          <div className="absolute top-2 right-2">
+            <Badge className="bg-green-600">Combo</Badge>
+          </div>
+        </div>
+
+        <div className="p-4">
+          <h3 className="font-semibold text-lg text-gray-900 mb-1">
+            {combo.name}
+          </h3>
+          <p className="text-gray-600 text-sm mb-1 line-clamp-2">
+            {formatComboComponents(getComboComponents(combo))}
+          </p>
+          {combo.description && (
+            <p className="text-gray-500 text-xs mb-3 line-clamp-2">{combo.description}</p>
+          )}
+          <div className="flex items-center justify-between">
+            <span className="text-xl font-bold text-green-600">
+              ₦{Number(combo.price).toLocaleString()}
+            </span>
+            {!available ? (
+              <Badge variant="destructive">Unavailable</Badge>
+            ) : saving > 0 && (
+              <Badge variant="outline" className="border-green-400 text-green-700">
+                Save ₦{saving.toLocaleString()}
+              </Badge>
+            )}
+          </div>
+        </div>
+      </CardContent>
+
+      <CardFooter className="p-4 pt-0">
+        {!available ? (
+          <Button disabled className="w-full">
+            Unavailable
+          </Button>
+        ) : (
+          <Button
+            onClick={hasSwaps ? () => setIsDialogOpen(true) : handleAddToCart}
+            className="w-full bg-green-600 hover:bg-green-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {quantity > 0 ? `Add another (${quantity} in cart)` : hasSwaps ? 'Choose & Add' : 'Add to Cart'}
+          </Button>
+        )}
+      </CardFooter>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{combo.name}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-5">
+            {components.map((component) => {
+              const choices = getChoices(component);
+              const selected = swaps[component.id] ?? component.food_item_id;
+
+              return (
+                <div key={component.id} className="space-y-2">
+                  <h4 className="font-semibold">
+                    {component.label}
+                    {component.quantity > 1 && <span className="text-gray-500 font-normal"> × {component.quantity}</span>}
+                  </h4>
+
+                  {choices.length === 1 ? (
+                    <p className="text-sm text-gray-600">{choices[0].name}</p>
+                  ) : (
+                    <RadioGroup
+                      value={selected}
+                      onValueChange={(value) =>
+                        setSwaps(prev => {
+                          const next = { ...prev };
+                          if (value === component.food_item_id) {
+                            delete next[component.id];
+                          } else {
+                            next[component.id] = value;
+                          }
+                          return next;
+                        })
+                      }
+                    >
+                      {choices.map((choice) => (
+                        <Label
+                          key={choice.food_item_id}
+                          htmlFor={`combo-${component.id}-${choice.food_item_id}`}
+                          className={`flex items-center justify-between border rounded-lg p-3 font-normal ${
+                            choice.available ? 'cursor-pointer' : 'opacity-50'
+                          }`}
+                        >
+                          <span className="flex items-center gap-2">
+                            <RadioGroupItem
+                              value={choice.food_item_id}
+                              id={`combo-${component.id}-${choice.food_item_id}`}
+                              disabled={!choice.available}
+                            />
+                            {choice.name}
+                            {!choice.available && <span className="text-xs text-gray-500">(sold out)</span>}
+                          </span>
+                          <span className="text-sm text-gray-600">{formatDelta(choice.price_delta)}</span>
+                        </Label>
+                      ))}
+                    </RadioGroup>
+                  )}
+                </div>
+              );
+            })}
+
+            <Button onClick={handleAddToCart} className="w-full bg-green-600 hover:bg-green-700">
+              Add to Cart · ₦{unitPrice.toLocaleString()}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
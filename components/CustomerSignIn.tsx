@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { Phone } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Customer } from '@/lib/supabase';
+import { requestSignInCode, verifySignInCode, CustomerApiError } from '@/lib/customer';
+import { toast } from 'sonner';
+
+interface CustomerSignInProps {
+  onSignedIn: (customer: Customer) => void;
+}
+
+export default function CustomerSignIn({ onSignedIn }: CustomerSignInProps) {
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSendCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const result = await requestSignInCode(phone);
+      setCodeSent(true);
+      setCode('');
+      toast.success(
+        result.dev_code ? `Development code: ${result.dev_code}` : 'We sent a 6-digit code to your phone'
+      );
+    } catch (err) {
+      console.error('Error requesting sign-in code:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not send the code. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (value: string) => {
+    setIsSubmitting(true);
+
+    try {
+      const { customer, merged_orders } = await verifySignInCode(phone, value);
+      toast.success(
+        merged_orders > 0
+          ? `Signed in. ${merged_orders} order${merged_orders === 1 ? '' : 's'} from this device added to your account.`
+          : 'Signed in'
+      );
+      onSignedIn(customer);
+    } catch (err) {
+      console.error('Error verifying sign-in code:', err);
+      setCode('');
+
+      if (err instanceof CustomerApiError && err.status === 410) {
+        setCodeSent(false);
+      }
+      toast.error(err instanceof Error ? err.message : 'Sign in failed. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!codeSent) {
+    return (
+      <form onSubmit={handleSendCode} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="signin-phone">Phone number</Label>
+          <div className="relative">
+            <Phone className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              id="signin-phone"
+              type="tel"
+              placeholder="e.g. 08012345678"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              className="pl-9"
+              maxLength={20}
+              required
+            />
+          </div>
+        </div>
+        <Button type="submit" disabled={isSubmitting} className="w-full bg-green-600 hover:bg-green-700">
+          {isSubmitting ? 'Sending...' : 'Send Code'}
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Enter the 6-digit code sent to <strong>{phone}</strong>.
+      </p>
+      <InputOTP
+        maxLength={6}
+        value={code}
+        onChange={setCode}
+        onComplete={handleVerify}
+        disabled={isSubmitting}
+        containerClassName="justify-center"
+      >
+        <InputOTPGroup>
+          {[0, 1, 2, 3, 4, 5].map((index) => (
+            <InputOTPSlot key={index} index={index} />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+      <div className="flex justify-between">
+        <Button variant="ghost" size="sm" onClick={() => setCodeSent(false)} disabled={isSubmitting}>
+          Change number
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleSendCode}
+          disabled={isSubmitting}
+        >
+          Resend code
+        </Button>
+      </div>
+    </div>
+  );
+}
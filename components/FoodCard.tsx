@@ -6,8 +6,11 @@ import { Plus, Minus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { FoodItem } from '@/lib/supabase';
-import { addToCart, getCart, updateCartItemQuantity } from '@/lib/cart';
+import { FoodItem, OrderItemOption } from '@/lib/supabase';
+import { addToCart, getCart, getCartQuantityForItem, updateCartItemQuantity } from '@/lib/cart';
+import { isLowStock } from '@/lib/food-items';
+import { getOptionsPriceDelta } from '@/lib/menu-options';
+import FoodOptionsDialog from './FoodOptionsDialog';
 import { toast } from 'sonner';
 
 interface FoodCardProps {
@@ -15,9 +18,16 @@ interface FoodCardProps {
 }
 
 export default function FoodCard({ item }: FoodCardProps) {
+  const hasOptions = (item.food_option_groups?.length ?? 0) > 0;
+  const [isOptionsOpen, setIsOptionsOpen] = useState(false);
+
+  // Items with options count every combination in the cart; the stepper below
+  // only drives the plain line, whose key is the item id
   const [quantity, setQuantity] = useState(() => {
+    if (hasOptions) return getCartQuantityForItem(item.id);
+
     const cart = getCart();
-    const existingItem = cart.find(cartItem => cartItem.id === item.id);
+    const existingItem = cart.find(cartItem => cartItem.key === item.id);
     return existingItem?.quantity || 0;
   });
 
@@ -32,6 +42,24 @@ export default function FoodCard({ item }: FoodCardProps) {
     toast.success(`${item.name} added to cart!`);
   };
 
+  const handleAddWithOptions = (options: OrderItemOption[], optionQuantity: number) => {
+    addToCart(
+      {
+        id: item.id,
+        name: item.name,
+        price: item.price + getOptionsPriceDelta(options),
+        image_url: item.image_url,
+        options,
+      },
+      optionQuantity
+    );
+    setQuantity(prev => prev + optionQuantity);
+    toast.success(`${item.name} added to cart!`);
+  };
+
+  // Counted items can't be added beyond what's left
+  const atStockLimit = item.stock_quantity !== null && quantity >= item.stock_quantity;
+
   const handleUpdateQuantity = (newQuantity: number) => {
     if (newQuantity <= 0) {
       updateCartItemQuantity(item.id, 0);
@@ -72,8 +100,12 @@ export default function FoodCard({ item }: FoodCardProps) {
             <span className="text-xl font-bold text-green-600">
               ₦{item.price.toLocaleString()}
             </span>
-            {!item.available && (
+            {!item.available ? (
               <Badge variant="destructive">Out of Stock</Badge>
+            ) : isLowStock(item) && (
+              <Badge variant="outline" className="border-amber-400 text-amber-700">
+                Only {item.stock_quantity} left
+              </Badge>
             )}
           </div>
         </div>
@@ -84,6 +116,20 @@ export default function FoodCard({ item }: FoodCardProps) {
           <Button disabled className="w-full">
             Out of Stock
           </Button>
+        ) : hasOptions ? (
+          <>
+            <Button onClick={() => setIsOptionsOpen(true)} className="w-full bg-green-600 hover:bg-green-700">
+              <Plus className="h-4 w-4 mr-2" />
+              {quantity > 0 ? `Add another (${quantity} in cart)` : 'Choose Options'}
+            </Button>
+            <FoodOptionsDialog
+              item={item}
+              open={isOptionsOpen}
+              onOpenChange={setIsOptionsOpen}
+              maxQuantity={item.stock_quantity !== null ? item.stock_quantity - quantity : undefined}
+              onAdd={handleAddWithOptions}
+            />
+          </>
         ) : quantity === 0 ? (
           <Button onClick={handleAddToCart} className="w-full bg-green-600 hover:bg-green-700">
             <Plus className="h-4 w-4 mr-2" />
@@ -105,6 +151,7 @@ export default function FoodCard({ item }: FoodCardProps) {
               variant="outline"
               size="sm"
               onClick={() => handleUpdateQuantity(quantity + 1)}
+              disabled={atStockLimit}
             >
               <Plus className="h-4 w-4" />
             </Button>
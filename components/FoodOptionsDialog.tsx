@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Minus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { FoodItem, OrderItemOption } from '@/lib/supabase';
+import { getOptionsPriceDelta, getSelectedOptions, sortOptionGroups, validateOptionSelection } from '@/lib/menu-options';
+import { toast } from 'sonner';
+
+interface FoodOptionsDialogProps {
+  item: FoodItem;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // How many more fit within stock; undefined when stock isn't counted
+  maxQuantity?: number;
+  onAdd: (options: OrderItemOption[], quantity: number) => void;
+}
+
+// Starts with the first available option of each required single-choice group picked
+function getDefaultSelection(item: FoodItem): string[] {
+  return sortOptionGroups(item.food_option_groups)
+    .filter(group => group.is_required && group.selection === 'single')
+    .flatMap(group => {
+      const first = group.food_options?.find(option => option.is_available);
+      return first ? [first.id] : [];
+    });
+}
+
+export default function FoodOptionsDialog({ item, open, onOpenChange, maxQuantity, onAdd }: FoodOptionsDialogProps) {
+  const groups = sortOptionGroups(item.food_option_groups);
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => getDefaultSelection(item));
+  const [quantity, setQuantity] = useState(1);
+
+  const selectedOptions = getSelectedOptions(groups, selectedIds);
+  const unitPrice = Number(item.price) + getOptionsPriceDelta(selectedOptions);
+
+  const selectSingle = (groupId: string, optionId: string) => {
+    const groupOptionIds = groups.find(group => group.id === groupId)?.food_options?.map(option => option.id) ?? [];
+    setSelectedIds(prev => [...prev.filter(id => !groupOptionIds.includes(id)), optionId]);
+  };
+
+  const toggleMulti = (optionId: string, checked: boolean) => {
+    setSelectedIds(prev => (checked ? [...prev, optionId] : prev.filter(id => id !== optionId)));
+  };
+
+  const handleAdd = () => {
+    const selectionError = validateOptionSelection(groups, selectedIds);
+    if (selectionError) {
+      toast.error(selectionError);
+      return;
+    }
+
+    onAdd(selectedOptions, quantity);
+    onOpenChange(false);
+    setSelectedIds(getDefaultSelection(item));
+    setQuantity(1);
+  };
+
+  const formatDelta = (delta: number) =>
+    delta === 0 ? null : `${delta > 0 ? '+' : '−'}₦${Math.abs(delta).toLocaleString()}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {groups.map((group) => (
+            <div key={group.id} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <h4 className="font-semibold">{group.name}</h4>
+                {group.is_required ? (
+                  <Badge variant="secondary">Required</Badge>
+                ) : (
+                  <span className="text-xs text-gray-500">
+                    Optional{group.selection === 'multi' && group.max_selections ? ` · up to ${group.max_selections}` : ''}
+                  </span>
+                )}
+              </div>
+
+              {group.selection === 'single' ? (
+                <RadioGroup
+                  value={group.food_options?.find(option => selectedIds.includes(option.id))?.id ?? ''}
+                  onValueChange={(value) => selectSingle(group.id, value)}
+                >
+                  {group.food_options?.map((option) => (
+                    <Label
+                      key={option.id}
+                      htmlFor={`option-${option.id}`}
+                      className={`flex items-center justify-between border rounded-lg p-3 font-normal ${
+                        option.is_available ? 'cursor-pointer' : 'opacity-50'
+                      }`}
+                    >
+                      <span className="flex items-center gap-2">
+                        <RadioGroupItem value={option.id} id={`option-${option.id}`} disabled={!option.is_available} />
+                        {option.name}
+                        {!option.is_available && <span className="text-xs text-gray-500">(sold out)</span>}
+                      </span>
+                      <span className="text-sm text-gray-600">{formatDelta(Number(option.price_delta))}</span>
+                    </Label>
+                  ))}
+                </RadioGroup>
+              ) : (
+                <div className="space-y-2">
+                  {group.food_options?.map((option) => (
+                    <Label
+                      key={option.id}
+                      htmlFor={`option-${option.id}`}
+                      className={`flex items-center justify-between border rounded-lg p-3 font-normal ${
+                        option.is_available ? 'cursor-pointer' : 'opacity-50'
+                      }`}
+                    >
+                      <span className="flex items-center gap-2">
+                        <Checkbox
+                          id={`option-${option.id}`}
+                          checked={selectedIds.includes(option.id)}
+                          onCheckedChange={(checked) => toggleMulti(option.id, checked === true)}
+                          disabled={!option.is_available}
+                        />
+                        {option.name}
+                        {!option.is_available && <span className="text-xs text-gray-500">(sold out)</span>}
+                      </span>
+                      <span className="text-sm text-gray-600">{formatDelta(Number(option.price_delta))}</span>
+                    </Label>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between gap-4 pt-2">
+            <div className="flex items-center space-x-3">
+              <Button variant="outline" size="sm" onClick={() => setQuantity(prev => Math.max(1, prev - 1))}>
+                <Minus className="h-4 w-4" />
+              </Button>
+              <span className="font-semibold text-lg min-w-[2rem] text-center">{quantity}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setQuantity(prev => prev + 1)}
+                disabled={maxQuantity !== undefined && quantity >= maxQuantity}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button
+              onClick={handleAdd}
+              disabled={maxQuantity !== undefined && maxQuantity <= 0}
+              className="flex-1 bg-green-600 hover:bg-green-700"
+            >
+              Add {quantity} · ₦{(unitPrice * quantity).toLocaleString()}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Clock, CircleCheck } from 'lucide-react';
+import { KitchenStatus } from '@/lib/supabase';
+import { describeNextOpening, fetchKitchenStatus } from '@/lib/schedule';
+import { format } from 'date-fns';
+
+export default function KitchenStatusBanner() {
+  const [status, setStatus] = useState<KitchenStatus | null>(null);
+
+  useEffect(() => {
+    const refresh = () =>
+      fetchKitchenStatus()
+        .then(setStatus)
+        .catch((error) => console.error('Error fetching kitchen status:', error));
+
+    refresh();
+
+    // Opening and closing happen on the clock, so check again every minute
+    const timer = setInterval(refresh, 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!status) return null;
+
+  if (status.is_open) {
+    return (
+      <div className="bg-green-50 border-b border-green-200 text-green-800">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center text-sm">
+          <CircleCheck className="h-4 w-4 mr-2 shrink-0" />
+          <span>
+            Open now
+            {status.closes_at && ` · orders until ${format(new Date(status.closes_at), 'p')}`}
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  const nextOpening = describeNextOpening(status);
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200 text-amber-900">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-wrap items-center gap-x-2 text-sm">
+        <Clock className="h-4 w-4 shrink-0" />
+        <span className="font-semibold">{status.message}</span>
+        {nextOpening && <span>{nextOpening}.</span>}
+        <span>
+          You can still <Link href="/cart" className="underline">pre-order</Link> for a later time slot.
+        </span>
+      </div>
+    </div>
+  );
+}
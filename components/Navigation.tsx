@@ -2,13 +2,17 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { ShoppingCart, UtensilsCrossed, User } from 'lucide-react';
+import { ShoppingCart, UtensilsCrossed, User, Receipt, UserCircle, Gift } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { getCartItemCount } from '@/lib/cart';
+import { getSessionId } from '@/lib/session';
+import { fetchLoyaltyStatus, formatLoyaltyBalance } from '@/lib/loyalty';
+import { LoyaltyStatus } from '@/lib/supabase';
 
 export default function Navigation() {
   const [cartCount, setCartCount] = useState(0);
+  const [loyalty, setLoyalty] = useState<LoyaltyStatus | null>(null);
 
   useEffect(() => {
     // Initial cart count
@@ -23,6 +27,19 @@ export default function Navigation() {
     return () => window.removeEventListener('cartUpdated', handleCartUpdate);
   }, []);
 
+  useEffect(() => {
+    // Rewards belong to the session, so signing in or out changes the balance
+    const refreshLoyalty = () => {
+      fetchLoyaltyStatus(getSessionId())
+        .then(setLoyalty)
+        .catch((error) => console.error('Error fetching loyalty status:', error));
+    };
+
+    refreshLoyalty();
+    window.addEventListener('sessionChanged', refreshLoyalty);
+    return () => window.removeEventListener('sessionChanged', refreshLoyalty);
+  }, []);
+
   return (
     <nav className="bg-white border-b border-gray-200 sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -37,6 +54,29 @@ export default function Navigation() {
           </div>
 
           <div className="flex items-center space-x-4">
+            {loyalty?.is_active && (
+              <Link href="/account" title="Your rewards">
+                <Badge variant="outline" className="border-green-300 text-green-700 py-1">
+                  <Gift className="h-3.5 w-3.5 mr-1" />
+                  {formatLoyaltyBalance(loyalty)}
+                </Badge>
+              </Link>
+            )}
+
+            <Link href="/orders">
+              <Button variant="ghost" size="sm">
+                <Receipt className="h-4 w-4 mr-2" />
+                My Orders
+              </Button>
+            </Link>
+
+            <Link href="/account">
+              <Button variant="ghost" size="sm">
+                <UserCircle className="h-4 w-4 mr-2" />
+                Account
+              </Button>
+            </Link>
+
             <Link href="/cart">
               <Button variant="outline" size="sm" className="relative">
                 <ShoppingCart className="h-4 w-4 mr-2" />
@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { CreditCard, Clock, CheckCircle, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Order } from '@/lib/supabase';
+import { startOnlinePayment } from '@/lib/payments';
+import { toast } from 'sonner';
+
+interface OnlinePaymentProps {
+  order: Order;
+  onPayByTransfer: () => void;
+}
+
+export default function OnlinePayment({ order, onPayByTransfer }: OnlinePaymentProps) {
+  const [isRedirecting, setIsRedirecting] = useState(false);
+
+  const handlePay = async () => {
+    setIsRedirecting(true);
+    try {
+      const { authorization_url } = await startOnlinePayment(order.tracking_id);
+      window.location.href = authorization_url;
+    } catch (error) {
+      console.error('Error starting payment:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not start the payment. Please try again.');
+      setIsRedirecting(false);
+    }
+  };
+
+  if (order.status === 'cancelled') {
+    return null;
+  }
+
+  if (order.payment_status === 'completed') {
+    return (
+      <Card className="mb-8">
+        <CardContent className="pt-6 flex items-center space-x-3">
+          <CheckCircle className="h-6 w-6 text-green-600" />
+          <div>
+            <p className="font-semibold text-gray-900">Payment confirmed</p>
+            <p className="text-sm text-gray-600">Reference {order.payment_reference}</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (order.payment_status === 'processing') {
+    return (
+      <Card className="mb-8">
+        <CardContent className="pt-6 flex items-center space-x-3">
+          <Clock className="h-6 w-6 text-blue-600" />
+          <div>
+            <p className="font-semibold text-gray-900">Checking your payment</p>
+            <p className="text-sm text-gray-600">
+              A cashier is reviewing payment <strong>{order.payment_reference}</strong>. No need to pay again.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CreditCard className="h-5 w-5 mr-2" />
+          Pay Online
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {order.payment_status === 'failed' && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Your payment didn&apos;t go through</AlertTitle>
+            <AlertDescription>
+              You have not been charged for this attempt. Please try again or pay by bank transfer.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex justify-between items-center">
+          <span className="text-sm text-gray-600">Amount to pay</span>
+          <span className="text-xl font-bold text-green-700">₦{order.total_amount.toLocaleString()}</span>
+        </div>
+
+        <Button
+          onClick={handlePay}
+          disabled={isRedirecting}
+          className="w-full bg-green-600 hover:bg-green-700"
+        >
+          {isRedirecting ? 'Redirecting...' : `Pay ₦${order.total_amount.toLocaleString()} now`}
+        </Button>
+
+        <Button variant="outline" onClick={onPayByTransfer} disabled={isRedirecting} className="w-full">
+          Pay by bank transfer instead
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
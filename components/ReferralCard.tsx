@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Copy, Share2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ReferralStatus } from '@/lib/supabase';
+import { getSessionId } from '@/lib/session';
+import { fetchReferralCode, fetchReferralStatus, getReferralShareUrl } from '@/lib/referrals';
+import { toast } from 'sonner';
+
+export default function ReferralCard() {
+  const [status, setStatus] = useState<ReferralStatus | null>(null);
+  const [code, setCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Rewards belong to the session, so signing in or out changes them
+    const refresh = async () => {
+      try {
+        const sessionId = getSessionId();
+        const result = await fetchReferralStatus(sessionId);
+        setStatus(result);
+        setCode(result.is_active ? await fetchReferralCode(sessionId) : null);
+      } catch (error) {
+        console.error('Error fetching referral status:', error);
+      }
+    };
+
+    refresh();
+    window.addEventListener('sessionChanged', refresh);
+    return () => window.removeEventListener('sessionChanged', refresh);
+  }, []);
+
+  if (!status?.is_active || !code) {
+    return null;
+  }
+
+  const shareUrl = getReferralShareUrl(code);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      toast.success('Link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.share({
+        title: 'FPI Food Hub',
+        text: `Order from FPI Food Hub with my code ${code}`,
+        url: shareUrl,
+      });
+    } catch {
+      // The customer closed the share sheet
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Users className="h-5 w-5 mr-2" />
+          Refer a Friend
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          When a friend uses your code on their first order and it&apos;s delivered, you get
+          ₦{Number(status.referrer_credit).toLocaleString()} and they get ₦{Number(status.referee_credit).toLocaleString()}{' '}
+          off a future order.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between border rounded-lg p-3">
+          <span className="font-mono text-lg font-semibold">{code}</span>
+          <div className="flex gap-1">
+            <Button variant="ghost" size="sm" onClick={handleCopy} aria-label="Copy link">
+              <Copy className="h-4 w-4" />
+            </Button>
+            {typeof navigator !== 'undefined' && 'share' in navigator && (
+              <Button variant="ghost" size="sm" onClick={handleShare} aria-label="Share">
+                <Share2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 text-center">
+          <div>
+            <p className="text-lg font-semibold">{status.successful_referrals}</p>
+            <p className="text-xs text-gray-500">Friends referred</p>
+          </div>
+          <div>
+            <p className="text-lg font-semibold text-green-600">₦{Number(status.credit_balance).toLocaleString()}</p>
+            <p className="text-xs text-gray-500">Credit to spend</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
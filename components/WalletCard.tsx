@@ -0,0 +1,239 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Copy, Clock, AlertTriangle, Wallet } from 'lucide-react';
+import BankAccountList from '@/components/BankAccountList';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { BankDetail, WalletStatus } from '@/lib/supabase';
+import { fetchActiveBankAccounts } from '@/lib/payments';
+import {
+  fetchWalletStatus,
+  markWalletTopUpPaid,
+  requestWalletTopUp,
+  validateTopUpAmount,
+  WALLET_REASON_LABELS,
+  WALLET_TOPUP_MIN,
+} from '@/lib/wallet';
+import { toast } from 'sonner';
+
+export default function WalletCard() {
+  const [status, setStatus] = useState<WalletStatus | null>(null);
+  const [accounts, setAccounts] = useState<BankDetail[]>([]);
+  const [amount, setAmount] = useState('');
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  const [senderName, setSenderName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener('sessionChanged', refresh);
+    return () => window.removeEventListener('sessionChanged', refresh);
+  }, []);
+
+  useEffect(() => {
+    fetchActiveBankAccounts()
+      .then((data) => {
+        setAccounts(data);
+        if (data.length === 1) setSelectedAccountId(data[0].id);
+      })
+      .catch((error) => console.error('Error fetching bank accounts:', error));
+  }, []);
+
+  // The wallet belongs to the account this browser is signed in to
+  const refresh = async () => {
+    try {
+      setStatus(await fetchWalletStatus());
+    } catch (error) {
+      console.error('Error fetching wallet:', error);
+    }
+  };
+
+  if (!status?.has_account) {
+    return null;
+  }
+
+  // A top-up the customer still has to pay for, or a rejected one to report again
+  const openTopUp = status.topups.find((topup) => topup.status === 'pending' || topup.status === 'failed');
+  const awaitingConfirmation = status.topups.filter((topup) => topup.status === 'processing');
+
+  const handleRequestTopUp = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validateTopUpAmount(Number(amount));
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await requestWalletTopUp(Number(amount));
+      setAmount('');
+      await refresh();
+    } catch (error) {
+      console.error('Error starting top-up:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not start a top-up. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleMarkPaid = async () => {
+    if (!openTopUp) return;
+
+    if (!selectedAccountId) {
+      toast.error('Please select the account you paid into');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await markWalletTopUpPaid(openTopUp.reference, selectedAccountId, senderName);
+      toast.success('Thanks! A cashier will confirm your top-up shortly.');
+      setSenderName('');
+      await refresh();
+    } catch (error) {
+      console.error('Error reporting top-up:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to report payment. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopyReference = async (reference: string) => {
+    try {
+      await navigator.clipboard.writeText(reference);
+      toast.success('Reference copied');
+    } catch {
+      toast.error('Could not copy. Please copy the reference manually.');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Wallet className="h-5 w-5 mr-2" />
+          Wallet
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Top up once by bank transfer and pay for meals at checkout. Cancelled orders are refunded here.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="text-center">
+          <p className="text-3xl font-bold text-green-600">₦{Number(status.balance).toLocaleString()}</p>
+          <p className="text-xs text-gray-500">Available balance</p>
+        </div>
+
+        {awaitingConfirmation.map((topup) => (
+          <div key={topup.id} className="flex items-center space-x-3 border rounded-lg p-3">
+            <Clock className="h-5 w-5 text-blue-600" />
+            <p className="text-sm text-gray-600">
+              Confirming your ₦{Number(topup.amount).toLocaleString()} top-up with reference{' '}
+              <strong>{topup.reference}</strong>.
+            </p>
+          </div>
+        ))}
+
+        {openTopUp ? (
+          <div className="space-y-4">
+            {openTopUp.status === 'failed' && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>We couldn&apos;t find your transfer</AlertTitle>
+                <AlertDescription>
+                  Please check that you used the reference below and the exact amount, then let us know again.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-600">Amount to transfer</span>
+                <span className="text-xl font-bold text-green-700">₦{Number(openTopUp.amount).toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-600">Transfer reference</span>
+                <button
+                  type="button"
+                  onClick={() => handleCopyReference(openTopUp.reference)}
+                  className="flex items-center font-mono font-semibold text-gray-900 hover:text-green-700"
+                >
+                  {openTopUp.reference}
+                  <Copy className="h-4 w-4 ml-2" />
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Account you paid into</Label>
+              <BankAccountList accounts={accounts} selectedId={selectedAccountId} onSelect={setSelectedAccountId} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="topup-sender-name">Sender account name (Optional)</Label>
+              <Input
+                id="topup-sender-name"
+                placeholder="Name on the account you sent from"
+                value={senderName}
+                onChange={(e) => setSenderName(e.target.value)}
+                maxLength={100}
+              />
+            </div>
+
+            <Button
+              onClick={handleMarkPaid}
+              disabled={isSubmitting || accounts.length === 0}
+              className="w-full bg-green-600 hover:bg-green-700"
+            >
+              {isSubmitting ? 'Sending...' : 'I have paid'}
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleRequestTopUp} className="space-y-2">
+            <Label htmlFor="topup-amount">Top up (₦)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="topup-amount"
+                type="number"
+                min={WALLET_TOPUP_MIN}
+                step="50"
+                placeholder="e.g. 5000"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+              <Button type="submit" disabled={isSubmitting || !amount} className="bg-green-600 hover:bg-green-700">
+                Top Up
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {status.entries.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Recent activity</p>
+            {status.entries.map((entry) => (
+              <div key={entry.id} className="flex justify-between text-sm">
+                <span>
+                  <span className="block">{WALLET_REASON_LABELS[entry.reason]}</span>
+                  <span className="block text-xs text-gray-500">
+                    {format(new Date(entry.created_at), 'PPp')} · {entry.tracking_id ?? entry.reference}
+                  </span>
+                </span>
+                <span className={Number(entry.amount) > 0 ? 'text-green-600' : 'text-gray-900'}>
+                  {Number(entry.amount) > 0 ? '+' : '−'}₦{Math.abs(Number(entry.amount)).toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
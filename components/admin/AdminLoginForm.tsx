@@ -1,7 +1,6 @@
 'use client';
 
 import { useState } from 'react';
-import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -9,6 +8,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Lock } from 'lucide-react';
 import { toast } from 'sonner';
+import { adminFetch } from '@/lib/admin-api';
+import { AdminUser } from '@/lib/supabase';
 
 interface AdminLoginFormProps {
   onLogin: () => void;
@@ -25,13 +26,15 @@ export default function AdminLoginForm({ onLogin }: AdminLoginFormProps) {
     setIsLoading(true);
     setError('');
 
-    // Simple hardcoded authentication
-    if (username === 'admin' && password === 'admin123') {
-      localStorage.setItem('admin_authenticated', 'true');
-      toast.success('Welcome back, Admin!');
+    try {
+      const { admin } = await adminFetch<{ admin: AdminUser }>('/login', {
+        method: 'POST',
+        body: JSON.stringify({ username, password }),
+      });
+      toast.success(`Welcome back, ${admin.username}!`);
       onLogin();
-    } else {
-      setError('Invalid username or password');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid username or password');
       toast.error('Login failed');
     }
 
@@ -89,14 +92,6 @@ export default function AdminLoginForm({ onLogin }: AdminLoginFormProps) {
               {isLoading ? 'Signing in...' : 'Sign In'}
             </Button>
           </form>
-          
-          <div className="mt-6 p-4 bg-gray-50 rounded-lg">
-            <p className="text-sm text-gray-600 text-center">
-              Demo Credentials:<br />
-              Username: <strong>admin</strong><br />
-              Password: <strong>admin123</strong>
-            </p>
-          </div>
         </CardContent>
       </Card>
     </div>
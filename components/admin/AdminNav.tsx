@@ -4,26 +4,34 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { UtensilsCrossed, LogOut, Menu, X } from 'lucide-react';
 import { toast } from 'sonner';
+import { adminFetch } from '@/lib/admin-api';
+import { getAllowedTabs, hasPermission } from '@/lib/admin-roles';
+import { AdminUser } from '@/lib/supabase';
+import KitchenPauseToggle from '@/components/admin/KitchenPauseToggle';
 
 interface AdminNavProps {
+  admin: AdminUser;
   activeTab: string;
   onTabChange: (tab: string) => void;
   onLogout: () => void;
 }
 
-export default function AdminNav({ activeTab, onTabChange, onLogout }: AdminNavProps) {
+export default function AdminNav({ admin, activeTab, onTabChange, onLogout }: AdminNavProps) {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
-  const handleLogout = () => {
-    localStorage.removeItem('admin_authenticated');
-    toast.success('Logged out successfully');
+  const handleLogout = async () => {
+    try {
+      await adminFetch('/logout', { method: 'POST' });
+      toast.success('Logged out successfully');
+    } catch (err) {
+      console.error('Error logging out:', err);
+      toast.error('Could not reach the server. Your session will expire on its own.');
+    }
     onLogout();
   };
 
-  const navItems = [
-    { id: 'orders', label: 'Orders Queue' },
-    { id: 'menu', label: 'Manage Menu' },
-  ];
+  const navItems = getAllowedTabs(admin.role);
+  const canPauseKitchen = hasPermission(admin.role, 'kitchen.pause');
 
   return (
     <nav className="bg-white border-b border-gray-200">
@@ -53,6 +61,10 @@ export default function AdminNav({ activeTab, onTabChange, onLogout }: AdminNavP
                 {item.label}
               </button>
             ))}
+            {canPauseKitchen && <KitchenPauseToggle />}
+            <span className="text-sm text-gray-500">
+              {admin.username} · <span className="capitalize">{admin.role}</span>
+            </span>
             <Button
               variant="outline"
               size="sm"
@@ -65,7 +77,8 @@ export default function AdminNav({ activeTab, onTabChange, onLogout }: AdminNavP
           </div>
 
           {/* Mobile menu button */}
-          <div className="md:hidden flex items-center">
+          <div className="md:hidden flex items-center gap-2">
+            {canPauseKitchen && <KitchenPauseToggle />}
             <Button
               variant="ghost"
               size="sm"
@@ -0,0 +1,349 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit2, ArrowUp, ArrowDown } from 'lucide-react';
+import BankAccountList from '@/components/BankAccountList';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { BankDetail } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { validateBankDetail } from '@/lib/bank-details';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+interface FormData {
+  bank_name: string;
+  account_name: string;
+  account_number: string;
+  is_active: boolean;
+}
+
+const initialFormData: FormData = {
+  bank_name: '',
+  account_name: '',
+  account_number: '',
+  is_active: true,
+};
+
+export default function BankAccountManagement() {
+  const [accounts, setAccounts] = useState<BankDetail[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingAccount, setEditingAccount] = useState<BankDetail | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<FormData>(initialFormData);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  const fetchAccounts = async () => {
+    try {
+      const data = await adminFetch<{ accounts: BankDetail[] }>('/bank-details');
+      setAccounts(data.accounts);
+    } catch (err) {
+      console.error('Error fetching bank accounts:', err);
+      toast.error('Failed to load bank accounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showError = (err: unknown, fallback: string) => {
+    if (err instanceof AdminApiError && err.status === 403) {
+      toast.error('Only owners can manage bank accounts');
+    } else if (err instanceof AdminApiError && (err.status === 400 || err.status === 409)) {
+      toast.error(err.message);
+    } else {
+      toast.error(fallback);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const accountData = {
+      bank_name: formData.bank_name.trim(),
+      account_name: formData.account_name.trim(),
+      account_number: formData.account_number.trim(),
+      is_active: formData.is_active,
+    };
+
+    const validationError = validateBankDetail(accountData, true);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingAccount) {
+        await adminFetch(`/bank-details/${editingAccount.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify(accountData),
+        });
+      } else {
+        await adminFetch('/bank-details', {
+          method: 'POST',
+          body: JSON.stringify(accountData),
+        });
+      }
+
+      toast.success(`Bank account ${editingAccount ? 'updated' : 'added'} successfully`);
+      setIsDialogOpen(false);
+      setEditingAccount(null);
+      setFormData(initialFormData);
+      fetchAccounts();
+    } catch (err) {
+      console.error('Error saving bank account:', err);
+      showError(err, 'Failed to save bank account. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (account: BankDetail) => {
+    try {
+      // Optimistic update
+      setAccounts((prev) =>
+        prev.map((a) => (a.id === account.id ? { ...a, is_active: !account.is_active } : a))
+      );
+
+      await adminFetch(`/bank-details/${account.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ is_active: !account.is_active }),
+      });
+
+      toast.success(`Account ${account.is_active ? 'deactivated' : 'activated'}`);
+    } catch (err) {
+      console.error('Error toggling bank account:', err);
+
+      // Revert optimistic update
+      fetchAccounts();
+      showError(err, 'Failed to update bank account. Please try again.');
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= accounts.length) return;
+
+    const reordered = [...accounts];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    try {
+      // Optimistic update
+      setAccounts(reordered);
+
+      await adminFetch('/bank-details/reorder', {
+        method: 'POST',
+        body: JSON.stringify({ ids: reordered.map((account) => account.id) }),
+      });
+    } catch (err) {
+      console.error('Error reordering bank accounts:', err);
+
+      // Revert optimistic update
+      fetchAccounts();
+      showError(err, 'Failed to reorder bank accounts. Please try again.');
+    }
+  };
+
+  const handleEdit = (account: BankDetail) => {
+    setEditingAccount(account);
+    setFormData({
+      bank_name: account.bank_name,
+      account_name: account.account_name,
+      account_number: account.account_number,
+      is_active: account.is_active,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const activeAccounts = accounts.filter((account) => account.is_active);
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(2)].map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardContent className="p-6">
+              <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold">Bank Accounts</h2>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          if (!open) {
+            setEditingAccount(null);
+            setFormData(initialFormData);
+          }
+        }}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Account
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {editingAccount ? 'Edit Bank Account' : 'Add Bank Account'}
+              </DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="bank_name">Bank Name *</Label>
+                <Input
+                  id="bank_name"
+                  value={formData.bank_name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, bank_name: e.target.value }))}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="account_name">Account Name *</Label>
+                <Input
+                  id="account_name"
+                  value={formData.account_name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, account_name: e.target.value }))}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="account_number">Account Number *</Label>
+                <Input
+                  id="account_number"
+                  inputMode="numeric"
+                  maxLength={10}
+                  value={formData.account_number}
+                  onChange={(e) => setFormData(prev => ({ ...prev, account_number: e.target.value.replace(/\D/g, '') }))}
+                  required
+                />
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="is_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+                />
+                <Label htmlFor="is_active">Show on checkout</Label>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Checkout preview</Label>
+                <BankAccountList
+                  accounts={[{
+                    id: editingAccount?.id ?? 'preview',
+                    bank_name: formData.bank_name || 'Bank name',
+                    account_name: formData.account_name || 'Account name',
+                    account_number: formData.account_number || '0000000000',
+                  }]}
+                />
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {editingAccount ? 'Update' : 'Add'} Account
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          {accounts.length === 0 && (
+            <p className="text-gray-500">No bank accounts yet. Add the account customers should pay into.</p>
+          )}
+
+          {accounts.map((account, index) => (
+            <Card key={account.id} className={account.is_active ? '' : 'opacity-60'}>
+              <CardContent className="p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-semibold">{account.bank_name}</p>
+                      {!account.is_active && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <p className="font-mono">{account.account_number}</p>
+                    <p className="text-sm text-gray-600">{account.account_name}</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      Updated {format(new Date(account.updated_at), 'PPp')}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === 0}
+                      onClick={() => handleMove(index, -1)}
+                      aria-label="Move up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === accounts.length - 1}
+                      onClick={() => handleMove(index, 1)}
+                      aria-label="Move down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(account)}>
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Switch
+                      checked={account.is_active}
+                      disabled={account.is_active && activeAccounts.length === 1}
+                      onCheckedChange={() => handleToggleActive(account)}
+                      aria-label="Active"
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+
+          {activeAccounts.length === 1 && (
+            <p className="text-xs text-gray-500">
+              The last active account can&apos;t be deactivated. Add or activate another account first.
+            </p>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Checkout preview</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-600 mb-4">Customers see the active accounts in this order.</p>
+            <BankAccountList accounts={activeAccounts} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit2, MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CampusLocation } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { validateCampusLocation } from '@/lib/campus-locations';
+import { CAMPUS_LOCATION_TYPE_LABELS } from '@/lib/delivery';
+import { toast } from 'sonner';
+
+interface FormData {
+  name: string;
+  type: CampusLocation['type'];
+  is_active: boolean;
+}
+
+const initialFormData: FormData = {
+  name: '',
+  type: 'hostel',
+  is_active: true,
+};
+
+const LOCATION_TYPES = Object.keys(CAMPUS_LOCATION_TYPE_LABELS) as CampusLocation['type'][];
+
+export default function CampusLocationManagement() {
+  const [locations, setLocations] = useState<CampusLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingLocation, setEditingLocation] = useState<CampusLocation | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<FormData>(initialFormData);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchLocations();
+  }, []);
+
+  const fetchLocations = async () => {
+    try {
+      const data = await adminFetch<{ locations: CampusLocation[] }>('/campus-locations');
+      setLocations(data.locations);
+    } catch (err) {
+      console.error('Error fetching campus locations:', err);
+      toast.error('Failed to load delivery locations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showError = (err: unknown, fallback: string) => {
+    if (err instanceof AdminApiError && err.status === 403) {
+      toast.error('Only owners can manage delivery locations');
+    } else if (err instanceof AdminApiError && (err.status === 400 || err.status === 409)) {
+      toast.error(err.message);
+    } else {
+      toast.error(fallback);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const locationData = {
+      name: formData.name.trim(),
+      type: formData.type,
+      is_active: formData.is_active,
+    };
+
+    const validationError = validateCampusLocation(locationData, true);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingLocation) {
+        await adminFetch(`/campus-locations/${editingLocation.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify(locationData),
+        });
+      } else {
+        await adminFetch('/campus-locations', {
+          method: 'POST',
+          body: JSON.stringify(locationData),
+        });
+      }
+
+      toast.success(`Location ${editingLocation ? 'updated' : 'added'} successfully`);
+      setIsDialogOpen(false);
+      setEditingLocation(null);
+      setFormData(initialFormData);
+      fetchLocations();
+    } catch (err) {
+      console.error('Error saving campus location:', err);
+      showError(err, 'Failed to save location. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (location: CampusLocation) => {
+    try {
+      // Optimistic update
+      setLocations((prev) =>
+        prev.map((l) => (l.id === location.id ? { ...l, is_active: !location.is_active } : l))
+      );
+
+      await adminFetch(`/campus-locations/${location.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ is_active: !location.is_active }),
+      });
+
+      toast.success(`${location.name} ${location.is_active ? 'hidden from' : 'shown on'} checkout`);
+    } catch (err) {
+      console.error('Error toggling campus location:', err);
+
+      // Revert optimistic update
+      fetchLocations();
+      showError(err, 'Failed to update location. Please try again.');
+    }
+  };
+
+  const handleEdit = (location: CampusLocation) => {
+    setEditingLocation(location);
+    setFormData({
+      name: location.name,
+      type: location.type,
+      is_active: location.is_active,
+    });
+    setIsDialogOpen(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {[...Array(3)].map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardContent className="p-6">
+              <div className="h-4 bg-gray-200 rounded w-1/2 mb-4"></div>
+              <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xl font-semibold">Delivery Locations</h3>
+          <p className="text-sm text-gray-600">Customers pick one of the active locations at checkout.</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          if (!open) {
+            setEditingLocation(null);
+            setFormData(initialFormData);
+          }
+        }}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Location
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {editingLocation ? 'Edit Location' : 'Add Location'}
+              </DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="location_name">Name *</Label>
+                <Input
+                  id="location_name"
+                  placeholder="e.g. Male Hostel Block B"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  maxLength={100}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Type *</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, type: value as CampusLocation['type'] }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LOCATION_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {CAMPUS_LOCATION_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="location_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+                />
+                <Label htmlFor="location_active">Show on checkout</Label>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {editingLocation ? 'Update' : 'Add'} Location
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {LOCATION_TYPES.map((type) => (
+          <Card key={type}>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center">
+                <MapPin className="h-4 w-4 mr-2" />
+                {CAMPUS_LOCATION_TYPE_LABELS[type]}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {locations.filter((location) => location.type === type).length === 0 && (
+                <p className="text-sm text-gray-500">None yet.</p>
+              )}
+
+              {locations
+                .filter((location) => location.type === type)
+                .map((location) => (
+                  <div
+                    key={location.id}
+                    className={`flex items-center justify-between gap-2 ${location.is_active ? '' : 'opacity-60'}`}
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="truncate">{location.name}</span>
+                      {!location.is_active && <Badge variant="secondary">Hidden</Badge>}
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(location)}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Switch
+                        checked={location.is_active}
+                        onCheckedChange={() => handleToggleActive(location)}
+                        aria-label="Active"
+                      />
+                    </div>
+                  </div>
+                ))}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,633 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase, Combo, ComboComponent, FoodItem } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { sortComboComponents, validateCombo, validateComboComponent, validateComboSwaps } from '@/lib/combos';
+import { toast } from 'sonner';
+
+interface ComboFormData {
+  name: string;
+  description: string;
+  price: string;
+  image_url: string;
+  is_active: boolean;
+}
+
+interface SwapFormData {
+  food_item_id: string;
+  price_delta: string;
+}
+
+interface ComponentFormData {
+  label: string;
+  food_item_id: string;
+  quantity: string;
+  swaps: SwapFormData[];
+}
+
+const initialComboFormData: ComboFormData = {
+  name: '',
+  description: '',
+  price: '',
+  image_url: '',
+  is_active: true,
+};
+
+const initialComponentFormData: ComponentFormData = {
+  label: '',
+  food_item_id: '',
+  quantity: '1',
+  swaps: [],
+};
+
+export default function ComboManagement() {
+  const [combos, setCombos] = useState<Combo[]>([]);
+  const [foodItems, setFoodItems] = useState<Pick<FoodItem, 'id' | 'name' | 'price'>[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingCombo, setEditingCombo] = useState<Combo | null>(null);
+  const [isComboDialogOpen, setIsComboDialogOpen] = useState(false);
+  const [comboForm, setComboForm] = useState<ComboFormData>(initialComboFormData);
+  // The combo a component is being added to, or the component being edited
+  const [componentCombo, setComponentCombo] = useState<Combo | null>(null);
+  const [editingComponent, setEditingComponent] = useState<ComboComponent | null>(null);
+  const [componentForm, setComponentForm] = useState<ComponentFormData>(initialComponentFormData);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchCombos();
+    fetchFoodItems();
+  }, []);
+
+  const fetchCombos = async () => {
+    try {
+      const data = await adminFetch<{ combos: Combo[] }>('/combos');
+      setCombos(data.combos);
+    } catch (err) {
+      console.error('Error fetching combos:', err);
+      toast.error('Failed to load combos');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchFoodItems = async () => {
+    const { data, error } = await supabase
+      .from('food_items')
+      .select('id, name, price')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching food items:', error);
+    } else {
+      setFoodItems(data || []);
+    }
+  };
+
+  const showError = (err: unknown, fallback: string) => {
+    if (err instanceof AdminApiError && err.status === 403) {
+      toast.error('You do not have permission to modify menu items');
+    } else if (err instanceof AdminApiError && (err.status === 400 || err.status === 404 || err.status === 409)) {
+      toast.error(err.message);
+    } else {
+      toast.error(fallback);
+    }
+  };
+
+  const handleSaveCombo = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const comboData = {
+      name: comboForm.name.trim(),
+      description: comboForm.description.trim() || null,
+      price: comboForm.price === '' ? NaN : Number(comboForm.price),
+      image_url: comboForm.image_url.trim() || null,
+      is_active: comboForm.is_active,
+    };
+
+    const validationError = validateCombo(comboData, true);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingCombo) {
+        await adminFetch(`/combos/${editingCombo.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify(comboData),
+        });
+      } else {
+        await adminFetch('/combos', {
+          method: 'POST',
+          body: JSON.stringify(comboData),
+        });
+      }
+
+      toast.success(`Combo ${editingCombo ? 'updated' : 'added'} successfully`);
+      setIsComboDialogOpen(false);
+      setEditingCombo(null);
+      setComboForm(initialComboFormData);
+      fetchCombos();
+    } catch (err) {
+      console.error('Error saving combo:', err);
+      showError(err, 'Failed to save combo. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEditCombo = (combo: Combo) => {
+    setEditingCombo(combo);
+    setComboForm({
+      name: combo.name,
+      description: combo.description ?? '',
+      price: String(combo.price),
+      image_url: combo.image_url ?? '',
+      is_active: combo.is_active,
+    });
+    setIsComboDialogOpen(true);
+  };
+
+  const handleToggleActive = async (combo: Combo) => {
+    try {
+      // Optimistic update
+      setCombos((prev) =>
+        prev.map((c) => (c.id === combo.id ? { ...c, is_active: !combo.is_active } : c))
+      );
+
+      await adminFetch(`/combos/${combo.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ is_active: !combo.is_active }),
+      });
+
+      toast.success(`${combo.name} ${combo.is_active ? 'hidden from' : 'shown on'} the menu`);
+    } catch (err) {
+      console.error('Error toggling combo:', err);
+
+      // Revert optimistic update
+      fetchCombos();
+      showError(err, 'Failed to update combo. Please try again.');
+    }
+  };
+
+  const handleDeleteCombo = async (combo: Combo) => {
+    if (!confirm(`Delete the "${combo.name}" combo?`)) {
+      return;
+    }
+
+    try {
+      // Optimistic update
+      setCombos((prev) => prev.filter((c) => c.id !== combo.id));
+
+      await adminFetch(`/combos/${combo.id}`, { method: 'DELETE' });
+
+      toast.success(`${combo.name} deleted`);
+    } catch (err) {
+      console.error('Error deleting combo:', err);
+
+      // Revert optimistic update
+      fetchCombos();
+      showError(err, 'Failed to delete combo. Please try again.');
+    }
+  };
+
+  const openComponentDialog = (combo: Combo, component?: ComboComponent) => {
+    setComponentCombo(combo);
+    setEditingComponent(component ?? null);
+    setComponentForm(
+      component
+        ? {
+            label: component.label,
+            food_item_id: component.food_item_id,
+            quantity: String(component.quantity),
+            swaps: (component.combo_component_swaps ?? []).map((swap) => ({
+              food_item_id: swap.food_item_id,
+              price_delta: String(swap.price_delta),
+            })),
+          }
+        : initialComponentFormData
+    );
+  };
+
+  const closeComponentDialog = () => {
+    setComponentCombo(null);
+    setEditingComponent(null);
+    setComponentForm(initialComponentFormData);
+  };
+
+  const updateSwap = (index: number, changes: Partial<SwapFormData>) => {
+    setComponentForm((prev) => ({
+      ...prev,
+      swaps: prev.swaps.map((swap, i) => (i === index ? { ...swap, ...changes } : swap)),
+    }));
+  };
+
+  const handleSaveComponent = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!componentCombo) return;
+
+    const componentData = {
+      label: componentForm.label.trim(),
+      food_item_id: componentForm.food_item_id,
+      quantity: Number(componentForm.quantity),
+    };
+    const swaps = componentForm.swaps.map((swap) => ({
+      food_item_id: swap.food_item_id,
+      price_delta: swap.price_delta === '' ? 0 : Number(swap.price_delta),
+    }));
+
+    const validationError =
+      validateComboComponent(componentData, true) ?? validateComboSwaps(swaps, componentData.food_item_id);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingComponent) {
+        await adminFetch(`/combo-components/${editingComponent.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify({ ...componentData, swaps }),
+        });
+      } else {
+        await adminFetch(`/combos/${componentCombo.id}/components`, {
+          method: 'POST',
+          body: JSON.stringify({ ...componentData, swaps }),
+        });
+      }
+
+      toast.success(`Component ${editingComponent ? 'updated' : 'added'} successfully`);
+      closeComponentDialog();
+      fetchCombos();
+    } catch (err) {
+      console.error('Error saving combo component:', err);
+      showError(err, 'Failed to save component. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteComponent = async (component: ComboComponent) => {
+    if (!confirm(`Remove "${component.label}" from this combo?`)) {
+      return;
+    }
+
+    try {
+      // Optimistic update
+      setCombos((prev) =>
+        prev.map((c) => ({
+          ...c,
+          combo_components: c.combo_components?.filter((cc) => cc.id !== component.id),
+        }))
+      );
+
+      await adminFetch(`/combo-components/${component.id}`, { method: 'DELETE' });
+
+      toast.success(`${component.label} removed`);
+    } catch (err) {
+      console.error('Error deleting combo component:', err);
+
+      // Revert optimistic update
+      fetchCombos();
+      showError(err, 'Failed to remove component. Please try again.');
+    }
+  };
+
+  const formatDelta = (delta: number) =>
+    delta === 0 ? '' : ` (${delta > 0 ? '+' : '−'}₦${Math.abs(delta).toLocaleString()})`;
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(2)].map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardContent className="p-6">
+              <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Combo Meals</h2>
+          <p className="text-sm text-gray-600">
+            Bundles of menu items sold at one price. A combo is only orderable while every component is.
+          </p>
+        </div>
+        <Dialog open={isComboDialogOpen} onOpenChange={(open) => {
+          setIsComboDialogOpen(open);
+          if (!open) {
+            setEditingCombo(null);
+            setComboForm(initialComboFormData);
+          }
+        }}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Combo
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingCombo ? 'Edit Combo' : 'Add Combo'}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSaveCombo} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="combo_name">Name *</Label>
+                <Input
+                  id="combo_name"
+                  placeholder="e.g. Jollof Combo"
+                  value={comboForm.name}
+                  onChange={(e) => setComboForm(prev => ({ ...prev, name: e.target.value }))}
+                  maxLength={100}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="combo_description">Description</Label>
+                <Textarea
+                  id="combo_description"
+                  value={comboForm.description}
+                  onChange={(e) => setComboForm(prev => ({ ...prev, description: e.target.value }))}
+                  rows={2}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="combo_price">Bundle Price (₦) *</Label>
+                  <Input
+                    id="combo_price"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={comboForm.price}
+                    onChange={(e) => setComboForm(prev => ({ ...prev, price: e.target.value }))}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="combo_image">Image URL</Label>
+                  <Input
+                    id="combo_image"
+                    type="url"
+                    value={comboForm.image_url}
+                    onChange={(e) => setComboForm(prev => ({ ...prev, image_url: e.target.value }))}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="combo_active"
+                  checked={comboForm.is_active}
+                  onCheckedChange={(checked) => setComboForm(prev => ({ ...prev, is_active: checked }))}
+                />
+                <Label htmlFor="combo_active">Show on the menu</Label>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setIsComboDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {editingCombo ? 'Update' : 'Add'} Combo
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {combos.length === 0 && (
+        <p className="text-gray-500">No combos yet.</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {combos.map((combo) => {
+          const components = sortComboComponents(combo.combo_components);
+
+          return (
+            <Card key={combo.id} className={combo.is_active ? '' : 'opacity-60'}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-semibold">{combo.name}</p>
+                      {!combo.is_active && <Badge variant="secondary">Hidden</Badge>}
+                    </div>
+                    <p className="text-green-600 font-medium">₦{Number(combo.price).toLocaleString()}</p>
+                    {combo.description && <p className="text-sm text-gray-600">{combo.description}</p>}
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => handleEditCombo(combo)}>
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteCombo(combo)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                    <Switch
+                      checked={combo.is_active}
+                      onCheckedChange={() => handleToggleActive(combo)}
+                      aria-label="Active"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  {components.length === 0 && (
+                    <p className="text-sm text-amber-700">Add at least one component before customers can order it.</p>
+                  )}
+                  {components.map((component) => (
+                    <div key={component.id} className="flex items-start justify-between gap-2 text-sm">
+                      <div>
+                        <p>
+                          <span className="text-gray-500">{component.label}:</span>{' '}
+                          {component.quantity > 1 && `${component.quantity}× `}
+                          {component.food_items?.name}
+                          {component.food_items && !component.food_items.available && (
+                            <Badge variant="destructive" className="ml-2">Off menu</Badge>
+                          )}
+                        </p>
+                        {(component.combo_component_swaps?.length ?? 0) > 0 && (
+                          <p className="text-xs text-gray-500">
+                            or{' '}
+                            {component.combo_component_swaps
+                              ?.map((swap) => `${swap.food_items?.name}${formatDelta(Number(swap.price_delta))}`)
+                              .join(', ')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center">
+                        <Button variant="ghost" size="sm" onClick={() => openComponentDialog(combo, component)}>
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteComponent(component)}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <Button variant="outline" size="sm" onClick={() => openComponentDialog(combo)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Component
+                </Button>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Dialog open={componentCombo !== null} onOpenChange={(open) => !open && closeComponentDialog()}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingComponent ? 'Edit Component' : 'Add Component'} · {componentCombo?.name}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSaveComponent} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="component_label">Label *</Label>
+                <Input
+                  id="component_label"
+                  placeholder="e.g. Drink"
+                  value={componentForm.label}
+                  onChange={(e) => setComponentForm(prev => ({ ...prev, label: e.target.value }))}
+                  maxLength={50}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="component_quantity">Quantity *</Label>
+                <Input
+                  id="component_quantity"
+                  type="number"
+                  min="1"
+                  max="20"
+                  step="1"
+                  value={componentForm.quantity}
+                  onChange={(e) => setComponentForm(prev => ({ ...prev, quantity: e.target.value }))}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Comes with *</Label>
+              <Select
+                value={componentForm.food_item_id}
+                onValueChange={(value) => setComponentForm(prev => ({ ...prev, food_item_id: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a menu item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {foodItems.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.name} (₦{Number(item.price).toLocaleString()})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Swaps customers can choose instead</Label>
+              {componentForm.swaps.map((swap, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={swap.food_item_id}
+                    onValueChange={(value) => updateSwap(index, { food_item_id: value })}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Menu item" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {foodItems.map((item) => (
+                        <SelectItem key={item.id} value={item.id}>
+                          {item.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    className="w-28"
+                    aria-label="Price change (₦)"
+                    placeholder="±₦"
+                    value={swap.price_delta}
+                    onChange={(e) => updateSwap(index, { price_delta: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setComponentForm(prev => ({ ...prev, swaps: prev.swaps.filter((_, i) => i !== index) }))
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setComponentForm(prev => ({ ...prev, swaps: [...prev.swaps, { food_item_id: '', price_delta: '0' }] }))
+                }
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Swap
+              </Button>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={closeComponentDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {editingComponent ? 'Update' : 'Add'} Component
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+'use client';
+
+import CampusLocationManagement from '@/components/admin/CampusLocationManagement';
+import DeliveryZoneManagement from '@/components/admin/DeliveryZoneManagement';
+
+export default function DeliverySettings() {
+  return (
+    <div className="space-y-8">
+      <h2 className="text-2xl font-bold">Delivery</h2>
+      <DeliveryZoneManagement />
+      <CampusLocationManagement />
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { DeliveryZone } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { validateDeliveryZone } from '@/lib/delivery-zones';
+import { toast } from 'sonner';
+
+interface FormData {
+  name: string;
+  description: string;
+  fee: string;
+  min_order_amount: string;
+  is_active: boolean;
+}
+
+const initialFormData: FormData = {
+  name: '',
+  description: '',
+  fee: '',
+  min_order_amount: '0',
+  is_active: true,
+};
+
+export default function DeliveryZoneManagement() {
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingZone, setEditingZone] = useState<DeliveryZone | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<FormData>(initialFormData);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchZones();
+  }, []);
+
+  const fetchZones = async () => {
+    try {
+      const data = await adminFetch<{ zones: DeliveryZone[] }>('/delivery-zones');
+      setZones(data.zones);
+    } catch (err) {
+      console.error('Error fetching delivery zones:', err);
+      toast.error('Failed to load delivery zones');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showError = (err: unknown, fallback: string) => {
+    if (err instanceof AdminApiError && err.status === 403) {
+      toast.error('Only owners can manage delivery zones');
+    } else if (err instanceof AdminApiError && (err.status === 400 || err.status === 409)) {
+      toast.error(err.message);
+    } else {
+      toast.error(fallback);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const zoneData = {
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      fee: formData.fee === '' ? NaN : Number(formData.fee),
+      min_order_amount: formData.min_order_amount === '' ? NaN : Number(formData.min_order_amount),
+      is_active: formData.is_active,
+    };
+
+    const validationError = validateDeliveryZone(zoneData, true);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingZone) {
+        await adminFetch(`/delivery-zones/${editingZone.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify(zoneData),
+        });
+      } else {
+        await adminFetch('/delivery-zones', {
+          method: 'POST',
+          body: JSON.stringify(zoneData),
+        });
+      }
+
+      toast.success(`Zone ${editingZone ? 'updated' : 'added'} successfully`);
+      setIsDialogOpen(false);
+      setEditingZone(null);
+      setFormData(initialFormData);
+      fetchZones();
+    } catch (err) {
+      console.error('Error saving delivery zone:', err);
+      showError(err, 'Failed to save zone. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (zone: DeliveryZone) => {
+    try {
+      // Optimistic update
+      setZones((prev) =>
+        prev.map((z) => (z.id === zone.id ? { ...z, is_active: !zone.is_active } : z))
+      );
+
+      await adminFetch(`/delivery-zones/${zone.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ is_active: !zone.is_active }),
+      });
+
+      toast.success(`${zone.name} ${zone.is_active ? 'hidden from' : 'shown on'} checkout`);
+    } catch (err) {
+      console.error('Error toggling delivery zone:', err);
+
+      // Revert optimistic update
+      fetchZones();
+      showError(err, 'Failed to update zone. Please try again.');
+    }
+  };
+
+  const handleEdit = (zone: DeliveryZone) => {
+    setEditingZone(zone);
+    setFormData({
+      name: zone.name,
+      description: zone.description ?? '',
+      fee: String(zone.fee),
+      min_order_amount: String(zone.min_order_amount),
+      is_active: zone.is_active,
+    });
+    setIsDialogOpen(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(2)].map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardContent className="p-6">
+              <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xl font-semibold">Delivery Zones</h3>
+          <p className="text-sm text-gray-600">The zone&apos;s fee is added to the order total at checkout.</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          if (!open) {
+            setEditingZone(null);
+            setFormData(initialFormData);
+          }
+        }}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Zone
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {editingZone ? 'Edit Delivery Zone' : 'Add Delivery Zone'}
+              </DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="zone_name">Name *</Label>
+                <Input
+                  id="zone_name"
+                  placeholder="e.g. Off-campus Hostels"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  maxLength={100}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="zone_description">Description</Label>
+                <Textarea
+                  id="zone_description"
+                  placeholder="Which areas this zone covers"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  rows={2}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="zone_fee">Delivery Fee (₦) *</Label>
+                  <Input
+                    id="zone_fee"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.fee}
+                    onChange={(e) => setFormData(prev => ({ ...prev, fee: e.target.value }))}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="zone_min_order">Minimum Order (₦) *</Label>
+                  <Input
+                    id="zone_min_order"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.min_order_amount}
+                    onChange={(e) => setFormData(prev => ({ ...prev, min_order_amount: e.target.value }))}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="zone_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+                />
+                <Label htmlFor="zone_active">Show on checkout</Label>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {editingZone ? 'Update' : 'Add'} Zone
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {zones.length === 0 && (
+        <p className="text-gray-500">No delivery zones yet. Customers can&apos;t check out until one is active.</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {zones.map((zone) => (
+          <Card key={zone.id} className={zone.is_active ? '' : 'opacity-60'}>
+            <CardContent className="p-4">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-semibold">{zone.name}</p>
+                    {!zone.is_active && <Badge variant="secondary">Hidden</Badge>}
+                  </div>
+                  {zone.description && <p className="text-sm text-gray-600">{zone.description}</p>}
+                  <p className="text-sm mt-2">
+                    Fee: <span className="font-medium">{Number(zone.fee) > 0 ? `₦${Number(zone.fee).toLocaleString()}` : 'Free'}</span>
+                  </p>
+                  <p className="text-sm">
+                    Minimum order:{' '}
+                    <span className="font-medium">
+                      {Number(zone.min_order_amount) > 0 ? `₦${Number(zone.min_order_amount).toLocaleString()}` : 'None'}
+                    </span>
+                  </p>
+                </div>
+
+                <div className="flex items-center space-x-1">
+                  <Button variant="ghost" size="sm" onClick={() => handleEdit(zone)}>
+                    <Edit2 className="h-4 w-4" />
+                  </Button>
+                  <Switch
+                    checked={zone.is_active}
+                    onCheckedChange={() => handleToggleActive(zone)}
+                    aria-label="Active"
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
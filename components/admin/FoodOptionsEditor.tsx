@@ -0,0 +1,490 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FoodItem, FoodOption, FoodOptionGroup } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { validateFoodOption, validateOptionGroup } from '@/lib/food-options';
+import { sortOptionGroups } from '@/lib/menu-options';
+import { toast } from 'sonner';
+
+interface FoodOptionsEditorProps {
+  item: FoodItem | null;
+  onClose: () => void;
+}
+
+interface GroupFormData {
+  name: string;
+  selection: FoodOptionGroup['selection'];
+  is_required: boolean;
+  max_selections: string;
+}
+
+interface OptionFormData {
+  name: string;
+  price_delta: string;
+}
+
+const initialGroupFormData: GroupFormData = {
+  name: '',
+  selection: 'single',
+  is_required: true,
+  max_selections: '',
+};
+
+const initialOptionFormData: OptionFormData = {
+  name: '',
+  price_delta: '0',
+};
+
+export default function FoodOptionsEditor({ item, onClose }: FoodOptionsEditorProps) {
+  const [groups, setGroups] = useState<FoodOptionGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingGroup, setEditingGroup] = useState<FoodOptionGroup | null>(null);
+  const [groupForm, setGroupForm] = useState<GroupFormData>(initialGroupFormData);
+  // One add/edit row per group, keyed by group id
+  const [optionForms, setOptionForms] = useState<Record<string, OptionFormData>>({});
+  const [editingOption, setEditingOption] = useState<FoodOption | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (item) {
+      setLoading(true);
+      fetchGroups(item.id);
+    } else {
+      setGroups([]);
+      setEditingGroup(null);
+      setGroupForm(initialGroupFormData);
+      setOptionForms({});
+      setEditingOption(null);
+    }
+  }, [item]);
+
+  const fetchGroups = async (itemId: string) => {
+    try {
+      const data = await adminFetch<{ groups: FoodOptionGroup[] }>(`/food-items/${itemId}/option-groups`);
+      setGroups(sortOptionGroups(data.groups));
+    } catch (err) {
+      console.error('Error fetching option groups:', err);
+      toast.error('Failed to load options');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refetch = () => {
+    if (item) fetchGroups(item.id);
+  };
+
+  const showError = (err: unknown, fallback: string) => {
+    if (err instanceof AdminApiError && err.status === 403) {
+      toast.error('You do not have permission to modify menu items');
+    } else if (err instanceof AdminApiError && (err.status === 400 || err.status === 409)) {
+      toast.error(err.message);
+    } else {
+      toast.error(fallback);
+    }
+  };
+
+  const handleSaveGroup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item) return;
+
+    const groupData = {
+      name: groupForm.name.trim(),
+      selection: groupForm.selection,
+      is_required: groupForm.is_required,
+      // Single-choice groups never allow more than one, so the limit only applies to multi
+      max_selections:
+        groupForm.selection === 'multi' && groupForm.max_selections !== '' ? Number(groupForm.max_selections) : null,
+    };
+
+    const validationError = validateOptionGroup(groupData, true);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingGroup) {
+        await adminFetch(`/option-groups/${editingGroup.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify(groupData),
+        });
+      } else {
+        await adminFetch(`/food-items/${item.id}/option-groups`, {
+          method: 'POST',
+          body: JSON.stringify(groupData),
+        });
+      }
+
+      toast.success(`Group ${editingGroup ? 'updated' : 'added'} successfully`);
+      setEditingGroup(null);
+      setGroupForm(initialGroupFormData);
+      refetch();
+    } catch (err) {
+      console.error('Error saving option group:', err);
+      showError(err, 'Failed to save group. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEditGroup = (group: FoodOptionGroup) => {
+    setEditingGroup(group);
+    setGroupForm({
+      name: group.name,
+      selection: group.selection,
+      is_required: group.is_required,
+      max_selections: group.max_selections !== null ? String(group.max_selections) : '',
+    });
+  };
+
+  const handleDeleteGroup = async (group: FoodOptionGroup) => {
+    if (!confirm(`Delete "${group.name}" and all its options?`)) {
+      return;
+    }
+
+    try {
+      // Optimistic update
+      setGroups((prev) => prev.filter((g) => g.id !== group.id));
+
+      await adminFetch(`/option-groups/${group.id}`, { method: 'DELETE' });
+
+      toast.success(`${group.name} removed`);
+    } catch (err) {
+      console.error('Error deleting option group:', err);
+
+      // Revert optimistic update
+      refetch();
+      showError(err, 'Failed to delete group. Please try again.');
+    }
+  };
+
+  const getOptionForm = (groupId: string) => optionForms[groupId] ?? initialOptionFormData;
+
+  const setOptionForm = (groupId: string, changes: Partial<OptionFormData>) => {
+    setOptionForms((prev) => ({ ...prev, [groupId]: { ...getOptionForm(groupId), ...changes } }));
+  };
+
+  const resetOptionForm = (groupId: string) => {
+    setOptionForms((prev) => ({ ...prev, [groupId]: initialOptionFormData }));
+    setEditingOption(null);
+  };
+
+  const handleSaveOption = async (e: React.FormEvent, group: FoodOptionGroup) => {
+    e.preventDefault();
+
+    const form = getOptionForm(group.id);
+    const optionData = {
+      name: form.name.trim(),
+      price_delta: form.price_delta === '' ? NaN : Number(form.price_delta),
+    };
+
+    const validationError = validateFoodOption(optionData, true);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    const isEditing = editingOption?.group_id === group.id;
+
+    setIsSaving(true);
+    try {
+      if (isEditing) {
+        await adminFetch(`/food-options/${editingOption.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify(optionData),
+        });
+      } else {
+        await adminFetch(`/option-groups/${group.id}/options`, {
+          method: 'POST',
+          body: JSON.stringify(optionData),
+        });
+      }
+
+      toast.success(`Option ${isEditing ? 'updated' : 'added'} successfully`);
+      resetOptionForm(group.id);
+      refetch();
+    } catch (err) {
+      console.error('Error saving option:', err);
+      showError(err, 'Failed to save option. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEditOption = (option: FoodOption) => {
+    setEditingOption(option);
+    setOptionForm(option.group_id, { name: option.name, price_delta: String(option.price_delta) });
+  };
+
+  const handleToggleOption = async (option: FoodOption) => {
+    try {
+      // Optimistic update
+      setGroups((prev) =>
+        prev.map((g) => ({
+          ...g,
+          food_options: g.food_options?.map((o) => (o.id === option.id ? { ...o, is_available: !option.is_available } : o)),
+        }))
+      );
+
+      await adminFetch(`/food-options/${option.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ is_available: !option.is_available }),
+      });
+
+      toast.success(`${option.name} ${option.is_available ? 'marked unavailable' : 'made available'}`);
+    } catch (err) {
+      console.error('Error toggling option:', err);
+
+      // Revert optimistic update
+      refetch();
+      showError(err, 'Failed to update option. Please try again.');
+    }
+  };
+
+  const handleDeleteOption = async (option: FoodOption) => {
+    if (!confirm(`Delete "${option.name}"?`)) {
+      return;
+    }
+
+    try {
+      // Optimistic update
+      setGroups((prev) =>
+        prev.map((g) => ({ ...g, food_options: g.food_options?.filter((o) => o.id !== option.id) }))
+      );
+
+      await adminFetch(`/food-options/${option.id}`, { method: 'DELETE' });
+
+      toast.success(`${option.name} removed`);
+    } catch (err) {
+      console.error('Error deleting option:', err);
+
+      // Revert optimistic update
+      refetch();
+      showError(err, 'Failed to delete option. Please try again.');
+    }
+  };
+
+  const formatDelta = (delta: number) =>
+    delta === 0 ? 'No change' : `${delta > 0 ? '+' : '−'}₦${Math.abs(delta).toLocaleString()}`;
+
+  return (
+    <Dialog open={item !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Options for {item?.name}</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(2)].map((_, i) => (
+              <Card key={i} className="animate-pulse">
+                <CardContent className="p-6">
+                  <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+                  <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {groups.length === 0 && (
+              <p className="text-sm text-gray-500">
+                No options yet. Add a group such as &quot;Size&quot; or &quot;Extras&quot; below.
+              </p>
+            )}
+
+            {groups.map((group) => {
+              const optionForm = getOptionForm(group.id);
+              const isEditingHere = editingOption?.group_id === group.id;
+
+              return (
+                <Card key={group.id}>
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <p className="font-semibold">{group.name}</p>
+                          <Badge variant="secondary">{group.is_required ? 'Required' : 'Optional'}</Badge>
+                        </div>
+                        <p className="text-sm text-gray-600">
+                          {group.selection === 'single'
+                            ? 'Pick one'
+                            : group.max_selections
+                              ? `Pick up to ${group.max_selections}`
+                              : 'Pick any'}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleEditGroup(group)}>
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteGroup(group)}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      {group.food_options?.map((option) => (
+                        <div
+                          key={option.id}
+                          className={`flex items-center justify-between gap-2 text-sm ${option.is_available ? '' : 'opacity-60'}`}
+                        >
+                          <span className="truncate">{option.name}</span>
+                          <div className="flex items-center space-x-1">
+                            <span className="text-gray-600 mr-2">{formatDelta(Number(option.price_delta))}</span>
+                            <Button variant="ghost" size="sm" onClick={() => handleEditOption(option)}>
+                              <Edit2 className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeleteOption(option)}
+                              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                            <Switch
+                              checked={option.is_available}
+                              onCheckedChange={() => handleToggleOption(option)}
+                              aria-label="Available"
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+
+                    <form onSubmit={(e) => handleSaveOption(e, group)} className="flex items-end gap-2">
+                      <div className="flex-1 space-y-1">
+                        <Label htmlFor={`option_name_${group.id}`} className="text-xs">Option</Label>
+                        <Input
+                          id={`option_name_${group.id}`}
+                          placeholder="e.g. Large"
+                          value={optionForm.name}
+                          onChange={(e) => setOptionForm(group.id, { name: e.target.value })}
+                          maxLength={100}
+                        />
+                      </div>
+                      <div className="w-28 space-y-1">
+                        <Label htmlFor={`option_delta_${group.id}`} className="text-xs">Price change (₦)</Label>
+                        <Input
+                          id={`option_delta_${group.id}`}
+                          type="number"
+                          step="0.01"
+                          value={optionForm.price_delta}
+                          onChange={(e) => setOptionForm(group.id, { price_delta: e.target.value })}
+                        />
+                      </div>
+                      <Button type="submit" size="sm" disabled={isSaving}>
+                        {isEditingHere ? 'Update' : <Plus className="h-4 w-4" />}
+                      </Button>
+                      {isEditingHere && (
+                        <Button type="button" variant="outline" size="sm" onClick={() => resetOptionForm(group.id)}>
+                          Cancel
+                        </Button>
+                      )}
+                    </form>
+                  </CardContent>
+                </Card>
+              );
+            })}
+
+            <form onSubmit={handleSaveGroup} className="space-y-3 border-t pt-4">
+              <h4 className="font-semibold">{editingGroup ? `Edit ${editingGroup.name}` : 'Add Group'}</h4>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="group_name">Name *</Label>
+                  <Input
+                    id="group_name"
+                    placeholder="e.g. Size"
+                    value={groupForm.name}
+                    onChange={(e) => setGroupForm(prev => ({ ...prev, name: e.target.value }))}
+                    maxLength={100}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Customers pick</Label>
+                  <Select
+                    value={groupForm.selection}
+                    onValueChange={(value) =>
+                      setGroupForm(prev => ({ ...prev, selection: value as FoodOptionGroup['selection'] }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="single">One option</SelectItem>
+                      <SelectItem value="multi">Several options</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 items-end">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="group_required"
+                    checked={groupForm.is_required}
+                    onCheckedChange={(checked) => setGroupForm(prev => ({ ...prev, is_required: checked }))}
+                  />
+                  <Label htmlFor="group_required">Required</Label>
+                </div>
+                {groupForm.selection === 'multi' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="group_max">Maximum choices</Label>
+                    <Input
+                      id="group_max"
+                      type="number"
+                      min="1"
+                      step="1"
+                      placeholder="No limit"
+                      value={groupForm.max_selections}
+                      onChange={(e) => setGroupForm(prev => ({ ...prev, max_selections: e.target.value }))}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                {editingGroup && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => {
+                      setEditingGroup(null);
+                      setGroupForm(initialGroupFormData);
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                )}
+                <Button type="submit" disabled={isSaving}>
+                  {editingGroup ? 'Update' : 'Add'} Group
+                </Button>
+              </div>
+            </form>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { HolidayClosure } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { validateHolidayClosure } from '@/lib/operating-hours';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+export default function HolidayClosureManagement() {
+  const [closures, setClosures] = useState<HolidayClosure[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [closedOn, setClosedOn] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchClosures();
+  }, []);
+
+  const fetchClosures = async () => {
+    try {
+      const data = await adminFetch<{ closures: HolidayClosure[] }>('/holiday-closures');
+      setClosures(data.closures);
+    } catch (err) {
+      console.error('Error fetching holiday closures:', err);
+      toast.error('Failed to load holiday closures');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showError = (err: unknown, fallback: string) => {
+    if (err instanceof AdminApiError && err.status === 403) {
+      toast.error('Only owners can manage holiday closures');
+    } else if (err instanceof AdminApiError && (err.status === 400 || err.status === 409)) {
+      toast.error(err.message);
+    } else {
+      toast.error(fallback);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const closureData = { closed_on: closedOn, reason: reason.trim() };
+
+    const validationError = validateHolidayClosure(closureData);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await adminFetch('/holiday-closures', {
+        method: 'POST',
+        body: JSON.stringify(closureData),
+      });
+      toast.success('Closure added');
+      setClosedOn('');
+      setReason('');
+      fetchClosures();
+    } catch (err) {
+      console.error('Error adding holiday closure:', err);
+      showError(err, 'Failed to add closure. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (closure: HolidayClosure) => {
+    try {
+      // Optimistic update
+      setClosures((prev) => prev.filter((c) => c.id !== closure.id));
+
+      await adminFetch(`/holiday-closures/${closure.id}`, { method: 'DELETE' });
+      toast.success('Closure removed');
+    } catch (err) {
+      console.error('Error removing holiday closure:', err);
+
+      // Revert optimistic update
+      fetchClosures();
+      showError(err, 'Failed to remove closure. Please try again.');
+    }
+  };
+
+  // Past closures no longer affect anything, so only upcoming ones are listed
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const upcoming = closures.filter((closure) => closure.closed_on >= today);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-xl font-semibold">Holiday Closures</h3>
+        <p className="text-sm text-gray-600">
+          The kitchen is closed all day on these dates, including for pre-orders.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="closure_date">Date *</Label>
+              <Input
+                id="closure_date"
+                type="date"
+                min={today}
+                value={closedOn}
+                onChange={(e) => setClosedOn(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2 flex-1 min-w-[12rem]">
+              <Label htmlFor="closure_reason">Reason</Label>
+              <Input
+                id="closure_reason"
+                placeholder="e.g. Independence Day"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={100}
+              />
+            </div>
+            <Button type="submit" disabled={isSaving}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Closure
+            </Button>
+          </form>
+
+          {loading ? (
+            <div className="h-4 bg-gray-200 rounded w-1/2 animate-pulse"></div>
+          ) : upcoming.length === 0 ? (
+            <p className="text-sm text-gray-500">No upcoming closures.</p>
+          ) : (
+            <ul className="divide-y">
+              {upcoming.map((closure) => (
+                <li key={closure.id} className="flex items-center justify-between py-2">
+                  <span>
+                    <span className="font-medium">{format(new Date(`${closure.closed_on}T00:00:00`), 'EEEE, PPP')}</span>
+                    {closure.reason && <span className="text-gray-600"> · {closure.reason}</span>}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(closure)}
+                    aria-label="Remove closure"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,388 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Bell, BellOff, CalendarClock, Maximize, Wifi, WifiOff } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { supabase, AdminRole, Order } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { canSetOrderStatus } from '@/lib/admin-roles';
+import { getAllowedTransitions, TRANSITION_LABELS } from '@/lib/order-status';
+import { formatItemOptions } from '@/lib/menu-options';
+import {
+  aggregateKitchenItems,
+  formatElapsed,
+  getTicketStartedAt,
+  getTicketUrgency,
+  KITCHEN_COLUMNS,
+  KITCHEN_STATUSES,
+  KitchenTicket,
+  playKitchenChime,
+  TicketUrgency,
+} from '@/lib/kitchen-display';
+import { toast } from 'sonner';
+
+type ConnectionState = 'connecting' | 'live' | 'reconnecting';
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+const URGENCY_STYLES: Record<TicketUrgency, string> = {
+  on_time: 'bg-white border-gray-300',
+  warning: 'bg-amber-50 border-amber-500',
+  late: 'bg-red-50 border-red-600',
+};
+
+const TIMER_STYLES: Record<TicketUrgency, string> = {
+  on_time: 'text-gray-700',
+  warning: 'text-amber-700',
+  late: 'text-red-700 animate-pulse',
+};
+
+interface KitchenDisplayProps {
+  role: AdminRole;
+}
+
+export default function KitchenDisplay({ role }: KitchenDisplayProps) {
+  const [orders, setOrders] = useState<KitchenTicket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [connection, setConnection] = useState<ConnectionState>('connecting');
+  const [now, setNow] = useState(() => Date.now());
+  const [isStarted, setIsStarted] = useState(false);
+  const [isMuted, setIsMuted] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const audioContext = useRef<AudioContext | null>(null);
+  // Tickets already on the board; null until the first load so that doesn't chime
+  const knownTicketIds = useRef<Set<string> | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('*, order_items ( *, food_items ( name ) )')
+        .in('status', KITCHEN_STATUSES)
+        .order('created_at', { ascending: true })
+        .limit(100);
+
+      if (error) throw error;
+
+      setOrders(data || []);
+    } catch (err) {
+      console.error('Error fetching kitchen orders:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Cheap tablets drop websockets when the wifi blips or the screen dims, so
+  // the channel is rebuilt with backoff and the board refetched on every
+  // reconnect to pick up changes missed while offline.
+  useEffect(() => {
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let stopped = false;
+
+    const connect = () => {
+      const current = supabase
+        .channel(`kitchen-display-${Date.now()}`)
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'orders' }, () => {
+          fetchOrders();
+        })
+        .subscribe((status) => {
+          // Ignore the old channel closing after it has been replaced
+          if (stopped || channel !== current) return;
+
+          if (status === 'SUBSCRIBED') {
+            attempt = 0;
+            setConnection('live');
+            fetchOrders();
+          } else {
+            console.error('Kitchen display lost real-time updates:', status);
+            setConnection('reconnecting');
+            scheduleReconnect();
+          }
+        });
+      channel = current;
+    };
+
+    const reconnect = () => {
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+      const previous = channel;
+      channel = null;
+      if (previous) supabase.removeChannel(previous);
+      connect();
+    };
+
+    const scheduleReconnect = () => {
+      if (stopped || retryTimer) return;
+      const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempt);
+      attempt += 1;
+      retryTimer = setTimeout(() => {
+        retryTimer = null;
+        reconnect();
+      }, delay);
+    };
+
+    const handleOnline = () => {
+      attempt = 0;
+      setConnection('reconnecting');
+      reconnect();
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') fetchOrders();
+    };
+
+    fetchOrders();
+    connect();
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      stopped = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      if (channel) supabase.removeChannel(channel);
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [fetchOrders]);
+
+  // Drives the ticket timers
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Pre-orders join the board when their prep window opens
+  const tickets = orders.filter(
+    (order) => !order.prep_starts_at || new Date(order.prep_starts_at).getTime() <= now
+  );
+  const ticketIds = tickets.map((order) => order.id).join(',');
+
+  useEffect(() => {
+    if (loading) return;
+
+    const ids = ticketIds ? ticketIds.split(',') : [];
+    const previous = knownTicketIds.current;
+    knownTicketIds.current = new Set(ids);
+
+    if (previous && ids.some((id) => !previous.has(id)) && audioContext.current && !isMuted) {
+      playKitchenChime(audioContext.current);
+    }
+  }, [ticketIds, loading, isMuted]);
+
+  // Sound and fullscreen both need a tap on the page first
+  const startBoard = async () => {
+    const AudioContextClass = window.AudioContext ?? (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (AudioContextClass && !audioContext.current) {
+      audioContext.current = new AudioContextClass();
+    }
+    await audioContext.current?.resume().catch(() => undefined);
+    await document.documentElement.requestFullscreen?.().catch(() => undefined);
+    setIsStarted(true);
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => undefined);
+    } else {
+      document.documentElement.requestFullscreen?.().catch(() => undefined);
+    }
+  };
+
+  const updateOrderStatus = async (order: KitchenTicket, newStatus: Order['status']) => {
+    setUpdatingId(order.id);
+    setOrders((prev) => prev.map((o) => (o.id === order.id ? { ...o, status: newStatus } : o)));
+
+    try {
+      await adminFetch(`/orders/${order.id}/status`, {
+        method: 'PATCH',
+        body: JSON.stringify({ status: newStatus, note: null }),
+      });
+    } catch (err) {
+      console.error('Error updating order status:', err);
+      fetchOrders();
+
+      if (err instanceof AdminApiError && err.status === 403) {
+        toast.error('You do not have permission to update this order');
+      } else if (err instanceof AdminApiError && err.status === 409) {
+        toast.error(`${err.message}. The order may have been updated by someone else.`);
+      } else {
+        toast.error('Failed to update order status. Please try again.');
+      }
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  // Cancelling and taking payment happen in the Orders Queue, and pickups are
+  // handed over there with the customer's code
+  const getKitchenActions = (order: KitchenTicket) =>
+    getAllowedTransitions(order.status, order.fulfilment_mode).filter(
+      (next) =>
+        next !== 'cancelled' &&
+        next !== 'payment_received' &&
+        !(order.fulfilment_mode === 'pickup' && next === 'delivered') &&
+        canSetOrderStatus(role, next, order.fulfilment_mode)
+    );
+
+  const toMake = aggregateKitchenItems(tickets.filter((order) => order.status !== 'ready_for_pickup'));
+
+  const renderTicket = (order: KitchenTicket) => {
+    const elapsed = now - getTicketStartedAt(order);
+    const urgency = getTicketUrgency(elapsed);
+
+    return (
+      <div key={order.id} className={`rounded-lg border-2 p-3 space-y-3 ${URGENCY_STYLES[urgency]}`}>
+        <div className="flex justify-between items-start">
+          <div>
+            <p className="text-xl font-bold text-gray-900">#{order.tracking_id}</p>
+            <div className="flex flex-wrap gap-1 mt-1">
+              <Badge variant="outline">{order.fulfilment_mode === 'pickup' ? 'Pickup' : 'Delivery'}</Badge>
+              {order.scheduled_for && (
+                <Badge variant="outline" className="border-indigo-400 text-indigo-700">
+                  <CalendarClock className="h-3 w-3 mr-1" />
+                  {format(new Date(order.scheduled_for), 'p')}
+                </Badge>
+              )}
+            </div>
+          </div>
+          <span className={`font-mono text-2xl font-bold tabular-nums ${TIMER_STYLES[urgency]}`}>
+            {formatElapsed(elapsed)}
+          </span>
+        </div>
+
+        <ul className="space-y-2">
+          {order.order_items
+            .filter((item) => !item.parent_item_id)
+            .map((item) => (
+              <li key={item.id}>
+                <p className="text-lg font-semibold text-gray-900 leading-tight">
+                  {item.quantity} × {item.food_items?.name ?? item.combo_name}
+                </p>
+                {item.options?.length > 0 && (
+                  <p className="text-sm text-gray-700 ml-6">{formatItemOptions(item.options)}</p>
+                )}
+                {item.combo_name && (
+                  <ul className="ml-6 text-sm text-gray-700">
+                    {item.components.map((component) => (
+                      <li key={component.component_id}>
+                        {component.quantity * item.quantity} × {component.name}
+                        {component.is_swap && <span className="text-amber-700"> (swapped)</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+        </ul>
+
+        {order.customer_note && (
+          <p className="rounded-md bg-yellow-100 p-2 text-sm font-medium text-yellow-900">{order.customer_note}</p>
+        )}
+
+        {getKitchenActions(order).map((next) => (
+          <Button
+            key={next}
+            className="w-full h-14 text-lg bg-green-600 hover:bg-green-700"
+            disabled={updatingId === order.id}
+            onClick={() => updateOrderStatus(order, next)}
+          >
+            {TRANSITION_LABELS[next]}
+          </Button>
+        ))}
+      </div>
+    );
+  };
+
+  if (!isStarted) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center p-6">
+        <Button onClick={startBoard} className="h-24 px-12 text-2xl bg-green-600 hover:bg-green-700">
+          Tap to start the kitchen display
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen bg-gray-900 text-white flex flex-col select-none">
+      <header className="flex items-center justify-between gap-4 px-4 py-3 border-b border-gray-700">
+        <div className="flex items-center gap-3">
+          <Link href="/admin" className="text-gray-400 hover:text-white" aria-label="Back to admin">
+            <ArrowLeft className="h-6 w-6" />
+          </Link>
+          <h1 className="text-2xl font-bold">Kitchen</h1>
+          <span className="text-xl text-gray-400 tabular-nums">{format(now, 'p')}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          {connection === 'live' ? (
+            <span className="flex items-center text-sm text-green-400">
+              <Wifi className="h-5 w-5 mr-1" />
+              Live
+            </span>
+          ) : (
+            <span className="flex items-center text-sm text-red-400 animate-pulse">
+              <WifiOff className="h-5 w-5 mr-1" />
+              {connection === 'connecting' ? 'Connecting…' : 'Reconnecting…'}
+            </span>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-12 w-12 text-white hover:bg-gray-800 hover:text-white"
+            onClick={() => setIsMuted((prev) => !prev)}
+            aria-label={isMuted ? 'Unmute new order chime' : 'Mute new order chime'}
+          >
+            {isMuted ? <BellOff className="h-6 w-6" /> : <Bell className="h-6 w-6" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-12 w-12 text-white hover:bg-gray-800 hover:text-white"
+            onClick={toggleFullscreen}
+            aria-label="Toggle full screen"
+          >
+            <Maximize className="h-6 w-6" />
+          </Button>
+        </div>
+      </header>
+
+      {toMake.length > 0 && (
+        <div className="flex flex-wrap gap-x-6 gap-y-1 px-4 py-3 border-b border-gray-700 bg-gray-800">
+          {toMake.map((line) => (
+            <span key={line.label} className="text-2xl font-semibold">
+              <span className="text-green-400">{line.quantity} ×</span> {line.label}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <main className="flex-1 grid grid-cols-2 lg:grid-cols-4 gap-3 p-3 min-h-0">
+        {KITCHEN_COLUMNS.map((column) => {
+          const columnTickets = tickets.filter((order) => order.status === column.status);
+          return (
+            <section key={column.status} className="flex flex-col min-h-0 rounded-lg bg-gray-800">
+              <h2 className={`flex justify-between items-center px-3 py-2 border-t-4 rounded-t-lg text-xl font-bold ${column.accent}`}>
+                {column.label}
+                <span className="text-gray-400">{columnTickets.length}</span>
+              </h2>
+              <div className="flex-1 overflow-y-auto p-2 space-y-3">
+                {loading ? (
+                  <div className="h-32 rounded-lg bg-gray-700 animate-pulse"></div>
+                ) : (
+                  columnTickets.map(renderTicket)
+                )}
+              </div>
+            </section>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
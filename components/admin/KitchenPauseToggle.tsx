@@ -0,0 +1,66 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Switch } from '@/components/ui/switch';
+import { KitchenState } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { toast } from 'sonner';
+
+// Lets kitchen staff stop ASAP orders without touching the opening hours
+export default function KitchenPauseToggle() {
+  const [state, setState] = useState<KitchenState | null>(null);
+
+  useEffect(() => {
+    fetchState();
+  }, []);
+
+  const fetchState = async () => {
+    try {
+      const data = await adminFetch<{ state: KitchenState }>('/kitchen-state');
+      setState(data.state);
+    } catch (err) {
+      console.error('Error fetching kitchen state:', err);
+    }
+  };
+
+  const handleToggle = async (accepting: boolean) => {
+    let reason: string | null = null;
+    if (!accepting) {
+      reason = prompt('Why are you pausing new orders? (optional, shown to customers)');
+      if (reason === null) return;
+    }
+
+    try {
+      // Optimistic update
+      setState((prev) => (prev ? { ...prev, is_paused: !accepting } : prev));
+
+      const data = await adminFetch<{ state: KitchenState }>('/kitchen-state', {
+        method: 'PATCH',
+        body: JSON.stringify({ is_paused: !accepting, pause_reason: reason }),
+      });
+      setState(data.state);
+
+      toast.success(accepting ? 'Kitchen is taking orders again' : 'New orders paused');
+    } catch (err) {
+      console.error('Error toggling kitchen pause:', err);
+
+      // Revert optimistic update
+      fetchState();
+      toast.error(err instanceof AdminApiError && err.status === 400 ? err.message : 'Failed to update the kitchen');
+    }
+  };
+
+  if (!state) return null;
+
+  return (
+    <label
+      className={`flex items-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium ${
+        state.is_paused ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'
+      }`}
+      title={state.is_paused && state.pause_reason ? state.pause_reason : undefined}
+    >
+      <Switch checked={!state.is_paused} onCheckedChange={handleToggle} aria-label="Taking orders" />
+      {state.is_paused ? 'Kitchen paused' : 'Taking orders'}
+    </label>
+  );
+}
@@ -0,0 +1,414 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LoyaltyLedgerEntry, LoyaltySettings } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { LOYALTY_REASON_LABELS, validateLoyaltySettings } from '@/lib/loyalty';
+import { toast } from 'sonner';
+
+interface LedgerRow extends LoyaltyLedgerEntry {
+  orders: { tracking_id: string; customer_name: string | null; customer_phone: string | null } | null;
+  customers: { phone: string; display_name: string | null } | null;
+}
+
+interface SettingsFormData {
+  is_active: boolean;
+  mode: LoyaltySettings['mode'];
+  naira_per_point: string;
+  point_value: string;
+  min_redeem_points: string;
+  stamps_required: string;
+  stamp_min_subtotal: string;
+}
+
+const toFormData = (settings: LoyaltySettings): SettingsFormData => ({
+  is_active: settings.is_active,
+  mode: settings.mode,
+  naira_per_point: String(settings.naira_per_point),
+  point_value: String(settings.point_value),
+  min_redeem_points: String(settings.min_redeem_points),
+  stamps_required: String(settings.stamps_required),
+  stamp_min_subtotal: String(settings.stamp_min_subtotal),
+});
+
+const describeCustomer = (entry: LedgerRow) =>
+  entry.customers
+    ? entry.customers.display_name ?? `+${entry.customers.phone}`
+    : entry.orders?.customer_name ?? entry.orders?.customer_phone ?? `Guest ${entry.session_id.slice(0, 8)}`;
+
+export default function LoyaltyManagement() {
+  const [settings, setSettings] = useState<LoyaltySettings | null>(null);
+  const [settingsForm, setSettingsForm] = useState<SettingsFormData | null>(null);
+  const [entries, setEntries] = useState<LedgerRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  // Shows one customer's history when set
+  const [sessionFilter, setSessionFilter] = useState<LedgerRow | null>(null);
+  const [adjustment, setAdjustment] = useState({ lookup: '', amount: '', note: '' });
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  useEffect(() => {
+    fetchLedger(sessionFilter?.session_id);
+  }, [sessionFilter]);
+
+  const fetchSettings = async () => {
+    try {
+      const data = await adminFetch<{ settings: LoyaltySettings }>('/loyalty/settings');
+      setSettings(data.settings);
+      setSettingsForm(toFormData(data.settings));
+    } catch (err) {
+      console.error('Error fetching loyalty settings:', err);
+      toast.error('Failed to load loyalty settings');
+    }
+  };
+
+  const fetchLedger = async (sessionId?: string) => {
+    try {
+      const query = sessionId ? `?session_id=${encodeURIComponent(sessionId)}` : '';
+      const data = await adminFetch<{ entries: LedgerRow[] }>(`/loyalty/ledger${query}`);
+      setEntries(data.entries);
+    } catch (err) {
+      console.error('Error fetching loyalty ledger:', err);
+      toast.error('Failed to load the loyalty ledger');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showError = (err: unknown, fallback: string) => {
+    if (err instanceof AdminApiError && err.status === 403) {
+      toast.error('You do not have permission to manage loyalty rewards');
+    } else if (err instanceof AdminApiError && (err.status === 400 || err.status === 404)) {
+      toast.error(err.message);
+    } else {
+      toast.error(fallback);
+    }
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settingsForm) return;
+
+    const settingsData = {
+      is_active: settingsForm.is_active,
+      mode: settingsForm.mode,
+      naira_per_point: Number(settingsForm.naira_per_point),
+      point_value: Number(settingsForm.point_value),
+      min_redeem_points: Number(settingsForm.min_redeem_points),
+      stamps_required: Number(settingsForm.stamps_required),
+      stamp_min_subtotal: Number(settingsForm.stamp_min_subtotal),
+    };
+
+    const validationError = validateLoyaltySettings(settingsData);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const data = await adminFetch<{ settings: LoyaltySettings }>('/loyalty/settings', {
+        method: 'PATCH',
+        body: JSON.stringify(settingsData),
+      });
+      setSettings(data.settings);
+      setSettingsForm(toFormData(data.settings));
+      toast.success('Loyalty settings saved');
+    } catch (err) {
+      console.error('Error saving loyalty settings:', err);
+      showError(err, 'Failed to save loyalty settings. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = Number(adjustment.amount);
+    if (!Number.isInteger(amount) || amount === 0) {
+      toast.error('Amount must be a whole number other than zero');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { entry } = await adminFetch<{ entry: LoyaltyLedgerEntry & { balance: number } }>('/loyalty/ledger', {
+        method: 'POST',
+        body: JSON.stringify({ lookup: adjustment.lookup, amount, note: adjustment.note }),
+      });
+      toast.success(`Balance is now ${entry.balance.toLocaleString()} ${entry.unit}`);
+      setAdjustment({ lookup: '', amount: '', note: '' });
+      fetchLedger(sessionFilter?.session_id);
+    } catch (err) {
+      console.error('Error adjusting loyalty balance:', err);
+      showError(err, 'Failed to adjust balance. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading || !settingsForm) {
+    return (
+      <div className="space-y-3">
+        {[...Array(2)].map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardContent className="p-6">
+              <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  const unit = settings?.mode ?? 'points';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Loyalty</h2>
+        <p className="text-sm text-gray-600">
+          Customers earn rewards when an order is delivered and lose them again if it is cancelled.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Programme</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSaveSettings} className="space-y-4">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="loyalty_active"
+                  checked={settingsForm.is_active}
+                  onCheckedChange={(checked) => setSettingsForm(prev => prev && { ...prev, is_active: checked })}
+                />
+                <Label htmlFor="loyalty_active">Customers earn and redeem rewards</Label>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Reward</Label>
+                <Select
+                  value={settingsForm.mode}
+                  onValueChange={(value) =>
+                    setSettingsForm(prev => prev && { ...prev, mode: value as LoyaltySettings['mode'] })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="points">Points per naira</SelectItem>
+                    <SelectItem value="stamps">Stamp card</SelectItem>
+                  </SelectContent>
+                </Select>
+                {settings && settingsForm.mode !== settings.mode && (
+                  <p className="text-xs text-amber-700">
+                    Customers keep their {settings.mode}, but can&apos;t use them while the programme runs on {settingsForm.mode}.
+                  </p>
+                )}
+              </div>
+
+              {settingsForm.mode === 'points' ? (
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="naira_per_point">₦ per Point</Label>
+                    <Input
+                      id="naira_per_point"
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      value={settingsForm.naira_per_point}
+                      onChange={(e) => setSettingsForm(prev => prev && { ...prev, naira_per_point: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="point_value">Point Value (₦)</Label>
+                    <Input
+                      id="point_value"
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      value={settingsForm.point_value}
+                      onChange={(e) => setSettingsForm(prev => prev && { ...prev, point_value: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="min_redeem_points">Redeem From</Label>
+                    <Input
+                      id="min_redeem_points"
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={settingsForm.min_redeem_points}
+                      onChange={(e) => setSettingsForm(prev => prev && { ...prev, min_redeem_points: e.target.value })}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="stamps_required">Stamps per Card</Label>
+                    <Input
+                      id="stamps_required"
+                      type="number"
+                      min="2"
+                      step="1"
+                      value={settingsForm.stamps_required}
+                      onChange={(e) => setSettingsForm(prev => prev && { ...prev, stamps_required: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="stamp_min_subtotal">Min. Order (₦)</Label>
+                    <Input
+                      id="stamp_min_subtotal"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={settingsForm.stamp_min_subtotal}
+                      onChange={(e) => setSettingsForm(prev => prev && { ...prev, stamp_min_subtotal: e.target.value })}
+                    />
+                  </div>
+                  <p className="col-span-2 text-xs text-gray-500">
+                    A full card makes the most expensive item of the customer&apos;s next order free.
+                  </p>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={isSaving}>
+                  Save Settings
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Adjust a Balance</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleAdjust} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="adjust_lookup">Customer *</Label>
+                <Input
+                  id="adjust_lookup"
+                  placeholder="Phone number or tracking ID"
+                  value={adjustment.lookup}
+                  onChange={(e) => setAdjustment(prev => ({ ...prev, lookup: e.target.value }))}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adjust_amount">
+                  {unit === 'points' ? 'Points' : 'Stamps'} to Add *
+                </Label>
+                <Input
+                  id="adjust_amount"
+                  type="number"
+                  step="1"
+                  placeholder="Use a negative number to remove"
+                  value={adjustment.amount}
+                  onChange={(e) => setAdjustment(prev => ({ ...prev, amount: e.target.value }))}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adjust_note">Note *</Label>
+                <Input
+                  id="adjust_note"
+                  placeholder="e.g. Apology for late delivery"
+                  value={adjustment.note}
+                  onChange={(e) => setAdjustment(prev => ({ ...prev, note: e.target.value }))}
+                  maxLength={200}
+                  required
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" disabled={isSaving}>
+                  Adjust
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>
+            Ledger{sessionFilter && `: ${describeCustomer(sessionFilter)}`}
+          </CardTitle>
+          {sessionFilter && (
+            <Button variant="ghost" size="sm" onClick={() => setSessionFilter(null)}>
+              <X className="h-4 w-4 mr-1" />
+              All customers
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No rewards earned yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{format(new Date(entry.created_at), 'PPp')}</TableCell>
+                    <TableCell>
+                      <button
+                        type="button"
+                        className="text-left hover:underline"
+                        onClick={() => setSessionFilter(entry)}
+                      >
+                        {describeCustomer(entry)}
+                      </button>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={entry.reason === 'adjustment' ? 'outline' : 'secondary'}>
+                        {LOYALTY_REASON_LABELS[entry.reason]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-medium">{entry.orders?.tracking_id ?? '—'}</TableCell>
+                    <TableCell className="text-sm text-gray-600">{entry.note ?? ''}</TableCell>
+                    <TableCell className={`text-right font-semibold ${entry.amount > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {entry.amount > 0 ? '+' : '−'}{Math.abs(entry.amount).toLocaleString()} {entry.unit}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
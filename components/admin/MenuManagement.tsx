@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Plus, Edit2, Trash2 } from 'lucide-react';
+import { Plus, Edit2, Trash2, PackageCheck, SlidersHorizontal } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -9,8 +9,12 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { supabase, FoodItem } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { isLowStock, validateStockFields } from '@/lib/food-items';
+import FoodOptionsEditor from './FoodOptionsEditor';
 import { toast } from 'sonner';
 
 const categories = ['Rice', 'Snacks', 'Drinks', 'Swallow', 'Protein', 'Others'] as const;
@@ -22,6 +26,9 @@ interface FormData {
   image_url: string;
   category: typeof categories[number];
   available: boolean;
+  track_stock: boolean;
+  stock_quantity: string;
+  daily_par: string;
 }
 
 const initialFormData: FormData = {
@@ -31,6 +38,9 @@ const initialFormData: FormData = {
   image_url: '',
   category: 'Others',
   available: true,
+  track_stock: false,
+  stock_quantity: '',
+  daily_par: '',
 };
 
 export default function MenuManagement() {
@@ -40,6 +50,7 @@ export default function MenuManagement() {
   const [editingItem, setEditingItem] = useState<FoodItem | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [formData, setFormData] = useState<FormData>(initialFormData);
+  const [optionsItem, setOptionsItem] = useState<FoodItem | null>(null);
   const [retryCount, setRetryCount] = useState(0);
   const MAX_RETRIES = 3;
 
@@ -90,7 +101,7 @@ export default function MenuManagement() {
     if (item.description && item.description.length > 500) {
       return 'Description is too long (max 500 characters)';
     }
-    return null;
+    return validateStockFields(item);
   };
 
   const handleSave = async (e: React.FormEvent) => {
@@ -104,8 +115,15 @@ export default function MenuManagement() {
         image_url: formData.image_url.trim(),
         category: formData.category,
         available: formData.available,
+        stock_quantity: formData.track_stock ? parseInt(formData.stock_quantity || '0', 10) : null,
+        daily_par: formData.track_stock && formData.daily_par !== '' ? parseInt(formData.daily_par, 10) : null,
       };
 
+      // Orders keep taking stock while the dialog is open, so only send a count the admin changed
+      if (editingItem && itemData.stock_quantity === editingItem.stock_quantity) {
+        delete itemData.stock_quantity;
+      }
+
       const validationError = validateFoodItem(itemData);
       if (validationError) {
         toast.error(validationError);
@@ -121,16 +139,18 @@ export default function MenuManagement() {
         setFoodItems((prev: FoodItem[]) => [...prev, { ...itemData, id: 'temp-' + Date.now() } as FoodItem]);
       }
 
-      const { error } = editingItem
-        ? await supabase
-            .from('food_items')
-            .update(itemData)
-            .eq('id', editingItem.id)
-        : await supabase
-            .from('food_items')
-            .insert([itemData]);
-
-      if (error) throw error;
+      if (editingItem) {
+        await adminFetch(`/food-items/${editingItem.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify(itemData),
+        });
+      } else {
+        await adminFetch('/food-items', {
+          method: 'POST',
+          body: JSON.stringify(itemData),
+        });
+        fetchFoodItems();
+      }
 
       toast.success(`Food item ${editingItem ? 'updated' : 'added'} successfully`);
       setIsDialogOpen(false);
@@ -145,7 +165,7 @@ export default function MenuManagement() {
       if (err instanceof Error) {
         if (err.message.includes('duplicate key')) {
           toast.error('A food item with this name already exists');
-        } else if (err.message.includes('permission denied')) {
+        } else if (err instanceof AdminApiError && err.status === 403) {
           toast.error('You do not have permission to modify menu items');
         } else {
           toast.error('Failed to save food item. Please try again.');
@@ -165,12 +185,7 @@ export default function MenuManagement() {
       // Optimistic update
       setFoodItems((prev: FoodItem[]) => prev.filter((item: FoodItem) => item.id !== id));
 
-      const { error } = await supabase
-        .from('food_items')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
+      await adminFetch(`/food-items/${id}`, { method: 'DELETE' });
 
       toast.success('Food item deleted successfully');
     } catch (err) {
@@ -181,8 +196,8 @@ export default function MenuManagement() {
       
       if (err instanceof Error) {
         if (err.message.includes('foreign key constraint')) {
-          toast.error('Cannot delete item: it is part of existing orders');
-        } else if (err.message.includes('permission denied')) {
+          toast.error('Cannot delete item: it is part of existing orders or a combo');
+        } else if (err instanceof AdminApiError && err.status === 403) {
           toast.error('You do not have permission to delete menu items');
         } else {
           toast.error('Failed to delete food item. Please try again.');
@@ -202,14 +217,19 @@ export default function MenuManagement() {
         )
       );
 
-      const { error } = await supabase
-        .from('food_items')
-        .update({ available: !currentStatus })
-        .eq('id', id);
+      const { item } = await adminFetch<{ item: FoodItem }>(`/food-items/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ available: !currentStatus }),
+      });
 
-      if (error) throw error;
+      // The database keeps sold-out items switched off
+      setFoodItems((prev: FoodItem[]) => prev.map((fi: FoodItem) => (fi.id === id ? item : fi)));
 
-      toast.success(`Item ${!currentStatus ? 'made available' : 'made unavailable'}`);
+      if (item.available === currentStatus) {
+        toast.warning(`${item.name} is sold out. Add stock to make it available.`);
+      } else {
+        toast.success(`Item ${!currentStatus ? 'made available' : 'made unavailable'}`);
+      }
     } catch (err) {
       console.error('Error toggling availability:', err);
       
@@ -217,7 +237,7 @@ export default function MenuManagement() {
       fetchFoodItems();
       
       if (err instanceof Error) {
-        if (err.message.includes('permission denied')) {
+        if (err instanceof AdminApiError && err.status === 403) {
           toast.error('You do not have permission to modify menu items');
         } else {
           toast.error('Failed to update item availability. Please try again.');
@@ -237,10 +257,32 @@ export default function MenuManagement() {
       image_url: item.image_url || '',
       category: item.category,
       available: item.available,
+      track_stock: item.stock_quantity !== null,
+      stock_quantity: item.stock_quantity?.toString() ?? '',
+      daily_par: item.daily_par?.toString() ?? '',
     });
     setIsDialogOpen(true);
   };
 
+  const handleRestock = async () => {
+    if (!confirm('Reset every item with a daily par to its par level now?')) {
+      return;
+    }
+
+    try {
+      const { restocked } = await adminFetch<{ restocked: number }>('/food-items/restock', { method: 'POST' });
+      toast.success(`Restocked ${restocked} item${restocked === 1 ? '' : 's'}`);
+      fetchFoodItems();
+    } catch (err) {
+      console.error('Error restocking items:', err);
+      if (err instanceof AdminApiError && err.status === 403) {
+        toast.error('You do not have permission to modify menu items');
+      } else {
+        toast.error('Failed to restock items. Please try again.');
+      }
+    }
+  };
+
   if (error) {
     return (
       <div className="text-center py-8">
@@ -275,115 +317,160 @@ export default function MenuManagement() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold">Menu Management</h2>
-        <Dialog open={isDialogOpen} onOpenChange={(open) => {
-          setIsDialogOpen(open);
-          if (!open) {
-            setEditingItem(null);
-            setFormData(initialFormData);
-          }
-        }}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Item
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>
-                {editingItem ? 'Edit Food Item' : 'Add New Food Item'}
-              </DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSave} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="name">Name *</Label>
-                <Input
-                  id="name"
-                  value={formData.name}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-                  required
-                />
-              </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleRestock}>
+            <PackageCheck className="h-4 w-4 mr-2" />
+            Restock to Par
+          </Button>
+          <Dialog open={isDialogOpen} onOpenChange={(open) => {
+            setIsDialogOpen(open);
+            if (!open) {
+              setEditingItem(null);
+              setFormData(initialFormData);
+            }
+          }}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Item
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>
+                  {editingItem ? 'Edit Food Item' : 'Add New Food Item'}
+                </DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSave} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name *</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                    required
+                  />
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setFormData(prev => ({ ...prev, description: e.target.value }))}
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  />
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="price">Price (₦) *</Label>
-                <Input
-                  id="price"
-                  type="number"
-                  min="0"
-                  step="0.01"
-                  value={formData.price}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData(prev => ({ ...prev, price: e.target.value }))}
-                  required
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="price">Price (₦) *</Label>
+                  <Input
+                    id="price"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.price}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData(prev => ({ ...prev, price: e.target.value }))}
+                    required
+                  />
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="image_url">Image URL</Label>
-                <Input
-                  id="image_url"
-                  type="url"
-                  value={formData.image_url}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData(prev => ({ ...prev, image_url: e.target.value }))}
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="image_url">Image URL</Label>
+                  <Input
+                    id="image_url"
+                    type="url"
+                    value={formData.image_url}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData(prev => ({ ...prev, image_url: e.target.value }))}
+                  />
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="category">Category *</Label>
-                <Select
-                  value={formData.category}
-                  onValueChange={(value: typeof categories[number]) => setFormData(prev => ({ ...prev, category: value }))}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {categories.map((category) => (
-                      <SelectItem key={category} value={category}>
-                        {category}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="category">Category *</Label>
+                  <Select
+                    value={formData.category}
+                    onValueChange={(value: typeof categories[number]) => setFormData(prev => ({ ...prev, category: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {category}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div className="flex items-center space-x-2">
-                <Switch
-                  id="available"
-                  checked={formData.available}
-                  onCheckedChange={(checked: boolean) => setFormData(prev => ({ ...prev, available: checked }))}
-                />
-                <Label htmlFor="available">Available</Label>
-              </div>
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="track_stock"
+                      checked={formData.track_stock}
+                      onCheckedChange={(checked: boolean) => setFormData(prev => ({ ...prev, track_stock: checked }))}
+                    />
+                    <Label htmlFor="track_stock">Count stock</Label>
+                  </div>
+                  {formData.track_stock && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="stock_quantity">In stock *</Label>
+                        <Input
+                          id="stock_quantity"
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={formData.stock_quantity}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData(prev => ({ ...prev, stock_quantity: e.target.value }))}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="daily_par">Daily par</Label>
+                        <Input
+                          id="daily_par"
+                          type="number"
+                          min="0"
+                          step="1"
+                          placeholder="Restock by hand"
+                          value={formData.daily_par}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData(prev => ({ ...prev, daily_par: e.target.value }))}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
 
-              <div className="flex justify-end space-x-2">
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => {
-                    setIsDialogOpen(false);
-                    setEditingItem(null);
-                    setFormData(initialFormData);
-                  }}
-                >
-                  Cancel
-                </Button>
-                <Button type="submit">
-                  {editingItem ? 'Update' : 'Add'} Item
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="available"
+                    checked={formData.available}
+                    onCheckedChange={(checked: boolean) => setFormData(prev => ({ ...prev, available: checked }))}
+                  />
+                  <Label htmlFor="available">Available</Label>
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => {
+                      setIsDialogOpen(false);
+                      setEditingItem(null);
+                      setFormData(initialFormData);
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    {editingItem ? 'Update' : 'Add'} Item
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <div className="grid gap-4">
@@ -399,8 +486,30 @@ export default function MenuManagement() {
                     <span className="text-gray-500">•</span>
                     <span className="text-gray-600">{item.category}</span>
                   </div>
+                  {item.stock_quantity !== null && (
+                    <div className="mt-2 flex items-center gap-2 text-sm">
+                      {item.stock_quantity === 0 ? (
+                        <Badge variant="destructive">Sold out</Badge>
+                      ) : (
+                        <Badge variant="outline" className={isLowStock(item) ? 'border-amber-400 text-amber-700' : ''}>
+                          {item.stock_quantity} left
+                        </Badge>
+                      )}
+                      {item.daily_par !== null && (
+                        <span className="text-gray-500">Restocks to {item.daily_par} daily</span>
+                      )}
+                    </div>
+                  )}
                 </div>
                 <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setOptionsItem(item)}
+                  >
+                    <SlidersHorizontal className="h-4 w-4 mr-1" />
+                    Options
+                  </Button>
                   <Button
                     variant="outline"
                     size="sm"
@@ -437,6 +546,8 @@ export default function MenuManagement() {
           </Card>
         )}
       </div>
+
+      <FoodOptionsEditor item={optionsItem} onClose={() => setOptionsItem(null)} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent } from '@/components/ui/card';
+import { OperatingHours } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { validateOperatingHours } from '@/lib/operating-hours';
+import { formatSlotTime } from '@/lib/schedule';
+import { toast } from 'sonner';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Monday first, the way staff read a week
+const DISPLAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+type DayForm = Pick<OperatingHours, 'day_of_week' | 'opens_at' | 'closes_at' | 'is_closed'>;
+
+export default function OperatingHoursManagement() {
+  const [hours, setHours] = useState<DayForm[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchHours();
+  }, []);
+
+  const fetchHours = async () => {
+    try {
+      const data = await adminFetch<{ hours: OperatingHours[] }>('/operating-hours');
+      setHours(
+        data.hours.map((day) => ({
+          day_of_week: day.day_of_week,
+          opens_at: formatSlotTime(day.opens_at),
+          closes_at: formatSlotTime(day.closes_at),
+          is_closed: day.is_closed,
+        }))
+      );
+    } catch (err) {
+      console.error('Error fetching operating hours:', err);
+      toast.error('Failed to load opening hours');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDay = (dayOfWeek: number, changes: Partial<DayForm>) => {
+    setHours((prev) => prev.map((day) => (day.day_of_week === dayOfWeek ? { ...day, ...changes } : day)));
+  };
+
+  const handleSave = async () => {
+    for (const day of hours) {
+      const validationError = validateOperatingHours(day);
+      if (validationError) {
+        toast.error(`${DAY_NAMES[day.day_of_week]}: ${validationError}`);
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      await adminFetch('/operating-hours', {
+        method: 'PUT',
+        body: JSON.stringify({ hours }),
+      });
+      toast.success('Opening hours saved');
+    } catch (err) {
+      console.error('Error saving operating hours:', err);
+      if (err instanceof AdminApiError && err.status === 403) {
+        toast.error('Only owners can change opening hours');
+      } else if (err instanceof AdminApiError && err.status === 400) {
+        toast.error(err.message);
+      } else {
+        toast.error('Failed to save opening hours. Please try again.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card className="animate-pulse">
+        <CardContent className="p-6">
+          <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xl font-semibold">Opening Hours</h3>
+          <p className="text-sm text-gray-600">
+            Outside these hours customers can only pre-order for a time slot.
+          </p>
+        </div>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Hours'}
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          {DISPLAY_ORDER.map((dayOfWeek) => {
+            const day = hours.find((d) => d.day_of_week === dayOfWeek);
+            if (!day) return null;
+
+            return (
+              <div key={dayOfWeek} className="flex flex-wrap items-center gap-3">
+                <span className="w-28 font-medium">{DAY_NAMES[dayOfWeek]}</span>
+                <Input
+                  type="time"
+                  value={day.opens_at}
+                  onChange={(e) => updateDay(dayOfWeek, { opens_at: e.target.value })}
+                  disabled={day.is_closed}
+                  className="w-32"
+                  aria-label={`${DAY_NAMES[dayOfWeek]} opens`}
+                />
+                <span className="text-gray-500">to</span>
+                <Input
+                  type="time"
+                  value={day.closes_at}
+                  onChange={(e) => updateDay(dayOfWeek, { closes_at: e.target.value })}
+                  disabled={day.is_closed}
+                  className="w-32"
+                  aria-label={`${DAY_NAMES[dayOfWeek]} closes`}
+                />
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch
+                    checked={day.is_closed}
+                    onCheckedChange={(checked) => updateDay(dayOfWeek, { is_closed: checked })}
+                  />
+                  Closed all day
+                </label>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
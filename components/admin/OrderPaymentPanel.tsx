@@ -0,0 +1,135 @@
+'use client';
+
+import { useState } from 'react';
+import { Landmark } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Order } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS, getPaymentStatusColor } from '@/lib/payments';
+import { REFUND_STATUS_LABELS } from '@/lib/refunds';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+export interface OrderPayment extends Order {
+  payment_account: { bank_name: string; account_number: string } | null;
+}
+
+interface OrderPaymentPanelProps {
+  order: OrderPayment;
+  canConfirm: boolean;
+  onUpdated: () => void;
+}
+
+export default function OrderPaymentPanel({ order, canConfirm, onUpdated }: OrderPaymentPanelProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleAction = async (action: 'confirm' | 'reject') => {
+    const note = prompt(
+      action === 'confirm'
+        ? 'Note for this confirmation (optional):'
+        : 'Why is this transfer being rejected? (shown in the audit trail)'
+    );
+    if (note === null) return;
+
+    setIsSubmitting(true);
+    try {
+      await adminFetch(`/orders/${order.id}/payment`, {
+        method: 'POST',
+        body: JSON.stringify({ action, note }),
+      });
+      toast.success(action === 'confirm' ? 'Payment confirmed' : 'Payment rejected');
+      onUpdated();
+    } catch (err) {
+      console.error('Error updating payment:', err);
+      if (err instanceof AdminApiError && err.status === 403) {
+        toast.error('You do not have permission to confirm payments');
+      } else {
+        toast.error(err instanceof Error ? err.message : 'Failed to update payment');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Money paid after cancelling is sent back, not confirmed
+  const canAct = canConfirm && order.status !== 'cancelled';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <h4 className="font-semibold flex items-center">
+          <Landmark className="h-4 w-4 mr-2" />
+          Payment
+        </h4>
+        <Badge className={getPaymentStatusColor(order.payment_status)}>
+          {PAYMENT_STATUS_LABELS[order.payment_status]}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <span className="text-gray-600">Method:</span>
+        <span>{PAYMENT_METHOD_LABELS[order.payment_method ?? 'bank_transfer']}</span>
+
+        <span className="text-gray-600">Reference:</span>
+        <span className="font-mono font-medium">{order.payment_reference || order.transfer_reference}</span>
+
+        {order.payment_account && (
+          <>
+            <span className="text-gray-600">Paid into:</span>
+            <span>
+              {order.payment_account.bank_name} · {order.payment_account.account_number}
+            </span>
+          </>
+        )}
+
+        {order.transfer_sender_name && (
+          <>
+            <span className="text-gray-600">Sender:</span>
+            <span>{order.transfer_sender_name}</span>
+          </>
+        )}
+
+        {order.transfer_marked_paid_at && (
+          <>
+            <span className="text-gray-600">Reported at:</span>
+            <span>{format(new Date(order.transfer_marked_paid_at), 'PPp')}</span>
+          </>
+        )}
+
+        {order.refund_status !== 'none' && (
+          <>
+            <span className="text-gray-600">Refunded:</span>
+            <span className="text-red-600">
+              ₦{Number(order.refunded_amount).toLocaleString()} · {REFUND_STATUS_LABELS[order.refund_status]}
+            </span>
+          </>
+        )}
+      </div>
+
+      {canAct && ['pending', 'processing'].includes(order.payment_status) && (
+        <div className="flex flex-wrap gap-2 pt-1">
+          <Button
+            size="sm"
+            disabled={isSubmitting}
+            onClick={() => handleAction('confirm')}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            Confirm Payment
+          </Button>
+          {order.payment_status === 'processing' && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isSubmitting}
+              onClick={() => handleAction('reject')}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              Reject Transfer
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+import { useState } from 'react';
+import { Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Order, OrderItem, OrderRefund, OrderRefundItem } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import {
+  REFUND_DESTINATION_LABELS,
+  REFUND_REASON_MAX_LENGTH,
+  RefundLine,
+  validateRefundRequest,
+} from '@/lib/refunds';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+interface RefundRow extends OrderRefund {
+  order_refund_items: OrderRefundItem[];
+  admin_credentials: { username: string } | null;
+}
+
+interface OrderRefundDialogProps {
+  order: Order & {
+    order_items: (OrderItem & { food_items: { name: string } | null })[];
+  };
+  onRefunded: () => void;
+}
+
+export default function OrderRefundDialog({ order, onRefunded }: OrderRefundDialogProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [refunds, setRefunds] = useState<RefundRow[]>([]);
+  const [mode, setMode] = useState<'full' | 'items'>('full');
+  // Quantity to refund per order item, as typed
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [destination, setDestination] = useState<OrderRefund['destination']>(
+    order.customer_id ? 'wallet' : 'manual'
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const items = order.order_items.filter((item) => !item.parent_item_id);
+  const remaining = order.total_amount - Number(order.refunded_amount);
+
+  const fetchRefunds = async () => {
+    try {
+      const data = await adminFetch<{ refunds: RefundRow[] }>(`/orders/${order.id}/refund`);
+      setRefunds(data.refunds);
+    } catch (err) {
+      console.error('Error fetching refunds:', err);
+      toast.error('Failed to load earlier refunds');
+    }
+  };
+
+  const openDialog = () => {
+    setIsDialogOpen(true);
+    fetchRefunds();
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setMode('full');
+    setQuantities({});
+    setReason('');
+  };
+
+  const refundedQuantity = (itemId: string) =>
+    refunds
+      .flatMap((refund) => refund.order_refund_items)
+      .filter((line) => line.order_item_id === itemId)
+      .reduce((sum, line) => sum + line.quantity, 0);
+
+  const lines: RefundLine[] = items
+    .map((item) => ({ order_item_id: item.id, quantity: Number(quantities[item.id] || 0) }))
+    .filter((line) => line.quantity > 0);
+
+  // Mirrors issue_order_refund: discounts can make the items worth more than was paid
+  const amount =
+    mode === 'full'
+      ? remaining
+      : Math.min(
+          remaining,
+          lines.reduce((sum, line) => {
+            const item = items.find((candidate) => candidate.id === line.order_item_id);
+            return sum + (item ? item.unit_price * line.quantity : 0);
+          }, 0)
+        );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const payload = { reason, items: mode === 'items' ? lines : null, destination };
+    const validationError = validateRefundRequest(payload.reason, payload.items, payload.destination);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    if (!confirm(`Refund ₦${amount.toLocaleString()} on order ${order.tracking_id}?`)) return;
+
+    setIsSaving(true);
+    try {
+      await adminFetch(`/orders/${order.id}/refund`, {
+        method: 'POST',
+        body: JSON.stringify(payload),
+      });
+      toast.success(`Refunded ₦${amount.toLocaleString()}`);
+      closeDialog();
+      onRefunded();
+    } catch (err) {
+      console.error('Error issuing refund:', err);
+      if (err instanceof AdminApiError && err.status === 403) {
+        toast.error('You do not have permission to issue refunds');
+      } else {
+        toast.error(err instanceof Error ? err.message : 'Failed to issue refund');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? openDialog() : closeDialog())}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="text-red-600 hover:text-red-700 hover:bg-red-50">
+          <Undo2 className="h-4 w-4 mr-2" />
+          Refund
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Refund {order.tracking_id}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Paid ₦{order.total_amount.toLocaleString()}
+            {Number(order.refunded_amount) > 0 &&
+              `, ₦${Number(order.refunded_amount).toLocaleString()} already refunded`}
+            .
+          </p>
+
+          {refunds.length > 0 && (
+            <div className="space-y-1 text-xs text-gray-600 border rounded-md p-2">
+              {refunds.map((refund) => (
+                <p key={refund.id}>
+                  {format(new Date(refund.created_at), 'PPp')} · ₦{Number(refund.amount).toLocaleString()} ·{' '}
+                  {refund.reason}
+                  {refund.admin_credentials && ` (${refund.admin_credentials.username})`}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Refund</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as 'full' | 'items')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="full">Everything still paid (₦{remaining.toLocaleString()})</SelectItem>
+                <SelectItem value="items">Selected items</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {mode === 'items' && (
+            <div className="space-y-2">
+              {items.map((item) => {
+                const refundable = item.quantity - refundedQuantity(item.id);
+                return (
+                  <div key={item.id} className="flex items-center justify-between gap-3 text-sm">
+                    <span>
+                      {item.food_items?.name ?? item.combo_name}
+                      <span className="block text-xs text-gray-500">
+                        ₦{item.unit_price.toLocaleString()} each · {refundable} of {item.quantity} refundable
+                      </span>
+                    </span>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={refundable}
+                      step="1"
+                      className="w-20"
+                      disabled={refundable <= 0}
+                      value={quantities[item.id] ?? ''}
+                      onChange={(e) => setQuantities((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Refund to</Label>
+            <Select
+              value={destination}
+              onValueChange={(value) => setDestination(value as OrderRefund['destination'])}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REFUND_DESTINATION_LABELS) as OrderRefund['destination'][]).map((option) => (
+                  <SelectItem key={option} value={option} disabled={option === 'wallet' && !order.customer_id}>
+                    {REFUND_DESTINATION_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {destination === 'manual' && (
+              <p className="text-xs text-gray-500">Send the money back yourself; this only records the refund.</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`refund_reason_${order.id}`}>Reason *</Label>
+            <Textarea
+              id={`refund_reason_${order.id}`}
+              placeholder="e.g. Jollof rice was out of stock"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={REFUND_REASON_MAX_LENGTH}
+              rows={2}
+              required
+            />
+          </div>
+
+          <div className="flex justify-between items-center">
+            <span className="font-semibold">Refund amount:</span>
+            <span className="font-bold text-lg text-red-600">₦{amount.toLocaleString()}</span>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || amount <= 0} className="bg-red-600 hover:bg-red-700">
+              Issue Refund
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,24 +1,39 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Clock, CheckCircle, Truck, Package, XCircle } from 'lucide-react';
+import Link from 'next/link';
+import { Clock, CheckCircle, Truck, Package, XCircle, MapPin, Phone, ShoppingBag, CalendarClock, MonitorPlay } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { supabase, Order, OrderItem } from '@/lib/supabase';
+import OrderPaymentPanel, { OrderPayment } from '@/components/admin/OrderPaymentPanel';
+import OrderRefundDialog from '@/components/admin/OrderRefundDialog';
+import { supabase, AdminRole, Order, OrderItem } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { canSetOrderStatus, hasPermission } from '@/lib/admin-roles';
+import { getAllowedTransitions, TRANSITION_LABELS } from '@/lib/order-status';
+import { formatItemOptions } from '@/lib/menu-options';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
 
-interface OrderWithItems extends Order {
-  order_items: (OrderItem & { food_items: { name: string; price: number } })[];
+interface OrderWithItems extends OrderPayment {
+  // Null on combo rows
+  order_items: (OrderItem & { food_items: { name: string; price: number } | null })[];
 }
 
-export default function OrdersQueue() {
+interface OrdersQueueProps {
+  role: AdminRole;
+}
+
+export default function OrdersQueue({ role }: OrdersQueueProps) {
   const [orders, setOrders] = useState<OrderWithItems[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [retryCount, setRetryCount] = useState(0);
+  const [pickupCodes, setPickupCodes] = useState<Record<string, string>>({});
+  const [now, setNow] = useState(() => Date.now());
   const MAX_RETRIES = 3;
 
   useEffect(() => {
@@ -54,6 +69,12 @@ export default function OrdersQueue() {
     };
   }, []);
 
+  // Re-sorts pre-orders into the main queue as their prep windows open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
   const fetchOrders = async () => {
     try {
       setLoading(true);
@@ -63,6 +84,7 @@ export default function OrdersQueue() {
         .from('orders')
         .select(`
           *,
+          payment_account:bank_details ( bank_name, account_number ),
           order_items (
             *,
             food_items (
@@ -95,6 +117,12 @@ export default function OrdersQueue() {
   };
 
   const updateOrderStatus = async (orderId: string, newStatus: Order['status']) => {
+    let note: string | null = null;
+    if (newStatus === 'cancelled') {
+      note = prompt('Reason for cancelling this order (optional):');
+      if (note === null) return;
+    }
+
     try {
       // Optimistic update
       setOrders(prevOrders => 
@@ -105,27 +133,12 @@ export default function OrdersQueue() {
         )
       );
 
-      const { error } = await supabase
-        .from('orders')
-        .update({ 
-          status: newStatus, 
-          updated_at: new Date().toISOString() 
-        })
-        .eq('id', orderId);
-
-      if (error) throw error;
-
-      // Add to status history
-      const { error: historyError } = await supabase
-        .from('order_status_history')
-        .insert({
-          order_id: orderId,
-          status: newStatus,
-        });
-
-      if (historyError) throw historyError;
+      await adminFetch(`/orders/${orderId}/status`, {
+        method: 'PATCH',
+        body: JSON.stringify({ status: newStatus, note }),
+      });
 
-      toast.success(`Order status updated to ${newStatus.replace('_', ' ')}`);
+      toast.success(`Order status updated to ${newStatus.replace(/_/g, ' ')}`);
     } catch (err) {
       console.error('Error updating order status:', err);
       
@@ -134,8 +147,10 @@ export default function OrdersQueue() {
       
       // Show specific error message
       if (err instanceof Error) {
-        if (err.message.includes('permission denied')) {
+        if ((err instanceof AdminApiError && err.status === 403) || err.message.includes('permission denied')) {
           toast.error('You do not have permission to update this order');
+        } else if (err instanceof AdminApiError && err.status === 409) {
+          toast.error(`${err.message}. The order may have been updated by someone else.`);
         } else {
           toast.error('Failed to update order status. Please try again.');
         }
@@ -145,6 +160,39 @@ export default function OrdersQueue() {
     }
   };
 
+  // Pickup orders are closed by checking the code the customer shows at the counter
+  const collectPickupOrder = async (orderId: string) => {
+    const code = pickupCodes[orderId] ?? '';
+    if (!/^\d{4}$/.test(code)) {
+      toast.error('Enter the 4-digit pickup code from the customer');
+      return;
+    }
+
+    try {
+      await adminFetch(`/orders/${orderId}/collect`, {
+        method: 'POST',
+        body: JSON.stringify({ code }),
+      });
+
+      setPickupCodes((prev) => ({ ...prev, [orderId]: '' }));
+      toast.success('Pickup code verified. Order collected.');
+      fetchOrders();
+    } catch (err) {
+      console.error('Error collecting pickup order:', err);
+
+      if (err instanceof AdminApiError && err.status === 422) {
+        toast.error('That code does not match this order. Do not hand it over.');
+      } else if (err instanceof AdminApiError && err.status === 403) {
+        toast.error('You do not have permission to hand over pickup orders');
+      } else if (err instanceof AdminApiError && err.status === 409) {
+        toast.error(`${err.message}. The order may have been updated by someone else.`);
+        fetchOrders();
+      } else {
+        toast.error('Failed to verify the pickup code. Please try again.');
+      }
+    }
+  };
+
   const getStatusIcon = (status: Order['status']) => {
     switch (status) {
       case 'pending':
@@ -154,6 +202,8 @@ export default function OrdersQueue() {
         return <CheckCircle className="h-4 w-4" />;
       case 'preparing':
         return <Package className="h-4 w-4" />;
+      case 'ready_for_pickup':
+        return <ShoppingBag className="h-4 w-4" />;
       case 'dispatched':
         return <Truck className="h-4 w-4" />;
       case 'delivered':
@@ -175,6 +225,8 @@ export default function OrdersQueue() {
         return 'bg-green-100 text-green-800';
       case 'preparing':
         return 'bg-orange-100 text-orange-800';
+      case 'ready_for_pickup':
+        return 'bg-teal-100 text-teal-800';
       case 'dispatched':
         return 'bg-purple-100 text-purple-800';
       case 'delivered':
@@ -186,35 +238,258 @@ export default function OrdersQueue() {
     }
   };
 
-  const getNextActions = (status: Order['status']) => {
-    switch (status) {
-      case 'pending':
-        return [
-          { label: 'Confirm Payment', status: 'payment_received' as const },
-          { label: 'Cancel Order', status: 'cancelled' as const },
-        ];
-      case 'payment_received':
-        return [
-          { label: 'Confirm Order', status: 'confirmed' as const },
-          { label: 'Cancel Order', status: 'cancelled' as const },
-        ];
-      case 'confirmed':
-        return [
-          { label: 'Start Preparing', status: 'preparing' as const },
-          { label: 'Cancel Order', status: 'cancelled' as const },
-        ];
-      case 'preparing':
-        return [
-          { label: 'Dispatch Order', status: 'dispatched' as const },
-        ];
-      case 'dispatched':
-        return [
-          { label: 'Mark Delivered', status: 'delivered' as const },
-        ];
-      default:
-        return [];
-    }
-  };
+  // Pre-orders wait in their own lane until the kitchen should start on them
+  const isUpcoming = (order: OrderWithItems) =>
+    !!order.prep_starts_at &&
+    new Date(order.prep_starts_at).getTime() > now &&
+    order.status !== 'delivered' &&
+    order.status !== 'cancelled';
+
+  const upcomingOrders = orders
+    .filter(isUpcoming)
+    .sort((a, b) => new Date(a.prep_starts_at!).getTime() - new Date(b.prep_starts_at!).getTime());
+  const activeOrders = orders.filter((order) => !isUpcoming(order));
+
+  // Only offer moves the status machine allows and the staff role may perform.
+  // Payments are confirmed through the payment panel so they leave an audit trail,
+  // and pickups are handed over through the pickup code check.
+  const getNextActions = (order: OrderWithItems) =>
+    getAllowedTransitions(order.status, order.fulfilment_mode)
+      .filter((next) => next !== 'payment_received' && canSetOrderStatus(role, next, order.fulfilment_mode))
+      .filter((next) => !(order.fulfilment_mode === 'pickup' && next === 'delivered'))
+      .map((next) => ({ label: TRANSITION_LABELS[next], status: next }));
+
+  const renderOrderCard = (order: OrderWithItems) => (
+    <Card key={order.id} className="overflow-hidden">
+      <CardHeader className="pb-4">
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="text-lg">
+              Order #{order.tracking_id}
+            </CardTitle>
+            <p className="text-sm text-gray-600 mt-1">
+              {format(new Date(order.created_at), 'PPp')}
+            </p>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <Badge className={`${getStatusColor(order.status)} flex items-center gap-1`}>
+              {getStatusIcon(order.status)}
+              {order.fulfilment_mode === 'pickup' && order.status === 'delivered'
+                ? 'COLLECTED'
+                : order.status.replace(/_/g, ' ').toUpperCase()}
+            </Badge>
+            <Badge variant="outline">
+              {order.fulfilment_mode === 'pickup' ? 'Pickup' : 'Delivery'}
+            </Badge>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {order.scheduled_for && (
+          <div className="flex items-center gap-2 rounded-lg border border-indigo-200 bg-indigo-50 p-3 text-sm text-indigo-900">
+            <CalendarClock className="h-4 w-4 shrink-0" />
+            <span>
+              Scheduled for <span className="font-semibold">{format(new Date(order.scheduled_for), 'PPp')}</span>
+              {order.prep_starts_at && ` · start prep ${format(new Date(order.prep_starts_at), 'p')}`}
+            </span>
+          </div>
+        )}
+
+        {order.fulfilment_mode === 'pickup' && (
+          <div className="rounded-lg border border-teal-200 bg-teal-50 p-3">
+            <div className="flex items-start gap-2">
+              <ShoppingBag className="h-5 w-5 text-teal-700 mt-0.5 shrink-0" />
+              <div>
+                <p className="font-semibold text-gray-900">Pickup at the counter</p>
+                <p className="text-sm text-gray-700">{order.customer_name}</p>
+                {order.customer_phone && (
+                  <a
+                    href={`tel:${order.customer_phone}`}
+                    className="inline-flex items-center text-sm text-teal-700 hover:underline"
+                  >
+                    <Phone className="h-3 w-3 mr-1" />
+                    {order.customer_phone}
+                  </a>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {order.fulfilment_mode === 'delivery' && order.delivery_location_name && (
+          <div className="rounded-lg border border-green-200 bg-green-50 p-3">
+            <div className="flex items-start gap-2">
+              <MapPin className="h-5 w-5 text-green-700 mt-0.5 shrink-0" />
+              <div>
+                <p className="font-semibold text-gray-900">
+                  {order.delivery_location_name}
+                  {order.delivery_room && ` · ${order.delivery_room}`}
+                </p>
+                <p className="text-sm text-gray-700">{order.customer_name}</p>
+                {order.customer_phone && (
+                  <a
+                    href={`tel:${order.customer_phone}`}
+                    className="inline-flex items-center text-sm text-green-700 hover:underline"
+                  >
+                    <Phone className="h-3 w-3 mr-1" />
+                    {order.customer_phone}
+                  </a>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div>
+          <h4 className="font-semibold mb-2">Items:</h4>
+          <div className="space-y-2">
+            {order.order_items.filter((item) => !item.parent_item_id).map((item) => (
+              <div key={item.id} className="text-sm">
+                <div className="flex justify-between items-center">
+                  <span>
+                    {item.quantity}x {item.food_items?.name ?? item.combo_name}
+                    {item.options?.length > 0 && (
+                      <span className="block text-xs text-gray-600 ml-5">{formatItemOptions(item.options)}</span>
+                    )}
+                  </span>
+                  <span className="font-medium">
+                    ₦{(item.unit_price * item.quantity).toLocaleString()}
+                  </span>
+                </div>
+                {/* What the kitchen makes for a combo, totalled across its quantity */}
+                {item.combo_name && (
+                  <ul className="ml-5 mt-1 space-y-0.5 text-xs text-gray-600">
+                    {item.components.map((component) => (
+                      <li key={component.component_id}>
+                        {component.quantity * item.quantity}x {component.name}
+                        <span className="text-gray-400"> · {component.label}</span>
+                        {component.is_swap && (
+                          <Badge variant="outline" className="ml-2 px-1 py-0 text-[10px] border-amber-400 text-amber-700">
+                            swapped
+                          </Badge>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Separator />
+
+        {(order.delivery_fee > 0 || order.discount_amount > 0 || order.loyalty_discount > 0 || order.referral_credit > 0) && (
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between items-center">
+              <span className="text-gray-600">Food:</span>
+              <span>₦{order.subtotal_amount.toLocaleString()}</span>
+            </div>
+            {order.delivery_fee > 0 && (
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600">
+                  Delivery{order.delivery_zone_name ? ` (${order.delivery_zone_name})` : ''}:
+                </span>
+                <span>₦{order.delivery_fee.toLocaleString()}</span>
+              </div>
+            )}
+            {order.discount_amount > 0 && (
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600">Promo{order.promo_code ? ` (${order.promo_code})` : ''}:</span>
+                <span className="text-green-600">−₦{order.discount_amount.toLocaleString()}</span>
+              </div>
+            )}
+            {order.loyalty_discount > 0 && (
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600">Rewards:</span>
+                <span className="text-green-600">−₦{order.loyalty_discount.toLocaleString()}</span>
+              </div>
+            )}
+            {order.referral_credit > 0 && (
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600">Referral credit:</span>
+                <span className="text-green-600">−₦{order.referral_credit.toLocaleString()}</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-between items-center">
+          <span className="font-semibold">Total:</span>
+          <span className="font-bold text-lg text-green-600">
+            ₦{order.total_amount.toLocaleString()}
+          </span>
+        </div>
+
+        <Separator />
+
+        <OrderPaymentPanel
+          order={order}
+          canConfirm={hasPermission(role, 'payments.confirm')}
+          onUpdated={fetchOrders}
+        />
+
+        {/* Paid orders can be refunded at any stage, including after cancellation */}
+        {hasPermission(role, 'payments.confirm') && order.payment_status === 'completed' && (
+          <OrderRefundDialog order={order} onRefunded={fetchOrders} />
+        )}
+
+        {order.customer_note && (
+          <>
+            <Separator />
+            <div>
+              <h4 className="font-semibold mb-1">Customer Note:</h4>
+              <p className="text-sm text-gray-600">{order.customer_note}</p>
+            </div>
+          </>
+        )}
+
+        <Separator />
+
+        {order.fulfilment_mode === 'pickup' &&
+          order.status === 'ready_for_pickup' &&
+          canSetOrderStatus(role, 'delivered', 'pickup') && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              inputMode="numeric"
+              placeholder="Pickup code"
+              aria-label="Pickup code"
+              value={pickupCodes[order.id] ?? ''}
+              onChange={(e) =>
+                setPickupCodes((prev) => ({
+                  ...prev,
+                  [order.id]: e.target.value.replace(/\D/g, '').slice(0, 4),
+                }))
+              }
+              className="w-32 font-mono"
+            />
+            <Button
+              size="sm"
+              onClick={() => collectPickupOrder(order.id)}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              Verify &amp; Mark Collected
+            </Button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {getNextActions(order).map((action) => (
+            <Button
+              key={action.status}
+              size="sm"
+              variant={action.status === 'cancelled' ? 'destructive' : 'default'}
+              onClick={() => updateOrderStatus(order.id, action.status)}
+              className={action.status !== 'cancelled' ? 'bg-green-600 hover:bg-green-700' : ''}
+            >
+              {action.label}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
 
   if (error) {
     return (
@@ -250,12 +525,35 @@ export default function OrdersQueue() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">Orders Queue</h2>
-        <Button onClick={fetchOrders} variant="outline">
-          Refresh
-        </Button>
+        <div className="flex gap-2">
+          <Link href="/admin/kitchen">
+            <Button variant="outline">
+              <MonitorPlay className="h-4 w-4 mr-2" />
+              Kitchen Display
+            </Button>
+          </Link>
+          <Button onClick={fetchOrders} variant="outline">
+            Refresh
+          </Button>
+        </div>
       </div>
 
-      {orders.length === 0 ? (
+      {upcomingOrders.length > 0 && (
+        <div className="rounded-lg border border-indigo-200 bg-indigo-50/50 p-4 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-indigo-900 flex items-center">
+              <CalendarClock className="h-5 w-5 mr-2" />
+              Upcoming ({upcomingOrders.length})
+            </h3>
+            <p className="text-sm text-indigo-800">
+              Pre-orders move into the queue when their prep window opens.
+            </p>
+          </div>
+          {upcomingOrders.map(renderOrderCard)}
+        </div>
+      )}
+
+      {activeOrders.length === 0 ? (
         <Card>
           <CardContent className="text-center py-12">
             <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -265,79 +563,7 @@ export default function OrdersQueue() {
         </Card>
       ) : (
         <div className="space-y-4">
-          {orders.map((order) => (
-            <Card key={order.id} className="overflow-hidden">
-              <CardHeader className="pb-4">
-                <div className="flex justify-between items-start">
-                  <div>
-                    <CardTitle className="text-lg">
-                      Order #{order.tracking_id}
-                    </CardTitle>
-                    <p className="text-sm text-gray-600 mt-1">
-                      {format(new Date(order.created_at), 'PPp')}
-                    </p>
-                  </div>
-                  <Badge className={`${getStatusColor(order.status)} flex items-center gap-1`}>
-                    {getStatusIcon(order.status)}
-                    {order.status.replace('_', ' ').toUpperCase()}
-                  </Badge>
-                </div>
-              </CardHeader>
-
-              <CardContent className="space-y-4">
-                <div>
-                  <h4 className="font-semibold mb-2">Items:</h4>
-                  <div className="space-y-2">
-                    {order.order_items.map((item) => (
-                      <div key={item.id} className="flex justify-between items-center text-sm">
-                        <span>
-                          {item.quantity}x {item.food_items.name}
-                        </span>
-                        <span className="font-medium">
-                          ₦{(item.unit_price * item.quantity).toLocaleString()}
-                        </span>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-
-                <Separator />
-
-                <div className="flex justify-between items-center">
-                  <span className="font-semibold">Total:</span>
-                  <span className="font-bold text-lg text-green-600">
-                    ₦{order.total_amount.toLocaleString()}
-                  </span>
-                </div>
-
-                {order.customer_note && (
-                  <>
-                    <Separator />
-                    <div>
-                      <h4 className="font-semibold mb-1">Customer Note:</h4>
-                      <p className="text-sm text-gray-600">{order.customer_note}</p>
-                    </div>
-                  </>
-                )}
-
-                <Separator />
-
-                <div className="flex flex-wrap gap-2">
-                  {getNextActions(order.status).map((action) => (
-                    <Button
-                      key={action.status}
-                      size="sm"
-                      variant={action.status === 'cancelled' ? 'destructive' : 'default'}
-                      onClick={() => updateOrderStatus(order.id, action.status)}
-                      className={action.status !== 'cancelled' ? 'bg-green-600 hover:bg-green-700' : ''}
-                    >
-                      {action.label}
-                    </Button>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+          {activeOrders.map(renderOrderCard)}
         </div>
       )}
     </div>
@@ -0,0 +1,302 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BankDetail, Order, PaymentConfirmation, PaymentHistory } from '@/lib/supabase';
+import { adminFetch } from '@/lib/admin-api';
+import { PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS, getPaymentStatusColor } from '@/lib/payments';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+interface PaymentRow extends PaymentHistory {
+  order: Pick<Order, 'id' | 'tracking_id' | 'total_amount' | 'status' | 'payment_status' | 'transfer_sender_name'> & {
+    payment_account: Pick<BankDetail, 'id' | 'bank_name' | 'account_number'> | null;
+  };
+  amount_mismatch: boolean;
+  confirmations: (PaymentConfirmation & { admin_credentials: { username: string } | null })[];
+}
+
+type BankAccountOption = Pick<BankDetail, 'id' | 'bank_name' | 'account_number' | 'is_active'>;
+
+interface Filters {
+  status: string;
+  method: string;
+  bank_account: string;
+  from: string;
+  to: string;
+}
+
+const initialFilters: Filters = {
+  status: 'all',
+  method: 'all',
+  bank_account: 'all',
+  from: '',
+  to: '',
+};
+
+export default function PaymentsDashboard() {
+  const [payments, setPayments] = useState<PaymentRow[]>([]);
+  const [bankAccounts, setBankAccounts] = useState<BankAccountOption[]>([]);
+  const [filters, setFilters] = useState<Filters>(initialFilters);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPayments = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value && value !== 'all') params.set(key, value);
+      });
+
+      const data = await adminFetch<{ payments: PaymentRow[]; bank_accounts: BankAccountOption[] }>(
+        `/payments?${params}`
+      );
+      setPayments(data.payments);
+      setBankAccounts(data.bank_accounts);
+    } catch (err) {
+      console.error('Error fetching payments:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to fetch payments');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const summarize = (statuses: PaymentHistory['status'][]) => {
+    const matching = payments.filter((payment) => statuses.includes(payment.status));
+    return {
+      count: matching.length,
+      total: matching.reduce((sum, payment) => sum + Number(payment.amount), 0),
+    };
+  };
+
+  const summary = [
+    { label: 'Pending', ...summarize(['pending', 'processing']) },
+    { label: 'Confirmed', ...summarize(['completed']) },
+    { label: 'Rejected', ...summarize(['failed']) },
+  ];
+  const mismatchCount = payments.filter((payment) => payment.amount_mismatch).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Payments</h2>
+        <Button variant="outline" size="sm" onClick={fetchPayments} disabled={loading}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {summary.map((item) => (
+          <Card key={item.label}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-600">{item.label}</p>
+              <p className="text-2xl font-bold">{item.count}</p>
+              <p className="text-sm text-gray-500">₦{item.total.toLocaleString()}</p>
+            </CardContent>
+          </Card>
+        ))}
+        <Card className={mismatchCount > 0 ? 'border-red-300' : undefined}>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Amount mismatches</p>
+            <p className={`text-2xl font-bold ${mismatchCount > 0 ? 'text-red-600' : ''}`}>{mismatchCount}</p>
+            <p className="text-sm text-gray-500">Paid amount differs from order total</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Filters</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="space-y-1">
+            <Label>Status</Label>
+            <Select value={filters.status} onValueChange={(value) => updateFilter('status', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {Object.entries(PAYMENT_STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Method</Label>
+            <Select value={filters.method} onValueChange={(value) => updateFilter('method', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All methods</SelectItem>
+                {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Bank account</Label>
+            <Select value={filters.bank_account} onValueChange={(value) => updateFilter('bank_account', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All accounts</SelectItem>
+                {bankAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.bank_name} · {account.account_number}
+                    {!account.is_active && ' (inactive)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="payments-from">From</Label>
+            <Input
+              id="payments-from"
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter('from', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="payments-to">To</Label>
+            <Input
+              id="payments-to"
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter('to', e.target.value)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {loading && payments.length === 0 ? (
+            <div className="animate-pulse space-y-3">
+              {[...Array(4)].map((_, i) => (
+                <div key={i} className="h-10 bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          ) : payments.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No payments match these filters</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map((payment) => (
+                  <Fragment key={payment.id}>
+                    <TableRow
+                      className={`cursor-pointer ${payment.amount_mismatch ? 'bg-red-50 hover:bg-red-100' : ''}`}
+                      onClick={() => setExpandedId(expandedId === payment.id ? null : payment.id)}
+                    >
+                      <TableCell>
+                        {expandedId === payment.id ? (
+                          <ChevronDown className="h-4 w-4" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4" />
+                        )}
+                      </TableCell>
+                      <TableCell>{format(new Date(payment.created_at), 'PPp')}</TableCell>
+                      <TableCell className="font-medium">{payment.order.tracking_id}</TableCell>
+                      <TableCell className="font-mono text-xs">{payment.reference}</TableCell>
+                      <TableCell>{PAYMENT_METHOD_LABELS[payment.payment_method]}</TableCell>
+                      <TableCell>
+                        {payment.order.payment_account
+                          ? `${payment.order.payment_account.bank_name} · ${payment.order.payment_account.account_number}`
+                          : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <span className="font-semibold">₦{Number(payment.amount).toLocaleString()}</span>
+                        {payment.amount_mismatch && (
+                          <span className="flex items-center justify-end text-xs text-red-600">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Order total ₦{Number(payment.order.total_amount).toLocaleString()}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getPaymentStatusColor(payment.status)}>
+                          {PAYMENT_STATUS_LABELS[payment.status]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+
+                    {expandedId === payment.id && (
+                      <TableRow>
+                        <TableCell></TableCell>
+                        <TableCell colSpan={7} className="bg-gray-50">
+                          <h4 className="font-semibold mb-2">Confirmation audit trail</h4>
+                          {payment.order.transfer_sender_name && (
+                            <p className="text-sm text-gray-600 mb-2">
+                              Sender: {payment.order.transfer_sender_name}
+                            </p>
+                          )}
+                          {payment.confirmations.length === 0 ? (
+                            <p className="text-sm text-gray-500">No cashier decisions recorded for this order</p>
+                          ) : (
+                            <ul className="space-y-1 text-sm">
+                              {payment.confirmations.map((entry) => (
+                                <li key={entry.id} className="flex flex-wrap items-center gap-2">
+                                  <Badge className={getPaymentStatusColor(entry.status)}>
+                                    {entry.status === 'completed' ? 'Confirmed' : 'Rejected'}
+                                  </Badge>
+                                  <span>{format(new Date(entry.created_at), 'PPp')}</span>
+                                  <span className="text-gray-600">
+                                    by {entry.admin_credentials?.username ?? 'unknown'}
+                                  </span>
+                                  {entry.note && <span className="text-gray-700">— {entry.note}</span>}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
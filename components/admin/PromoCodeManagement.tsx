@@ -0,0 +1,560 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FoodItem, PromoCode } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import {
+  describePromoRule,
+  validatePromoCode,
+  FOOD_CATEGORIES,
+  PROMO_DISCOUNT_TYPE_LABELS,
+} from '@/lib/promotions';
+import { toast } from 'sonner';
+
+interface PromoCodeWithUsage extends PromoCode {
+  usage: {
+    redemptions: number;
+    discount_total: number;
+    revenue_total: number;
+  };
+}
+
+interface PromoFormData {
+  code: string;
+  description: string;
+  discount_type: PromoCode['discount_type'];
+  percent_off: string;
+  max_discount_amount: string;
+  amount_off: string;
+  buy_quantity: string;
+  get_quantity: string;
+  min_subtotal: string;
+  // Empty for the whole menu
+  categories: FoodItem['category'][];
+  starts_at: string;
+  ends_at: string;
+  max_redemptions: string;
+  max_per_customer: string;
+  is_active: boolean;
+}
+
+const initialFormData: PromoFormData = {
+  code: '',
+  description: '',
+  discount_type: 'percent',
+  percent_off: '',
+  max_discount_amount: '',
+  amount_off: '',
+  buy_quantity: '2',
+  get_quantity: '1',
+  min_subtotal: '0',
+  categories: [],
+  starts_at: '',
+  ends_at: '',
+  max_redemptions: '',
+  max_per_customer: '1',
+  is_active: true,
+};
+
+const toNumber = (value: string) => (value === '' ? null : Number(value));
+
+// datetime-local inputs work in the browser's time zone
+const toInputDate = (value: string | null) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '');
+const fromInputDate = (value: string) => (value ? new Date(value).toISOString() : null);
+
+function getStatus(promo: PromoCode): { label: string; variant: 'default' | 'secondary' | 'outline' } {
+  const now = Date.now();
+  if (!promo.is_active) return { label: 'Off', variant: 'secondary' };
+  if (promo.ends_at && Date.parse(promo.ends_at) <= now) return { label: 'Expired', variant: 'secondary' };
+  if (promo.starts_at && Date.parse(promo.starts_at) > now) return { label: 'Scheduled', variant: 'outline' };
+  return { label: 'Live', variant: 'default' };
+}
+
+export default function PromoCodeManagement() {
+  const [promoCodes, setPromoCodes] = useState<PromoCodeWithUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingPromo, setEditingPromo] = useState<PromoCode | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<PromoFormData>(initialFormData);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchPromoCodes();
+  }, []);
+
+  const fetchPromoCodes = async () => {
+    try {
+      const data = await adminFetch<{ promo_codes: PromoCodeWithUsage[] }>('/promo-codes');
+      setPromoCodes(data.promo_codes);
+    } catch (err) {
+      console.error('Error fetching promo codes:', err);
+      toast.error('Failed to load promo codes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showError = (err: unknown, fallback: string) => {
+    if (err instanceof AdminApiError && err.status === 403) {
+      toast.error('You do not have permission to manage promotions');
+    } else if (err instanceof AdminApiError && (err.status === 400 || err.status === 404 || err.status === 409)) {
+      toast.error(err.message);
+    } else {
+      toast.error(fallback);
+    }
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingPromo(null);
+    setFormData(initialFormData);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Only the rule fields for the chosen type are kept
+    const type = formData.discount_type;
+    const promoData = {
+      code: formData.code.trim().toUpperCase(),
+      description: formData.description.trim() || null,
+      discount_type: type,
+      percent_off: type === 'percent' ? toNumber(formData.percent_off) : null,
+      max_discount_amount: type === 'percent' ? toNumber(formData.max_discount_amount) : null,
+      amount_off: type === 'fixed' ? toNumber(formData.amount_off) : null,
+      buy_quantity: type === 'buy_x_get_y' ? toNumber(formData.buy_quantity) : null,
+      get_quantity: type === 'buy_x_get_y' ? toNumber(formData.get_quantity) : null,
+      min_subtotal: toNumber(formData.min_subtotal) ?? 0,
+      categories: formData.categories.length > 0 ? formData.categories : null,
+      starts_at: fromInputDate(formData.starts_at),
+      ends_at: fromInputDate(formData.ends_at),
+      max_redemptions: toNumber(formData.max_redemptions),
+      max_per_customer: toNumber(formData.max_per_customer),
+      is_active: formData.is_active,
+    };
+
+    const validationError = validatePromoCode(promoData, true);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingPromo) {
+        await adminFetch(`/promo-codes/${editingPromo.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify(promoData),
+        });
+      } else {
+        await adminFetch('/promo-codes', {
+          method: 'POST',
+          body: JSON.stringify(promoData),
+        });
+      }
+
+      toast.success(`Promo code ${editingPromo ? 'updated' : 'added'} successfully`);
+      closeDialog();
+      fetchPromoCodes();
+    } catch (err) {
+      console.error('Error saving promo code:', err);
+      showError(err, 'Failed to save promo code. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (promo: PromoCode) => {
+    setEditingPromo(promo);
+    setFormData({
+      code: promo.code,
+      description: promo.description ?? '',
+      discount_type: promo.discount_type,
+      percent_off: promo.percent_off?.toString() ?? '',
+      max_discount_amount: promo.max_discount_amount?.toString() ?? '',
+      amount_off: promo.amount_off?.toString() ?? '',
+      buy_quantity: promo.buy_quantity?.toString() ?? '2',
+      get_quantity: promo.get_quantity?.toString() ?? '1',
+      min_subtotal: String(promo.min_subtotal),
+      categories: promo.categories ?? [],
+      starts_at: toInputDate(promo.starts_at),
+      ends_at: toInputDate(promo.ends_at),
+      max_redemptions: promo.max_redemptions?.toString() ?? '',
+      max_per_customer: promo.max_per_customer?.toString() ?? '',
+      is_active: promo.is_active,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleToggleActive = async (promo: PromoCode) => {
+    try {
+      // Optimistic update
+      setPromoCodes((prev) =>
+        prev.map((p) => (p.id === promo.id ? { ...p, is_active: !promo.is_active } : p))
+      );
+
+      await adminFetch(`/promo-codes/${promo.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ is_active: !promo.is_active }),
+      });
+
+      toast.success(`${promo.code} ${promo.is_active ? 'switched off' : 'switched on'}`);
+    } catch (err) {
+      console.error('Error toggling promo code:', err);
+
+      // Revert optimistic update
+      fetchPromoCodes();
+      showError(err, 'Failed to update promo code. Please try again.');
+    }
+  };
+
+  const toggleCategory = (category: FoodItem['category'], checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      categories: checked
+        ? [...prev.categories, category]
+        : prev.categories.filter((c) => c !== category),
+    }));
+  };
+
+  const describeLimits = (promo: PromoCode) =>
+    [
+      Number(promo.min_subtotal) > 0 && `Min. spend ₦${Number(promo.min_subtotal).toLocaleString()}`,
+      promo.categories && promo.categories.join(', '),
+      promo.max_per_customer && `${promo.max_per_customer} per customer`,
+      promo.starts_at && `From ${format(new Date(promo.starts_at), 'd MMM yyyy, p')}`,
+      promo.ends_at && `Until ${format(new Date(promo.ends_at), 'd MMM yyyy, p')}`,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(2)].map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardContent className="p-6">
+              <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Promo Codes</h2>
+          <p className="text-sm text-gray-600">
+            Discounts customers apply at checkout. Uses and revenue leave out cancelled orders.
+          </p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? setIsDialogOpen(true) : closeDialog())}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Promo Code
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingPromo ? 'Edit Promo Code' : 'Add Promo Code'}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo_code">Code *</Label>
+                  <Input
+                    id="promo_code"
+                    placeholder="e.g. WELCOME20"
+                    value={formData.code}
+                    onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                    maxLength={30}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Discount *</Label>
+                  <Select
+                    value={formData.discount_type}
+                    onValueChange={(value) =>
+                      setFormData(prev => ({ ...prev, discount_type: value as PromoCode['discount_type'] }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(PROMO_DISCOUNT_TYPE_LABELS) as PromoCode['discount_type'][]).map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {PROMO_DISCOUNT_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="promo_description">Description</Label>
+                <Textarea
+                  id="promo_description"
+                  placeholder="Shown to customers when they apply the code"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  rows={2}
+                />
+              </div>
+
+              {formData.discount_type === 'percent' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="promo_percent">Percent Off *</Label>
+                    <Input
+                      id="promo_percent"
+                      type="number"
+                      min="0.01"
+                      max="100"
+                      step="0.01"
+                      value={formData.percent_off}
+                      onChange={(e) => setFormData(prev => ({ ...prev, percent_off: e.target.value }))}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="promo_max_discount">Max Discount (₦)</Label>
+                    <Input
+                      id="promo_max_discount"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="No cap"
+                      value={formData.max_discount_amount}
+                      onChange={(e) => setFormData(prev => ({ ...prev, max_discount_amount: e.target.value }))}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {formData.discount_type === 'fixed' && (
+                <div className="space-y-2">
+                  <Label htmlFor="promo_amount">Amount Off (₦) *</Label>
+                  <Input
+                    id="promo_amount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.amount_off}
+                    onChange={(e) => setFormData(prev => ({ ...prev, amount_off: e.target.value }))}
+                    required
+                  />
+                </div>
+              )}
+
+              {formData.discount_type === 'buy_x_get_y' && (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="promo_buy">Buy *</Label>
+                      <Input
+                        id="promo_buy"
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={formData.buy_quantity}
+                        onChange={(e) => setFormData(prev => ({ ...prev, buy_quantity: e.target.value }))}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="promo_get">Get Free *</Label>
+                      <Input
+                        id="promo_get"
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={formData.get_quantity}
+                        onChange={(e) => setFormData(prev => ({ ...prev, get_quantity: e.target.value }))}
+                        required
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">The cheapest qualifying items are the free ones.</p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="promo_min_subtotal">Minimum Spend (₦)</Label>
+                <Input
+                  id="promo_min_subtotal"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.min_subtotal}
+                  onChange={(e) => setFormData(prev => ({ ...prev, min_subtotal: e.target.value }))}
+                />
+              </div>
+
+              {formData.discount_type !== 'free_delivery' && (
+                <div className="space-y-2">
+                  <Label>Applies To</Label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {FOOD_CATEGORIES.map((category) => (
+                      <Label key={category} className="flex items-center gap-2 font-normal cursor-pointer">
+                        <Checkbox
+                          checked={formData.categories.includes(category)}
+                          onCheckedChange={(checked) => toggleCategory(category, checked === true)}
+                        />
+                        {category}
+                      </Label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">Leave all unticked for the whole menu, combos included.</p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo_starts">Starts</Label>
+                  <Input
+                    id="promo_starts"
+                    type="datetime-local"
+                    value={formData.starts_at}
+                    onChange={(e) => setFormData(prev => ({ ...prev, starts_at: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo_ends">Ends</Label>
+                  <Input
+                    id="promo_ends"
+                    type="datetime-local"
+                    value={formData.ends_at}
+                    onChange={(e) => setFormData(prev => ({ ...prev, ends_at: e.target.value }))}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo_max_redemptions">Total Uses</Label>
+                  <Input
+                    id="promo_max_redemptions"
+                    type="number"
+                    min="1"
+                    step="1"
+                    placeholder="Unlimited"
+                    value={formData.max_redemptions}
+                    onChange={(e) => setFormData(prev => ({ ...prev, max_redemptions: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo_max_per_customer">Uses per Customer</Label>
+                  <Input
+                    id="promo_max_per_customer"
+                    type="number"
+                    min="1"
+                    step="1"
+                    placeholder="Unlimited"
+                    value={formData.max_per_customer}
+                    onChange={(e) => setFormData(prev => ({ ...prev, max_per_customer: e.target.value }))}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="promo_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+                />
+                <Label htmlFor="promo_active">Customers can use this code</Label>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {editingPromo ? 'Update' : 'Add'} Promo Code
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {promoCodes.length === 0 && (
+        <p className="text-gray-500">No promo codes yet.</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {promoCodes.map((promo) => {
+          const status = getStatus(promo);
+
+          return (
+            <Card key={promo.id} className={status.label === 'Live' ? '' : 'opacity-70'}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-mono font-semibold">{promo.code}</p>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </div>
+                    <p className="text-green-600 font-medium">{describePromoRule(promo)}</p>
+                    {promo.description && <p className="text-sm text-gray-600">{promo.description}</p>}
+                    {describeLimits(promo) && <p className="text-xs text-gray-500 mt-1">{describeLimits(promo)}</p>}
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(promo)}>
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Switch
+                      checked={promo.is_active}
+                      onCheckedChange={() => handleToggleActive(promo)}
+                      aria-label="Active"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2 text-center border-t pt-3">
+                  <div>
+                    <p className="text-lg font-semibold">
+                      {promo.usage.redemptions}
+                      {promo.max_redemptions && (
+                        <span className="text-sm text-gray-500 font-normal"> / {promo.max_redemptions}</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">Uses</p>
+                  </div>
+                  <div>
+                    <p className="text-lg font-semibold">₦{promo.usage.discount_total.toLocaleString()}</p>
+                    <p className="text-xs text-gray-500">Discounts given</p>
+                  </div>
+                  <div>
+                    <p className="text-lg font-semibold">₦{promo.usage.revenue_total.toLocaleString()}</p>
+                    <p className="text-xs text-gray-500">Order revenue</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ReferralSettings, TopReferrer } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { validateReferralSettings } from '@/lib/referrals';
+import { toast } from 'sonner';
+
+export default function ReferralReport() {
+  const [referrers, setReferrers] = useState<TopReferrer[]>([]);
+  const [settingsForm, setSettingsForm] = useState({ is_active: true, referrer_credit: '', referee_credit: '' });
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchReport();
+  }, []);
+
+  const fetchReport = async () => {
+    try {
+      const data = await adminFetch<{ settings: ReferralSettings; referrers: TopReferrer[] }>('/referrals');
+      setReferrers(data.referrers);
+      setSettingsForm({
+        is_active: data.settings.is_active,
+        referrer_credit: String(data.settings.referrer_credit),
+        referee_credit: String(data.settings.referee_credit),
+      });
+    } catch (err) {
+      console.error('Error fetching referrals:', err);
+      toast.error('Failed to load referrals');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const settingsData = {
+      is_active: settingsForm.is_active,
+      referrer_credit: Number(settingsForm.referrer_credit),
+      referee_credit: Number(settingsForm.referee_credit),
+    };
+
+    const validationError = validateReferralSettings(settingsData);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await adminFetch('/referrals', {
+        method: 'PATCH',
+        body: JSON.stringify(settingsData),
+      });
+      toast.success('Referral settings saved');
+    } catch (err) {
+      console.error('Error saving referral settings:', err);
+      if (err instanceof AdminApiError && err.status === 403) {
+        toast.error('You do not have permission to manage referrals');
+      } else if (err instanceof AdminApiError && err.status === 400) {
+        toast.error(err.message);
+      } else {
+        toast.error('Failed to save referral settings. Please try again.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(2)].map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardContent className="p-6">
+              <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  const totals = referrers.reduce(
+    (sum, referrer) => ({
+      rewarded: sum.rewarded + Number(referrer.rewarded),
+      credit: sum.credit + Number(referrer.credit_earned),
+      revenue: sum.revenue + Number(referrer.referred_revenue),
+    }),
+    { rewarded: 0, credit: 0, revenue: 0 }
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Referrals</h2>
+        <p className="text-sm text-gray-600">
+          Both sides are credited when a new customer&apos;s first order with a referral code is delivered.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Programme</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSaveSettings} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="flex items-center space-x-2 pb-2">
+              <Switch
+                id="referrals_active"
+                checked={settingsForm.is_active}
+                onCheckedChange={(checked) => setSettingsForm(prev => ({ ...prev, is_active: checked }))}
+              />
+              <Label htmlFor="referrals_active">Accept referral codes</Label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="referrer_credit">Referrer Gets (₦)</Label>
+              <Input
+                id="referrer_credit"
+                type="number"
+                min="0"
+                step="0.01"
+                value={settingsForm.referrer_credit}
+                onChange={(e) => setSettingsForm(prev => ({ ...prev, referrer_credit: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="referee_credit">New Customer Gets (₦)</Label>
+              <Input
+                id="referee_credit"
+                type="number"
+                min="0"
+                step="0.01"
+                value={settingsForm.referee_credit}
+                onChange={(e) => setSettingsForm(prev => ({ ...prev, referee_credit: e.target.value }))}
+              />
+            </div>
+            <Button type="submit" disabled={isSaving}>
+              Save Settings
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Delivered referrals</p>
+            <p className="text-2xl font-bold">{totals.rewarded}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Credit paid to referrers</p>
+            <p className="text-2xl font-bold">₦{totals.credit.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Revenue from referred first orders</p>
+            <p className="text-2xl font-bold text-green-600">₦{totals.revenue.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Top Referrers</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {referrers.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No referrals yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Code</TableHead>
+                  <TableHead className="text-right">Delivered</TableHead>
+                  <TableHead className="text-right">Pending</TableHead>
+                  <TableHead className="text-right">Credit Earned</TableHead>
+                  <TableHead className="text-right">Referred Revenue</TableHead>
+                  <TableHead>Last Referral</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {referrers.map((referrer, index) => (
+                  <TableRow key={referrer.code}>
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell>
+                      <p className="font-medium">{referrer.name ?? 'Guest'}</p>
+                      {referrer.phone && <p className="text-xs text-gray-500">{referrer.phone}</p>}
+                    </TableCell>
+                    <TableCell className="font-mono">{referrer.code}</TableCell>
+                    <TableCell className="text-right font-semibold">{referrer.rewarded}</TableCell>
+                    <TableCell className="text-right">{referrer.pending}</TableCell>
+                    <TableCell className="text-right">₦{Number(referrer.credit_earned).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">₦{Number(referrer.referred_revenue).toLocaleString()}</TableCell>
+                    <TableCell>{format(new Date(referrer.last_referred_at), 'PP')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
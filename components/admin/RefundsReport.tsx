@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { OrderRefund, RefundDay } from '@/lib/supabase';
+import { adminFetch } from '@/lib/admin-api';
+import { REFUND_DESTINATION_LABELS } from '@/lib/refunds';
+import { toast } from 'sonner';
+
+interface RefundRow extends OrderRefund {
+  orders: { tracking_id: string; total_amount: number; customer_name: string | null } | null;
+  admin_credentials: { username: string } | null;
+}
+
+export default function RefundsReport() {
+  const [days, setDays] = useState<RefundDay[]>([]);
+  const [refunds, setRefunds] = useState<RefundRow[]>([]);
+  // The last 30 days by default
+  const [range, setRange] = useState({
+    from: format(subDays(new Date(), 29), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd'),
+  });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (range.from && range.to) fetchReport(range);
+  }, [range]);
+
+  const fetchReport = async (dates: { from: string; to: string }) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams(dates);
+      const data = await adminFetch<{ days: RefundDay[]; refunds: RefundRow[] }>(`/refunds?${params}`);
+      setDays(data.days);
+      setRefunds(data.refunds);
+    } catch (err) {
+      console.error('Error fetching refunds:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to load refunds');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const total = days.reduce((sum, day) => sum + Number(day.total), 0);
+  const toWallet = days.reduce((sum, day) => sum + Number(day.to_wallet), 0);
+  const manual = days.reduce((sum, day) => sum + Number(day.manual), 0);
+  const count = days.reduce((sum, day) => sum + day.refunds, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Refunds</h2>
+          <p className="text-sm text-gray-600">
+            Refunds issued per day. Manual refunds still have to be sent back by bank transfer or cash.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => fetchReport(range)} disabled={loading}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Refunded</p>
+            <p className="text-2xl font-bold text-red-600">₦{total.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Refunds</p>
+            <p className="text-2xl font-bold">{count}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">To wallets</p>
+            <p className="text-2xl font-bold">₦{toWallet.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Manual</p>
+            <p className="text-2xl font-bold">₦{manual.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="refunds-from">From</Label>
+            <Input
+              id="refunds-from"
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange((prev) => ({ ...prev, from: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="refunds-to">To</Label>
+            <Input
+              id="refunds-to"
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange((prev) => ({ ...prev, to: e.target.value }))}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Day</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {days.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No refunds in this period</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Day</TableHead>
+                  <TableHead className="text-right">Refunds</TableHead>
+                  <TableHead className="text-right">Orders</TableHead>
+                  <TableHead className="text-right">Partial</TableHead>
+                  <TableHead className="text-right">To Wallets</TableHead>
+                  <TableHead className="text-right">Manual</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {days.map((day) => (
+                  <TableRow key={day.day}>
+                    <TableCell>{format(new Date(`${day.day}T00:00:00`), 'EEE, PP')}</TableCell>
+                    <TableCell className="text-right">{day.refunds}</TableCell>
+                    <TableCell className="text-right">{day.orders}</TableCell>
+                    <TableCell className="text-right">{day.partial_refunds}</TableCell>
+                    <TableCell className="text-right">₦{Number(day.to_wallet).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">₦{Number(day.manual).toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-semibold">₦{Number(day.total).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Refunds Issued</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {refunds.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No refunds in this period</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Refunded To</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {refunds.map((refund) => (
+                  <TableRow key={refund.id}>
+                    <TableCell>{format(new Date(refund.created_at), 'PPp')}</TableCell>
+                    <TableCell>
+                      <p className="font-medium">{refund.orders?.tracking_id}</p>
+                      {refund.orders?.customer_name && (
+                        <p className="text-xs text-gray-500">{refund.orders.customer_name}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {refund.reason}
+                      {refund.is_partial && (
+                        <Badge variant="outline" className="ml-2">
+                          Items
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{REFUND_DESTINATION_LABELS[refund.destination]}</TableCell>
+                    <TableCell>{refund.admin_credentials?.username ?? 'System'}</TableCell>
+                    <TableCell className="text-right font-semibold text-red-600">
+                      −₦{Number(refund.amount).toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import OperatingHoursManagement from '@/components/admin/OperatingHoursManagement';
+import HolidayClosureManagement from '@/components/admin/HolidayClosureManagement';
+import TimeSlotManagement from '@/components/admin/TimeSlotManagement';
+
+export default function ScheduleSettings() {
+  return (
+    <div className="space-y-8">
+      <h2 className="text-2xl font-bold">Hours &amp; Slots</h2>
+      <OperatingHoursManagement />
+      <HolidayClosureManagement />
+      <TimeSlotManagement />
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { OrderTimeSlot } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { validateTimeSlot } from '@/lib/time-slots';
+import { WEEKDAY_LABELS, describeSlotDays, formatSlotTime } from '@/lib/schedule';
+import { toast } from 'sonner';
+
+interface FormData {
+  label: string;
+  start_time: string;
+  end_time: string;
+  days_of_week: number[];
+  capacity: string;
+  prep_lead_minutes: string;
+  is_active: boolean;
+}
+
+const initialFormData: FormData = {
+  label: '',
+  start_time: '12:00',
+  end_time: '13:00',
+  days_of_week: [1, 2, 3, 4, 5],
+  capacity: '30',
+  prep_lead_minutes: '30',
+  is_active: true,
+};
+
+export default function TimeSlotManagement() {
+  const [slots, setSlots] = useState<OrderTimeSlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingSlot, setEditingSlot] = useState<OrderTimeSlot | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<FormData>(initialFormData);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSlots();
+  }, []);
+
+  const fetchSlots = async () => {
+    try {
+      const data = await adminFetch<{ slots: OrderTimeSlot[] }>('/time-slots');
+      setSlots(data.slots);
+    } catch (err) {
+      console.error('Error fetching time slots:', err);
+      toast.error('Failed to load time slots');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showError = (err: unknown, fallback: string) => {
+    if (err instanceof AdminApiError && err.status === 403) {
+      toast.error('Only owners can manage time slots');
+    } else if (err instanceof AdminApiError && err.status === 400) {
+      toast.error(err.message);
+    } else {
+      toast.error(fallback);
+    }
+  };
+
+  const toggleDay = (day: number, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      days_of_week: checked
+        ? [...prev.days_of_week, day].sort()
+        : prev.days_of_week.filter((d) => d !== day),
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const slotData = {
+      label: formData.label.trim(),
+      start_time: formData.start_time,
+      end_time: formData.end_time,
+      days_of_week: formData.days_of_week,
+      capacity: formData.capacity === '' ? NaN : Number(formData.capacity),
+      prep_lead_minutes: formData.prep_lead_minutes === '' ? NaN : Number(formData.prep_lead_minutes),
+      is_active: formData.is_active,
+    };
+
+    const validationError = validateTimeSlot(slotData, true);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingSlot) {
+        await adminFetch(`/time-slots/${editingSlot.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify(slotData),
+        });
+      } else {
+        await adminFetch('/time-slots', {
+          method: 'POST',
+          body: JSON.stringify(slotData),
+        });
+      }
+
+      toast.success(`Slot ${editingSlot ? 'updated' : 'added'} successfully`);
+      setIsDialogOpen(false);
+      setEditingSlot(null);
+      setFormData(initialFormData);
+      fetchSlots();
+    } catch (err) {
+      console.error('Error saving time slot:', err);
+      showError(err, 'Failed to save slot. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (slot: OrderTimeSlot) => {
+    try {
+      // Optimistic update
+      setSlots((prev) =>
+        prev.map((s) => (s.id === slot.id ? { ...s, is_active: !slot.is_active } : s))
+      );
+
+      await adminFetch(`/time-slots/${slot.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ is_active: !slot.is_active }),
+      });
+
+      toast.success(`${slot.label} ${slot.is_active ? 'closed for' : 'open for'} pre-orders`);
+    } catch (err) {
+      console.error('Error toggling time slot:', err);
+
+      // Revert optimistic update
+      fetchSlots();
+      showError(err, 'Failed to update slot. Please try again.');
+    }
+  };
+
+  const handleEdit = (slot: OrderTimeSlot) => {
+    setEditingSlot(slot);
+    setFormData({
+      label: slot.label,
+      start_time: formatSlotTime(slot.start_time),
+      end_time: formatSlotTime(slot.end_time),
+      days_of_week: slot.days_of_week,
+      capacity: String(slot.capacity),
+      prep_lead_minutes: String(slot.prep_lead_minutes),
+      is_active: slot.is_active,
+    });
+    setIsDialogOpen(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(2)].map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardContent className="p-6">
+              <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xl font-semibold">Pre-order Time Slots</h3>
+          <p className="text-sm text-gray-600">
+            Customers can book a slot up to two days ahead. Each slot takes at most its capacity in orders.
+          </p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          if (!open) {
+            setEditingSlot(null);
+            setFormData(initialFormData);
+          }
+        }}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Slot
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {editingSlot ? 'Edit Time Slot' : 'Add Time Slot'}
+              </DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="slot_label">Label *</Label>
+                <Input
+                  id="slot_label"
+                  placeholder="e.g. Lunch"
+                  value={formData.label}
+                  onChange={(e) => setFormData(prev => ({ ...prev, label: e.target.value }))}
+                  maxLength={50}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="slot_start">Starts *</Label>
+                  <Input
+                    id="slot_start"
+                    type="time"
+                    value={formData.start_time}
+                    onChange={(e) => setFormData(prev => ({ ...prev, start_time: e.target.value }))}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="slot_end">Ends *</Label>
+                  <Input
+                    id="slot_end"
+                    type="time"
+                    value={formData.end_time}
+                    onChange={(e) => setFormData(prev => ({ ...prev, end_time: e.target.value }))}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Days *</Label>
+                <div className="flex flex-wrap gap-3">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <label key={label} className="flex items-center gap-1 text-sm">
+                      <Checkbox
+                        checked={formData.days_of_week.includes(day)}
+                        onCheckedChange={(checked) => toggleDay(day, checked === true)}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="slot_capacity">Capacity (orders) *</Label>
+                  <Input
+                    id="slot_capacity"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={formData.capacity}
+                    onChange={(e) => setFormData(prev => ({ ...prev, capacity: e.target.value }))}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="slot_lead">Prep starts (min before) *</Label>
+                  <Input
+                    id="slot_lead"
+                    type="number"
+                    min="0"
+                    step="5"
+                    value={formData.prep_lead_minutes}
+                    onChange={(e) => setFormData(prev => ({ ...prev, prep_lead_minutes: e.target.value }))}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="slot_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+                />
+                <Label htmlFor="slot_active">Open for pre-orders</Label>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {editingSlot ? 'Update' : 'Add'} Slot
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {slots.length === 0 && (
+        <p className="text-gray-500">No time slots yet. Customers can only order for as soon as possible.</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {slots.map((slot) => (
+          <Card key={slot.id} className={slot.is_active ? '' : 'opacity-60'}>
+            <CardContent className="p-4">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-semibold">{slot.label}</p>
+                    {!slot.is_active && <Badge variant="secondary">Closed</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {formatSlotTime(slot.start_time)} – {formatSlotTime(slot.end_time)} · {describeSlotDays(slot)}
+                  </p>
+                  <p className="text-sm mt-2">
+                    Capacity: <span className="font-medium">{slot.capacity} orders</span>
+                  </p>
+                  <p className="text-sm">
+                    Prep starts: <span className="font-medium">{slot.prep_lead_minutes} min before</span>
+                  </p>
+                </div>
+
+                <div className="flex items-center space-x-1">
+                  <Button variant="ghost" size="sm" onClick={() => handleEdit(slot)}>
+                    <Edit2 className="h-4 w-4" />
+                  </Button>
+                  <Switch
+                    checked={slot.is_active}
+                    onCheckedChange={() => handleToggleActive(slot)}
+                    aria-label="Active"
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AdminRole, WalletBalance, WalletLedgerEntry, WalletTopUp } from '@/lib/supabase';
+import { adminFetch, AdminApiError } from '@/lib/admin-api';
+import { hasPermission } from '@/lib/admin-roles';
+import { PAYMENT_STATUS_LABELS, getPaymentStatusColor } from '@/lib/payments';
+import { WALLET_REASON_LABELS } from '@/lib/wallet';
+import { toast } from 'sonner';
+
+interface TopUpRow extends WalletTopUp {
+  customers: { phone: string; display_name: string | null } | null;
+  bank_details: { bank_name: string; account_number: string } | null;
+}
+
+interface LedgerRow extends WalletLedgerEntry {
+  orders: { tracking_id: string } | null;
+  wallet_topups: { reference: string } | null;
+  customers: { phone: string; display_name: string | null } | null;
+  admin_credentials: { username: string } | null;
+}
+
+interface WalletManagementProps {
+  role: AdminRole;
+}
+
+export default function WalletManagement({ role }: WalletManagementProps) {
+  const [wallets, setWallets] = useState<WalletBalance[]>([]);
+  const [topups, setTopups] = useState<TopUpRow[]>([]);
+  const [entries, setEntries] = useState<LedgerRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actingId, setActingId] = useState<string | null>(null);
+  // Shows one customer's history when set
+  const [customerFilter, setCustomerFilter] = useState<WalletBalance | null>(null);
+  const canConfirm = hasPermission(role, 'payments.confirm');
+
+  useEffect(() => {
+    fetchWallets();
+  }, []);
+
+  useEffect(() => {
+    fetchLedger(customerFilter?.customer_id);
+  }, [customerFilter]);
+
+  const fetchWallets = async () => {
+    try {
+      const data = await adminFetch<{ wallets: WalletBalance[]; topups: TopUpRow[] }>('/wallets');
+      setWallets(data.wallets);
+      setTopups(data.topups);
+    } catch (err) {
+      console.error('Error fetching wallets:', err);
+      toast.error('Failed to load wallets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLedger = async (customerId?: string) => {
+    try {
+      const query = customerId ? `?customer_id=${encodeURIComponent(customerId)}` : '';
+      const data = await adminFetch<{ entries: LedgerRow[] }>(`/wallets/ledger${query}`);
+      setEntries(data.entries);
+    } catch (err) {
+      console.error('Error fetching wallet ledger:', err);
+      toast.error('Failed to load the wallet ledger');
+    }
+  };
+
+  const handleTopUpAction = async (topup: TopUpRow, action: 'confirm' | 'reject') => {
+    const note = prompt(
+      action === 'confirm'
+        ? 'Note for this confirmation (optional):'
+        : 'Why is this top-up being rejected? (shown to staff)'
+    );
+    if (note === null) return;
+
+    setActingId(topup.id);
+    try {
+      await adminFetch(`/wallets/topups/${topup.id}`, {
+        method: 'POST',
+        body: JSON.stringify({ action, note }),
+      });
+      toast.success(action === 'confirm' ? 'Top-up confirmed' : 'Top-up rejected');
+      fetchWallets();
+      fetchLedger(customerFilter?.customer_id);
+    } catch (err) {
+      console.error('Error updating top-up:', err);
+      if (err instanceof AdminApiError && err.status === 403) {
+        toast.error('You do not have permission to confirm payments');
+      } else {
+        toast.error(err instanceof Error ? err.message : 'Failed to update top-up');
+      }
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(2)].map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardContent className="p-6">
+              <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  const totalHeld = wallets.reduce((sum, wallet) => sum + Number(wallet.balance), 0);
+  const awaitingCount = topups.filter((topup) => topup.status === 'processing').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Wallets</h2>
+          <p className="text-sm text-gray-600">
+            Customers top up by bank transfer and pay for orders from their balance. Cancelled paid orders are refunded here.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchWallets}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Held in wallets</p>
+            <p className="text-2xl font-bold">₦{totalHeld.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Wallets</p>
+            <p className="text-2xl font-bold">{wallets.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Top-ups awaiting confirmation</p>
+            <p className="text-2xl font-bold text-blue-600">{awaitingCount}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Top-ups</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {topups.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No open top-ups</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Paid Into</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  {canConfirm && <TableHead></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {topups.map((topup) => (
+                  <TableRow key={topup.id}>
+                    <TableCell>{format(new Date(topup.created_at), 'PPp')}</TableCell>
+                    <TableCell>
+                      <p className="font-medium">{topup.customers?.display_name ?? `+${topup.customers?.phone}`}</p>
+                      {topup.sender_name && <p className="text-xs text-gray-500">Sender: {topup.sender_name}</p>}
+                    </TableCell>
+                    <TableCell className="font-mono">{topup.reference}</TableCell>
+                    <TableCell>
+                      {topup.bank_details ? `${topup.bank_details.bank_name} · ${topup.bank_details.account_number}` : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={getPaymentStatusColor(topup.status)}>
+                        {PAYMENT_STATUS_LABELS[topup.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">₦{Number(topup.amount).toLocaleString()}</TableCell>
+                    {canConfirm && (
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        <Button
+                          size="sm"
+                          className="bg-green-600 hover:bg-green-700"
+                          disabled={actingId === topup.id}
+                          onClick={() => handleTopUpAction(topup, 'confirm')}
+                        >
+                          Confirm
+                        </Button>
+                        {topup.status === 'processing' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={actingId === topup.id}
+                            onClick={() => handleTopUpAction(topup, 'reject')}
+                          >
+                            Reject
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Balances</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {wallets.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No wallets have been topped up yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead className="text-right">Topped Up</TableHead>
+                  <TableHead className="text-right">Spent</TableHead>
+                  <TableHead className="text-right">Refunded</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>Last Activity</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {wallets.map((wallet) => (
+                  <TableRow key={wallet.customer_id}>
+                    <TableCell>
+                      <button
+                        type="button"
+                        className="text-left hover:underline"
+                        onClick={() => setCustomerFilter(wallet)}
+                      >
+                        <p className="font-medium">{wallet.name ?? 'Customer'}</p>
+                        <p className="text-xs text-gray-500">+{wallet.phone}</p>
+                      </button>
+                    </TableCell>
+                    <TableCell className="text-right">₦{Number(wallet.topped_up).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">₦{Number(wallet.spent).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">₦{Number(wallet.refunded).toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-semibold">₦{Number(wallet.balance).toLocaleString()}</TableCell>
+                    <TableCell>{format(new Date(wallet.last_activity_at), 'PP')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>
+            Ledger{customerFilter && `: ${customerFilter.name ?? `+${customerFilter.phone}`}`}
+          </CardTitle>
+          {customerFilter && (
+            <Button variant="ghost" size="sm" onClick={() => setCustomerFilter(null)}>
+              <X className="h-4 w-4 mr-1" />
+              All customers
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No wallet activity yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Order / Reference</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{format(new Date(entry.created_at), 'PPp')}</TableCell>
+                    <TableCell>{entry.customers?.display_name ?? `+${entry.customers?.phone}`}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{WALLET_REASON_LABELS[entry.reason]}</Badge>
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {entry.orders?.tracking_id ?? entry.wallet_topups?.reference ?? '—'}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {entry.note ?? ''}
+                      {entry.admin_credentials && ` (${entry.admin_credentials.username})`}
+                    </TableCell>
+                    <TableCell className={`text-right font-semibold ${Number(entry.amount) > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {Number(entry.amount) > 0 ? '+' : '−'}₦{Math.abs(Number(entry.amount)).toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
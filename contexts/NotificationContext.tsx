@@ -1,25 +1,59 @@
 'use client';
 
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { supabase } from '@/lib/supabase';
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { supabase, Order } from '@/lib/supabase';
 import { getSessionId } from '@/lib/session';
+import { syncCustomerSession } from '@/lib/customer';
 import { toast } from 'sonner';
 
 interface NotificationContextType {
   isConnected: boolean;
+  // Latest insert or update to one of this session's orders, for pages that show live order data
+  lastOrderUpdate: Order | null;
 }
 
 const NotificationContext = createContext<NotificationContextType>({
   isConnected: false,
+  lastOrderUpdate: null,
 });
 
 export function NotificationProvider({ children }: { children: ReactNode }) {
   const [isConnected, setIsConnected] = useState(false);
+  const [lastOrderUpdate, setLastOrderUpdate] = useState<Order | null>(null);
+  const [sessionId, setSessionId] = useState('');
+  // Refunded amount last seen per order. Realtime payloads don't carry the old
+  // row, so this is how a new refund is told apart from other updates. Seeded
+  // from the session's orders when subscribing.
+  const refundedAmounts = useRef<Record<string, number>>({});
+
+  // Signing in or out switches the browser's session id
+  useEffect(() => {
+    const handleSessionChange = () => setSessionId(getSessionId());
+
+    handleSessionChange();
+    window.addEventListener('sessionChanged', handleSessionChange);
+    syncCustomerSession().catch((err) => console.error('Error syncing customer session:', err));
+    return () => window.removeEventListener('sessionChanged', handleSessionChange);
+  }, []);
 
   useEffect(() => {
-    const sessionId = getSessionId();
     if (!sessionId) return;
 
+    refundedAmounts.current = {};
+    supabase
+      .from('orders')
+      .select('id, refunded_amount')
+      .eq('session_id', sessionId)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading refunded amounts:', error);
+          return;
+        }
+        data.forEach((order) => {
+          refundedAmounts.current[order.id] ??= Number(order.refunded_amount ?? 0);
+        });
+      });
+
     // Subscribe to order status changes for this session
     const channel = supabase
       .channel('order-updates')
@@ -33,14 +67,29 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
         },
         (payload) => {
           console.log('Order update received:', payload);
+
+          if (payload.eventType !== 'DELETE') {
+            setLastOrderUpdate(payload.new as Order);
+          }
           
           if (payload.eventType === 'UPDATE') {
             const newOrder = payload.new as any;
             const oldOrder = payload.old as any;
             
             if (newOrder.status !== oldOrder.status) {
-              handleOrderStatusChange(newOrder.status, newOrder.tracking_id);
+              handleOrderStatusChange(newOrder.status, newOrder.tracking_id, newOrder.fulfilment_mode);
             }
+
+            // Without a previous amount there is no telling whether the refund is new
+            const previousRefunded = refundedAmounts.current[newOrder.id];
+            if (previousRefunded !== undefined && Number(newOrder.refunded_amount) > previousRefunded) {
+              handleRefund(newOrder, Number(newOrder.refunded_amount) - previousRefunded);
+            }
+          }
+
+          if (payload.eventType !== 'DELETE') {
+            const order = payload.new as Order;
+            refundedAmounts.current[order.id] = Number(order.refunded_amount ?? 0);
           }
         }
       )
@@ -51,15 +100,16 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
     return () => {
       channel.unsubscribe();
     };
-  }, []);
+  }, [sessionId]);
 
-  const handleOrderStatusChange = (status: string, trackingId: string) => {
+  const handleOrderStatusChange = (status: string, trackingId: string, mode?: Order['fulfilment_mode']) => {
     const statusMessages = {
       payment_received: '💳 Payment received! Your order is being processed.',
       confirmed: '✅ Order confirmed! We\'re preparing your food.',
       preparing: '👨‍🍳 Your order is being prepared with care.',
+      ready_for_pickup: '🛍️ Your order is ready! Show your pickup code at the counter.',
       dispatched: '🚗 Order dispatched! Your food is on the way.',
-      delivered: '🎉 Order delivered! Enjoy your meal!',
+      delivered: mode === 'pickup' ? '🎉 Order collected! Enjoy your meal!' : '🎉 Order delivered! Enjoy your meal!',
       cancelled: '❌ Order cancelled. Please contact support if you need help.',
     };
 
@@ -72,8 +122,17 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
     });
   };
 
+  // Refunds go to the customer's wallet or are sent back by staff, so the
+  // message doesn't promise either
+  const handleRefund = (order: Order, amount: number) => {
+    toast.success(`💸 We've refunded ₦${amount.toLocaleString()} on your order.`, {
+      description: `Tracking ID: ${order.tracking_id}`,
+      duration: 8000,
+    });
+  };
+
   return (
-    <NotificationContext.Provider value={{ isConnected }}>
+    <NotificationContext.Provider value={{ isConnected, lastOrderUpdate }}>
       {children}
     </NotificationContext.Provider>
   );
@@ -0,0 +1,37 @@
+// Client-side helper for calling the session-protected /api/admin routes
+
+export class AdminApiError extends Error {
+  status: number;
+  details?: unknown;
+
+  constructor(message: string, status: number, details?: unknown) {
+    super(message);
+    this.name = 'AdminApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export async function adminFetch<T = unknown>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`/api/admin${path}`, {
+    ...init,
+    credentials: 'same-origin',
+    headers: {
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+
+  const body = await response.json().catch(() => ({}));
+
+  if (response.status === 401 && path !== '/login' && typeof window !== 'undefined') {
+    // Session expired or was revoked; send the admin back to the login screen
+    window.location.href = '/admin/login';
+  }
+
+  if (!response.ok) {
+    throw new AdminApiError(body.error || 'Request failed', response.status, body.details);
+  }
+
+  return body as T;
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin, AdminRole, AdminUser } from './supabase';
+import { ADMIN_SESSION_COOKIE, verifySessionToken } from './admin-session';
+import { AdminPermission, hasPermission } from './admin-roles';
+
+export function getServiceClient() {
+  if (!supabaseAdmin) {
+    throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY. Admin operations require the service role key.');
+  }
+  return supabaseAdmin;
+}
+
+export function jsonError(message: string, status: number, details?: unknown) {
+  return NextResponse.json({ error: message, details }, { status });
+}
+
+// Resolves the signed session cookie to an active, unrevoked admin session
+export async function getAdminSession(request: NextRequest): Promise<AdminUser | null> {
+  const token = await verifySessionToken(request.cookies.get(ADMIN_SESSION_COOKIE)?.value, 'admin');
+  if (!token) return null;
+
+  const { data, error } = await getServiceClient()
+    .from('admin_sessions')
+    .select('id, expires_at, revoked_at, admin_credentials ( id, username, role )')
+    .eq('id', token.sessionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading admin session:', error);
+    return null;
+  }
+
+  if (!data || data.revoked_at || new Date(data.expires_at).getTime() <= Date.now()) {
+    return null;
+  }
+
+  const credentials = data.admin_credentials as unknown as { id: string; username: string; role: AdminRole } | null;
+  if (!credentials) return null;
+
+  return {
+    id: credentials.id,
+    username: credentials.username,
+    role: credentials.role,
+    session_id: data.id,
+  };
+}
+
+type AdminRouteHandler<C> = (request: NextRequest, admin: AdminUser, context: C) => Promise<NextResponse>;
+
+interface WithAdminOptions {
+  permission?: AdminPermission;
+}
+
+// Wraps an admin API route so it only runs for a valid server-side session,
+// optionally restricted to roles holding the given permission
+export function withAdmin<C = unknown>(handler: AdminRouteHandler<C>, options: WithAdminOptions = {}) {
+  return async (request: NextRequest, context: C) => {
+    try {
+      const admin = await getAdminSession(request);
+      if (!admin) {
+        return jsonError('Not authenticated', 401);
+      }
+      if (options.permission && !hasPermission(admin.role, options.permission)) {
+        return jsonError('You do not have permission to perform this action', 403);
+      }
+      return await handler(request, admin, context);
+    } catch (err) {
+      console.error('Admin route error:', err);
+      return jsonError(err instanceof Error ? err.message : 'Unexpected server error', 500);
+    }
+  };
+}
@@ -0,0 +1,70 @@
+import { AdminRole, Order } from './supabase';
+
+export type AdminPermission =
+  | 'orders.view'
+  | 'menu.manage'
+  | 'payments.view'
+  | 'payments.confirm'
+  | 'bank_details.manage'
+  | 'delivery.manage'
+  | 'schedule.manage'
+  | 'kitchen.pause'
+  | 'promotions.manage'
+  | 'loyalty.manage';
+
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  owner: ['orders.view', 'menu.manage', 'payments.view', 'payments.confirm', 'bank_details.manage', 'delivery.manage', 'schedule.manage', 'kitchen.pause', 'promotions.manage', 'loyalty.manage'],
+  kitchen: ['orders.view', 'kitchen.pause'],
+  dispatcher: ['orders.view'],
+  cashier: ['orders.view', 'payments.view', 'payments.confirm'],
+};
+
+// Roles allowed to move an order into each status.
+// Mirrors order_status_roles() in the pickup_orders migration.
+export const ORDER_STATUS_ROLES: Record<Order['status'], AdminRole[]> = {
+  pending: ['owner'],
+  payment_received: ['owner', 'cashier'],
+  confirmed: ['owner', 'cashier'],
+  preparing: ['owner', 'kitchen'],
+  ready_for_pickup: ['owner', 'kitchen'],
+  dispatched: ['owner', 'dispatcher'],
+  delivered: ['owner', 'dispatcher'],
+  cancelled: ['owner', 'cashier'],
+};
+
+// Pickup orders are handed over at the counter rather than by a dispatcher
+const PICKUP_ORDER_STATUS_ROLES: Partial<Record<Order['status'], AdminRole[]>> = {
+  delivered: ['owner', 'kitchen', 'cashier'],
+};
+
+export const ADMIN_TABS: { id: string; label: string; permission: AdminPermission }[] = [
+  { id: 'orders', label: 'Orders Queue', permission: 'orders.view' },
+  { id: 'menu', label: 'Manage Menu', permission: 'menu.manage' },
+  { id: 'combos', label: 'Combos', permission: 'menu.manage' },
+  { id: 'payments', label: 'Payments', permission: 'payments.view' },
+  { id: 'wallets', label: 'Wallets', permission: 'payments.view' },
+  { id: 'refunds', label: 'Refunds', permission: 'payments.view' },
+  { id: 'bank-accounts', label: 'Bank Accounts', permission: 'bank_details.manage' },
+  { id: 'delivery', label: 'Delivery', permission: 'delivery.manage' },
+  { id: 'schedule', label: 'Hours & Slots', permission: 'schedule.manage' },
+  { id: 'promotions', label: 'Promotions', permission: 'promotions.manage' },
+  { id: 'referrals', label: 'Referrals', permission: 'promotions.manage' },
+  { id: 'loyalty', label: 'Loyalty', permission: 'loyalty.manage' },
+];
+
+export function hasPermission(role: AdminRole, permission: AdminPermission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+export function canSetOrderStatus(
+  role: AdminRole,
+  status: Order['status'],
+  mode: Order['fulfilment_mode'] = 'delivery'
+): boolean {
+  const roles = (mode === 'pickup' && PICKUP_ORDER_STATUS_ROLES[status]) || ORDER_STATUS_ROLES[status];
+  return roles?.includes(role) ?? false;
+}
+
+export function getAllowedTabs(role: AdminRole) {
+  return ADMIN_TABS.filter((tab) => hasPermission(role, tab.permission));
+}
@@ -0,0 +1,90 @@
+// Signed admin session cookie helpers. Uses Web Crypto only so the same code
+// runs in middleware (edge runtime) and in route handlers (node runtime).
+
+export const ADMIN_SESSION_COOKIE = 'fpi_admin_session';
+export const ADMIN_SESSION_TTL_SECONDS = 60 * 60 * 12;
+
+const encoder = new TextEncoder();
+
+function getSessionSecret(): string {
+  const secret = process.env.ADMIN_SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('ADMIN_SESSION_SECRET must be set to at least 32 characters.');
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  let binary = '';
+  new Uint8Array(bytes).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function sign(payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return toBase64Url(signature);
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+export interface AdminSessionToken {
+  sessionId: string;
+  expiresAt: number;
+}
+
+// Admin and customer cookies share the secret and token format, so the
+// purpose is part of what is signed: a customer token never verifies as an
+// admin one, or the other way round.
+export type SessionTokenPurpose = 'admin' | 'customer';
+
+function signedPayload(purpose: SessionTokenPurpose, sessionId: string, expires: string | number) {
+  return `${purpose}:${sessionId}.${expires}`;
+}
+
+export async function createSessionToken(
+  sessionId: string,
+  expiresAt: number,
+  purpose: SessionTokenPurpose
+): Promise<string> {
+  return `${sessionId}.${expiresAt}.${await sign(signedPayload(purpose, sessionId, expiresAt))}`;
+}
+
+// Returns the session id and expiry if the token is authentic, unexpired and
+// was issued for this purpose. This does not check revocation; route handlers
+// do that against the database.
+export async function verifySessionToken(
+  token: string | undefined,
+  purpose: SessionTokenPurpose
+): Promise<AdminSessionToken | null> {
+  if (!token) return null;
+
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [sessionId, expires, signature] = parts;
+  const expiresAt = Number(expires);
+  if (!sessionId || !Number.isFinite(expiresAt) || expiresAt <= Date.now()) {
+    return null;
+  }
+
+  const expected = await sign(signedPayload(purpose, sessionId, expires));
+  if (!timingSafeEqual(signature, expected)) return null;
+
+  return { sessionId, expiresAt };
+}
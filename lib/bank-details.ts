@@ -0,0 +1,31 @@
+import { BankDetail } from './supabase';
+
+const EDITABLE_FIELDS = ['bank_name', 'account_name', 'account_number', 'is_active'] as const;
+
+// Keeps only the columns owners may write, so request bodies can't set audit fields
+export function pickBankDetailFields(body: Record<string, unknown>): Partial<BankDetail> {
+  const fields: Record<string, unknown> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (body[key] !== undefined) {
+      fields[key] = typeof body[key] === 'string' ? (body[key] as string).trim() : body[key];
+    }
+  }
+  return fields as Partial<BankDetail>;
+}
+
+// Validates the fields present in a create or update; creates must pass every field
+export function validateBankDetail(fields: Partial<BankDetail>, isNew: boolean): string | null {
+  if ((isNew || fields.bank_name !== undefined) && !fields.bank_name) {
+    return 'Bank name is required';
+  }
+  if ((isNew || fields.account_name !== undefined) && !fields.account_name) {
+    return 'Account name is required';
+  }
+  if ((isNew || fields.account_number !== undefined) && !/^\d{10}$/.test(fields.account_number ?? '')) {
+    return 'Account number must be 10 digits';
+  }
+  if (fields.is_active !== undefined && typeof fields.is_active !== 'boolean') {
+    return 'Active must be true or false';
+  }
+  return null;
+}
@@ -0,0 +1,32 @@
+import { CampusLocation } from './supabase';
+
+const EDITABLE_FIELDS = ['name', 'type', 'is_active', 'sort_order'] as const;
+const LOCATION_TYPES: CampusLocation['type'][] = ['hostel', 'faculty', 'landmark'];
+
+// Keeps only the columns owners may write, so request bodies can't set ids or timestamps
+export function pickCampusLocationFields(body: Record<string, unknown>): Partial<CampusLocation> {
+  const fields: Record<string, unknown> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (body[key] !== undefined) {
+      fields[key] = typeof body[key] === 'string' ? (body[key] as string).trim() : body[key];
+    }
+  }
+  return fields as Partial<CampusLocation>;
+}
+
+// Validates the fields present in a create or update; creates must pass every field
+export function validateCampusLocation(fields: Partial<CampusLocation>, isNew: boolean): string | null {
+  if ((isNew || fields.name !== undefined) && !fields.name) {
+    return 'Location name is required';
+  }
+  if ((isNew || fields.type !== undefined) && !LOCATION_TYPES.includes(fields.type as CampusLocation['type'])) {
+    return 'Type must be hostel, faculty or landmark';
+  }
+  if (fields.is_active !== undefined && typeof fields.is_active !== 'boolean') {
+    return 'Active must be true or false';
+  }
+  if (fields.sort_order !== undefined && !Number.isInteger(fields.sort_order)) {
+    return 'Sort order must be a whole number';
+  }
+  return null;
+}
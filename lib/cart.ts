@@ -1,24 +1,49 @@
 import { CartItem } from './supabase';
 
+export type { CartItem };
+
 const CART_KEY = 'campus_food_cart';
 
+// The same item with different options, or combo with different swaps, goes on separate lines
+export function getCartLineKey(id: string, options: CartItem['options'] = [], components?: CartItem['components']): string {
+  if (components) {
+    const swaps = components
+      .filter(component => component.is_swap)
+      .map(component => `${component.component_id}=${component.food_item_id}`)
+      .sort();
+    return `combo:${id}${swaps.length > 0 ? `:${swaps.join(',')}` : ''}`;
+  }
+
+  const optionIds = options.map(option => option.option_id).sort();
+  return optionIds.length > 0 ? `${id}:${optionIds.join(',')}` : id;
+}
+
 export function getCart(): CartItem[] {
   if (typeof window === 'undefined') return [];
   
   const cart = localStorage.getItem(CART_KEY);
-  return cart ? JSON.parse(cart) : [];
+  if (!cart) return [];
+
+  // Carts saved before options existed have no key or options
+  return (JSON.parse(cart) as CartItem[]).map(item => ({
+    ...item,
+    options: item.options ?? [],
+    key: item.key ?? item.id,
+  }));
 }
 
-export function addToCart(item: Omit<CartItem, 'quantity'>, quantity: number = 1): void {
+export function addToCart(item: Omit<CartItem, 'quantity' | 'key' | 'options'> & Partial<Pick<CartItem, 'options'>>, quantity: number = 1): void {
   if (typeof window === 'undefined') return;
   
   const cart = getCart();
-  const existingItem = cart.find(cartItem => cartItem.id === item.id);
+  const options = item.options ?? [];
+  const key = getCartLineKey(item.id, options, item.components);
+  const existingItem = cart.find(cartItem => cartItem.key === key);
   
   if (existingItem) {
     existingItem.quantity += quantity;
   } else {
-    cart.push({ ...item, quantity });
+    cart.push({ ...item, options, key, quantity });
   }
   
   localStorage.setItem(CART_KEY, JSON.stringify(cart));
@@ -27,15 +52,15 @@ export function addToCart(item: Omit<CartItem, 'quantity'>, quantity: number = 1
   window.dispatchEvent(new CustomEvent('cartUpdated'));
 }
 
-export function updateCartItemQuantity(id: string, quantity: number): void {
+export function updateCartItemQuantity(key: string, quantity: number): void {
   if (typeof window === 'undefined') return;
   
   const cart = getCart();
-  const item = cart.find(cartItem => cartItem.id === id);
+  const item = cart.find(cartItem => cartItem.key === key);
   
   if (item) {
     if (quantity <= 0) {
-      removeFromCart(id);
+      removeFromCart(key);
     } else {
       item.quantity = quantity;
       localStorage.setItem(CART_KEY, JSON.stringify(cart));
@@ -44,11 +69,11 @@ export function updateCartItemQuantity(id: string, quantity: number): void {
   }
 }
 
-export function removeFromCart(id: string): void {
+export function removeFromCart(key: string): void {
   if (typeof window === 'undefined') return;
   
   const cart = getCart();
-  const filteredCart = cart.filter(item => item.id !== id);
+  const filteredCart = cart.filter(item => item.key !== key);
   
   localStorage.setItem(CART_KEY, JSON.stringify(filteredCart));
   window.dispatchEvent(new CustomEvent('cartUpdated'));
@@ -61,6 +86,18 @@ export function clearCart(): void {
   window.dispatchEvent(new CustomEvent('cartUpdated'));
 }
 
+// Replaces cart prices with the server's current prices, keyed by cart line
+export function syncCartPrices(prices: Record<string, number>): void {
+  if (typeof window === 'undefined') return;
+
+  const cart = getCart().map(item =>
+    prices[item.key] !== undefined ? { ...item, price: prices[item.key] } : item
+  );
+
+  localStorage.setItem(CART_KEY, JSON.stringify(cart));
+  window.dispatchEvent(new CustomEvent('cartUpdated'));
+}
+
 export function getCartTotal(): number {
   const cart = getCart();
   return cart.reduce((total, item) => total + (item.price * item.quantity), 0);
@@ -69,4 +106,11 @@ export function getCartTotal(): number {
 export function getCartItemCount(): number {
   const cart = getCart();
   return cart.reduce((count, item) => count + item.quantity, 0);
-}
\ No newline at end of file
+}
+
+// Quantity of an item (or combo) across all its option or swap combinations
+export function getCartQuantityForItem(id: string): number {
+  return getCart()
+    .filter(item => item.id === id)
+    .reduce((count, item) => count + item.quantity, 0);
+}
@@ -0,0 +1,164 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Combo, ComboComponent, ComboComponentSwap, OrderComboComponent } from './supabase';
+
+const COMBO_FIELDS = ['name', 'description', 'price', 'image_url', 'is_active', 'sort_order'] as const;
+const COMPONENT_FIELDS = ['label', 'food_item_id', 'quantity', 'sort_order'] as const;
+
+// Combos with their components, swaps and the items they point at, for the admin editor
+export const ADMIN_COMBO_SELECT =
+  '*, combo_components(*, food_items(id, name, price, available), combo_component_swaps(*, food_items(id, name, price, available)))';
+
+export type ComboSwapInput = Pick<ComboComponentSwap, 'food_item_id' | 'price_delta'>;
+
+function pickFields<T>(body: Record<string, unknown>, keys: readonly string[]): Partial<T> {
+  const fields: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (body[key] !== undefined) {
+      fields[key] = typeof body[key] === 'string' ? (body[key] as string).trim() : body[key];
+    }
+  }
+  return fields as Partial<T>;
+}
+
+// Keeps only the columns owners may write, so request bodies can't set ids or timestamps
+export function pickComboFields(body: Record<string, unknown>): Partial<Combo> {
+  return pickFields<Combo>(body, COMBO_FIELDS);
+}
+
+export function pickComboComponentFields(body: Record<string, unknown>): Partial<ComboComponent> {
+  return pickFields<ComboComponent>(body, COMPONENT_FIELDS);
+}
+
+// A component's swaps are saved as a whole list; undefined leaves them as they are
+export function pickComboSwaps(body: Record<string, unknown>): ComboSwapInput[] | undefined {
+  if (!Array.isArray(body.swaps)) return undefined;
+  return body.swaps.map((swap: Record<string, unknown>) => ({
+    food_item_id: swap?.food_item_id as string,
+    price_delta: swap?.price_delta as number,
+  }));
+}
+
+const isAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Validates the fields present in a create or update; creates must pass every field
+export function validateCombo(fields: Partial<Combo>, isNew: boolean): string | null {
+  if ((isNew || fields.name !== undefined) && !fields.name) {
+    return 'Combo name is required';
+  }
+  if ((isNew || fields.price !== undefined) && !isAmount(fields.price)) {
+    return 'Combo price must be zero or more';
+  }
+  if (fields.is_active !== undefined && typeof fields.is_active !== 'boolean') {
+    return 'Active must be true or false';
+  }
+  if (fields.sort_order !== undefined && !Number.isInteger(fields.sort_order)) {
+    return 'Sort order must be a whole number';
+  }
+  return null;
+}
+
+export function validateComboComponent(fields: Partial<ComboComponent>, isNew: boolean): string | null {
+  if ((isNew || fields.label !== undefined) && !fields.label) {
+    return 'Component label is required, e.g. "Drink"';
+  }
+  if ((isNew || fields.food_item_id !== undefined) && !fields.food_item_id) {
+    return 'Choose the menu item this component comes with';
+  }
+  if (
+    (isNew || fields.quantity !== undefined) &&
+    !(Number.isInteger(fields.quantity) && (fields.quantity as number) >= 1 && (fields.quantity as number) <= 20)
+  ) {
+    return 'Quantity must be a whole number from 1 to 20';
+  }
+  if (fields.sort_order !== undefined && !Number.isInteger(fields.sort_order)) {
+    return 'Sort order must be a whole number';
+  }
+  return null;
+}
+
+export function validateComboSwaps(swaps: ComboSwapInput[], defaultFoodItemId?: string): string | null {
+  const ids = swaps.map(swap => swap.food_item_id);
+  if (ids.some(id => typeof id !== 'string' || !id)) {
+    return 'Choose a menu item for every swap';
+  }
+  if (new Set(ids).size !== ids.length) {
+    return 'Each menu item can only be offered once as a swap';
+  }
+  if (defaultFoodItemId && ids.includes(defaultFoodItemId)) {
+    return 'The component already comes with this item';
+  }
+  if (swaps.some(swap => typeof swap.price_delta !== 'number' || !Number.isFinite(swap.price_delta))) {
+    return 'Swap price change must be a number';
+  }
+  return null;
+}
+
+// Components in the order the combo lists them
+export function sortComboComponents(components: ComboComponent[] = []): ComboComponent[] {
+  return [...components].sort((a, b) => a.sort_order - b.sort_order || a.label.localeCompare(b.label));
+}
+
+// Fills each component with its swap, if one was chosen, or its default item.
+// Mirrors resolve_combo_components() so the cart shows what the kitchen will make.
+export function getComboComponents(combo: Combo, swaps: Record<string, string> = {}): OrderComboComponent[] {
+  return sortComboComponents(combo.combo_components).map(component => {
+    const swap = component.combo_component_swaps?.find(s => s.food_item_id === swaps[component.id]);
+    return {
+      component_id: component.id,
+      label: component.label,
+      food_item_id: swap?.food_item_id ?? component.food_item_id,
+      name: (swap ? swap.food_items?.name : component.food_items?.name) ?? component.label,
+      quantity: component.quantity,
+      price_delta: swap ? Number(swap.price_delta) : 0,
+      is_swap: Boolean(swap),
+    };
+  });
+}
+
+export function getComboSwapsPriceDelta(components: OrderComboComponent[]): number {
+  return components.reduce((total, component) => total + Number(component.price_delta), 0);
+}
+
+// The swaps a cart line sends to price_order_items: { component_id: food_item_id }
+export function getComboSwapIds(components: OrderComboComponent[]): Record<string, string> {
+  return Object.fromEntries(
+    components.filter(component => component.is_swap).map(component => [component.component_id, component.food_item_id])
+  );
+}
+
+// A combo can be ordered while every component has at least one available item
+export function isComboAvailable(combo: Combo): boolean {
+  const components = combo.combo_components ?? [];
+  return components.length > 0 && components.every(component =>
+    component.food_items?.available ||
+    component.combo_component_swaps?.some(swap => swap.food_items?.available)
+  );
+}
+
+// e.g. "Jollof Rice, 2× Fried Chicken, Fanta"
+export function formatComboComponents(components: OrderComboComponent[] = []): string {
+  return components
+    .map(component => (component.quantity > 1 ? `${component.quantity}× ${component.name}` : component.name))
+    .join(', ');
+}
+
+// Replaces a component's swaps with the given list
+export async function saveComboSwaps(
+  client: SupabaseClient,
+  componentId: string,
+  swaps: ComboSwapInput[]
+): Promise<{ message: string; code?: string } | null> {
+  const { error: deleteError } = await client
+    .from('combo_component_swaps')
+    .delete()
+    .eq('component_id', componentId);
+
+  if (deleteError) return deleteError;
+  if (swaps.length === 0) return null;
+
+  const { error } = await client
+    .from('combo_component_swaps')
+    .insert(swaps.map(swap => ({ ...swap, component_id: componentId })));
+
+  return error;
+}
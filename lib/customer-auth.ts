@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { Customer } from './supabase';
+import { getServiceClient } from './admin-auth';
+import { verifySessionToken } from './admin-session';
+
+export const CUSTOMER_SESSION_COOKIE = 'fpi_customer_session';
+export const CUSTOMER_SESSION_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+// Resolves the signed customer cookie to an active, unrevoked customer session.
+// Tokens use the same signing scheme as admin sessions but a separate table.
+export async function getCustomerSession(request: NextRequest): Promise<Customer | null> {
+  const token = await verifySessionToken(request.cookies.get(CUSTOMER_SESSION_COOKIE)?.value, 'customer');
+  if (!token) return null;
+
+  const { data, error } = await getServiceClient()
+    .from('customer_sessions')
+    .select('id, expires_at, revoked_at, customers ( id, phone, display_name, session_id )')
+    .eq('id', token.sessionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading customer session:', error);
+    return null;
+  }
+
+  if (!data || data.revoked_at || new Date(data.expires_at).getTime() <= Date.now()) {
+    return null;
+  }
+
+  return (data.customers as unknown as Customer | null) ?? null;
+}
+
+// Key for per-client limits that the caller can't choose: the signed-in
+// customer, or else the address the request came from
+export function getClientKey(request: NextRequest, customer: Customer | null): string {
+  if (customer) return `customer:${customer.id}`;
+
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return `ip:${request.ip || forwarded || request.headers.get('x-real-ip') || 'unknown'}`;
+}
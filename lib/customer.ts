@@ -0,0 +1,76 @@
+import { Customer } from './supabase';
+import { getSessionId, resetSessionId, setSessionId } from './session';
+
+export class CustomerApiError extends Error {
+  constructor(message: string, public status: number, public details?: unknown) {
+    super(message);
+    this.name = 'CustomerApiError';
+  }
+}
+
+export async function customerFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`/api/customer${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new CustomerApiError(body.error || 'Request failed', response.status, body.details);
+  }
+
+  return body as T;
+}
+
+export function requestSignInCode(phone: string) {
+  return customerFetch<{ phone: string; dev_code?: string }>('/otp', {
+    method: 'POST',
+    body: JSON.stringify({ phone }),
+  });
+}
+
+// Verifies the code, then switches this browser to the account's session so
+// orders placed on any signed-in device show up here
+export async function verifySignInCode(phone: string, code: string) {
+  const result = await customerFetch<{ customer: Customer; merged_orders: number }>('/verify', {
+    method: 'POST',
+    body: JSON.stringify({ phone, code, session_id: getSessionId() }),
+  });
+
+  setSessionId(result.customer.session_id);
+  return result;
+}
+
+export async function fetchCustomer(): Promise<Customer | null> {
+  try {
+    const { customer } = await customerFetch<{ customer: Customer }>('/session');
+    return customer;
+  } catch (err) {
+    if (err instanceof CustomerApiError && err.status === 401) return null;
+    throw err;
+  }
+}
+
+// Signing out on another device moves the account to a new session id; a
+// browser that is still signed in switches to it here
+export async function syncCustomerSession() {
+  const customer = await fetchCustomer();
+  if (customer && customer.session_id !== getSessionId()) {
+    setSessionId(customer.session_id);
+  }
+}
+
+export async function updateCustomerProfile(displayName: string) {
+  const { customer } = await customerFetch<{ customer: Customer }>('/session', {
+    method: 'PATCH',
+    body: JSON.stringify({ display_name: displayName }),
+  });
+  return customer;
+}
+
+// Orders stay on the account, which the server moves to a new session id;
+// this browser goes back to an anonymous session
+export async function signOutCustomer() {
+  await customerFetch('/logout', { method: 'POST' });
+  resetSessionId();
+}
@@ -0,0 +1,36 @@
+import { DeliveryZone } from './supabase';
+
+const EDITABLE_FIELDS = ['name', 'description', 'fee', 'min_order_amount', 'is_active', 'sort_order'] as const;
+
+// Keeps only the columns owners may write, so request bodies can't set ids or timestamps
+export function pickDeliveryZoneFields(body: Record<string, unknown>): Partial<DeliveryZone> {
+  const fields: Record<string, unknown> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (body[key] !== undefined) {
+      fields[key] = typeof body[key] === 'string' ? (body[key] as string).trim() : body[key];
+    }
+  }
+  return fields as Partial<DeliveryZone>;
+}
+
+const isAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Validates the fields present in a create or update; creates must pass every field
+export function validateDeliveryZone(fields: Partial<DeliveryZone>, isNew: boolean): string | null {
+  if ((isNew || fields.name !== undefined) && !fields.name) {
+    return 'Zone name is required';
+  }
+  if ((isNew || fields.fee !== undefined) && !isAmount(fields.fee)) {
+    return 'Delivery fee must be zero or more';
+  }
+  if ((isNew || fields.min_order_amount !== undefined) && !isAmount(fields.min_order_amount)) {
+    return 'Minimum order must be zero or more';
+  }
+  if (fields.is_active !== undefined && typeof fields.is_active !== 'boolean') {
+    return 'Active must be true or false';
+  }
+  if (fields.sort_order !== undefined && !Number.isInteger(fields.sort_order)) {
+    return 'Sort order must be a whole number';
+  }
+  return null;
+}
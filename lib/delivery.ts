@@ -0,0 +1,103 @@
+import { supabase, CampusLocation, DeliveryZone, Order } from './supabase';
+import { getSessionId } from './session';
+
+const DELIVERY_DETAILS_KEY = 'campus_food_delivery_details';
+
+export interface DeliveryDetails {
+  mode: Order['fulfilment_mode'];
+  name: string;
+  phone: string;
+  locationId: string;
+  room: string;
+  zoneId: string;
+}
+
+export const CAMPUS_LOCATION_TYPE_LABELS: Record<CampusLocation['type'], string> = {
+  hostel: 'Hostels',
+  faculty: 'Faculties',
+  landmark: 'Landmarks',
+};
+
+export async function fetchCampusLocations(): Promise<CampusLocation[]> {
+  const { data, error } = await supabase
+    .from('campus_locations')
+    .select('*')
+    .eq('is_active', true)
+    .order('sort_order')
+    .order('name');
+
+  if (error) throw new Error(error.message);
+
+  return data || [];
+}
+
+export async function fetchDeliveryZones(): Promise<DeliveryZone[]> {
+  const { data, error } = await supabase
+    .from('delivery_zones')
+    .select('*')
+    .eq('is_active', true)
+    .order('sort_order')
+    .order('name');
+
+  if (error) throw new Error(error.message);
+
+  return data || [];
+}
+
+// Details from the last order placed in this browser session, if any.
+// Signing in or out starts a new session, so they are not carried across.
+export function getSavedDeliveryDetails(): DeliveryDetails | null {
+  if (typeof window === 'undefined') return null;
+
+  const saved = localStorage.getItem(DELIVERY_DETAILS_KEY);
+  if (!saved) return null;
+
+  try {
+    const { session_id, ...details } = JSON.parse(saved);
+    return session_id === getSessionId() ? (details as DeliveryDetails) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveDeliveryDetails(details: DeliveryDetails): void {
+  if (typeof window === 'undefined') return;
+
+  localStorage.setItem(
+    DELIVERY_DETAILS_KEY,
+    JSON.stringify({ ...details, session_id: getSessionId() })
+  );
+}
+
+// Mirrors the checks in create_order_with_items so customers see problems before submitting
+export function validateDeliveryDetails(details: DeliveryDetails): string | null {
+  const name = details.name.trim();
+  if (name.length < 2 || name.length > 100) {
+    return 'Please enter your name';
+  }
+
+  const phoneDigits = details.phone.replace(/\D/g, '');
+  if (phoneDigits.length < 10 || phoneDigits.length > 14) {
+    return 'Please enter a valid phone number';
+  }
+
+  // Pickup orders are collected at the counter, so no address is needed
+  if (details.mode === 'pickup') {
+    return null;
+  }
+
+  if (!details.locationId) {
+    return 'Please choose a delivery location from the list';
+  }
+
+  const room = details.room.trim();
+  if (room.length === 0 || room.length > 50) {
+    return 'Please enter your room or office';
+  }
+
+  if (!details.zoneId) {
+    return 'Please choose a delivery zone';
+  }
+
+  return null;
+}
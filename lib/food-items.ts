@@ -0,0 +1,43 @@
+import { FoodItem } from './supabase';
+
+const EDITABLE_FIELDS = [
+  'name',
+  'description',
+  'price',
+  'image_url',
+  'category',
+  'available',
+  'stock_quantity',
+  'daily_par',
+] as const;
+
+// FoodCard warns customers once a counted item is down to this many
+export const LOW_STOCK_THRESHOLD = 5;
+
+// Keeps only the columns admins may write, so request bodies can't set ids or timestamps
+export function pickFoodItemFields(body: Record<string, unknown>): Partial<FoodItem> {
+  const fields: Record<string, unknown> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (body[key] !== undefined) {
+      fields[key] = body[key];
+    }
+  }
+  return fields as Partial<FoodItem>;
+}
+
+export function isLowStock(item: Pick<FoodItem, 'stock_quantity'>): boolean {
+  return item.stock_quantity !== null && item.stock_quantity > 0 && item.stock_quantity <= LOW_STOCK_THRESHOLD;
+}
+
+// Stock fields may be null (not counted) or whole numbers from zero up
+export function validateStockFields(fields: Partial<FoodItem>): string | null {
+  for (const key of ['stock_quantity', 'daily_par'] as const) {
+    const value = fields[key];
+    if (value !== undefined && value !== null && !(Number.isInteger(value) && value >= 0)) {
+      return key === 'stock_quantity'
+        ? 'Stock must be a whole number of zero or more'
+        : 'Daily par must be a whole number of zero or more';
+    }
+  }
+  return null;
+}
@@ -0,0 +1,67 @@
+import { FoodOption, FoodOptionGroup } from './supabase';
+
+const GROUP_FIELDS = ['name', 'is_required', 'selection', 'max_selections', 'sort_order'] as const;
+const OPTION_FIELDS = ['name', 'price_delta', 'is_available', 'sort_order'] as const;
+
+function pickFields<T>(body: Record<string, unknown>, keys: readonly string[]): Partial<T> {
+  const fields: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (body[key] !== undefined) {
+      fields[key] = typeof body[key] === 'string' ? (body[key] as string).trim() : body[key];
+    }
+  }
+  return fields as Partial<T>;
+}
+
+// Keeps only the columns owners may write, so request bodies can't move groups between items
+export function pickOptionGroupFields(body: Record<string, unknown>): Partial<FoodOptionGroup> {
+  return pickFields<FoodOptionGroup>(body, GROUP_FIELDS);
+}
+
+export function pickFoodOptionFields(body: Record<string, unknown>): Partial<FoodOption> {
+  return pickFields<FoodOption>(body, OPTION_FIELDS);
+}
+
+// Validates the fields present in a create or update; creates must pass every field
+export function validateOptionGroup(fields: Partial<FoodOptionGroup>, isNew: boolean): string | null {
+  if ((isNew || fields.name !== undefined) && !fields.name) {
+    return 'Group name is required';
+  }
+  if (fields.selection !== undefined && fields.selection !== 'single' && fields.selection !== 'multi') {
+    return 'Selection must be single or multi';
+  }
+  if (fields.is_required !== undefined && typeof fields.is_required !== 'boolean') {
+    return 'Required must be true or false';
+  }
+  if (
+    fields.max_selections !== undefined &&
+    fields.max_selections !== null &&
+    (!Number.isInteger(fields.max_selections) || fields.max_selections < 1)
+  ) {
+    return 'Maximum choices must be a whole number of at least 1';
+  }
+  if (fields.sort_order !== undefined && !Number.isInteger(fields.sort_order)) {
+    return 'Sort order must be a whole number';
+  }
+  return null;
+}
+
+export function validateFoodOption(fields: Partial<FoodOption>, isNew: boolean): string | null {
+  if ((isNew || fields.name !== undefined) && !fields.name) {
+    return 'Option name is required';
+  }
+  // Negative deltas are allowed, e.g. "No protein −₦300"
+  if (
+    (isNew || fields.price_delta !== undefined) &&
+    (typeof fields.price_delta !== 'number' || !Number.isFinite(fields.price_delta))
+  ) {
+    return 'Price change must be a number';
+  }
+  if (fields.is_available !== undefined && typeof fields.is_available !== 'boolean') {
+    return 'Available must be true or false';
+  }
+  if (fields.sort_order !== undefined && !Number.isInteger(fields.sort_order)) {
+    return 'Sort order must be a whole number';
+  }
+  return null;
+}
@@ -0,0 +1,87 @@
+import { Order, OrderItem } from './supabase';
+import { formatItemOptions } from './menu-options';
+
+export type KitchenTicketItem = OrderItem & { food_items: { name: string } | null };
+
+export type KitchenTicket = Order & { order_items: KitchenTicketItem[] };
+
+// Board columns, left to right. Unpaid orders stay off the board, and
+// delivery orders leave it when the dispatcher takes them.
+export const KITCHEN_COLUMNS: { status: Order['status']; label: string; accent: string }[] = [
+  { status: 'payment_received', label: 'New', accent: 'border-blue-500' },
+  { status: 'confirmed', label: 'Confirmed', accent: 'border-green-500' },
+  { status: 'preparing', label: 'Preparing', accent: 'border-orange-500' },
+  { status: 'ready_for_pickup', label: 'Ready', accent: 'border-teal-500' },
+];
+
+export const KITCHEN_STATUSES = KITCHEN_COLUMNS.map((column) => column.status);
+
+// Minutes on the board before a ticket turns amber, then red
+export const KITCHEN_WARNING_MINUTES = 10;
+export const KITCHEN_LATE_MINUTES = 20;
+
+export type TicketUrgency = 'on_time' | 'warning' | 'late';
+
+// Pre-orders are timed from when prep should start, not from when they were booked
+export function getTicketStartedAt(order: Pick<Order, 'created_at' | 'prep_starts_at'>): number {
+  return new Date(order.prep_starts_at ?? order.created_at).getTime();
+}
+
+export function getTicketUrgency(elapsedMs: number): TicketUrgency {
+  const minutes = elapsedMs / 60_000;
+  if (minutes >= KITCHEN_LATE_MINUTES) return 'late';
+  if (minutes >= KITCHEN_WARNING_MINUTES) return 'warning';
+  return 'on_time';
+}
+
+export function formatElapsed(elapsedMs: number): string {
+  const totalSeconds = Math.max(0, Math.floor(elapsedMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+// What the kitchen has to make across the given orders, largest first.
+// Combos count through their component rows, which already carry the
+// combo quantity; the same dish with different options is a separate line.
+export function aggregateKitchenItems(orders: KitchenTicket[]): { label: string; quantity: number }[] {
+  const totals = new Map<string, number>();
+
+  orders.forEach((order) => {
+    order.order_items
+      .filter((item) => !item.combo_id && item.food_items)
+      .forEach((item) => {
+        const options = formatItemOptions(item.options);
+        const label = options ? `${item.food_items!.name} (${options})` : item.food_items!.name;
+        totals.set(label, (totals.get(label) ?? 0) + item.quantity);
+      });
+  });
+
+  return Array.from(totals, ([label, quantity]) => ({ label, quantity })).sort(
+    (a, b) => b.quantity - a.quantity || a.label.localeCompare(b.label)
+  );
+}
+
+// Two short rising notes, generated so the board needs no audio files.
+// Browsers only allow sound once the page has been tapped, so the context
+// is created from the board's start button.
+export function playKitchenChime(context: AudioContext) {
+  const start = context.currentTime;
+
+  [880, 1320].forEach((frequency, index) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const noteStart = start + index * 0.18;
+
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, noteStart);
+    gain.gain.exponentialRampToValueAtTime(0.4, noteStart + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, noteStart + 0.35);
+
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(noteStart);
+    oscillator.stop(noteStart + 0.4);
+  });
+}
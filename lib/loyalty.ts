@@ -0,0 +1,109 @@
+import { supabase, LoyaltyLedgerEntry, LoyaltySettings, LoyaltyStatus } from './supabase';
+
+const EDITABLE_FIELDS = [
+  'is_active',
+  'mode',
+  'naira_per_point',
+  'point_value',
+  'min_redeem_points',
+  'stamps_required',
+  'stamp_min_subtotal',
+] as const;
+
+export const LOYALTY_REASON_LABELS: Record<LoyaltyLedgerEntry['reason'], string> = {
+  earned: 'Earned',
+  redeemed: 'Redeemed',
+  reversed: 'Reversed',
+  adjustment: 'Adjustment',
+};
+
+export async function fetchLoyaltyStatus(sessionId: string): Promise<LoyaltyStatus> {
+  const { data, error } = await supabase.rpc('get_loyalty_status', { p_session_id: sessionId });
+
+  if (error) throw new Error(error.message);
+
+  return data as LoyaltyStatus;
+}
+
+// e.g. "120 points" or "7/10 stamps"
+export function formatLoyaltyBalance(status: Pick<LoyaltyStatus, 'mode' | 'balance' | 'stamps_required'>): string {
+  return status.mode === 'points'
+    ? `${status.balance.toLocaleString()} ${status.balance === 1 ? 'point' : 'points'}`
+    : `${Math.min(status.balance, status.stamps_required)}/${status.stamps_required} stamps`;
+}
+
+export function canRedeemLoyalty(status: LoyaltyStatus): boolean {
+  if (!status.is_active) return false;
+  return status.mode === 'points'
+    ? status.balance >= status.min_redeem_points
+    : status.balance >= status.stamps_required;
+}
+
+// What redeeming would spend and take off an order still owing amountDue.
+// Mirrors create_order_with_items so checkout can show the total it will charge.
+// The discount can cover all of amountDue; the order then has nothing to pay.
+export function getLoyaltyRedemption(
+  status: LoyaltyStatus,
+  amountDue: number,
+  unitPrices: number[]
+): { redeemed: number; discount: number } {
+  if (!canRedeemLoyalty(status) || amountDue <= 0) return { redeemed: 0, discount: 0 };
+
+  if (status.mode === 'points') {
+    const redeemed = Math.min(status.balance, Math.ceil(amountDue / Number(status.point_value)));
+    return { redeemed, discount: Math.min(redeemed * Number(status.point_value), amountDue) };
+  }
+
+  // A full stamp card makes the most expensive item free
+  return {
+    redeemed: status.stamps_required,
+    discount: Math.min(Math.max(0, ...unitPrices), amountDue),
+  };
+}
+
+// Keeps only the settings owners may change
+export function pickLoyaltySettingsFields(body: Record<string, unknown>): Partial<LoyaltySettings> {
+  const fields: Record<string, unknown> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (body[key] !== undefined) {
+      fields[key] = body[key];
+    }
+  }
+  return fields as Partial<LoyaltySettings>;
+}
+
+const isPositive = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+export function validateLoyaltySettings(fields: Partial<LoyaltySettings>): string | null {
+  if (fields.is_active !== undefined && typeof fields.is_active !== 'boolean') {
+    return 'Active must be true or false';
+  }
+  if (fields.mode !== undefined && fields.mode !== 'points' && fields.mode !== 'stamps') {
+    return 'Choose points or stamps';
+  }
+  if (fields.naira_per_point !== undefined && !isPositive(fields.naira_per_point)) {
+    return 'Naira per point must be more than zero';
+  }
+  if (fields.point_value !== undefined && !isPositive(fields.point_value)) {
+    return 'Point value must be more than zero';
+  }
+  if (
+    fields.min_redeem_points !== undefined &&
+    !(Number.isInteger(fields.min_redeem_points) && (fields.min_redeem_points as number) >= 1)
+  ) {
+    return 'Minimum points to redeem must be a whole number of 1 or more';
+  }
+  if (
+    fields.stamps_required !== undefined &&
+    !(Number.isInteger(fields.stamps_required) && (fields.stamps_required as number) >= 2)
+  ) {
+    return 'Stamps per card must be a whole number of 2 or more';
+  }
+  if (
+    fields.stamp_min_subtotal !== undefined &&
+    !(typeof fields.stamp_min_subtotal === 'number' && Number.isFinite(fields.stamp_min_subtotal) && fields.stamp_min_subtotal >= 0)
+  ) {
+    return 'Minimum order for a stamp must be zero or more';
+  }
+  return null;
+}
@@ -0,0 +1,72 @@
+import { CartItem, FoodOptionGroup, OrderItem, OrderItemOption } from './supabase';
+import { formatComboComponents } from './combos';
+
+// Groups and their options in menu order
+export function sortOptionGroups(groups: FoodOptionGroup[] = []): FoodOptionGroup[] {
+  const byOrder = <T extends { sort_order: number; name: string }>(a: T, b: T) =>
+    a.sort_order - b.sort_order || a.name.localeCompare(b.name);
+
+  return [...groups]
+    .sort(byOrder)
+    .map(group => ({ ...group, food_options: [...(group.food_options ?? [])].sort(byOrder) }));
+}
+
+export function getSelectedOptions(groups: FoodOptionGroup[], selectedIds: string[]): OrderItemOption[] {
+  return sortOptionGroups(groups).flatMap(group =>
+    (group.food_options ?? [])
+      .filter(option => selectedIds.includes(option.id))
+      .map(option => ({
+        option_id: option.id,
+        group_id: group.id,
+        group_name: group.name,
+        name: option.name,
+        price_delta: Number(option.price_delta),
+      }))
+  );
+}
+
+// Mirrors resolve_food_options() so the picker can explain a bad choice before checkout
+export function validateOptionSelection(groups: FoodOptionGroup[], selectedIds: string[]): string | null {
+  for (const group of groups) {
+    const chosen = (group.food_options ?? []).filter(option => selectedIds.includes(option.id));
+
+    if (group.is_required && chosen.length === 0) {
+      return `Please choose ${group.name.toLowerCase()}`;
+    }
+    if (group.selection === 'single' && chosen.length > 1) {
+      return `Choose only one ${group.name.toLowerCase()}`;
+    }
+    if (group.max_selections !== null && chosen.length > group.max_selections) {
+      return `Choose up to ${group.max_selections} for ${group.name.toLowerCase()}`;
+    }
+    if (chosen.some(option => !option.is_available)) {
+      return `${chosen.find(option => !option.is_available)?.name} is not available right now`;
+    }
+  }
+  return null;
+}
+
+export function getOptionsPriceDelta(options: OrderItemOption[]): number {
+  return options.reduce((total, option) => total + Number(option.price_delta), 0);
+}
+
+// e.g. "Large, Extra chicken"
+export function formatItemOptions(options: OrderItemOption[] = []): string {
+  return options.map(option => option.name).join(', ');
+}
+
+// The options of an item line, or what's in a combo line
+export function formatCartLineDetails(item: Pick<CartItem, 'options' | 'components'>): string {
+  return item.components ? formatComboComponents(item.components) : formatItemOptions(item.options);
+}
+
+// The same for an ordered line; combo rows list their components
+export function formatOrderItemDetails(item: Pick<OrderItem, 'options' | 'components' | 'combo_name'>): string {
+  return item.combo_name ? formatComboComponents(item.components) : formatItemOptions(item.options);
+}
+
+// e.g. "Jollof Rice (Large, Extra chicken)"
+export function formatCartLineName(item: Pick<CartItem, 'name' | 'options' | 'components'>): string {
+  const details = formatCartLineDetails(item);
+  return details ? `${item.name} (${details})` : item.name;
+}
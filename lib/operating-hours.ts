@@ -0,0 +1,53 @@
+import { HolidayClosure, OperatingHours } from './supabase';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type OperatingHoursFields = Pick<OperatingHours, 'day_of_week' | 'opens_at' | 'closes_at' | 'is_closed'>;
+
+// Keeps only the columns owners may write for one day of the week
+export function pickOperatingHoursFields(body: Record<string, unknown>): Partial<OperatingHoursFields> {
+  return {
+    day_of_week: body.day_of_week as number,
+    opens_at: typeof body.opens_at === 'string' ? body.opens_at.trim() : (body.opens_at as string),
+    closes_at: typeof body.closes_at === 'string' ? body.closes_at.trim() : (body.closes_at as string),
+    is_closed: body.is_closed as boolean,
+  };
+}
+
+// Validates one day's hours; a closed day still needs valid times for when it reopens
+export function validateOperatingHours(fields: Partial<OperatingHoursFields>): string | null {
+  if (!Number.isInteger(fields.day_of_week) || fields.day_of_week! < 0 || fields.day_of_week! > 6) {
+    return 'Day of week must be between 0 (Sunday) and 6 (Saturday)';
+  }
+  if (!TIME_PATTERN.test(fields.opens_at ?? '')) {
+    return 'Opening time must look like 07:00';
+  }
+  if (!TIME_PATTERN.test(fields.closes_at ?? '')) {
+    return 'Closing time must look like 21:00';
+  }
+  if (fields.closes_at! <= fields.opens_at!) {
+    return 'Closing time must be after the opening time';
+  }
+  if (typeof fields.is_closed !== 'boolean') {
+    return 'Closed must be true or false';
+  }
+  return null;
+}
+
+export function pickHolidayClosureFields(body: Record<string, unknown>): Partial<HolidayClosure> {
+  return {
+    closed_on: typeof body.closed_on === 'string' ? body.closed_on.trim() : undefined,
+    reason: typeof body.reason === 'string' ? body.reason.trim() : '',
+  };
+}
+
+export function validateHolidayClosure(fields: Partial<HolidayClosure>): string | null {
+  if (!DATE_PATTERN.test(fields.closed_on ?? '') || Number.isNaN(Date.parse(fields.closed_on!))) {
+    return 'Choose a valid date';
+  }
+  if ((fields.reason ?? '').length > 100) {
+    return 'Reason must be 100 characters or fewer';
+  }
+  return null;
+}
@@ -0,0 +1,116 @@
+import { Order } from './supabase';
+
+export const ORDER_STATUSES: Order['status'][] = [
+  'pending',
+  'payment_received',
+  'confirmed',
+  'preparing',
+  'ready_for_pickup',
+  'dispatched',
+  'delivered',
+  'cancelled',
+];
+
+// Legal moves between statuses for delivered orders. Mirrors
+// allowed_order_transitions() in the pickup_orders migration, which is what
+// actually enforces them.
+export const ORDER_STATUS_TRANSITIONS: Record<Order['status'], Order['status'][]> = {
+  pending: ['payment_received', 'cancelled'],
+  payment_received: ['confirmed', 'cancelled'],
+  confirmed: ['preparing', 'cancelled'],
+  preparing: ['dispatched', 'cancelled'],
+  ready_for_pickup: [],
+  dispatched: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+// Pickup orders skip `dispatched` and wait at the counter instead
+export const PICKUP_ORDER_STATUS_TRANSITIONS: Record<Order['status'], Order['status'][]> = {
+  ...ORDER_STATUS_TRANSITIONS,
+  preparing: ['ready_for_pickup', 'cancelled'],
+  ready_for_pickup: ['delivered', 'cancelled'],
+  dispatched: [],
+};
+
+function transitionsFor(mode: Order['fulfilment_mode']) {
+  return mode === 'pickup' ? PICKUP_ORDER_STATUS_TRANSITIONS : ORDER_STATUS_TRANSITIONS;
+}
+
+// Button label for moving an order into each status
+export const TRANSITION_LABELS: Record<Order['status'], string> = {
+  pending: 'Reset to Pending',
+  payment_received: 'Confirm Payment',
+  confirmed: 'Confirm Order',
+  preparing: 'Start Preparing',
+  ready_for_pickup: 'Ready for Pickup',
+  dispatched: 'Dispatch Order',
+  delivered: 'Mark Delivered',
+  cancelled: 'Cancel Order',
+};
+
+export function isOrderStatus(value: unknown): value is Order['status'] {
+  return ORDER_STATUSES.includes(value as Order['status']);
+}
+
+export function canTransition(
+  from: Order['status'],
+  to: Order['status'],
+  mode: Order['fulfilment_mode'] = 'delivery'
+): boolean {
+  return transitionsFor(mode)[from]?.includes(to) ?? false;
+}
+
+export function getAllowedTransitions(
+  from: Order['status'],
+  mode: Order['fulfilment_mode'] = 'delivery'
+): Order['status'][] {
+  return transitionsFor(mode)[from] ?? [];
+}
+
+// Statuses a customer's order passes through when nothing goes wrong
+export function getOrderTimeline(mode: Order['fulfilment_mode']): Order['status'][] {
+  return mode === 'pickup'
+    ? ['pending', 'payment_received', 'confirmed', 'preparing', 'ready_for_pickup', 'delivered']
+    : ['pending', 'payment_received', 'confirmed', 'preparing', 'dispatched', 'delivered'];
+}
+
+// Customer-facing status names
+export const ORDER_STATUS_LABELS: Record<Order['status'], string> = {
+  pending: 'Pending',
+  payment_received: 'Payment Received',
+  confirmed: 'Confirmed',
+  preparing: 'Preparing',
+  ready_for_pickup: 'Ready for Pickup',
+  dispatched: 'On the Way',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+// A pickup order's final `delivered` status means it was collected
+export function getOrderStatusLabel(status: Order['status'], mode: Order['fulfilment_mode'] = 'delivery') {
+  return mode === 'pickup' && status === 'delivered' ? 'Collected' : ORDER_STATUS_LABELS[status];
+}
+
+export function getOrderStatusColor(status: Order['status']) {
+  switch (status) {
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'payment_received':
+      return 'bg-blue-100 text-blue-800';
+    case 'confirmed':
+      return 'bg-green-100 text-green-800';
+    case 'preparing':
+      return 'bg-orange-100 text-orange-800';
+    case 'ready_for_pickup':
+      return 'bg-teal-100 text-teal-800';
+    case 'dispatched':
+      return 'bg-purple-100 text-purple-800';
+    case 'delivered':
+      return 'bg-green-100 text-green-800';
+    case 'cancelled':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+}
@@ -0,0 +1,59 @@
+import { Order } from './supabase';
+import { getSessionId, setSessionId } from './session';
+
+// A refused order, carrying the database's hint and details so checkout can
+// tell price changes, sold-out items and the like apart
+export class OrderRequestError extends Error {
+  constructor(message: string, public status: number, public hint?: string, public details?: string) {
+    super(message);
+    this.name = 'OrderRequestError';
+  }
+}
+
+export interface PlaceOrderRequest {
+  tracking_id: string;
+  order_items: unknown[];
+  customer_note: string;
+  expected_total: number;
+  customer_phone: string;
+  customer_name: string;
+  delivery_location_id: string | null;
+  delivery_room: string | null;
+  delivery_zone_id: string | null;
+  fulfilment_mode: Order['fulfilment_mode'];
+  time_slot_id: string | null;
+  scheduled_for: string | null;
+  promo_code: string | null;
+  redeem_loyalty: boolean;
+  referral_code: string | null;
+  pay_with_wallet: boolean;
+}
+
+// Places the order through the server, which decides whose session and wallet
+// it belongs to
+export async function placeOrder(order: PlaceOrderRequest): Promise<Order> {
+  const response = await fetch('/api/orders', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...order, session_id: getSessionId() }),
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new OrderRequestError(
+      body.error || 'Failed to place order',
+      response.status,
+      body.details?.hint,
+      body.details?.details
+    );
+  }
+
+  // A signed-in order always goes to the account's session, which another
+  // device may have moved since this page loaded
+  const placed = body.order as Order;
+  if (placed.session_id !== getSessionId()) {
+    setSessionId(placed.session_id);
+  }
+
+  return placed;
+}
@@ -0,0 +1,74 @@
+import { getServiceClient } from '../admin-auth';
+import { createMockProvider } from './mock';
+import { createPaystackProvider } from './paystack';
+import { PaymentProvider, PaymentProviderError, PaymentResult } from './types';
+
+export * from './types';
+
+export type PaymentProviderName = 'mock' | 'paystack';
+
+// The mock gateway lets anyone mark an order paid, so it is never a fallback:
+// with PAYMENT_PROVIDER unset, online payments are off
+export function getActiveProviderName(): PaymentProviderName | null {
+  switch (process.env.PAYMENT_PROVIDER) {
+    case 'paystack':
+      return 'paystack';
+    case 'mock':
+      return 'mock';
+    default:
+      return null;
+  }
+}
+
+export function getMockPaymentSecret() {
+  const secret = process.env.MOCK_PAYMENT_SECRET;
+  if (!secret) {
+    throw new PaymentProviderError('Missing MOCK_PAYMENT_SECRET');
+  }
+  return secret;
+}
+
+// Resolves a provider by name, defaulting to PAYMENT_PROVIDER. Webhook routes
+// pass the name from the URL so in-flight payments survive a provider switch.
+export function getPaymentProvider(name: string | null = getActiveProviderName()): PaymentProvider {
+  switch (name) {
+    case 'paystack': {
+      const secretKey = process.env.PAYSTACK_SECRET_KEY;
+      if (!secretKey) {
+        throw new PaymentProviderError('Missing PAYSTACK_SECRET_KEY');
+      }
+      return createPaystackProvider(secretKey);
+    }
+    case 'mock':
+      if (process.env.NODE_ENV === 'production' && getActiveProviderName() !== 'mock') {
+        throw new PaymentProviderError('The mock payment provider is disabled', 404);
+      }
+      return createMockProvider(getMockPaymentSecret());
+    case null:
+      throw new PaymentProviderError('No payment provider is configured. Set PAYMENT_PROVIDER.');
+    default:
+      throw new PaymentProviderError(`Unknown payment provider: ${name}`, 404);
+  }
+}
+
+// Applies a verified gateway result to payment_history and the order.
+// Safe to call more than once for the same event.
+export async function recordPaymentResult(provider: PaymentProvider, result: PaymentResult) {
+  // Nothing to record until the gateway reaches a final state
+  if (result.status === 'pending') {
+    return { duplicate: false, reference: result.reference, status: 'pending' };
+  }
+
+  const { data, error } = await getServiceClient().rpc('record_payment_result', {
+    p_provider: provider.name,
+    p_event_id: result.eventId,
+    p_reference: result.reference,
+    p_status: result.status,
+    p_amount: result.amount,
+    p_payload: result.raw ?? {},
+  });
+
+  if (error) throw error;
+
+  return data as { duplicate: boolean; reference: string; status: string };
+}
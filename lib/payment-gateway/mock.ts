@@ -0,0 +1,88 @@
+import { randomUUID } from 'crypto';
+import { PaymentProvider, PaymentResultStatus, PaymentSignatureError } from './types';
+import { isValidSignature, signPayload } from './signature';
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+interface MockTransaction {
+  id: string;
+  reference: string;
+  amount: number;
+  status: PaymentResultStatus;
+}
+
+interface MockWebhookPayload {
+  event: 'charge.success' | 'charge.failed';
+  data: MockTransaction;
+}
+
+// Results simulated in this server process, read back by verify()
+const transactions = new Map<string, MockTransaction>();
+
+// Local stand-in for a hosted gateway. Customers are sent to /pay/mock, which
+// simulates the payment and delivers a signed webhook like a real gateway would.
+export function createMockProvider(secret: string): PaymentProvider {
+  return {
+    name: 'mock',
+
+    async initialize({ reference, amount, callbackUrl }) {
+      transactions.set(reference, { id: randomUUID(), reference, amount, status: 'pending' });
+
+      const params = new URLSearchParams({ reference, amount: String(amount), callback: callbackUrl });
+      return { reference, authorizationUrl: `/pay/mock?${params}` };
+    },
+
+    async verify(reference) {
+      const transaction = transactions.get(reference) ?? {
+        id: randomUUID(),
+        reference,
+        amount: 0,
+        status: 'pending' as const,
+      };
+
+      return {
+        eventId: `verify:${transaction.id}:${transaction.status}`,
+        reference,
+        status: transaction.status,
+        amount: transaction.amount,
+        raw: transaction,
+      };
+    },
+
+    async parseWebhook(rawBody, headers) {
+      if (!isValidSignature('sha256', secret, rawBody, headers.get(MOCK_SIGNATURE_HEADER))) {
+        throw new PaymentSignatureError();
+      }
+
+      const payload = JSON.parse(rawBody) as MockWebhookPayload;
+      transactions.set(payload.data.reference, payload.data);
+
+      return {
+        eventId: `${payload.event}:${payload.data.id}`,
+        reference: payload.data.reference,
+        status: payload.data.status,
+        amount: payload.data.amount,
+        raw: payload,
+      };
+    },
+
+    async refund(reference, amount) {
+      const transaction = transactions.get(reference);
+      return { reference, status: 'completed', amount: amount ?? transaction?.amount ?? 0 };
+    },
+  };
+}
+
+// Builds the signed webhook the mock gateway sends when a payment is simulated
+export function createMockWebhook(secret: string, reference: string, amount: number, succeeded: boolean) {
+  const payload: MockWebhookPayload = {
+    event: succeeded ? 'charge.success' : 'charge.failed',
+    data: { id: randomUUID(), reference, amount, status: succeeded ? 'completed' : 'failed' },
+  };
+  const rawBody = JSON.stringify(payload);
+
+  return {
+    rawBody,
+    headers: new Headers({ [MOCK_SIGNATURE_HEADER]: signPayload('sha256', secret, rawBody) }),
+  };
+}
@@ -0,0 +1,127 @@
+import {
+  PaymentProvider,
+  PaymentProviderError,
+  PaymentResult,
+  PaymentResultStatus,
+  PaymentSignatureError,
+} from './types';
+import { isValidSignature } from './signature';
+
+const PAYSTACK_API_URL = 'https://api.paystack.co';
+
+interface PaystackTransaction {
+  id: number;
+  reference: string;
+  amount: number;
+  status: string;
+}
+
+function toKobo(amount: number) {
+  return Math.round(amount * 100);
+}
+
+function fromKobo(amount: number) {
+  return amount / 100;
+}
+
+function toResultStatus(status: string): PaymentResultStatus {
+  switch (status) {
+    case 'success':
+      return 'completed';
+    case 'failed':
+    case 'abandoned':
+    case 'reversed':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
+
+// Adapter for Paystack; Flutterwave and similar gateways follow the same
+// initialize / redirect / verify / signed-webhook flow.
+export function createPaystackProvider(secretKey: string): PaymentProvider {
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    const response = await fetch(`${PAYSTACK_API_URL}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        'Content-Type': 'application/json',
+        ...init.headers,
+      },
+    });
+
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok || !body?.status) {
+      throw new PaymentProviderError(body?.message || 'Payment gateway request failed', response.status);
+    }
+
+    return body.data as T;
+  };
+
+  const toResult = (eventId: string, transaction: PaystackTransaction, raw: unknown): PaymentResult => ({
+    eventId,
+    reference: transaction.reference,
+    status: toResultStatus(transaction.status),
+    amount: fromKobo(transaction.amount),
+    raw,
+  });
+
+  return {
+    name: 'paystack',
+
+    async initialize({ reference, amount, callbackUrl, email, metadata }) {
+      const data = await request<{ authorization_url: string; reference: string }>('/transaction/initialize', {
+        method: 'POST',
+        body: JSON.stringify({
+          reference,
+          amount: toKobo(amount),
+          currency: 'NGN',
+          callback_url: callbackUrl,
+          // Paystack requires an email; guests are identified by reference
+          email: email || `${reference.toLowerCase()}@customers.fpi-food-hub.local`,
+          metadata,
+        }),
+      });
+
+      return { reference: data.reference, authorizationUrl: data.authorization_url };
+    },
+
+    async verify(reference) {
+      const transaction = await request<PaystackTransaction>(
+        `/transaction/verify/${encodeURIComponent(reference)}`
+      );
+      return toResult(`verify:${transaction.id}:${transaction.status}`, transaction, transaction);
+    },
+
+    async parseWebhook(rawBody, headers) {
+      if (!isValidSignature('sha512', secretKey, rawBody, headers.get('x-paystack-signature'))) {
+        throw new PaymentSignatureError();
+      }
+
+      const payload = JSON.parse(rawBody) as { event: string; data: PaystackTransaction };
+
+      if (payload.event !== 'charge.success' && payload.event !== 'charge.failed') {
+        return null;
+      }
+
+      return toResult(`${payload.event}:${payload.data.id}`, payload.data, payload);
+    },
+
+    async refund(reference, amount) {
+      const data = await request<{ status: string; amount: number; transaction: { reference: string } }>('/refund', {
+        method: 'POST',
+        body: JSON.stringify({
+          transaction: reference,
+          amount: amount === undefined ? undefined : toKobo(amount),
+        }),
+      });
+
+      return {
+        reference: data.transaction?.reference ?? reference,
+        status: data.status === 'processed' ? 'completed' : toResultStatus(data.status),
+        amount: fromKobo(data.amount),
+      };
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export function signPayload(algorithm: 'sha256' | 'sha512', secret: string, rawBody: string) {
+  return createHmac(algorithm, secret).update(rawBody).digest('hex');
+}
+
+export function isValidSignature(
+  algorithm: 'sha256' | 'sha512',
+  secret: string,
+  rawBody: string,
+  signature: string | null
+) {
+  if (!signature) return false;
+
+  const expected = Buffer.from(signPayload(algorithm, secret, rawBody), 'hex');
+  const received = Buffer.from(signature, 'hex');
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -0,0 +1,55 @@
+// Amounts are always in naira; adapters convert to the gateway's minor unit.
+
+export type PaymentResultStatus = 'pending' | 'completed' | 'failed';
+
+export interface InitializePaymentInput {
+  reference: string;
+  amount: number;
+  callbackUrl: string;
+  email?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface InitializePaymentResult {
+  reference: string;
+  authorizationUrl: string;
+}
+
+export interface PaymentResult {
+  // Unique per gateway event, used to record each result only once
+  eventId: string;
+  reference: string;
+  status: PaymentResultStatus;
+  amount: number;
+  raw: unknown;
+}
+
+export interface RefundResult {
+  reference: string;
+  status: PaymentResultStatus;
+  amount: number;
+}
+
+export interface PaymentProvider {
+  name: string;
+  initialize(input: InitializePaymentInput): Promise<InitializePaymentResult>;
+  verify(reference: string): Promise<PaymentResult>;
+  // Throws PaymentSignatureError if the body was not signed by the gateway.
+  // Returns null for events that do not affect a payment (e.g. transfers).
+  parseWebhook(rawBody: string, headers: Headers): Promise<PaymentResult | null>;
+  refund(reference: string, amount?: number): Promise<RefundResult>;
+}
+
+export class PaymentSignatureError extends Error {
+  constructor(message = 'Invalid webhook signature') {
+    super(message);
+    this.name = 'PaymentSignatureError';
+  }
+}
+
+export class PaymentProviderError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
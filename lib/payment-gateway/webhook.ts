@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { jsonError } from '../admin-auth';
+import { getPaymentProvider, recordPaymentResult } from './index';
+import { PaymentProviderError, PaymentSignatureError } from './types';
+
+// Verifies and records a gateway webhook. Shared by the public webhook route
+// and the mock gateway, so simulated payments take the same path as real ones.
+export async function handlePaymentWebhook(providerName: string, rawBody: string, headers: Headers) {
+  try {
+    const provider = getPaymentProvider(providerName);
+    const result = await provider.parseWebhook(rawBody, headers);
+
+    if (!result) {
+      return NextResponse.json({ received: true, ignored: true });
+    }
+
+    const recorded = await recordPaymentResult(provider, result);
+    return NextResponse.json({ received: true, ...recorded });
+  } catch (err) {
+    if (err instanceof PaymentSignatureError) return jsonError(err.message, 401);
+    if (err instanceof PaymentProviderError && err.status === 404) return jsonError(err.message, 404);
+
+    // Any other failure returns 500 so the gateway retries the delivery
+    console.error('Error handling payment webhook:', err);
+    return jsonError('Failed to process webhook', 500);
+  }
+}
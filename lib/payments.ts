@@ -0,0 +1,85 @@
+import { supabase, BankDetail, Order } from './supabase';
+import { getSessionId } from './session';
+
+export async function fetchActiveBankAccounts(): Promise<BankDetail[]> {
+  const { data, error } = await supabase
+    .from('bank_details')
+    .select('*')
+    .eq('is_active', true)
+    .order('sort_order')
+    .order('created_at');
+
+  if (error) throw new Error(error.message);
+
+  return data || [];
+}
+
+// Reports a bank transfer for an order placed from this browser session
+export async function markTransferPaid(trackingId: string, bankDetailId: string, senderName: string) {
+  const { data, error } = await supabase.rpc('mark_transfer_paid', {
+    p_tracking_id: trackingId,
+    p_session_id: getSessionId(),
+    p_bank_detail_id: bankDetailId,
+    p_sender_name: senderName,
+  });
+
+  if (error) throw new Error(error.message);
+
+  return data as { tracking_id: string; payment_status: Order['payment_status']; transfer_reference: string };
+}
+
+export const PAYMENT_METHOD_LABELS: Record<NonNullable<Order['payment_method']>, string> = {
+  bank_transfer: 'Bank transfer',
+  card_payment: 'Online (card)',
+  cash_on_delivery: 'Cash on delivery',
+  wallet: 'Wallet',
+};
+
+export const PAYMENT_STATUS_LABELS: Record<Order['payment_status'], string> = {
+  pending: 'Awaiting transfer',
+  processing: 'Awaiting confirmation',
+  completed: 'Paid',
+  failed: 'Transfer not found',
+  refunded: 'Refunded',
+};
+
+export function getPaymentStatusColor(status: Order['payment_status']) {
+  switch (status) {
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'processing':
+      return 'bg-blue-100 text-blue-800';
+    case 'completed':
+      return 'bg-green-100 text-green-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    case 'refunded':
+      return 'bg-gray-100 text-gray-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+}
+
+// Opens an online (card) payment for an order placed from this browser session
+export async function startOnlinePayment(trackingId: string) {
+  const response = await fetch('/api/payments/initialize', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ tracking_id: trackingId, session_id: getSessionId() }),
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) throw new Error(body.error || 'Could not start the payment');
+
+  return body as { reference: string; authorization_url: string };
+}
+
+// Asks the server to check a payment with the gateway after the customer returns
+export async function verifyOnlinePayment(reference: string) {
+  const response = await fetch(`/api/payments/verify?reference=${encodeURIComponent(reference)}`);
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) throw new Error(body.error || 'Could not verify the payment');
+
+  return body as { reference: string; status: 'pending' | 'completed' | 'failed' };
+}
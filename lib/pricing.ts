@@ -0,0 +1,78 @@
+import { supabase, CartItem, OrderQuote, OrderQuoteError } from './supabase';
+import { formatCartLineName } from './menu-options';
+import { getComboSwapIds } from './combos';
+
+export interface PriceChange {
+  // Cart line key
+  key: string;
+  name: string;
+  oldPrice: number;
+  newPrice: number;
+}
+
+export function toOrderLines(cart: CartItem[]) {
+  return cart.map(item =>
+    item.components
+      ? {
+          combo_id: item.id,
+          quantity: item.quantity,
+          swaps: getComboSwapIds(item.components),
+        }
+      : {
+          food_item_id: item.id,
+          quantity: item.quantity,
+          option_ids: item.options.map(option => option.option_id),
+        }
+  );
+}
+
+// Asks the database to price the cart using current menu prices and availability
+export async function quoteCart(cart: CartItem[]): Promise<OrderQuote> {
+  const { data, error } = await supabase.rpc('price_order_items', {
+    p_order_items: toOrderLines(cart),
+  });
+
+  if (error) throw new Error(error.message);
+
+  return data as OrderQuote;
+}
+
+export function getPriceChanges(cart: CartItem[], quote: OrderQuote): PriceChange[] {
+  return quote.items.flatMap(line => {
+    const cartItem = cart[line.index];
+    if (!cartItem || Number(cartItem.price) === Number(line.unit_price)) return [];
+    return [{
+      key: cartItem.key,
+      name: formatCartLineName(cartItem),
+      oldPrice: cartItem.price,
+      newPrice: Number(line.unit_price),
+    }];
+  });
+}
+
+export function describeQuoteError(error: OrderQuoteError, cart: CartItem[]): string {
+  const name = error.name || cart[error.index]?.name || 'An item';
+  switch (error.reason) {
+    case 'unavailable':
+      return error.component_name
+        ? `${name} is not available right now: ${error.component_name} has run out`
+        : `${name} is no longer available`;
+    case 'unknown_item':
+      return `${name} has been removed from the menu`;
+    case 'invalid_quantity':
+      return `${name} has an invalid quantity`;
+    case 'invalid_options':
+      return cart[error.index]?.components
+        ? `The choices for ${name} have changed. Please remove it and choose again`
+        : `The options for ${name} have changed. Please remove it and choose again`;
+    case 'out_of_stock':
+      if (error.component_name) {
+        return error.available
+          ? `Only ${error.available} ${name} left (${error.component_name} is running low)`
+          : `${name} has sold out: ${error.component_name} has run out`;
+      }
+      return error.available ? `Only ${error.available} ${name} left` : `${name} has sold out`;
+    default:
+      return `${name} cannot be ordered`;
+  }
+}
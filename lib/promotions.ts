@@ -0,0 +1,157 @@
+import { CartItem, FoodItem, Order, PromoCode, PromoQuote } from './supabase';
+import { toOrderLines } from './pricing';
+
+const EDITABLE_FIELDS = [
+  'code',
+  'description',
+  'discount_type',
+  'percent_off',
+  'max_discount_amount',
+  'amount_off',
+  'buy_quantity',
+  'get_quantity',
+  'min_subtotal',
+  'categories',
+  'starts_at',
+  'ends_at',
+  'max_redemptions',
+  'max_per_customer',
+  'is_active',
+] as const;
+
+export const PROMO_DISCOUNT_TYPE_LABELS: Record<PromoCode['discount_type'], string> = {
+  percent: 'Percent off',
+  fixed: 'Amount off',
+  free_delivery: 'Free delivery',
+  buy_x_get_y: 'Buy X get Y free',
+};
+
+export const FOOD_CATEGORIES: FoodItem['category'][] = ['Rice', 'Snacks', 'Drinks', 'Swallow', 'Protein', 'Others'];
+
+// Keeps only the columns owners may write, so request bodies can't set ids or timestamps.
+// Codes are stored upper-case; empty optional fields are cleared.
+export function pickPromoCodeFields(body: Record<string, unknown>): Partial<PromoCode> {
+  const fields: Record<string, unknown> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (body[key] !== undefined) {
+      const value = typeof body[key] === 'string' ? (body[key] as string).trim() : body[key];
+      fields[key] = value === '' ? null : value;
+    }
+  }
+  if (typeof fields.code === 'string') {
+    fields.code = fields.code.toUpperCase();
+  }
+  return fields as Partial<PromoCode>;
+}
+
+const isAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 1;
+const isOptional = (value: unknown, check: (value: unknown) => boolean) =>
+  value === undefined || value === null || check(value);
+
+// Validates the fields present in a create or update; creates must pass every field.
+// The rule fields are checked against the code's type, so updates pass the merged row.
+export function validatePromoCode(fields: Partial<PromoCode>, isNew: boolean): string | null {
+  if ((isNew || fields.code !== undefined) && !/^[A-Z0-9_-]{3,30}$/.test(fields.code ?? '')) {
+    return 'Code must be 3 to 30 letters, numbers, dashes or underscores';
+  }
+  if ((isNew || fields.discount_type !== undefined) && !fields.discount_type) {
+    return 'Choose what the code gives';
+  }
+  if (fields.discount_type && !(fields.discount_type in PROMO_DISCOUNT_TYPE_LABELS)) {
+    return 'Unknown discount type';
+  }
+  if (
+    fields.discount_type === 'percent' &&
+    !(isAmount(fields.percent_off) && (fields.percent_off as number) > 0 && (fields.percent_off as number) <= 100)
+  ) {
+    return 'Percent off must be more than 0 and at most 100';
+  }
+  if (!isOptional(fields.max_discount_amount, value => isAmount(value) && (value as number) > 0)) {
+    return 'Maximum discount must be more than zero';
+  }
+  if (fields.discount_type === 'fixed' && !(isAmount(fields.amount_off) && (fields.amount_off as number) > 0)) {
+    return 'Amount off must be more than zero';
+  }
+  if (fields.discount_type === 'buy_x_get_y' && !(isCount(fields.buy_quantity) && isCount(fields.get_quantity))) {
+    return 'Buy and free quantities must be whole numbers of 1 or more';
+  }
+  if (fields.min_subtotal !== undefined && !isAmount(fields.min_subtotal)) {
+    return 'Minimum spend must be zero or more';
+  }
+  if (
+    fields.categories !== undefined &&
+    fields.categories !== null &&
+    !(
+      Array.isArray(fields.categories) &&
+      fields.categories.length > 0 &&
+      fields.categories.every(category => FOOD_CATEGORIES.includes(category))
+    )
+  ) {
+    return 'Choose at least one menu category, or apply the code to the whole menu';
+  }
+  for (const key of ['starts_at', 'ends_at'] as const) {
+    if (!isOptional(fields[key], value => !Number.isNaN(Date.parse(value as string)))) {
+      return 'Dates must be valid';
+    }
+  }
+  if (fields.starts_at && fields.ends_at && Date.parse(fields.ends_at) <= Date.parse(fields.starts_at)) {
+    return 'The code must end after it starts';
+  }
+  if (!isOptional(fields.max_redemptions, isCount) || !isOptional(fields.max_per_customer, isCount)) {
+    return 'Usage limits must be whole numbers of 1 or more';
+  }
+  if (fields.is_active !== undefined && typeof fields.is_active !== 'boolean') {
+    return 'Active must be true or false';
+  }
+  return null;
+}
+
+// e.g. "20% off (up to ₦1,000)" or "Buy 2, get 1 free"
+export function describePromoRule(promo: PromoCode): string {
+  switch (promo.discount_type) {
+    case 'percent':
+      return `${Number(promo.percent_off)}% off${
+        promo.max_discount_amount ? ` (up to ₦${Number(promo.max_discount_amount).toLocaleString()})` : ''
+      }`;
+    case 'fixed':
+      return `₦${Number(promo.amount_off).toLocaleString()} off`;
+    case 'free_delivery':
+      return 'Free delivery';
+    case 'buy_x_get_y':
+      return `Buy ${promo.buy_quantity}, get ${promo.get_quantity} free`;
+  }
+}
+
+interface PromoQuoteRequest {
+  code: string;
+  cart: CartItem[];
+  fulfilmentMode: Order['fulfilment_mode'];
+  deliveryZoneId: string | null;
+  customerPhone: string;
+  sessionId: string;
+}
+
+// Prices the cart with the code applied, as create_order_with_items will.
+// Throws with a message for the customer when the code can't be used.
+export async function quotePromoCode(request: PromoQuoteRequest): Promise<PromoQuote> {
+  const response = await fetch('/api/promo-codes/quote', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      code: request.code,
+      order_items: toOrderLines(request.cart),
+      fulfilment_mode: request.fulfilmentMode,
+      delivery_zone_id: request.deliveryZoneId,
+      customer_phone: request.customerPhone || null,
+      session_id: request.sessionId,
+    }),
+  });
+  const body = await response.json().catch(() => ({}));
+
+  const hint = body.details?.hint;
+  if (hint === 'promo_invalid' || hint === 'too_many_attempts') throw new Error(body.error);
+  if (!response.ok) throw new Error('Could not check this promo code. Please try again.');
+
+  return body.quote as PromoQuote;
+}
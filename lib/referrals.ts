@@ -0,0 +1,73 @@
+import { supabase, ReferralSettings, ReferralStatus } from './supabase';
+
+const EDITABLE_FIELDS = ['is_active', 'referrer_credit', 'referee_credit'] as const;
+
+// A code from a shared link, kept until the customer's first checkout
+const PENDING_REFERRAL_KEY = 'campus_food_referral_code';
+
+export async function fetchReferralStatus(sessionId: string): Promise<ReferralStatus> {
+  const { data, error } = await supabase.rpc('get_referral_status', { p_session_id: sessionId });
+
+  if (error) throw new Error(error.message);
+
+  return data as ReferralStatus;
+}
+
+// Creates the session's code the first time it is asked for
+export async function fetchReferralCode(sessionId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('get_referral_code', { p_session_id: sessionId });
+
+  if (error) throw new Error(error.message);
+
+  return data as string;
+}
+
+export function getReferralShareUrl(code: string): string {
+  return `${window.location.origin}/?ref=${encodeURIComponent(code)}`;
+}
+
+// Remembers the code in a link like /?ref=FPI-ABC123
+export function savePendingReferralCode(search: string): void {
+  if (typeof window === 'undefined') return;
+
+  const code = new URLSearchParams(search).get('ref')?.trim().toUpperCase();
+  if (code) {
+    localStorage.setItem(PENDING_REFERRAL_KEY, code);
+  }
+}
+
+export function getPendingReferralCode(): string {
+  if (typeof window === 'undefined') return '';
+  return localStorage.getItem(PENDING_REFERRAL_KEY) ?? '';
+}
+
+export function clearPendingReferralCode(): void {
+  if (typeof window === 'undefined') return;
+  localStorage.removeItem(PENDING_REFERRAL_KEY);
+}
+
+// Keeps only the settings owners may change
+export function pickReferralSettingsFields(body: Record<string, unknown>): Partial<ReferralSettings> {
+  const fields: Record<string, unknown> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (body[key] !== undefined) {
+      fields[key] = body[key];
+    }
+  }
+  return fields as Partial<ReferralSettings>;
+}
+
+const isAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+export function validateReferralSettings(fields: Partial<ReferralSettings>): string | null {
+  if (fields.is_active !== undefined && typeof fields.is_active !== 'boolean') {
+    return 'Active must be true or false';
+  }
+  if (fields.referrer_credit !== undefined && !isAmount(fields.referrer_credit)) {
+    return 'Referrer credit must be zero or more';
+  }
+  if (fields.referee_credit !== undefined && !isAmount(fields.referee_credit)) {
+    return 'New customer credit must be zero or more';
+  }
+  return null;
+}
@@ -0,0 +1,51 @@
+import { Order, OrderRefund } from './supabase';
+
+export interface RefundLine {
+  order_item_id: string;
+  quantity: number;
+}
+
+export const REFUND_STATUS_LABELS: Record<Order['refund_status'], string> = {
+  none: 'Not refunded',
+  partial: 'Partly refunded',
+  full: 'Refunded in full',
+};
+
+export const REFUND_DESTINATION_LABELS: Record<OrderRefund['destination'], string> = {
+  wallet: 'Customer wallet',
+  manual: 'Manual (bank transfer or cash)',
+};
+
+export const REFUND_REASON_MAX_LENGTH = 200;
+
+// Shared by the refund dialog and the API route. items is null for a refund
+// of everything still owed on the order.
+export function validateRefundRequest(reason: unknown, items: unknown, destination: unknown): string | null {
+  if (typeof reason !== 'string' || reason.trim().length === 0) {
+    return 'Give a reason for the refund';
+  }
+  if (reason.trim().length > REFUND_REASON_MAX_LENGTH) {
+    return `Keep the reason under ${REFUND_REASON_MAX_LENGTH} characters`;
+  }
+
+  if (items !== null && items !== undefined) {
+    if (!Array.isArray(items) || items.length === 0) {
+      return 'Choose the items to refund';
+    }
+    const invalid = items.some(
+      (line) =>
+        typeof line?.order_item_id !== 'string' ||
+        !Number.isInteger(line?.quantity) ||
+        line.quantity < 1
+    );
+    if (invalid) {
+      return 'Each item needs a whole quantity of at least 1';
+    }
+  }
+
+  if (destination !== null && destination !== undefined && !Object.keys(REFUND_DESTINATION_LABELS).includes(String(destination))) {
+    return 'Refunds go to the customer wallet or are made manually';
+  }
+
+  return null;
+}
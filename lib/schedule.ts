@@ -0,0 +1,55 @@
+import { supabase, AvailableTimeSlot, KitchenStatus, OrderTimeSlot } from './supabase';
+import { format, isToday, isTomorrow } from 'date-fns';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Bookable slot times for today and the next few days, soonest first
+export async function fetchAvailableTimeSlots(days: number = 2): Promise<AvailableTimeSlot[]> {
+  const { data, error } = await supabase.rpc('available_time_slots', { p_days: days });
+
+  if (error) throw new Error(error.message);
+
+  return (data as AvailableTimeSlot[]) || [];
+}
+
+// Identifies one booking of a slot, since the same slot recurs every day
+export function getSlotKey(slot: Pick<AvailableTimeSlot, 'time_slot_id' | 'starts_at'>): string {
+  return `${slot.time_slot_id}|${slot.starts_at}`;
+}
+
+// e.g. "Tomorrow, 7:30 AM – 8:30 AM"
+export function formatScheduledTime(startsAt: string, endsAt?: string | null): string {
+  const start = new Date(startsAt);
+  const day = isToday(start) ? 'Today' : isTomorrow(start) ? 'Tomorrow' : format(start, 'EEE d MMM');
+  const range = endsAt ? `${format(start, 'p')} – ${format(new Date(endsAt), 'p')}` : format(start, 'p');
+  return `${day}, ${range}`;
+}
+
+// "07:30:00" -> "07:30"
+export function formatSlotTime(time: string): string {
+  return time.slice(0, 5);
+}
+
+export function describeSlotDays(slot: Pick<OrderTimeSlot, 'days_of_week'>): string {
+  const days = [...slot.days_of_week].sort();
+  if (days.length === 7) return 'Every day';
+  if (days.join() === '1,2,3,4,5') return 'Weekdays';
+  if (days.join() === '0,6') return 'Weekends';
+  return days.map((day) => WEEKDAY_LABELS[day]).join(', ');
+}
+
+export async function fetchKitchenStatus(): Promise<KitchenStatus> {
+  const { data, error } = await supabase.rpc('get_kitchen_status');
+
+  if (error) throw new Error(error.message);
+
+  return data as KitchenStatus;
+}
+
+// e.g. "Opens tomorrow at 7:00 AM"
+export function describeNextOpening(status: KitchenStatus): string | null {
+  if (!status.next_open_at) return null;
+  const opensAt = new Date(status.next_open_at);
+  const day = isToday(opensAt) ? 'today' : isTomorrow(opensAt) ? 'tomorrow' : format(opensAt, 'EEEE');
+  return `Opens ${day} at ${format(opensAt, 'p')}`;
+}
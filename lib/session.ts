@@ -15,6 +15,19 @@ export function getSessionId(): string {
   return sessionId;
 }
 
+// Switches this browser to another session id (e.g. a signed-in customer's)
+export function setSessionId(sessionId: string): void {
+  if (typeof window === 'undefined') return;
+
+  localStorage.setItem(SESSION_KEY, sessionId);
+  window.dispatchEvent(new CustomEvent('sessionChanged'));
+}
+
+// Starts a fresh anonymous session, e.g. after signing out
+export function resetSessionId(): void {
+  setSessionId(uuidv4());
+}
+
 export function generateTrackingId(): string {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
   let result = 'FPI-';
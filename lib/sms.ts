@@ -0,0 +1,27 @@
+// Outgoing SMS. Only a development stub exists for now; a real provider
+// (e.g. Termii or Africa's Talking) plugs in behind the same interface.
+
+export interface SmsSender {
+  name: string;
+  send(phone: string, message: string): Promise<void>;
+}
+
+const stubSender: SmsSender = {
+  name: 'stub',
+  async send(phone, message) {
+    console.log(`[sms:stub] to ${phone}: ${message}`);
+  },
+};
+
+export function getSmsSender(): SmsSender {
+  const provider = process.env.SMS_PROVIDER || 'stub';
+
+  if (provider === 'stub') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SMS_PROVIDER is not configured. The stub sender only runs in development.');
+    }
+    return stubSender;
+  }
+
+  throw new Error(`Unknown SMS_PROVIDER: ${provider}`);
+}
@@ -36,17 +36,155 @@ export interface FoodItem {
   image_url: string;
   category: 'Rice' | 'Snacks' | 'Drinks' | 'Swallow' | 'Protein' | 'Others';
   available: boolean;
+  // null when the item isn't stock-counted
+  stock_quantity: number | null;
+  // Restocked to this level every morning; null to restock by hand
+  daily_par: number | null;
+  // Set while the item is switched off because it sold out
+  sold_out_at: string | null;
+  stock_restocked_on: string | null;
   created_at: string;
   updated_at: string;
+  food_option_groups?: FoodOptionGroup[];
+}
+
+export interface FoodOptionGroup {
+  id: string;
+  food_item_id: string;
+  name: string;
+  is_required: boolean;
+  selection: 'single' | 'multi';
+  // Multi-select only; null for no limit
+  max_selections: number | null;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+  food_options?: FoodOption[];
+}
+
+export interface FoodOption {
+  id: string;
+  group_id: string;
+  name: string;
+  price_delta: number;
+  is_available: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// A chosen option as stored on order_items.options and carried in the cart
+export interface OrderItemOption {
+  option_id: string;
+  group_id: string;
+  group_name: string;
+  name: string;
+  price_delta: number;
+}
+
+export interface Combo {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  image_url: string | null;
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+  combo_components?: ComboComponent[];
+}
+
+// One slot in a combo, e.g. "Drink", filled with food_item_id unless swapped
+export interface ComboComponent {
+  id: string;
+  combo_id: string;
+  label: string;
+  food_item_id: string;
+  quantity: number;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+  food_items?: FoodItem;
+  combo_component_swaps?: ComboComponentSwap[];
+}
+
+export interface ComboComponentSwap {
+  id: string;
+  component_id: string;
+  food_item_id: string;
+  price_delta: number;
+  created_at: string;
+  food_items?: FoodItem;
+}
+
+// A filled combo slot as stored on order_items.components and carried in the cart
+export interface OrderComboComponent {
+  component_id: string;
+  label: string;
+  food_item_id: string;
+  name: string;
+  quantity: number;
+  price_delta: number;
+  is_swap: boolean;
 }
 
 export interface Order {
   id: string;
   session_id: string;
+  // Food only; total_amount = subtotal_amount + delivery_fee - discount_amount - loyalty_discount - referral_credit
+  subtotal_amount: number;
+  delivery_fee: number;
+  discount_amount: number;
   total_amount: number;
-  status: 'pending' | 'payment_received' | 'confirmed' | 'preparing' | 'dispatched' | 'delivered' | 'cancelled';
+  // The promo code used, copied as the customer entered it
+  promo_code_id: string | null;
+  promo_code: string | null;
+  // Points or stamps spent on the order and what they took off
+  loyalty_discount: number;
+  loyalty_redeemed: number;
+  // Referral credit spent on the order, and the code a new customer entered
+  referral_credit: number;
+  referral_code: string | null;
+  status:
+    | 'pending'
+    | 'payment_received'
+    | 'confirmed'
+    | 'preparing'
+    | 'ready_for_pickup'
+    | 'dispatched'
+    | 'delivered'
+    | 'cancelled';
   tracking_id: string;
   customer_note: string;
+  customer_phone: string | null;
+  customer_id: string | null;
+  customer_name: string | null;
+  delivery_location_id: string | null;
+  // Copied from campus_locations when the order is placed
+  delivery_location_name: string | null;
+  delivery_room: string | null;
+  delivery_zone_id: string | null;
+  delivery_zone_name: string | null;
+  fulfilment_mode: 'delivery' | 'pickup';
+  // 4-digit code the customer shows at the counter; pickup orders only
+  pickup_code: string | null;
+  pickup_verified_at: string | null;
+  pickup_verified_by: string | null;
+  // Pre-orders only: the booked slot start and when the kitchen should begin
+  time_slot_id: string | null;
+  scheduled_for: string | null;
+  prep_starts_at: string | null;
+  payment_status: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded';
+  payment_method: 'bank_transfer' | 'cash_on_delivery' | 'card_payment' | 'wallet' | null;
+  payment_reference: string | null;
+  transfer_reference: string;
+  transfer_sender_name: string | null;
+  transfer_marked_paid_at: string | null;
+  payment_bank_detail_id: string | null;
+  payment_confirmed_at: string | null;
+  refund_status: 'none' | 'partial' | 'full';
+  refunded_amount: number;
   created_at: string;
   updated_at: string;
 }
@@ -54,9 +192,18 @@ export interface Order {
 export interface OrderItem {
   id: string;
   order_id: string;
-  food_item_id: string;
+  // Null on combo rows
+  food_item_id: string | null;
   quantity: number;
+  // Includes the price deltas of the chosen options or swaps; zero on combo components
   unit_price: number;
+  options: OrderItemOption[];
+  combo_id: string | null;
+  combo_name: string | null;
+  components: OrderComboComponent[];
+  // Set on the component rows of a combo, pointing at the combo row
+  parent_item_id: string | null;
+  stock_deducted: boolean;
   created_at: string;
   food_items?: FoodItem;
 }
@@ -65,13 +212,392 @@ export interface OrderStatusHistory {
   id: string;
   order_id: string;
   status: Order['status'];
+  note: string | null;
+  changed_by: string | null;
+  created_at: string;
+}
+
+export interface BankDetail {
+  id: string;
+  bank_name: string;
+  account_name: string;
+  account_number: string;
+  is_active: boolean;
+  sort_order: number;
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CampusLocation {
+  id: string;
+  name: string;
+  type: 'hostel' | 'faculty' | 'landmark';
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  description: string | null;
+  fee: number;
+  min_order_amount: number;
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrderTimeSlot {
+  id: string;
+  label: string;
+  // Kitchen-local "HH:MM:SS"
+  start_time: string;
+  end_time: string;
+  // 0 = Sunday ... 6 = Saturday
+  days_of_week: number[];
+  capacity: number;
+  prep_lead_minutes: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// A bookable date and time for a slot, returned by available_time_slots()
+export interface AvailableTimeSlot {
+  time_slot_id: string;
+  label: string;
+  starts_at: string;
+  ends_at: string;
+  remaining: number;
+}
+
+export interface OperatingHours {
+  // 0 = Sunday ... 6 = Saturday
+  day_of_week: number;
+  // Kitchen-local "HH:MM:SS"
+  opens_at: string;
+  closes_at: string;
+  is_closed: boolean;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface HolidayClosure {
+  id: string;
+  // Kitchen-local "YYYY-MM-DD"
+  closed_on: string;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface KitchenState {
+  is_paused: boolean;
+  pause_reason: string | null;
+  paused_at: string | null;
+  paused_by: string | null;
+  updated_at: string;
+}
+
+// Returned by get_kitchen_status()
+export interface KitchenStatus {
+  is_open: boolean;
+  reason: 'paused' | 'holiday' | 'outside_hours' | null;
+  message: string;
+  next_open_at: string | null;
+  closes_at: string | null;
+}
+
+export interface PaymentHistory {
+  id: string;
+  order_id: string;
+  amount: number;
+  status: Order['payment_status'];
+  payment_method: NonNullable<Order['payment_method']>;
+  reference: string;
+  metadata: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PaymentConfirmation {
+  id: string;
+  order_id: string;
+  confirmed_by: string | null;
+  status: Order['payment_status'];
+  note: string | null;
+  created_at: string;
+}
+
+// Public view of an order returned by track_order()
+export interface OrderTracking {
+  tracking_id: string;
+  status: Order['status'];
+  fulfilment_mode: Order['fulfilment_mode'];
+  created_at: string;
+  updated_at: string;
+  timeline: { status: Order['status']; created_at: string }[];
+}
+
+export interface OrderQuoteLine {
+  // Position of the cart line this prices
+  index: number;
+  // Null for combo lines, which carry combo_id and components instead
+  food_item_id: string | null;
+  combo_id?: string;
+  name: string;
+  quantity: number;
+  options: OrderItemOption[];
+  components?: OrderComboComponent[];
+  unit_price: number;
+  line_total: number;
+}
+
+export interface OrderQuoteError {
+  index: number;
+  // For combos, the component at fault, if any
+  food_item_id: string | null;
+  combo_id?: string;
+  name: string | null;
+  reason: 'unknown_item' | 'unavailable' | 'invalid_quantity' | 'invalid_options' | 'out_of_stock';
+  // out_of_stock only: how many are left (whole combos for a combo line)
+  available?: number;
+  // Combo component problems: the item that can't be had
+  component_name?: string;
+}
+
+export interface OrderQuote {
+  items: OrderQuoteLine[];
+  total_amount: number;
+  errors: OrderQuoteError[];
+}
+
+export type PromoDiscountType = 'percent' | 'fixed' | 'free_delivery' | 'buy_x_get_y';
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: PromoDiscountType;
+  percent_off: number | null;
+  max_discount_amount: number | null;
+  amount_off: number | null;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  min_subtotal: number;
+  // Null applies the code to the whole menu, combos included
+  categories: FoodItem['category'][] | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  max_redemptions: number | null;
+  max_per_customer: number | null;
+  is_active: boolean;
+  created_by: string | null;
   created_at: string;
+  updated_at: string;
+}
+
+export interface PromoRedemption {
+  id: string;
+  promo_code_id: string;
+  order_id: string;
+  session_id: string;
+  customer_phone: string | null;
+  discount_amount: number;
+  created_at: string;
+}
+
+// quote_promo_code() result: the cart priced with the code applied
+export interface PromoQuote {
+  code: string;
+  description: string | null;
+  discount_type: PromoDiscountType;
+  discount_amount: number;
+  subtotal_amount: number;
+  delivery_fee: number;
+  total_amount: number;
+}
+
+export type LoyaltyUnit = 'points' | 'stamps';
+
+export interface LoyaltySettings {
+  is_active: boolean;
+  mode: LoyaltyUnit;
+  // Points: one per this many naira paid, each worth point_value at checkout
+  naira_per_point: number;
+  point_value: number;
+  min_redeem_points: number;
+  // Stamps: one per delivered order of at least stamp_min_subtotal
+  stamps_required: number;
+  stamp_min_subtotal: number;
+  updated_at: string;
+}
+
+// get_loyalty_status() result: the programme plus this session's balance in its unit
+export interface LoyaltyStatus extends Omit<LoyaltySettings, 'updated_at'> {
+  balance: number;
+}
+
+export interface LoyaltyLedgerEntry {
+  id: string;
+  session_id: string;
+  customer_id: string | null;
+  unit: LoyaltyUnit;
+  amount: number;
+  reason: 'earned' | 'redeemed' | 'reversed' | 'adjustment';
+  order_id: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface ReferralSettings {
+  is_active: boolean;
+  referrer_credit: number;
+  referee_credit: number;
+  updated_at: string;
+}
+
+// get_referral_status() result for this session
+export interface ReferralStatus extends Omit<ReferralSettings, 'updated_at'> {
+  // Null until the customer first asks for their code
+  code: string | null;
+  credit_balance: number;
+  successful_referrals: number;
+  // No orders yet, so a friend's code can still be used
+  can_be_referred: boolean;
+}
+
+// top_referrers() row
+export interface TopReferrer {
+  code: string;
+  session_id: string;
+  name: string | null;
+  phone: string | null;
+  rewarded: number;
+  pending: number;
+  credit_earned: number;
+  referred_revenue: number;
+  last_referred_at: string;
+}
+
+export interface WalletTopUp {
+  id: string;
+  customer_id: string;
+  amount: number;
+  // Put in the transfer narration, like an order's transfer_reference
+  reference: string;
+  status: Order['payment_status'];
+  bank_detail_id: string | null;
+  sender_name: string | null;
+  marked_paid_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WalletLedgerEntry {
+  id: string;
+  customer_id: string;
+  amount: number;
+  reason: 'top_up' | 'payment' | 'refund';
+  order_id: string | null;
+  topup_id: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// get_wallet_status() result for the signed-in customer
+export interface WalletStatus {
+  // Wallets belong to customer accounts, so guests have none
+  has_account: boolean;
+  balance: number;
+  entries: (Pick<WalletLedgerEntry, 'id' | 'amount' | 'reason' | 'created_at'> & {
+    tracking_id: string | null;
+    reference: string | null;
+  })[];
+  topups: Pick<WalletTopUp, 'id' | 'amount' | 'reference' | 'status' | 'bank_detail_id' | 'sender_name' | 'created_at'>[];
+}
+
+// wallet_balances() row
+export interface WalletBalance {
+  customer_id: string;
+  name: string | null;
+  phone: string;
+  balance: number;
+  topped_up: number;
+  spent: number;
+  refunded: number;
+  last_activity_at: string;
+}
+
+export interface OrderRefundItem {
+  id: string;
+  refund_id: string;
+  order_item_id: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface OrderRefund {
+  id: string;
+  order_id: string;
+  amount: number;
+  // Item by item rather than whatever was left on the order
+  is_partial: boolean;
+  reason: string;
+  destination: 'wallet' | 'manual';
+  payment_history_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface RefundDay {
+  day: string;
+  refunds: number;
+  orders: number;
+  partial_refunds: number;
+  total: number;
+  to_wallet: number;
+  manual: number;
+}
+
+export interface Customer {
+  id: string;
+  phone: string;
+  display_name: string | null;
+  // Shared by every device the customer signs in on
+  session_id: string;
+}
+
+export type AdminRole = 'owner' | 'kitchen' | 'dispatcher' | 'cashier';
+
+export interface AdminUser {
+  id: string;
+  username: string;
+  role: AdminRole;
+  session_id: string;
 }
 
 export interface CartItem {
+  // Identifies the line: the food item plus its chosen options, or the combo plus its swaps
+  key: string;
   id: string;
   name: string;
+  // Unit price including option deltas or swap price differences
   price: number;
   quantity: number;
   image_url: string;
+  options: OrderItemOption[];
+  // Combo lines only; id is then the combo's id
+  components?: OrderComboComponent[];
 }
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { OrderTimeSlot } from './supabase';
+
+const EDITABLE_FIELDS = [
+  'label',
+  'start_time',
+  'end_time',
+  'days_of_week',
+  'capacity',
+  'prep_lead_minutes',
+  'is_active',
+] as const;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+// Keeps only the columns owners may write, so request bodies can't set ids or timestamps
+export function pickTimeSlotFields(body: Record<string, unknown>): Partial<OrderTimeSlot> {
+  const fields: Record<string, unknown> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (body[key] !== undefined) {
+      fields[key] = typeof body[key] === 'string' ? (body[key] as string).trim() : body[key];
+    }
+  }
+  return fields as Partial<OrderTimeSlot>;
+}
+
+// Validates the fields present in a create or update; creates must pass every field
+export function validateTimeSlot(fields: Partial<OrderTimeSlot>, isNew: boolean): string | null {
+  if ((isNew || fields.label !== undefined) && !fields.label) {
+    return 'Label is required';
+  }
+  if ((isNew || fields.start_time !== undefined) && !TIME_PATTERN.test(fields.start_time ?? '')) {
+    return 'Start time must look like 07:30';
+  }
+  if ((isNew || fields.end_time !== undefined) && !TIME_PATTERN.test(fields.end_time ?? '')) {
+    return 'End time must look like 08:30';
+  }
+  if (fields.start_time && fields.end_time && fields.end_time <= fields.start_time) {
+    return 'End time must be after the start time';
+  }
+  if (
+    (isNew || fields.days_of_week !== undefined) &&
+    (!Array.isArray(fields.days_of_week) ||
+      fields.days_of_week.length === 0 ||
+      !fields.days_of_week.every((day) => Number.isInteger(day) && day >= 0 && day <= 6))
+  ) {
+    return 'Choose at least one day';
+  }
+  if ((isNew || fields.capacity !== undefined) && !(Number.isInteger(fields.capacity) && (fields.capacity ?? 0) > 0)) {
+    return 'Capacity must be a whole number above zero';
+  }
+  if (
+    fields.prep_lead_minutes !== undefined &&
+    !(Number.isInteger(fields.prep_lead_minutes) && fields.prep_lead_minutes >= 0)
+  ) {
+    return 'Prep lead time must be zero or more minutes';
+  }
+  if (fields.is_active !== undefined && typeof fields.is_active !== 'boolean') {
+    return 'Active must be true or false';
+  }
+  return null;
+}
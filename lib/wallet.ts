@@ -0,0 +1,46 @@
+import { WalletLedgerEntry, WalletStatus, WalletTopUp } from './supabase';
+import { customerFetch } from './customer';
+
+export const WALLET_TOPUP_MIN = 100;
+export const WALLET_TOPUP_MAX = 200000;
+
+export const WALLET_REASON_LABELS: Record<WalletLedgerEntry['reason'], string> = {
+  top_up: 'Top-up',
+  payment: 'Order payment',
+  refund: 'Refund',
+};
+
+// The wallet of the account this browser is signed in to
+export async function fetchWalletStatus(): Promise<WalletStatus> {
+  const { wallet } = await customerFetch<{ wallet: WalletStatus }>('/wallet');
+  return wallet;
+}
+
+export function validateTopUpAmount(amount: number): string | null {
+  if (!Number.isFinite(amount) || amount < WALLET_TOPUP_MIN || amount > WALLET_TOPUP_MAX) {
+    return `Top-ups must be between ₦${WALLET_TOPUP_MIN.toLocaleString()} and ₦${WALLET_TOPUP_MAX.toLocaleString()}`;
+  }
+  return null;
+}
+
+// Starts a top-up for the account this browser is signed in to; any earlier
+// top-up that was never reported is replaced
+export async function requestWalletTopUp(amount: number) {
+  const { topup } = await customerFetch<{ topup: WalletStatus['topups'][number] }>('/wallet/topups', {
+    method: 'POST',
+    body: JSON.stringify({ amount }),
+  });
+  return topup;
+}
+
+// Reports the bank transfer for a top-up; a cashier then confirms it
+export async function markWalletTopUpPaid(reference: string, bankDetailId: string, senderName: string) {
+  const { topup } = await customerFetch<{ topup: { reference: string; status: WalletTopUp['status'] } }>(
+    '/wallet/topups/paid',
+    {
+      method: 'POST',
+      body: JSON.stringify({ reference, bank_detail_id: bankDetailId, sender_name: senderName }),
+    }
+  );
+  return topup;
+}
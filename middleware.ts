@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_SESSION_COOKIE, verifySessionToken } from '@/lib/admin-session';
+
+const PUBLIC_ADMIN_PATHS = ['/admin/login', '/api/admin/login'];
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const session = await verifySessionToken(request.cookies.get(ADMIN_SESSION_COOKIE)?.value, 'admin');
+
+  if (PUBLIC_ADMIN_PATHS.includes(pathname)) {
+    // Send already signed-in admins straight to the dashboard
+    if (session && pathname === '/admin/login') {
+      return NextResponse.redirect(new URL('/admin', request.url));
+    }
+    return NextResponse.next();
+  }
+
+  if (session) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const loginUrl = new URL('/admin/login', request.url);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/admin/:path*'],
+};
@@ -1,6 +1,5 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  output: 'export',
   optimizeFonts: false,
   eslint: {
     ignoreDuringBuilds: true,
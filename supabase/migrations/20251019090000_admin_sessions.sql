@@ -0,0 +1,65 @@
+-- ============================================================================
+-- SERVER-SIDE ADMIN AUTHENTICATION
+-- Verifies admin passwords against admin_credentials.password_hash and stores
+-- revocable sessions that back the HttpOnly admin session cookie.
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- ============================================================================
+-- 1. RE-HASH THE SEEDED ADMIN PASSWORD
+-- ============================================================================
+
+-- The seed hash in earlier migrations was a placeholder. Replace it with a real
+-- bcrypt hash of the documented default password so it can be verified.
+-- Change this password immediately after the first login in production.
+UPDATE admin_credentials
+SET password_hash = crypt('admin123', gen_salt('bf', 10))
+WHERE username = 'admin'
+  AND password_hash = '$2b$10$rQZ9QmSTUwhmW8.93h8/veRZYHFx8/XJvZ8lCqLKhkOJ5yY4oZ9em';
+
+-- ============================================================================
+-- 2. CREATE ADMIN SESSIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS admin_sessions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    admin_id uuid NOT NULL REFERENCES admin_credentials(id) ON DELETE CASCADE,
+    user_agent text DEFAULT '',
+    expires_at timestamptz NOT NULL,
+    revoked_at timestamptz,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_sessions_admin_id ON admin_sessions(admin_id);
+CREATE INDEX IF NOT EXISTS idx_admin_sessions_expires_at ON admin_sessions(expires_at);
+
+-- Sessions are only ever read and written by the server using the service role
+ALTER TABLE admin_sessions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 3. CREATE AUTHENTICATION FUNCTIONS
+-- ============================================================================
+
+-- Function to verify an admin username and password
+CREATE OR REPLACE FUNCTION verify_admin_credentials(
+    p_username text,
+    p_password text
+)
+RETURNS TABLE (id uuid, username text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT ac.id, ac.username
+    FROM admin_credentials ac
+    WHERE ac.username = p_username
+      AND ac.password_hash = crypt(p_password, ac.password_hash);
+END;
+$$;
+
+-- Only the server (service role) may verify credentials
+REVOKE EXECUTE ON FUNCTION verify_admin_credentials(text, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION verify_admin_credentials(text, text) TO service_role;
@@ -0,0 +1,280 @@
+-- ============================================================================
+-- ROLE-BASED STAFF ACCOUNTS
+-- owner:      everything, including the menu and bank details
+-- kitchen:    orders queue, may move orders to preparing
+-- dispatcher: orders queue, may move orders to dispatched / delivered
+-- cashier:    orders queue, confirms payments and may cancel orders
+-- ============================================================================
+
+-- ============================================================================
+-- 1. CREATE ROLE ENUM AND COLUMN
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE admin_role_enum AS ENUM (
+        'owner',
+        'kitchen',
+        'dispatcher',
+        'cashier'
+    );
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Existing accounts keep full access; new accounts start with the narrowest role
+ALTER TABLE admin_credentials
+    ADD COLUMN IF NOT EXISTS role admin_role_enum NOT NULL DEFAULT 'owner';
+
+ALTER TABLE admin_credentials
+    ALTER COLUMN role SET DEFAULT 'kitchen';
+
+CREATE INDEX IF NOT EXISTS idx_admin_credentials_role ON admin_credentials(role);
+
+-- ============================================================================
+-- 2. CREATE ROLE HELPER FUNCTIONS
+-- ============================================================================
+
+-- Function to check whether an admin account holds one of the given roles
+CREATE OR REPLACE FUNCTION admin_has_role(
+    p_admin_id uuid,
+    p_roles admin_role_enum[]
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM admin_credentials
+        WHERE id = p_admin_id
+          AND role = ANY (p_roles)
+    );
+$$;
+
+-- Function returning the role of the admin named in app.admin_username (used by RLS)
+CREATE OR REPLACE FUNCTION current_admin_role()
+RETURNS admin_role_enum
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT role FROM admin_credentials
+    WHERE username = current_setting('app.admin_username', true);
+$$;
+
+-- Roles allowed to move an order into each status. Mirrors ORDER_STATUS_ROLES in lib/admin-roles.ts
+CREATE OR REPLACE FUNCTION order_status_roles(p_status order_status_enum)
+RETURNS admin_role_enum[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE p_status
+        WHEN 'payment_received' THEN ARRAY['owner', 'cashier']::admin_role_enum[]
+        WHEN 'confirmed' THEN ARRAY['owner', 'cashier']::admin_role_enum[]
+        WHEN 'preparing' THEN ARRAY['owner', 'kitchen']::admin_role_enum[]
+        WHEN 'dispatched' THEN ARRAY['owner', 'dispatcher']::admin_role_enum[]
+        WHEN 'delivered' THEN ARRAY['owner', 'dispatcher']::admin_role_enum[]
+        WHEN 'cancelled' THEN ARRAY['owner', 'cashier']::admin_role_enum[]
+        ELSE ARRAY['owner']::admin_role_enum[]
+    END;
+$$;
+
+-- Function to create a staff account (run from the SQL editor by an owner)
+CREATE OR REPLACE FUNCTION create_admin_account(
+    p_username text,
+    p_password text,
+    p_role admin_role_enum
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_admin_id uuid;
+BEGIN
+    IF length(p_password) < 8 THEN
+        RAISE EXCEPTION 'Password must be at least 8 characters';
+    END IF;
+
+    INSERT INTO admin_credentials (username, password_hash, role)
+    VALUES (p_username, crypt(p_password, gen_salt('bf', 10)), p_role)
+    RETURNING id INTO v_admin_id;
+
+    RETURN v_admin_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_admin_account(text, text, admin_role_enum) FROM public, anon, authenticated;
+
+-- ============================================================================
+-- 3. RETURN ROLE FROM CREDENTIAL CHECK
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS verify_admin_credentials(text, text);
+
+CREATE OR REPLACE FUNCTION verify_admin_credentials(
+    p_username text,
+    p_password text
+)
+RETURNS TABLE (id uuid, username text, role admin_role_enum)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT ac.id, ac.username, ac.role
+    FROM admin_credentials ac
+    WHERE ac.username = p_username
+      AND ac.password_hash = crypt(p_password, ac.password_hash);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION verify_admin_credentials(text, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION verify_admin_credentials(text, text) TO service_role;
+
+-- ============================================================================
+-- 4. ENFORCE ROLES IN ORDER AND PAYMENT FUNCTIONS
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS update_order_status(uuid, order_status_enum);
+
+-- Function to update order status with history, restricted by staff role
+CREATE OR REPLACE FUNCTION update_order_status(
+  p_order_id uuid,
+  p_new_status order_status_enum,
+  p_admin_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT admin_has_role(p_admin_id, order_status_roles(p_new_status)) THEN
+    RAISE EXCEPTION 'permission denied: your role cannot set orders to %', p_new_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Update order status
+  UPDATE orders
+  SET status = p_new_status
+  WHERE id = p_order_id;
+
+  -- Record status change
+  INSERT INTO order_status_history (order_id, status)
+  VALUES (p_order_id, p_new_status);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION update_order_status(uuid, order_status_enum, uuid) FROM public, anon, authenticated;
+
+-- Function to confirm payment, restricted to cashiers and owners
+CREATE OR REPLACE FUNCTION confirm_payment(
+    p_order_id UUID,
+    p_admin_id UUID,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_result JSONB;
+BEGIN
+    IF NOT admin_has_role(p_admin_id, ARRAY['owner', 'cashier']::admin_role_enum[]) THEN
+        RAISE EXCEPTION 'permission denied: only cashiers and owners can confirm payments'
+            USING ERRCODE = '42501';
+    END IF;
+
+    -- Update order payment status
+    UPDATE orders
+    SET
+        payment_status = 'confirmed',
+        payment_confirmed_at = CURRENT_TIMESTAMP,
+        payment_confirmed_by = p_admin_id
+    WHERE id = p_order_id
+    RETURNING jsonb_build_object(
+        'id', id,
+        'tracking_id', tracking_id,
+        'payment_status', payment_status,
+        'payment_confirmed_at', payment_confirmed_at
+    ) INTO v_result;
+
+    -- Record in payment confirmation history
+    INSERT INTO payment_confirmation_history (
+        order_id,
+        confirmed_by,
+        status,
+        note
+    ) VALUES (
+        p_order_id,
+        p_admin_id,
+        'confirmed',
+        p_note
+    );
+
+    -- Update order status to confirmed
+    UPDATE orders
+    SET status = 'confirmed'
+    WHERE id = p_order_id;
+
+    -- Record in order status history
+    INSERT INTO order_status_history (
+        order_id,
+        status,
+        note
+    ) VALUES (
+        p_order_id,
+        'confirmed',
+        'Payment confirmed: ' || COALESCE(p_note, 'No additional notes')
+    );
+
+    RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION confirm_payment(uuid, uuid, text) FROM public, anon, authenticated;
+
+-- ============================================================================
+-- 5. ROLE-AWARE ROW LEVEL SECURITY POLICIES
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Admins can manage food items" ON food_items;
+DROP POLICY IF EXISTS "Admins can manage bank details" ON bank_details;
+DROP POLICY IF EXISTS "Admins can update order status" ON orders;
+DROP POLICY IF EXISTS "Admins can manage credentials" ON admin_credentials;
+
+-- Only owners can change the menu
+CREATE POLICY "Owners can manage food items"
+    ON food_items
+    FOR ALL
+    TO authenticated
+    USING (current_admin_role() = 'owner')
+    WITH CHECK (current_admin_role() = 'owner');
+
+-- Only owners can change the accounts customers pay into
+CREATE POLICY "Owners can manage bank details"
+    ON bank_details
+    FOR ALL
+    TO authenticated
+    USING (current_admin_role() = 'owner')
+    WITH CHECK (current_admin_role() = 'owner');
+
+-- Staff can only move orders into statuses their role allows
+CREATE POLICY "Staff can update order status for their role"
+    ON orders
+    FOR UPDATE
+    TO authenticated
+    USING (current_admin_role() IS NOT NULL)
+    WITH CHECK (current_admin_role() = ANY (order_status_roles(status)));
+
+-- Only owners can manage staff accounts
+CREATE POLICY "Owners can manage credentials"
+    ON admin_credentials
+    FOR ALL
+    TO authenticated
+    USING (current_admin_role() = 'owner')
+    WITH CHECK (current_admin_role() = 'owner');
@@ -0,0 +1,229 @@
+-- ============================================================================
+-- SERVER-AUTHORITATIVE ORDER PRICING
+-- create_order_with_items no longer trusts totals or unit prices sent by the
+-- browser. Prices and availability are read from food_items at order time.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. PRICE A LIST OF ORDER LINES
+-- ============================================================================
+
+-- Function to price cart lines against the current menu.
+-- Input:  [{ "food_item_id": uuid, "quantity": int }, ...]
+-- Output: { "items": [...], "total_amount": decimal, "errors": [...] }
+-- Each error is { "index", "food_item_id", "name", "reason" } where reason is
+-- one of: unknown_item, unavailable, invalid_quantity.
+CREATE OR REPLACE FUNCTION price_order_items(
+    p_order_items jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_line jsonb;
+    v_index integer := 0;
+    v_food_item_id uuid;
+    v_quantity integer;
+    v_food food_items%ROWTYPE;
+    v_items jsonb := '[]'::jsonb;
+    v_errors jsonb := '[]'::jsonb;
+    v_total decimal(10,2) := 0;
+BEGIN
+    IF p_order_items IS NULL OR jsonb_typeof(p_order_items) <> 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+        RAISE EXCEPTION 'Cart is empty'
+            USING HINT = 'cart_empty';
+    END IF;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(p_order_items)
+    LOOP
+        v_food_item_id := NULL;
+        v_quantity := NULL;
+
+        BEGIN
+            v_food_item_id := (v_line->>'food_item_id')::uuid;
+            v_quantity := (v_line->>'quantity')::integer;
+        EXCEPTION
+            WHEN invalid_text_representation OR numeric_value_out_of_range THEN
+                NULL;
+        END;
+
+        SELECT * INTO v_food FROM food_items WHERE id = v_food_item_id;
+
+        IF NOT FOUND THEN
+            v_errors := v_errors || jsonb_build_object(
+                'index', v_index,
+                'food_item_id', v_line->>'food_item_id',
+                'name', NULL,
+                'reason', 'unknown_item'
+            );
+        ELSIF NOT v_food.available THEN
+            v_errors := v_errors || jsonb_build_object(
+                'index', v_index,
+                'food_item_id', v_food.id,
+                'name', v_food.name,
+                'reason', 'unavailable'
+            );
+        ELSIF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > 100 THEN
+            v_errors := v_errors || jsonb_build_object(
+                'index', v_index,
+                'food_item_id', v_food.id,
+                'name', v_food.name,
+                'reason', 'invalid_quantity'
+            );
+        ELSE
+            v_items := v_items || jsonb_build_object(
+                'food_item_id', v_food.id,
+                'name', v_food.name,
+                'quantity', v_quantity,
+                'unit_price', v_food.price,
+                'line_total', v_food.price * v_quantity
+            );
+            v_total := v_total + v_food.price * v_quantity;
+        END IF;
+
+        v_index := v_index + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'items', v_items,
+        'total_amount', v_total,
+        'errors', v_errors
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION price_order_items(jsonb) TO anon;
+GRANT EXECUTE ON FUNCTION price_order_items(jsonb) TO authenticated;
+
+-- ============================================================================
+-- 2. CREATE ORDERS FROM SERVER-COMPUTED PRICES
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_order_with_items(text, decimal, text, jsonb, text);
+DROP FUNCTION IF EXISTS create_order_with_items(text, decimal, text, text, jsonb);
+
+-- Function to create an order with items in a single transaction.
+-- p_expected_total is the total the customer was shown; if current prices no
+-- longer add up to it the order is rejected so checkout can show the change.
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_session_id text,
+  p_tracking_id text,
+  p_order_items jsonb,
+  p_customer_note text DEFAULT '',
+  p_expected_total decimal DEFAULT NULL
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_order jsonb;
+  v_pricing jsonb;
+  v_total decimal(10,2);
+BEGIN
+  -- Check for duplicate tracking ID
+  IF EXISTS (SELECT 1 FROM orders WHERE tracking_id = p_tracking_id) THEN
+    RAISE EXCEPTION 'Duplicate tracking ID';
+  END IF;
+
+  v_pricing := price_order_items(p_order_items);
+
+  IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+    RAISE EXCEPTION 'Some items in your order cannot be ordered'
+      USING DETAIL = (v_pricing->'errors')::text,
+            HINT = 'order_items_invalid';
+  END IF;
+
+  v_total := (v_pricing->>'total_amount')::decimal;
+
+  IF v_total <= 0 THEN
+    RAISE EXCEPTION 'Invalid order total amount';
+  END IF;
+
+  IF p_expected_total IS NOT NULL AND p_expected_total <> v_total THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout'
+      USING DETAIL = v_pricing::text,
+            HINT = 'price_changed';
+  END IF;
+
+  -- Create order
+  INSERT INTO orders (
+    session_id,
+    total_amount,
+    tracking_id,
+    customer_note,
+    status
+  ) VALUES (
+    p_session_id,
+    v_total,
+    p_tracking_id,
+    COALESCE(p_customer_note, ''),
+    'pending'
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items at the server-side unit price
+  INSERT INTO order_items (
+    order_id,
+    food_item_id,
+    quantity,
+    unit_price
+  )
+  SELECT
+    v_order_id,
+    (item->>'food_item_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'unit_price')::decimal
+  FROM jsonb_array_elements(v_pricing->'items') AS item;
+
+  -- Add initial status to history
+  INSERT INTO order_status_history (
+    order_id,
+    status
+  ) VALUES (
+    v_order_id,
+    'pending'
+  );
+
+  -- Return the created order with its items
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'session_id', o.session_id,
+    'total_amount', o.total_amount,
+    'status', o.status,
+    'tracking_id', o.tracking_id,
+    'customer_note', o.customer_note,
+    'created_at', o.created_at,
+    'order_items', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'food_item_id', oi.food_item_id,
+          'name', fi.name,
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price
+        )
+      )
+      FROM order_items oi
+      JOIN food_items fi ON fi.id = oi.food_item_id
+      WHERE oi.order_id = o.id
+    )
+  )
+  INTO v_order
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal) TO anon;
+
+-- Orders and their items must now go through create_order_with_items
+DROP POLICY IF EXISTS "Users can create orders" ON orders;
+DROP POLICY IF EXISTS "Users can create order items" ON order_items;
@@ -0,0 +1,118 @@
+-- ============================================================================
+-- ORDER STATUS STATE MACHINE
+-- All status changes go through transition_order_status, which only allows
+-- moves along the graph below and writes the order and its history together.
+--
+--   pending          -> payment_received | cancelled
+--   payment_received -> confirmed | cancelled
+--   confirmed        -> preparing | cancelled
+--   preparing        -> dispatched | cancelled
+--   dispatched       -> delivered
+--   delivered, cancelled are final
+-- ============================================================================
+
+-- ============================================================================
+-- 1. RECORD WHO CHANGED THE STATUS AND WHY
+-- ============================================================================
+
+ALTER TABLE order_status_history
+    ADD COLUMN IF NOT EXISTS note text,
+    ADD COLUMN IF NOT EXISTS changed_by uuid REFERENCES admin_credentials(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- 2. TRANSITION GRAPH
+-- ============================================================================
+
+-- Statuses an order may move to from p_from. Mirrors ORDER_STATUS_TRANSITIONS in lib/order-status.ts
+CREATE OR REPLACE FUNCTION allowed_order_transitions(p_from order_status_enum)
+RETURNS order_status_enum[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE p_from
+        WHEN 'pending' THEN ARRAY['payment_received', 'cancelled']::order_status_enum[]
+        WHEN 'payment_received' THEN ARRAY['confirmed', 'cancelled']::order_status_enum[]
+        WHEN 'confirmed' THEN ARRAY['preparing', 'cancelled']::order_status_enum[]
+        WHEN 'preparing' THEN ARRAY['dispatched', 'cancelled']::order_status_enum[]
+        WHEN 'dispatched' THEN ARRAY['delivered']::order_status_enum[]
+        ELSE ARRAY[]::order_status_enum[]
+    END;
+$$;
+
+-- ============================================================================
+-- 3. TRANSITION FUNCTION
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS update_order_status(uuid, order_status_enum, uuid);
+
+-- Function to move an order to a new status, atomically appending history
+CREATE OR REPLACE FUNCTION transition_order_status(
+    p_order_id uuid,
+    p_new_status order_status_enum,
+    p_admin_id uuid,
+    p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_current order_status_enum;
+    v_order jsonb;
+BEGIN
+    -- Lock the order so concurrent staff actions are applied one at a time
+    SELECT status INTO v_current
+    FROM orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT (p_new_status = ANY (allowed_order_transitions(v_current))) THEN
+        RAISE EXCEPTION 'Cannot move an order from % to %', v_current, p_new_status
+            USING HINT = 'illegal_transition';
+    END IF;
+
+    IF NOT admin_has_role(p_admin_id, order_status_roles(p_new_status)) THEN
+        RAISE EXCEPTION 'permission denied: your role cannot set orders to %', p_new_status
+            USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE orders
+    SET status = p_new_status
+    WHERE id = p_order_id;
+
+    INSERT INTO order_status_history (order_id, status, note, changed_by)
+    VALUES (p_order_id, p_new_status, NULLIF(trim(p_note), ''), p_admin_id);
+
+    SELECT jsonb_build_object(
+        'id', o.id,
+        'tracking_id', o.tracking_id,
+        'status', o.status,
+        'previous_status', v_current,
+        'updated_at', o.updated_at
+    )
+    INTO v_order
+    FROM orders o
+    WHERE o.id = p_order_id;
+
+    RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION transition_order_status(uuid, order_status_enum, uuid, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION transition_order_status(uuid, order_status_enum, uuid, text) TO service_role;
+
+-- ============================================================================
+-- 4. REJECT DIRECT WRITES THAT BYPASS THE MACHINE
+-- ============================================================================
+
+-- Status history is only written by transition_order_status and the order functions
+DROP POLICY IF EXISTS "Anyone can create status history" ON order_status_history;
+
+-- Staff status changes go through transition_order_status
+DROP POLICY IF EXISTS "Staff can update order status for their role" ON orders;
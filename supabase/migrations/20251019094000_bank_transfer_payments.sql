@@ -0,0 +1,279 @@
+-- ============================================================================
+-- BANK TRANSFER PAYMENTS
+-- Customers pay into one of the active bank_details accounts using a unique
+-- transfer reference, mark the order as paid, and a cashier confirms or
+-- rejects the transfer.
+--
+-- orders.payment_status (payment_status_enum) is used as follows:
+--   pending    -> waiting for the customer to transfer
+--   processing -> customer marked "I have paid", waiting for a cashier
+--   completed  -> cashier confirmed the transfer
+--   failed     -> cashier rejected the transfer (customer may mark paid again)
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TRANSFER REFERENCE AND PAYMENT COLUMNS
+-- ============================================================================
+
+-- Function to generate a transfer reference customers put in the narration
+CREATE OR REPLACE FUNCTION generate_transfer_reference()
+RETURNS text AS $$
+DECLARE
+    chars text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    result text := 'TRF-';
+    i integer;
+BEGIN
+    FOR i IN 1..8 LOOP
+        result := result || substr(chars, floor(random() * length(chars) + 1)::integer, 1);
+    END LOOP;
+    RETURN result;
+END;
+$$ language 'plpgsql';
+
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS transfer_reference text UNIQUE DEFAULT generate_transfer_reference(),
+    ADD COLUMN IF NOT EXISTS transfer_sender_name text,
+    ADD COLUMN IF NOT EXISTS transfer_marked_paid_at timestamptz,
+    ADD COLUMN IF NOT EXISTS payment_bank_detail_id uuid REFERENCES bank_details(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS payment_confirmed_at timestamptz,
+    ADD COLUMN IF NOT EXISTS payment_confirmed_by uuid REFERENCES admin_credentials(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_transfer_reference ON orders(transfer_reference);
+
+-- Audit trail of cashier decisions
+CREATE TABLE IF NOT EXISTS payment_confirmation_history (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id uuid REFERENCES orders(id) ON DELETE CASCADE,
+    confirmed_by uuid REFERENCES admin_credentials(id),
+    status payment_status_enum NOT NULL,
+    note text,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_confirmation_history_order_id ON payment_confirmation_history(order_id);
+
+ALTER TABLE payment_confirmation_history ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 2. CUSTOMER: MARK A TRANSFER AS PAID
+-- ============================================================================
+
+-- Function for the customer who placed the order to report their transfer
+CREATE OR REPLACE FUNCTION mark_transfer_paid(
+    p_tracking_id text,
+    p_session_id text,
+    p_bank_detail_id uuid,
+    p_sender_name text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order orders%ROWTYPE;
+BEGIN
+    SELECT * INTO v_order
+    FROM orders
+    WHERE tracking_id = p_tracking_id
+      AND session_id = p_session_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_order.status = 'cancelled' THEN
+        RAISE EXCEPTION 'This order has been cancelled';
+    END IF;
+
+    IF v_order.payment_status NOT IN ('pending', 'failed') THEN
+        RAISE EXCEPTION 'Payment for this order is already %', v_order.payment_status
+            USING HINT = 'payment_already_reported';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM bank_details WHERE id = p_bank_detail_id AND is_active = true) THEN
+        RAISE EXCEPTION 'Please choose one of the listed bank accounts';
+    END IF;
+
+    UPDATE orders
+    SET
+        payment_status = 'processing',
+        payment_method = 'bank_transfer',
+        payment_reference = v_order.transfer_reference,
+        payment_bank_detail_id = p_bank_detail_id,
+        transfer_sender_name = NULLIF(trim(p_sender_name), ''),
+        transfer_marked_paid_at = now()
+    WHERE id = v_order.id;
+
+    -- One payment_history row per transfer reference; reporting again after a
+    -- rejection reopens the same row
+    INSERT INTO payment_history (
+        order_id,
+        amount,
+        status,
+        payment_method,
+        reference,
+        metadata
+    ) VALUES (
+        v_order.id,
+        v_order.total_amount,
+        'processing',
+        'bank_transfer',
+        v_order.transfer_reference,
+        jsonb_build_object(
+            'bank_detail_id', p_bank_detail_id,
+            'sender_name', NULLIF(trim(p_sender_name), '')
+        )
+    )
+    ON CONFLICT (reference) DO UPDATE
+    SET
+        status = 'processing',
+        metadata = EXCLUDED.metadata;
+
+    RETURN jsonb_build_object(
+        'tracking_id', v_order.tracking_id,
+        'payment_status', 'processing',
+        'transfer_reference', v_order.transfer_reference
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_transfer_paid(text, text, uuid, text) TO anon;
+GRANT EXECUTE ON FUNCTION mark_transfer_paid(text, text, uuid, text) TO authenticated;
+
+-- ============================================================================
+-- 3. CASHIER: CONFIRM OR REJECT A TRANSFER
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS confirm_payment(uuid, uuid, text);
+
+-- Function to confirm payment, restricted to cashiers and owners
+CREATE OR REPLACE FUNCTION confirm_payment(
+    p_order_id uuid,
+    p_admin_id uuid,
+    p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order orders%ROWTYPE;
+BEGIN
+    IF NOT admin_has_role(p_admin_id, ARRAY['owner', 'cashier']::admin_role_enum[]) THEN
+        RAISE EXCEPTION 'permission denied: only cashiers and owners can confirm payments'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_order.payment_status = 'completed' THEN
+        RAISE EXCEPTION 'Payment for this order is already confirmed'
+            USING HINT = 'payment_already_confirmed';
+    END IF;
+
+    UPDATE orders
+    SET
+        payment_status = 'completed',
+        payment_method = COALESCE(payment_method, 'bank_transfer'),
+        payment_reference = COALESCE(payment_reference, transfer_reference),
+        payment_confirmed_at = now(),
+        payment_confirmed_by = p_admin_id
+    WHERE id = p_order_id;
+
+    -- Cashiers may confirm a transfer they can see before the customer reports it
+    INSERT INTO payment_history (order_id, amount, status, payment_method, reference, metadata)
+    VALUES (
+        p_order_id,
+        v_order.total_amount,
+        'completed',
+        COALESCE(v_order.payment_method, 'bank_transfer'),
+        COALESCE(v_order.payment_reference, v_order.transfer_reference),
+        '{}'::jsonb
+    )
+    ON CONFLICT (reference) DO UPDATE
+    SET status = 'completed';
+
+    INSERT INTO payment_confirmation_history (order_id, confirmed_by, status, note)
+    VALUES (p_order_id, p_admin_id, 'completed', NULLIF(trim(p_note), ''));
+
+    IF v_order.status = 'pending' THEN
+        PERFORM transition_order_status(
+            p_order_id,
+            'payment_received',
+            p_admin_id,
+            'Payment confirmed' || COALESCE(': ' || NULLIF(trim(p_note), ''), '')
+        );
+    END IF;
+
+    RETURN jsonb_build_object(
+        'id', v_order.id,
+        'tracking_id', v_order.tracking_id,
+        'payment_status', 'completed',
+        'payment_confirmed_at', now()
+    );
+END;
+$$;
+
+-- Function to reject a reported transfer, restricted to cashiers and owners
+CREATE OR REPLACE FUNCTION reject_payment(
+    p_order_id uuid,
+    p_admin_id uuid,
+    p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order orders%ROWTYPE;
+BEGIN
+    IF NOT admin_has_role(p_admin_id, ARRAY['owner', 'cashier']::admin_role_enum[]) THEN
+        RAISE EXCEPTION 'permission denied: only cashiers and owners can reject payments'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_order.payment_status <> 'processing' THEN
+        RAISE EXCEPTION 'Only payments awaiting confirmation can be rejected'
+            USING HINT = 'payment_not_processing';
+    END IF;
+
+    UPDATE orders
+    SET payment_status = 'failed'
+    WHERE id = p_order_id;
+
+    UPDATE payment_history
+    SET status = 'failed'
+    WHERE reference = v_order.payment_reference;
+
+    INSERT INTO payment_confirmation_history (order_id, confirmed_by, status, note)
+    VALUES (p_order_id, p_admin_id, 'failed', NULLIF(trim(p_note), ''));
+
+    RETURN jsonb_build_object(
+        'id', v_order.id,
+        'tracking_id', v_order.tracking_id,
+        'payment_status', 'failed'
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION confirm_payment(uuid, uuid, text) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reject_payment(uuid, uuid, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION confirm_payment(uuid, uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION reject_payment(uuid, uuid, text) TO service_role;
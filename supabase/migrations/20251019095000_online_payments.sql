@@ -0,0 +1,251 @@
+-- ============================================================================
+-- ONLINE PAYMENT GATEWAY SUPPORT
+-- Payment providers (Paystack-style gateways or the local mock) report results
+-- through signed webhooks. Each provider event is recorded once, so retries
+-- and duplicate deliveries do not change payment_history twice.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. WEBHOOK EVENT LOG
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider text NOT NULL,
+    event_id text NOT NULL,
+    reference text NOT NULL,
+    status payment_status_enum NOT NULL,
+    amount decimal(10,2),
+    payload jsonb DEFAULT '{}',
+    created_at timestamptz DEFAULT now(),
+    UNIQUE (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_reference ON payment_webhook_events(reference);
+
+ALTER TABLE payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 2. ALLOW SYSTEM STATUS TRANSITIONS
+-- ============================================================================
+
+-- A NULL p_admin_id means the change was made by the system (e.g. a confirmed
+-- gateway payment). Only the service role can call this function.
+CREATE OR REPLACE FUNCTION transition_order_status(
+    p_order_id uuid,
+    p_new_status order_status_enum,
+    p_admin_id uuid,
+    p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_current order_status_enum;
+    v_order jsonb;
+BEGIN
+    -- Lock the order so concurrent staff actions are applied one at a time
+    SELECT status INTO v_current
+    FROM orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT (p_new_status = ANY (allowed_order_transitions(v_current))) THEN
+        RAISE EXCEPTION 'Cannot move an order from % to %', v_current, p_new_status
+            USING HINT = 'illegal_transition';
+    END IF;
+
+    IF p_admin_id IS NOT NULL AND NOT admin_has_role(p_admin_id, order_status_roles(p_new_status)) THEN
+        RAISE EXCEPTION 'permission denied: your role cannot set orders to %', p_new_status
+            USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE orders
+    SET status = p_new_status
+    WHERE id = p_order_id;
+
+    INSERT INTO order_status_history (order_id, status, note, changed_by)
+    VALUES (p_order_id, p_new_status, NULLIF(trim(p_note), ''), p_admin_id);
+
+    SELECT jsonb_build_object(
+        'id', o.id,
+        'tracking_id', o.tracking_id,
+        'status', o.status,
+        'previous_status', v_current,
+        'updated_at', o.updated_at
+    )
+    INTO v_order
+    FROM orders o
+    WHERE o.id = p_order_id;
+
+    RETURN v_order;
+END;
+$$;
+
+-- ============================================================================
+-- 3. START AN ONLINE PAYMENT
+-- ============================================================================
+
+-- Function to open a gateway payment for an order placed from p_session_id.
+-- The amount always comes from orders.total_amount.
+CREATE OR REPLACE FUNCTION start_online_payment(
+    p_tracking_id text,
+    p_session_id text,
+    p_reference text,
+    p_provider text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order orders%ROWTYPE;
+BEGIN
+    SELECT * INTO v_order
+    FROM orders
+    WHERE tracking_id = p_tracking_id
+      AND session_id = p_session_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_order.status = 'cancelled' THEN
+        RAISE EXCEPTION 'This order has been cancelled';
+    END IF;
+
+    IF v_order.payment_status IN ('processing', 'completed') AND v_order.payment_method <> 'card_payment' THEN
+        RAISE EXCEPTION 'Payment for this order is already %', v_order.payment_status
+            USING HINT = 'payment_already_reported';
+    END IF;
+
+    IF v_order.payment_status = 'completed' THEN
+        RAISE EXCEPTION 'This order has already been paid'
+            USING HINT = 'payment_already_confirmed';
+    END IF;
+
+    INSERT INTO payment_history (order_id, amount, status, payment_method, reference, metadata)
+    VALUES (
+        v_order.id,
+        v_order.total_amount,
+        'pending',
+        'card_payment',
+        p_reference,
+        jsonb_build_object('provider', p_provider)
+    );
+
+    UPDATE orders
+    SET
+        payment_method = 'card_payment',
+        payment_reference = p_reference,
+        payment_status = 'pending'
+    WHERE id = v_order.id;
+
+    RETURN jsonb_build_object(
+        'order_id', v_order.id,
+        'tracking_id', v_order.tracking_id,
+        'amount', v_order.total_amount,
+        'reference', p_reference
+    );
+END;
+$$;
+
+-- ============================================================================
+-- 4. RECORD A PROVIDER RESULT (IDEMPOTENT)
+-- ============================================================================
+
+-- Function to apply a verified gateway result to payment_history and the order.
+-- Returns { "duplicate": true } if this provider event was already recorded.
+CREATE OR REPLACE FUNCTION record_payment_result(
+    p_provider text,
+    p_event_id text,
+    p_reference text,
+    p_status payment_status_enum,
+    p_amount decimal,
+    p_payload jsonb DEFAULT '{}'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_payment payment_history%ROWTYPE;
+    v_order orders%ROWTYPE;
+    v_inserted integer;
+BEGIN
+    INSERT INTO payment_webhook_events (provider, event_id, reference, status, amount, payload)
+    VALUES (p_provider, p_event_id, p_reference, p_status, p_amount, COALESCE(p_payload, '{}'))
+    ON CONFLICT (provider, event_id) DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+    IF v_inserted = 0 THEN
+        RETURN jsonb_build_object('duplicate', true, 'reference', p_reference);
+    END IF;
+
+    SELECT * INTO v_payment
+    FROM payment_history
+    WHERE reference = p_reference
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown payment reference %', p_reference
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    -- A completed payment is final; late or out-of-order events are only logged
+    IF v_payment.status = 'completed' THEN
+        RETURN jsonb_build_object('duplicate', false, 'reference', p_reference, 'status', v_payment.status);
+    END IF;
+
+    SELECT * INTO v_order FROM orders WHERE id = v_payment.order_id FOR UPDATE;
+
+    UPDATE payment_history
+    SET
+        status = p_status,
+        amount = COALESCE(NULLIF(p_amount, 0), amount),
+        metadata = metadata || jsonb_build_object('last_event_id', p_event_id)
+    WHERE id = v_payment.id;
+
+    -- Only the order's current payment reference can change its payment status
+    IF v_order.payment_reference = p_reference THEN
+        IF p_status = 'completed' AND p_amount = v_order.total_amount THEN
+            UPDATE orders
+            SET
+                payment_status = 'completed',
+                payment_confirmed_at = now()
+            WHERE id = v_order.id;
+
+            IF v_order.status = 'pending' THEN
+                PERFORM transition_order_status(v_order.id, 'payment_received', NULL, 'Paid online via ' || p_provider);
+            END IF;
+        ELSIF p_status = 'completed' THEN
+            -- Amount mismatch: hold for a cashier to reconcile
+            UPDATE orders
+            SET payment_status = 'processing'
+            WHERE id = v_order.id;
+        ELSE
+            UPDATE orders
+            SET payment_status = p_status
+            WHERE id = v_order.id;
+        END IF;
+    END IF;
+
+    RETURN jsonb_build_object('duplicate', false, 'reference', p_reference, 'status', p_status);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION start_online_payment(text, text, text, text) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_payment_result(text, text, text, payment_status_enum, decimal, jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION start_online_payment(text, text, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION record_payment_result(text, text, text, payment_status_enum, decimal, jsonb) TO service_role;
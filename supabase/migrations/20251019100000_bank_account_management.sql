@@ -0,0 +1,95 @@
+-- ============================================================================
+-- BANK ACCOUNT MANAGEMENT
+-- Owners manage the accounts customers pay into from the admin dashboard.
+-- Accounts are deactivated rather than deleted (payments reference them), are
+-- shown in sort_order, and at least one account must always stay active.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. AUDIT AND ORDERING COLUMNS
+-- ============================================================================
+
+ALTER TABLE bank_details
+    ADD COLUMN IF NOT EXISTS sort_order integer NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES admin_credentials(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS updated_by uuid REFERENCES admin_credentials(id) ON DELETE SET NULL;
+
+-- Keep the current display order (oldest first) for seeded accounts
+UPDATE bank_details b
+SET sort_order = ordered.position
+FROM (
+    SELECT id, row_number() OVER (ORDER BY created_at) AS position
+    FROM bank_details
+) ordered
+WHERE b.id = ordered.id
+  AND b.sort_order = 0;
+
+CREATE INDEX IF NOT EXISTS idx_bank_details_sort_order ON bank_details(sort_order);
+
+-- ============================================================================
+-- 2. AT LEAST ONE ACTIVE ACCOUNT
+-- ============================================================================
+
+-- Function to stop the last active account from being deactivated or deleted
+CREATE OR REPLACE FUNCTION ensure_active_bank_account()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.is_active AND (TG_OP = 'DELETE' OR NOT NEW.is_active) THEN
+        -- Lock the active accounts so two owners can't deactivate the last two at once
+        PERFORM 1 FROM bank_details WHERE is_active = true FOR UPDATE;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM bank_details
+            WHERE is_active = true
+              AND id <> OLD.id
+        ) THEN
+            RAISE EXCEPTION 'At least one bank account must remain active'
+                USING HINT = 'last_active_account';
+        END IF;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS ensure_active_bank_account ON bank_details;
+CREATE TRIGGER ensure_active_bank_account
+    BEFORE UPDATE OR DELETE ON bank_details
+    FOR EACH ROW
+    EXECUTE FUNCTION ensure_active_bank_account();
+
+-- ============================================================================
+-- 3. REORDER ACCOUNTS
+-- ============================================================================
+
+-- Function to set the checkout display order; p_ids lists accounts top to bottom
+CREATE OR REPLACE FUNCTION reorder_bank_details(
+    p_ids uuid[],
+    p_admin_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT admin_has_role(p_admin_id, ARRAY['owner']::admin_role_enum[]) THEN
+        RAISE EXCEPTION 'permission denied: only owners can manage bank accounts'
+            USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE bank_details b
+    SET
+        sort_order = ordered.position,
+        updated_by = p_admin_id
+    FROM unnest(p_ids) WITH ORDINALITY AS ordered(id, position)
+    WHERE b.id = ordered.id
+      AND b.sort_order IS DISTINCT FROM ordered.position;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reorder_bank_details(uuid[], uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reorder_bank_details(uuid[], uuid) TO service_role;
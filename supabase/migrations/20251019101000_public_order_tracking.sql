@@ -0,0 +1,232 @@
+-- ============================================================================
+-- PUBLIC ORDER TRACKING
+-- Anyone with an order's tracking ID and the last 4 digits of the phone number
+-- given at checkout can see its status timeline from any device. track_order
+-- only returns status data: no customer notes, contact details or other orders.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. CUSTOMER PHONE ON ORDERS
+-- ============================================================================
+
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS customer_phone text;
+
+-- Function to normalise a phone number to digits only, or NULL if it is not plausible
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN length(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g')) BETWEEN 10 AND 14
+            THEN regexp_replace(p_phone, '\D', '', 'g')
+        ELSE NULL
+    END;
+$$;
+
+-- ============================================================================
+-- 2. ACCEPT THE PHONE NUMBER WHEN CREATING ORDERS
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_order_with_items(text, text, jsonb, text, decimal);
+
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_session_id text,
+  p_tracking_id text,
+  p_order_items jsonb,
+  p_customer_note text DEFAULT '',
+  p_expected_total decimal DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_order jsonb;
+  v_pricing jsonb;
+  v_total decimal(10,2);
+  v_phone text;
+BEGIN
+  -- Check for duplicate tracking ID
+  IF EXISTS (SELECT 1 FROM orders WHERE tracking_id = p_tracking_id) THEN
+    RAISE EXCEPTION 'Duplicate tracking ID';
+  END IF;
+
+  v_phone := normalize_phone(p_customer_phone);
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Please enter a valid phone number'
+      USING HINT = 'invalid_phone';
+  END IF;
+
+  v_pricing := price_order_items(p_order_items);
+
+  IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+    RAISE EXCEPTION 'Some items in your order cannot be ordered'
+      USING DETAIL = (v_pricing->'errors')::text,
+            HINT = 'order_items_invalid';
+  END IF;
+
+  v_total := (v_pricing->>'total_amount')::decimal;
+
+  IF v_total <= 0 THEN
+    RAISE EXCEPTION 'Invalid order total amount';
+  END IF;
+
+  IF p_expected_total IS NOT NULL AND p_expected_total <> v_total THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout'
+      USING DETAIL = v_pricing::text,
+            HINT = 'price_changed';
+  END IF;
+
+  -- Create order
+  INSERT INTO orders (
+    session_id,
+    total_amount,
+    tracking_id,
+    customer_note,
+    customer_phone,
+    status
+  ) VALUES (
+    p_session_id,
+    v_total,
+    p_tracking_id,
+    COALESCE(p_customer_note, ''),
+    v_phone,
+    'pending'
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items at the server-side unit price
+  INSERT INTO order_items (
+    order_id,
+    food_item_id,
+    quantity,
+    unit_price
+  )
+  SELECT
+    v_order_id,
+    (item->>'food_item_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'unit_price')::decimal
+  FROM jsonb_array_elements(v_pricing->'items') AS item;
+
+  -- Add initial status to history
+  INSERT INTO order_status_history (
+    order_id,
+    status
+  ) VALUES (
+    v_order_id,
+    'pending'
+  );
+
+  -- Return the created order with its items
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'session_id', o.session_id,
+    'total_amount', o.total_amount,
+    'status', o.status,
+    'tracking_id', o.tracking_id,
+    'customer_note', o.customer_note,
+    'customer_phone', o.customer_phone,
+    'created_at', o.created_at,
+    'order_items', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'food_item_id', oi.food_item_id,
+          'name', fi.name,
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price
+        )
+      )
+      FROM order_items oi
+      JOIN food_items fi ON fi.id = oi.food_item_id
+      WHERE oi.order_id = o.id
+    )
+  )
+  INTO v_order
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text) TO anon;
+
+-- ============================================================================
+-- 3. TRACKING LOOKUP
+-- ============================================================================
+
+-- Failed lookups, used to slow down guessing of the 4-digit verification
+CREATE TABLE IF NOT EXISTS order_tracking_attempts (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    tracking_id text NOT NULL,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_tracking_attempts_lookup ON order_tracking_attempts(tracking_id, created_at);
+
+ALTER TABLE order_tracking_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Function to look up an order's public status timeline, or NULL if nothing matches
+CREATE OR REPLACE FUNCTION track_order(
+    p_tracking_id text,
+    p_phone_last_digits text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_tracking_id text := upper(trim(p_tracking_id));
+    v_order orders%ROWTYPE;
+BEGIN
+    IF (
+        SELECT count(*) FROM order_tracking_attempts
+        WHERE tracking_id = v_tracking_id
+          AND created_at > now() - interval '15 minutes'
+    ) >= 10 THEN
+        RAISE EXCEPTION 'Too many attempts. Please wait a few minutes and try again.'
+            USING HINT = 'too_many_attempts';
+    END IF;
+
+    SELECT * INTO v_order
+    FROM orders
+    WHERE tracking_id = v_tracking_id;
+
+    -- Unknown codes and wrong digits get the same answer. This returns NULL
+    -- rather than raising, so the failed attempt is kept.
+    IF NOT FOUND
+       OR v_order.customer_phone IS NULL
+       OR length(COALESCE(p_phone_last_digits, '')) <> 4
+       OR right(v_order.customer_phone, 4) <> p_phone_last_digits THEN
+        INSERT INTO order_tracking_attempts (tracking_id) VALUES (v_tracking_id);
+        RETURN NULL;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'tracking_id', v_order.tracking_id,
+        'status', v_order.status,
+        'created_at', v_order.created_at,
+        'updated_at', v_order.updated_at,
+        'timeline', (
+            SELECT COALESCE(jsonb_agg(
+                jsonb_build_object('status', h.status, 'created_at', h.created_at)
+                ORDER BY h.created_at
+            ), '[]'::jsonb)
+            FROM order_status_history h
+            WHERE h.order_id = v_order.id
+        )
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION track_order(text, text) TO anon;
+GRANT EXECUTE ON FUNCTION track_order(text, text) TO authenticated;
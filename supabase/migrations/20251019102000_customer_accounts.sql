@@ -0,0 +1,226 @@
+-- ============================================================================
+-- CUSTOMER ACCOUNTS (PHONE OTP)
+-- Customers can optionally sign in with a one-time code sent to their phone.
+-- Each account owns a canonical session_id. Signing in on a device moves that
+-- device's anonymous orders onto the account's session_id, and the device then
+-- adopts it, so order history, tracking and realtime updates follow the
+-- customer across devices.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS customers (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    phone text UNIQUE NOT NULL,
+    display_name text,
+    session_id text UNIQUE NOT NULL,
+    last_sign_in_at timestamptz,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS customer_otp_codes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    phone text NOT NULL,
+    code_hash text NOT NULL,
+    attempts integer NOT NULL DEFAULT 0,
+    expires_at timestamptz NOT NULL,
+    consumed_at timestamptz,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS customer_sessions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    user_agent text,
+    created_at timestamptz DEFAULT now(),
+    expires_at timestamptz NOT NULL,
+    revoked_at timestamptz
+);
+
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customer_otp_codes_phone ON customer_otp_codes(phone, created_at);
+CREATE INDEX IF NOT EXISTS idx_customer_sessions_customer_id ON customer_sessions(customer_id);
+CREATE INDEX IF NOT EXISTS idx_orders_customer_id ON orders(customer_id);
+
+-- Only the server (service role) reads or writes these tables
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_otp_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_customers_updated_at ON customers;
+CREATE TRIGGER update_customers_updated_at
+    BEFORE UPDATE ON customers
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. PHONE NUMBERS
+-- ============================================================================
+
+-- Function to key accounts by phone, treating 0801... and 234801... as the same number
+CREATE OR REPLACE FUNCTION customer_phone_key(p_phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN normalize_phone(p_phone) ~ '^0\d{10}$' THEN '234' || substr(normalize_phone(p_phone), 2)
+        ELSE normalize_phone(p_phone)
+    END;
+$$;
+
+-- ============================================================================
+-- 3. ONE-TIME CODES
+-- ============================================================================
+
+-- Function to issue a 6-digit code for p_phone. Returns the code so the server
+-- can send it; only its hash is stored.
+CREATE OR REPLACE FUNCTION issue_customer_otp(p_phone text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_phone text := customer_phone_key(p_phone);
+    v_code text;
+BEGIN
+    IF v_phone IS NULL THEN
+        RAISE EXCEPTION 'Please enter a valid phone number'
+            USING HINT = 'invalid_phone';
+    END IF;
+
+    IF (
+        SELECT count(*) FROM customer_otp_codes
+        WHERE phone = v_phone
+          AND created_at > now() - interval '1 hour'
+    ) >= 5 THEN
+        RAISE EXCEPTION 'Too many codes requested. Please try again later.'
+            USING HINT = 'otp_rate_limited';
+    END IF;
+
+    -- Older codes stop working once a new one is sent
+    UPDATE customer_otp_codes
+    SET consumed_at = now()
+    WHERE phone = v_phone
+      AND consumed_at IS NULL;
+
+    v_code := lpad(floor(random() * 1000000)::integer::text, 6, '0');
+
+    INSERT INTO customer_otp_codes (phone, code_hash, expires_at)
+    VALUES (v_phone, crypt(v_code, gen_salt('bf', 8)), now() + interval '10 minutes');
+
+    RETURN jsonb_build_object('phone', v_phone, 'code', v_code);
+END;
+$$;
+
+-- Function to check a code, create the account on first sign-in and merge the
+-- device's anonymous orders into it
+CREATE OR REPLACE FUNCTION verify_customer_otp(
+    p_phone text,
+    p_code text,
+    p_session_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_phone text := customer_phone_key(p_phone);
+    v_otp customer_otp_codes%ROWTYPE;
+    v_customer customers%ROWTYPE;
+    v_merged integer := 0;
+BEGIN
+    SELECT * INTO v_otp
+    FROM customer_otp_codes
+    WHERE phone = v_phone
+      AND consumed_at IS NULL
+      AND expires_at > now()
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_otp.attempts >= 5 THEN
+        RAISE EXCEPTION 'This code has expired. Please request a new one.'
+            USING HINT = 'otp_expired';
+    END IF;
+
+    IF v_otp.code_hash <> crypt(COALESCE(p_code, ''), v_otp.code_hash) THEN
+        -- Count the failed attempt; the RETURN keeps it from being rolled back
+        UPDATE customer_otp_codes SET attempts = attempts + 1 WHERE id = v_otp.id;
+        RETURN jsonb_build_object('verified', false, 'attempts_left', 4 - v_otp.attempts);
+    END IF;
+
+    UPDATE customer_otp_codes SET consumed_at = now() WHERE id = v_otp.id;
+
+    SELECT * INTO v_customer FROM customers WHERE phone = v_phone FOR UPDATE;
+
+    IF NOT FOUND THEN
+        -- The first device's session becomes the account's session
+        INSERT INTO customers (phone, session_id, last_sign_in_at)
+        VALUES (v_phone, p_session_id, now())
+        RETURNING * INTO v_customer;
+    ELSE
+        UPDATE customers SET last_sign_in_at = now() WHERE id = v_customer.id;
+    END IF;
+
+    -- Move this device's anonymous orders onto the account
+    IF p_session_id IS NOT NULL AND p_session_id <> v_customer.session_id THEN
+        UPDATE orders
+        SET session_id = v_customer.session_id
+        WHERE session_id = p_session_id
+          AND customer_id IS NULL;
+        GET DIAGNOSTICS v_merged = ROW_COUNT;
+    END IF;
+
+    UPDATE orders
+    SET customer_id = v_customer.id
+    WHERE session_id = v_customer.session_id
+      AND customer_id IS NULL;
+
+    RETURN jsonb_build_object(
+        'verified', true,
+        'merged_orders', v_merged,
+        'customer', jsonb_build_object(
+            'id', v_customer.id,
+            'phone', v_customer.phone,
+            'display_name', v_customer.display_name,
+            'session_id', v_customer.session_id
+        )
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION issue_customer_otp(text) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION verify_customer_otp(text, text, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION issue_customer_otp(text) TO service_role;
+GRANT EXECUTE ON FUNCTION verify_customer_otp(text, text, text) TO service_role;
+
+-- ============================================================================
+-- 4. LINK NEW ORDERS TO THE ACCOUNT
+-- ============================================================================
+
+-- Function to attach orders placed from an account's session to that account
+CREATE OR REPLACE FUNCTION set_order_customer()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.customer_id IS NULL THEN
+        SELECT id INTO NEW.customer_id
+        FROM customers
+        WHERE session_id = NEW.session_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_order_customer ON orders;
+CREATE TRIGGER set_order_customer
+    BEFORE INSERT ON orders
+    FOR EACH ROW
+    EXECUTE FUNCTION set_order_customer();
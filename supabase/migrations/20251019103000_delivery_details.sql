@@ -0,0 +1,236 @@
+-- ============================================================================
+-- DELIVERY DETAILS
+-- Orders carry a structured delivery address: the recipient's name and phone,
+-- a campus location picked from a list owners manage (hostels, faculties and
+-- landmarks) and a room or office. The location name is copied onto the order
+-- so renaming or retiring a location does not change past orders.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. CAMPUS LOCATIONS
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE campus_location_type_enum AS ENUM ('hostel', 'faculty', 'landmark');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS campus_locations (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text UNIQUE NOT NULL,
+    type campus_location_type_enum NOT NULL,
+    is_active boolean NOT NULL DEFAULT true,
+    sort_order integer NOT NULL DEFAULT 0,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campus_locations_is_active ON campus_locations(is_active);
+
+ALTER TABLE campus_locations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active campus locations" ON campus_locations;
+CREATE POLICY "Anyone can view active campus locations"
+    ON campus_locations
+    FOR SELECT
+    TO public
+    USING (is_active = true);
+
+DROP TRIGGER IF EXISTS update_campus_locations_updated_at ON campus_locations;
+CREATE TRIGGER update_campus_locations_updated_at
+    BEFORE UPDATE ON campus_locations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Starter list; owners edit it from the admin Delivery tab
+INSERT INTO campus_locations (name, type, sort_order) VALUES
+    ('Male Hostel', 'hostel', 1),
+    ('Female Hostel', 'hostel', 2),
+    ('School of Engineering', 'faculty', 3),
+    ('School of Applied Science', 'faculty', 4),
+    ('School of Management Studies', 'faculty', 5),
+    ('School of Environmental Studies', 'faculty', 6),
+    ('Library', 'landmark', 7),
+    ('Main Gate', 'landmark', 8),
+    ('Sports Complex', 'landmark', 9)
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================================================
+-- 2. DELIVERY COLUMNS ON ORDERS
+-- ============================================================================
+
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS customer_name text,
+    ADD COLUMN IF NOT EXISTS delivery_location_id uuid REFERENCES campus_locations(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS delivery_location_name text,
+    ADD COLUMN IF NOT EXISTS delivery_room text;
+
+-- ============================================================================
+-- 3. REQUIRE DELIVERY DETAILS WHEN CREATING ORDERS
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_order_with_items(text, text, jsonb, text, decimal, text);
+
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_session_id text,
+  p_tracking_id text,
+  p_order_items jsonb,
+  p_customer_note text DEFAULT '',
+  p_expected_total decimal DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_delivery_location_id uuid DEFAULT NULL,
+  p_delivery_room text DEFAULT NULL
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_order jsonb;
+  v_pricing jsonb;
+  v_total decimal(10,2);
+  v_phone text;
+  v_location campus_locations%ROWTYPE;
+BEGIN
+  -- Check for duplicate tracking ID
+  IF EXISTS (SELECT 1 FROM orders WHERE tracking_id = p_tracking_id) THEN
+    RAISE EXCEPTION 'Duplicate tracking ID';
+  END IF;
+
+  v_phone := normalize_phone(p_customer_phone);
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Please enter a valid phone number'
+      USING HINT = 'invalid_phone';
+  END IF;
+
+  IF length(trim(COALESCE(p_customer_name, ''))) NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'Please enter the name we should deliver to'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  SELECT * INTO v_location
+  FROM campus_locations
+  WHERE id = p_delivery_location_id
+    AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Please choose a delivery location from the list'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  IF length(trim(COALESCE(p_delivery_room, ''))) NOT BETWEEN 1 AND 50 THEN
+    RAISE EXCEPTION 'Please enter your room or office'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  v_pricing := price_order_items(p_order_items);
+
+  IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+    RAISE EXCEPTION 'Some items in your order cannot be ordered'
+      USING DETAIL = (v_pricing->'errors')::text,
+            HINT = 'order_items_invalid';
+  END IF;
+
+  v_total := (v_pricing->>'total_amount')::decimal;
+
+  IF v_total <= 0 THEN
+    RAISE EXCEPTION 'Invalid order total amount';
+  END IF;
+
+  IF p_expected_total IS NOT NULL AND p_expected_total <> v_total THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout'
+      USING DETAIL = v_pricing::text,
+            HINT = 'price_changed';
+  END IF;
+
+  -- Create order
+  INSERT INTO orders (
+    session_id,
+    total_amount,
+    tracking_id,
+    customer_note,
+    customer_phone,
+    customer_name,
+    delivery_location_id,
+    delivery_location_name,
+    delivery_room,
+    status
+  ) VALUES (
+    p_session_id,
+    v_total,
+    p_tracking_id,
+    COALESCE(p_customer_note, ''),
+    v_phone,
+    trim(p_customer_name),
+    v_location.id,
+    v_location.name,
+    trim(p_delivery_room),
+    'pending'
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items at the server-side unit price
+  INSERT INTO order_items (
+    order_id,
+    food_item_id,
+    quantity,
+    unit_price
+  )
+  SELECT
+    v_order_id,
+    (item->>'food_item_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'unit_price')::decimal
+  FROM jsonb_array_elements(v_pricing->'items') AS item;
+
+  -- Add initial status to history
+  INSERT INTO order_status_history (
+    order_id,
+    status
+  ) VALUES (
+    v_order_id,
+    'pending'
+  );
+
+  -- Return the created order with its items
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'session_id', o.session_id,
+    'total_amount', o.total_amount,
+    'status', o.status,
+    'tracking_id', o.tracking_id,
+    'customer_note', o.customer_note,
+    'customer_phone', o.customer_phone,
+    'customer_name', o.customer_name,
+    'delivery_location_name', o.delivery_location_name,
+    'delivery_room', o.delivery_room,
+    'created_at', o.created_at,
+    'order_items', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'food_item_id', oi.food_item_id,
+          'name', fi.name,
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price
+        )
+      )
+      FROM order_items oi
+      JOIN food_items fi ON fi.id = oi.food_item_id
+      WHERE oi.order_id = o.id
+    )
+  )
+  INTO v_order
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text) TO anon;
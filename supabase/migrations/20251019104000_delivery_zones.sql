@@ -0,0 +1,268 @@
+-- ============================================================================
+-- DELIVERY ZONES
+-- Owners group campus into delivery zones (e.g. main campus, off-campus
+-- hostels, staff quarters), each with its own fee and minimum order. The fee
+-- is added to the server-computed total and stored separately on the order,
+-- so food revenue (subtotal_amount) and delivery revenue (delivery_fee) can be
+-- reported apart.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. ZONES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS delivery_zones (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text UNIQUE NOT NULL,
+    description text,
+    fee decimal(10,2) NOT NULL DEFAULT 0 CHECK (fee >= 0),
+    min_order_amount decimal(10,2) NOT NULL DEFAULT 0 CHECK (min_order_amount >= 0),
+    is_active boolean NOT NULL DEFAULT true,
+    sort_order integer NOT NULL DEFAULT 0,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_zones_is_active ON delivery_zones(is_active);
+
+ALTER TABLE delivery_zones ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active delivery zones" ON delivery_zones;
+CREATE POLICY "Anyone can view active delivery zones"
+    ON delivery_zones
+    FOR SELECT
+    TO public
+    USING (is_active = true);
+
+DROP TRIGGER IF EXISTS update_delivery_zones_updated_at ON delivery_zones;
+CREATE TRIGGER update_delivery_zones_updated_at
+    BEFORE UPDATE ON delivery_zones
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Starter zones; owners edit them from the admin Delivery tab
+INSERT INTO delivery_zones (name, description, fee, min_order_amount, sort_order) VALUES
+    ('Main Campus', 'Hostels, faculties and offices inside the school gate', 200, 0, 1),
+    ('Off-campus Hostels', 'Private hostels around the school', 500, 1500, 2),
+    ('Staff Quarters', 'Staff housing estate', 300, 1000, 3)
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================================================
+-- 2. FEE COLUMNS ON ORDERS
+-- ============================================================================
+
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS subtotal_amount decimal(10,2),
+    ADD COLUMN IF NOT EXISTS delivery_fee decimal(10,2) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS delivery_zone_id uuid REFERENCES delivery_zones(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS delivery_zone_name text;
+
+-- Earlier orders were delivered free, so their total is all food
+UPDATE orders
+SET subtotal_amount = total_amount
+WHERE subtotal_amount IS NULL;
+
+ALTER TABLE orders
+    ALTER COLUMN subtotal_amount SET NOT NULL;
+
+-- ============================================================================
+-- 3. CHARGE THE ZONE FEE WHEN CREATING ORDERS
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text);
+
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_session_id text,
+  p_tracking_id text,
+  p_order_items jsonb,
+  p_customer_note text DEFAULT '',
+  p_expected_total decimal DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_delivery_location_id uuid DEFAULT NULL,
+  p_delivery_room text DEFAULT NULL,
+  p_delivery_zone_id uuid DEFAULT NULL
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_order jsonb;
+  v_pricing jsonb;
+  v_subtotal decimal(10,2);
+  v_total decimal(10,2);
+  v_phone text;
+  v_location campus_locations%ROWTYPE;
+  v_zone delivery_zones%ROWTYPE;
+BEGIN
+  -- Check for duplicate tracking ID
+  IF EXISTS (SELECT 1 FROM orders WHERE tracking_id = p_tracking_id) THEN
+    RAISE EXCEPTION 'Duplicate tracking ID';
+  END IF;
+
+  v_phone := normalize_phone(p_customer_phone);
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Please enter a valid phone number'
+      USING HINT = 'invalid_phone';
+  END IF;
+
+  IF length(trim(COALESCE(p_customer_name, ''))) NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'Please enter the name we should deliver to'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  SELECT * INTO v_location
+  FROM campus_locations
+  WHERE id = p_delivery_location_id
+    AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Please choose a delivery location from the list'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  IF length(trim(COALESCE(p_delivery_room, ''))) NOT BETWEEN 1 AND 50 THEN
+    RAISE EXCEPTION 'Please enter your room or office'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  SELECT * INTO v_zone
+  FROM delivery_zones
+  WHERE id = p_delivery_zone_id
+    AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Please choose a delivery zone'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  v_pricing := price_order_items(p_order_items);
+
+  IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+    RAISE EXCEPTION 'Some items in your order cannot be ordered'
+      USING DETAIL = (v_pricing->'errors')::text,
+            HINT = 'order_items_invalid';
+  END IF;
+
+  v_subtotal := (v_pricing->>'total_amount')::decimal;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'Invalid order total amount';
+  END IF;
+
+  IF v_subtotal < v_zone.min_order_amount THEN
+    RAISE EXCEPTION 'Orders to % must be at least ₦%', v_zone.name, v_zone.min_order_amount
+      USING DETAIL = jsonb_build_object('min_order_amount', v_zone.min_order_amount)::text,
+            HINT = 'below_minimum_order';
+  END IF;
+
+  -- The delivery fee is charged on top of the food and kept as its own line
+  v_total := v_subtotal + v_zone.fee;
+
+  IF p_expected_total IS NOT NULL AND p_expected_total <> v_total THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout'
+      USING DETAIL = (v_pricing || jsonb_build_object('delivery_fee', v_zone.fee))::text,
+            HINT = 'price_changed';
+  END IF;
+
+  -- Create order
+  INSERT INTO orders (
+    session_id,
+    subtotal_amount,
+    delivery_fee,
+    total_amount,
+    tracking_id,
+    customer_note,
+    customer_phone,
+    customer_name,
+    delivery_location_id,
+    delivery_location_name,
+    delivery_room,
+    delivery_zone_id,
+    delivery_zone_name,
+    status
+  ) VALUES (
+    p_session_id,
+    v_subtotal,
+    v_zone.fee,
+    v_total,
+    p_tracking_id,
+    COALESCE(p_customer_note, ''),
+    v_phone,
+    trim(p_customer_name),
+    v_location.id,
+    v_location.name,
+    trim(p_delivery_room),
+    v_zone.id,
+    v_zone.name,
+    'pending'
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items at the server-side unit price
+  INSERT INTO order_items (
+    order_id,
+    food_item_id,
+    quantity,
+    unit_price
+  )
+  SELECT
+    v_order_id,
+    (item->>'food_item_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'unit_price')::decimal
+  FROM jsonb_array_elements(v_pricing->'items') AS item;
+
+  -- Add initial status to history
+  INSERT INTO order_status_history (
+    order_id,
+    status
+  ) VALUES (
+    v_order_id,
+    'pending'
+  );
+
+  -- Return the created order with its items
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'session_id', o.session_id,
+    'subtotal_amount', o.subtotal_amount,
+    'delivery_fee', o.delivery_fee,
+    'total_amount', o.total_amount,
+    'status', o.status,
+    'tracking_id', o.tracking_id,
+    'customer_note', o.customer_note,
+    'customer_phone', o.customer_phone,
+    'customer_name', o.customer_name,
+    'delivery_location_name', o.delivery_location_name,
+    'delivery_room', o.delivery_room,
+    'delivery_zone_name', o.delivery_zone_name,
+    'created_at', o.created_at,
+    'order_items', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'food_item_id', oi.food_item_id,
+          'name', fi.name,
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price
+        )
+      )
+      FROM order_items oi
+      JOIN food_items fi ON fi.id = oi.food_item_id
+      WHERE oi.order_id = o.id
+    )
+  )
+  INTO v_order
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid) TO anon;
@@ -0,0 +1,7 @@
+-- ============================================================================
+-- READY FOR PICKUP STATUS
+-- Added on its own because a new enum value can't be used in the same
+-- transaction that adds it. The pickup flow itself is in the next migration.
+-- ============================================================================
+
+ALTER TYPE order_status_enum ADD VALUE IF NOT EXISTS 'ready_for_pickup' AFTER 'preparing';
@@ -0,0 +1,483 @@
+-- ============================================================================
+-- PICKUP ORDERS
+-- Orders are either delivered or collected at the counter. Pickup orders skip
+-- `dispatched`: they go preparing -> ready_for_pickup -> delivered (shown as
+-- "Collected"). Each pickup order gets a 4-digit code, and staff must enter it
+-- through collect_pickup_order before the order can be closed.
+--
+--   pickup: preparing        -> ready_for_pickup | cancelled
+--           ready_for_pickup -> delivered | cancelled
+-- ============================================================================
+
+-- ============================================================================
+-- 1. FULFILMENT MODE ON ORDERS
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE fulfilment_mode_enum AS ENUM ('delivery', 'pickup');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS fulfilment_mode fulfilment_mode_enum NOT NULL DEFAULT 'delivery',
+    ADD COLUMN IF NOT EXISTS pickup_code text,
+    ADD COLUMN IF NOT EXISTS pickup_verified_at timestamptz,
+    ADD COLUMN IF NOT EXISTS pickup_verified_by uuid REFERENCES admin_credentials(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- 2. MODE-AWARE TRANSITION GRAPH AND ROLES
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS allowed_order_transitions(order_status_enum);
+DROP FUNCTION IF EXISTS order_status_roles(order_status_enum);
+
+-- Statuses an order may move to from p_from. Mirrors ORDER_STATUS_TRANSITIONS in lib/order-status.ts
+CREATE OR REPLACE FUNCTION allowed_order_transitions(
+    p_from order_status_enum,
+    p_mode fulfilment_mode_enum DEFAULT 'delivery'
+)
+RETURNS order_status_enum[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN p_from = 'pending' THEN ARRAY['payment_received', 'cancelled']::order_status_enum[]
+        WHEN p_from = 'payment_received' THEN ARRAY['confirmed', 'cancelled']::order_status_enum[]
+        WHEN p_from = 'confirmed' THEN ARRAY['preparing', 'cancelled']::order_status_enum[]
+        WHEN p_from = 'preparing' AND p_mode = 'pickup' THEN ARRAY['ready_for_pickup', 'cancelled']::order_status_enum[]
+        WHEN p_from = 'preparing' THEN ARRAY['dispatched', 'cancelled']::order_status_enum[]
+        WHEN p_from = 'ready_for_pickup' THEN ARRAY['delivered', 'cancelled']::order_status_enum[]
+        WHEN p_from = 'dispatched' THEN ARRAY['delivered']::order_status_enum[]
+        ELSE ARRAY[]::order_status_enum[]
+    END;
+$$;
+
+-- Roles allowed to move an order into each status. Mirrors ORDER_STATUS_ROLES in lib/admin-roles.ts
+CREATE OR REPLACE FUNCTION order_status_roles(
+    p_status order_status_enum,
+    p_mode fulfilment_mode_enum DEFAULT 'delivery'
+)
+RETURNS admin_role_enum[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN p_status = 'payment_received' THEN ARRAY['owner', 'cashier']::admin_role_enum[]
+        WHEN p_status = 'confirmed' THEN ARRAY['owner', 'cashier']::admin_role_enum[]
+        WHEN p_status = 'preparing' THEN ARRAY['owner', 'kitchen']::admin_role_enum[]
+        WHEN p_status = 'ready_for_pickup' THEN ARRAY['owner', 'kitchen']::admin_role_enum[]
+        WHEN p_status = 'dispatched' THEN ARRAY['owner', 'dispatcher']::admin_role_enum[]
+        -- Pickups are handed over at the counter
+        WHEN p_status = 'delivered' AND p_mode = 'pickup' THEN ARRAY['owner', 'kitchen', 'cashier']::admin_role_enum[]
+        WHEN p_status = 'delivered' THEN ARRAY['owner', 'dispatcher']::admin_role_enum[]
+        WHEN p_status = 'cancelled' THEN ARRAY['owner', 'cashier']::admin_role_enum[]
+        ELSE ARRAY['owner']::admin_role_enum[]
+    END;
+$$;
+
+-- ============================================================================
+-- 3. TRANSITION FUNCTION
+-- ============================================================================
+
+-- A NULL p_admin_id means the change was made by the system. Pickup orders can
+-- only be closed after collect_pickup_order has checked the pickup code.
+CREATE OR REPLACE FUNCTION transition_order_status(
+    p_order_id uuid,
+    p_new_status order_status_enum,
+    p_admin_id uuid,
+    p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_current orders%ROWTYPE;
+    v_order jsonb;
+BEGIN
+    -- Lock the order so concurrent staff actions are applied one at a time
+    SELECT * INTO v_current
+    FROM orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT (p_new_status = ANY (allowed_order_transitions(v_current.status, v_current.fulfilment_mode))) THEN
+        RAISE EXCEPTION 'Cannot move an order from % to %', v_current.status, p_new_status
+            USING HINT = 'illegal_transition';
+    END IF;
+
+    IF p_admin_id IS NOT NULL
+       AND NOT admin_has_role(p_admin_id, order_status_roles(p_new_status, v_current.fulfilment_mode)) THEN
+        RAISE EXCEPTION 'permission denied: your role cannot set orders to %', p_new_status
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF v_current.fulfilment_mode = 'pickup'
+       AND p_new_status = 'delivered'
+       AND v_current.pickup_verified_at IS NULL THEN
+        RAISE EXCEPTION 'Check the customer''s pickup code before handing over the order'
+            USING HINT = 'pickup_code_required';
+    END IF;
+
+    UPDATE orders
+    SET status = p_new_status
+    WHERE id = p_order_id;
+
+    INSERT INTO order_status_history (order_id, status, note, changed_by)
+    VALUES (p_order_id, p_new_status, NULLIF(trim(p_note), ''), p_admin_id);
+
+    SELECT jsonb_build_object(
+        'id', o.id,
+        'tracking_id', o.tracking_id,
+        'status', o.status,
+        'previous_status', v_current.status,
+        'updated_at', o.updated_at
+    )
+    INTO v_order
+    FROM orders o
+    WHERE o.id = p_order_id;
+
+    RETURN v_order;
+END;
+$$;
+
+-- ============================================================================
+-- 4. COLLECTING PICKUP ORDERS
+-- ============================================================================
+
+-- Function to check a pickup code and mark the order collected
+CREATE OR REPLACE FUNCTION collect_pickup_order(
+    p_order_id uuid,
+    p_code text,
+    p_admin_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order orders%ROWTYPE;
+BEGIN
+    SELECT * INTO v_order
+    FROM orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_order.fulfilment_mode <> 'pickup' OR v_order.status <> 'ready_for_pickup' THEN
+        RAISE EXCEPTION 'This order is not waiting to be collected'
+            USING HINT = 'illegal_transition';
+    END IF;
+
+    IF NOT admin_has_role(p_admin_id, order_status_roles('delivered', 'pickup')) THEN
+        RAISE EXCEPTION 'permission denied: your role cannot hand over pickup orders'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF v_order.pickup_code IS DISTINCT FROM trim(COALESCE(p_code, '')) THEN
+        RAISE EXCEPTION 'That pickup code does not match this order'
+            USING HINT = 'invalid_pickup_code';
+    END IF;
+
+    UPDATE orders
+    SET pickup_verified_at = now(),
+        pickup_verified_by = p_admin_id
+    WHERE id = p_order_id;
+
+    RETURN transition_order_status(p_order_id, 'delivered', p_admin_id, 'Pickup code verified');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION collect_pickup_order(uuid, text, uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION collect_pickup_order(uuid, text, uuid) TO service_role;
+
+-- ============================================================================
+-- 5. CHOOSE THE FULFILMENT MODE WHEN CREATING ORDERS
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid);
+
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_session_id text,
+  p_tracking_id text,
+  p_order_items jsonb,
+  p_customer_note text DEFAULT '',
+  p_expected_total decimal DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_delivery_location_id uuid DEFAULT NULL,
+  p_delivery_room text DEFAULT NULL,
+  p_delivery_zone_id uuid DEFAULT NULL,
+  p_fulfilment_mode fulfilment_mode_enum DEFAULT 'delivery'
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_order jsonb;
+  v_pricing jsonb;
+  v_subtotal decimal(10,2);
+  v_total decimal(10,2);
+  v_phone text;
+  v_location campus_locations%ROWTYPE;
+  v_zone delivery_zones%ROWTYPE;
+  v_delivery_fee decimal(10,2) := 0;
+  v_pickup_code text;
+BEGIN
+  -- Check for duplicate tracking ID
+  IF EXISTS (SELECT 1 FROM orders WHERE tracking_id = p_tracking_id) THEN
+    RAISE EXCEPTION 'Duplicate tracking ID';
+  END IF;
+
+  v_phone := normalize_phone(p_customer_phone);
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Please enter a valid phone number'
+      USING HINT = 'invalid_phone';
+  END IF;
+
+  p_fulfilment_mode := COALESCE(p_fulfilment_mode, 'delivery');
+
+  IF length(trim(COALESCE(p_customer_name, ''))) NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'Please enter your name'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' THEN
+    SELECT * INTO v_location
+    FROM campus_locations
+    WHERE id = p_delivery_location_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery location from the list'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    IF length(trim(COALESCE(p_delivery_room, ''))) NOT BETWEEN 1 AND 50 THEN
+      RAISE EXCEPTION 'Please enter your room or office'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    SELECT * INTO v_zone
+    FROM delivery_zones
+    WHERE id = p_delivery_zone_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery zone'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    v_delivery_fee := v_zone.fee;
+  ELSE
+    -- Collected at the counter: no address or fee, just a code to show staff
+    v_pickup_code := lpad(floor(random() * 10000)::integer::text, 4, '0');
+  END IF;
+
+  v_pricing := price_order_items(p_order_items);
+
+  IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+    RAISE EXCEPTION 'Some items in your order cannot be ordered'
+      USING DETAIL = (v_pricing->'errors')::text,
+            HINT = 'order_items_invalid';
+  END IF;
+
+  v_subtotal := (v_pricing->>'total_amount')::decimal;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'Invalid order total amount';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' AND v_subtotal < v_zone.min_order_amount THEN
+    RAISE EXCEPTION 'Orders to % must be at least ₦%', v_zone.name, v_zone.min_order_amount
+      USING DETAIL = jsonb_build_object('min_order_amount', v_zone.min_order_amount)::text,
+            HINT = 'below_minimum_order';
+  END IF;
+
+  -- The delivery fee is charged on top of the food and kept as its own line
+  v_total := v_subtotal + v_delivery_fee;
+
+  IF p_expected_total IS NOT NULL AND p_expected_total <> v_total THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout'
+      USING DETAIL = (v_pricing || jsonb_build_object('delivery_fee', v_delivery_fee))::text,
+            HINT = 'price_changed';
+  END IF;
+
+  -- Create order
+  INSERT INTO orders (
+    session_id,
+    subtotal_amount,
+    delivery_fee,
+    total_amount,
+    tracking_id,
+    customer_note,
+    customer_phone,
+    customer_name,
+    delivery_location_id,
+    delivery_location_name,
+    delivery_room,
+    delivery_zone_id,
+    delivery_zone_name,
+    fulfilment_mode,
+    pickup_code,
+    status
+  ) VALUES (
+    p_session_id,
+    v_subtotal,
+    v_delivery_fee,
+    v_total,
+    p_tracking_id,
+    COALESCE(p_customer_note, ''),
+    v_phone,
+    trim(p_customer_name),
+    v_location.id,
+    v_location.name,
+    NULLIF(trim(p_delivery_room), ''),
+    v_zone.id,
+    v_zone.name,
+    p_fulfilment_mode,
+    v_pickup_code,
+    'pending'
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items at the server-side unit price
+  INSERT INTO order_items (
+    order_id,
+    food_item_id,
+    quantity,
+    unit_price
+  )
+  SELECT
+    v_order_id,
+    (item->>'food_item_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'unit_price')::decimal
+  FROM jsonb_array_elements(v_pricing->'items') AS item;
+
+  -- Add initial status to history
+  INSERT INTO order_status_history (
+    order_id,
+    status
+  ) VALUES (
+    v_order_id,
+    'pending'
+  );
+
+  -- Return the created order with its items
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'session_id', o.session_id,
+    'subtotal_amount', o.subtotal_amount,
+    'delivery_fee', o.delivery_fee,
+    'total_amount', o.total_amount,
+    'status', o.status,
+    'tracking_id', o.tracking_id,
+    'customer_note', o.customer_note,
+    'customer_phone', o.customer_phone,
+    'customer_name', o.customer_name,
+    'delivery_location_name', o.delivery_location_name,
+    'delivery_room', o.delivery_room,
+    'delivery_zone_name', o.delivery_zone_name,
+    'fulfilment_mode', o.fulfilment_mode,
+    'pickup_code', o.pickup_code,
+    'created_at', o.created_at,
+    'order_items', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'food_item_id', oi.food_item_id,
+          'name', fi.name,
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price
+        )
+      )
+      FROM order_items oi
+      JOIN food_items fi ON fi.id = oi.food_item_id
+      WHERE oi.order_id = o.id
+    )
+  )
+  INTO v_order
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum) TO anon;
+
+-- ============================================================================
+-- 6. SHOW THE FULFILMENT MODE ON PUBLIC TRACKING
+-- ============================================================================
+
+-- Function to look up an order's public status timeline, or NULL if nothing matches
+CREATE OR REPLACE FUNCTION track_order(
+    p_tracking_id text,
+    p_phone_last_digits text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_tracking_id text := upper(trim(p_tracking_id));
+    v_order orders%ROWTYPE;
+BEGIN
+    IF (
+        SELECT count(*) FROM order_tracking_attempts
+        WHERE tracking_id = v_tracking_id
+          AND created_at > now() - interval '15 minutes'
+    ) >= 10 THEN
+        RAISE EXCEPTION 'Too many attempts. Please wait a few minutes and try again.'
+            USING HINT = 'too_many_attempts';
+    END IF;
+
+    SELECT * INTO v_order
+    FROM orders
+    WHERE tracking_id = v_tracking_id;
+
+    -- Unknown codes and wrong digits get the same answer. This returns NULL
+    -- rather than raising, so the failed attempt is kept.
+    IF NOT FOUND
+       OR v_order.customer_phone IS NULL
+       OR length(COALESCE(p_phone_last_digits, '')) <> 4
+       OR right(v_order.customer_phone, 4) <> p_phone_last_digits THEN
+        INSERT INTO order_tracking_attempts (tracking_id) VALUES (v_tracking_id);
+        RETURN NULL;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'tracking_id', v_order.tracking_id,
+        'status', v_order.status,
+        'fulfilment_mode', v_order.fulfilment_mode,
+        'created_at', v_order.created_at,
+        'updated_at', v_order.updated_at,
+        'timeline', (
+            SELECT COALESCE(jsonb_agg(
+                jsonb_build_object('status', h.status, 'created_at', h.created_at)
+                ORDER BY h.created_at
+            ), '[]'::jsonb)
+            FROM order_status_history h
+            WHERE h.order_id = v_order.id
+        )
+    );
+END;
+$$;
@@ -0,0 +1,386 @@
+-- ============================================================================
+-- SCHEDULED PRE-ORDERS
+-- Owners define recurring time slots (e.g. "Breakfast 7:30-8:30" on weekdays)
+-- with a capacity. Customers can book a slot for today or the coming days
+-- instead of ordering "as soon as possible". A pre-order stays in the
+-- kitchen's "upcoming" lane until prep_starts_at, prep_lead_minutes before the
+-- slot starts. Slot times are kitchen-local (kitchen_timezone()).
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TIME SLOTS
+-- ============================================================================
+
+-- The timezone slot times and opening hours are written in
+CREATE OR REPLACE FUNCTION kitchen_timezone()
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT 'Africa/Lagos'::text;
+$$;
+
+CREATE TABLE IF NOT EXISTS order_time_slots (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    label text NOT NULL,
+    start_time time NOT NULL,
+    end_time time NOT NULL,
+    -- 0 = Sunday ... 6 = Saturday, as extract(dow)
+    days_of_week smallint[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+    capacity integer NOT NULL CHECK (capacity > 0),
+    prep_lead_minutes integer NOT NULL DEFAULT 30 CHECK (prep_lead_minutes >= 0),
+    is_active boolean NOT NULL DEFAULT true,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CHECK (end_time > start_time)
+);
+
+-- Starter slots; owners edit them from the admin Hours & Slots tab
+INSERT INTO order_time_slots (label, start_time, end_time, days_of_week, capacity)
+SELECT label, start_time, end_time, days_of_week, capacity
+FROM (VALUES
+    ('Breakfast', time '07:30', time '08:30', '{1,2,3,4,5}'::smallint[], 30),
+    ('Lunch', time '12:00', time '13:00', '{1,2,3,4,5}'::smallint[], 40),
+    ('Dinner', time '18:30', time '19:30', '{0,1,2,3,4,5,6}'::smallint[], 40)
+) AS seed(label, start_time, end_time, days_of_week, capacity)
+WHERE NOT EXISTS (SELECT 1 FROM order_time_slots);
+
+CREATE INDEX IF NOT EXISTS idx_order_time_slots_is_active ON order_time_slots(is_active);
+
+ALTER TABLE order_time_slots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active time slots" ON order_time_slots;
+CREATE POLICY "Anyone can view active time slots"
+    ON order_time_slots
+    FOR SELECT
+    TO public
+    USING (is_active = true);
+
+DROP TRIGGER IF EXISTS update_order_time_slots_updated_at ON order_time_slots;
+CREATE TRIGGER update_order_time_slots_updated_at
+    BEFORE UPDATE ON order_time_slots
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. SCHEDULE COLUMNS ON ORDERS
+-- ============================================================================
+
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS time_slot_id uuid REFERENCES order_time_slots(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS scheduled_for timestamptz,
+    ADD COLUMN IF NOT EXISTS prep_starts_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_orders_time_slot ON orders(time_slot_id, scheduled_for);
+
+-- ============================================================================
+-- 3. AVAILABLE SLOTS
+-- ============================================================================
+
+-- Function to check that p_starts_at is a bookable start of p_slot: on one of
+-- its days, at its start time, far enough ahead and within the next week
+CREATE OR REPLACE FUNCTION is_valid_slot_start(p_slot order_time_slots, p_starts_at timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT p_starts_at IS NOT NULL
+       AND (p_starts_at AT TIME ZONE kitchen_timezone())::time = p_slot.start_time
+       AND extract(dow FROM p_starts_at AT TIME ZONE kitchen_timezone())::smallint = ANY (p_slot.days_of_week)
+       AND p_starts_at > now() + make_interval(mins => p_slot.prep_lead_minutes)
+       AND p_starts_at <= now() + interval '7 days';
+$$;
+
+-- Function to list bookable slot times for the next p_days days with their
+-- remaining places. Full slots are included with remaining = 0.
+CREATE OR REPLACE FUNCTION available_time_slots(p_days integer DEFAULT 2)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(jsonb_agg(
+        jsonb_build_object(
+            'time_slot_id', s.id,
+            'label', s.label,
+            'starts_at', starts.starts_at,
+            'ends_at', (starts.slot_day + s.end_time) AT TIME ZONE kitchen_timezone(),
+            'remaining', GREATEST(s.capacity - (
+                SELECT count(*) FROM orders o
+                WHERE o.time_slot_id = s.id
+                  AND o.scheduled_for = starts.starts_at
+                  AND o.status <> 'cancelled'
+            ), 0)
+        )
+        ORDER BY starts.starts_at
+    ), '[]'::jsonb)
+    FROM order_time_slots s
+    CROSS JOIN LATERAL (
+        SELECT slot_day, (slot_day + s.start_time) AT TIME ZONE kitchen_timezone() AS starts_at
+        FROM generate_series(0, LEAST(GREATEST(p_days, 1), 7) - 1) AS offset_days,
+             LATERAL (SELECT (now() AT TIME ZONE kitchen_timezone())::date + offset_days AS slot_day) d
+    ) starts
+    WHERE s.is_active = true
+      AND is_valid_slot_start(s, starts.starts_at);
+$$;
+
+GRANT EXECUTE ON FUNCTION available_time_slots(integer) TO anon;
+GRANT EXECUTE ON FUNCTION available_time_slots(integer) TO authenticated;
+
+-- ============================================================================
+-- 4. BOOK A SLOT WHEN CREATING ORDERS
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum);
+
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_session_id text,
+  p_tracking_id text,
+  p_order_items jsonb,
+  p_customer_note text DEFAULT '',
+  p_expected_total decimal DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_delivery_location_id uuid DEFAULT NULL,
+  p_delivery_room text DEFAULT NULL,
+  p_delivery_zone_id uuid DEFAULT NULL,
+  p_fulfilment_mode fulfilment_mode_enum DEFAULT 'delivery',
+  p_time_slot_id uuid DEFAULT NULL,
+  p_scheduled_for timestamptz DEFAULT NULL
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_order jsonb;
+  v_pricing jsonb;
+  v_subtotal decimal(10,2);
+  v_total decimal(10,2);
+  v_phone text;
+  v_location campus_locations%ROWTYPE;
+  v_zone delivery_zones%ROWTYPE;
+  v_delivery_fee decimal(10,2) := 0;
+  v_pickup_code text;
+  v_slot order_time_slots%ROWTYPE;
+  v_prep_starts_at timestamptz;
+BEGIN
+  -- Check for duplicate tracking ID
+  IF EXISTS (SELECT 1 FROM orders WHERE tracking_id = p_tracking_id) THEN
+    RAISE EXCEPTION 'Duplicate tracking ID';
+  END IF;
+
+  v_phone := normalize_phone(p_customer_phone);
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Please enter a valid phone number'
+      USING HINT = 'invalid_phone';
+  END IF;
+
+  p_fulfilment_mode := COALESCE(p_fulfilment_mode, 'delivery');
+
+  IF length(trim(COALESCE(p_customer_name, ''))) NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'Please enter your name'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' THEN
+    SELECT * INTO v_location
+    FROM campus_locations
+    WHERE id = p_delivery_location_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery location from the list'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    IF length(trim(COALESCE(p_delivery_room, ''))) NOT BETWEEN 1 AND 50 THEN
+      RAISE EXCEPTION 'Please enter your room or office'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    SELECT * INTO v_zone
+    FROM delivery_zones
+    WHERE id = p_delivery_zone_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery zone'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    v_delivery_fee := v_zone.fee;
+  ELSE
+    -- Collected at the counter: no address or fee, just a code to show staff
+    v_pickup_code := lpad(floor(random() * 10000)::integer::text, 4, '0');
+  END IF;
+
+  -- Pre-orders: lock the slot so two customers can't take its last place at once
+  IF p_time_slot_id IS NOT NULL THEN
+    SELECT * INTO v_slot
+    FROM order_time_slots
+    WHERE id = p_time_slot_id
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_valid_slot_start(v_slot, p_scheduled_for) THEN
+      RAISE EXCEPTION 'This time slot is no longer available. Please choose another.'
+        USING HINT = 'slot_unavailable';
+    END IF;
+
+    IF (
+      SELECT count(*) FROM orders
+      WHERE time_slot_id = v_slot.id
+        AND scheduled_for = p_scheduled_for
+        AND status <> 'cancelled'
+    ) >= v_slot.capacity THEN
+      RAISE EXCEPTION 'This time slot is full. Please choose another.'
+        USING HINT = 'slot_full';
+    END IF;
+
+    v_prep_starts_at := p_scheduled_for - make_interval(mins => v_slot.prep_lead_minutes);
+  END IF;
+
+  v_pricing := price_order_items(p_order_items);
+
+  IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+    RAISE EXCEPTION 'Some items in your order cannot be ordered'
+      USING DETAIL = (v_pricing->'errors')::text,
+            HINT = 'order_items_invalid';
+  END IF;
+
+  v_subtotal := (v_pricing->>'total_amount')::decimal;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'Invalid order total amount';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' AND v_subtotal < v_zone.min_order_amount THEN
+    RAISE EXCEPTION 'Orders to % must be at least ₦%', v_zone.name, v_zone.min_order_amount
+      USING DETAIL = jsonb_build_object('min_order_amount', v_zone.min_order_amount)::text,
+            HINT = 'below_minimum_order';
+  END IF;
+
+  -- The delivery fee is charged on top of the food and kept as its own line
+  v_total := v_subtotal + v_delivery_fee;
+
+  IF p_expected_total IS NOT NULL AND p_expected_total <> v_total THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout'
+      USING DETAIL = (v_pricing || jsonb_build_object('delivery_fee', v_delivery_fee))::text,
+            HINT = 'price_changed';
+  END IF;
+
+  -- Create order
+  INSERT INTO orders (
+    session_id,
+    subtotal_amount,
+    delivery_fee,
+    total_amount,
+    tracking_id,
+    customer_note,
+    customer_phone,
+    customer_name,
+    delivery_location_id,
+    delivery_location_name,
+    delivery_room,
+    delivery_zone_id,
+    delivery_zone_name,
+    fulfilment_mode,
+    pickup_code,
+    time_slot_id,
+    scheduled_for,
+    prep_starts_at,
+    status
+  ) VALUES (
+    p_session_id,
+    v_subtotal,
+    v_delivery_fee,
+    v_total,
+    p_tracking_id,
+    COALESCE(p_customer_note, ''),
+    v_phone,
+    trim(p_customer_name),
+    v_location.id,
+    v_location.name,
+    NULLIF(trim(p_delivery_room), ''),
+    v_zone.id,
+    v_zone.name,
+    p_fulfilment_mode,
+    v_pickup_code,
+    v_slot.id,
+    CASE WHEN v_slot.id IS NOT NULL THEN p_scheduled_for END,
+    v_prep_starts_at,
+    'pending'
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items at the server-side unit price
+  INSERT INTO order_items (
+    order_id,
+    food_item_id,
+    quantity,
+    unit_price
+  )
+  SELECT
+    v_order_id,
+    (item->>'food_item_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'unit_price')::decimal
+  FROM jsonb_array_elements(v_pricing->'items') AS item;
+
+  -- Add initial status to history
+  INSERT INTO order_status_history (
+    order_id,
+    status
+  ) VALUES (
+    v_order_id,
+    'pending'
+  );
+
+  -- Return the created order with its items
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'session_id', o.session_id,
+    'subtotal_amount', o.subtotal_amount,
+    'delivery_fee', o.delivery_fee,
+    'total_amount', o.total_amount,
+    'status', o.status,
+    'tracking_id', o.tracking_id,
+    'customer_note', o.customer_note,
+    'customer_phone', o.customer_phone,
+    'customer_name', o.customer_name,
+    'delivery_location_name', o.delivery_location_name,
+    'delivery_room', o.delivery_room,
+    'delivery_zone_name', o.delivery_zone_name,
+    'fulfilment_mode', o.fulfilment_mode,
+    'pickup_code', o.pickup_code,
+    'scheduled_for', o.scheduled_for,
+    'created_at', o.created_at,
+    'order_items', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'food_item_id', oi.food_item_id,
+          'name', fi.name,
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price
+        )
+      )
+      FROM order_items oi
+      JOIN food_items fi ON fi.id = oi.food_item_id
+      WHERE oi.order_id = o.id
+    )
+  )
+  INTO v_order
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz) TO anon;
@@ -0,0 +1,453 @@
+-- ============================================================================
+-- OPERATING HOURS AND KITCHEN PAUSE
+-- The kitchen takes "as soon as possible" orders only while it is open: inside
+-- the weekly opening hours, not on a holiday closure and not paused by staff.
+-- Pre-orders for a valid time slot are still accepted while closed, except
+-- for slots that fall on a holiday.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. WEEKLY OPENING HOURS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS operating_hours (
+    -- 0 = Sunday ... 6 = Saturday, as extract(dow)
+    day_of_week smallint PRIMARY KEY CHECK (day_of_week BETWEEN 0 AND 6),
+    opens_at time NOT NULL DEFAULT '07:00',
+    closes_at time NOT NULL DEFAULT '21:00',
+    is_closed boolean NOT NULL DEFAULT false,
+    updated_by uuid REFERENCES admin_credentials(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CHECK (closes_at > opens_at)
+);
+
+-- One row per day; owners edit them from the admin Hours & Slots tab
+INSERT INTO operating_hours (day_of_week, opens_at, closes_at)
+SELECT day_of_week, time '07:00', time '21:00'
+FROM generate_series(0, 6) AS day_of_week
+ON CONFLICT (day_of_week) DO NOTHING;
+
+ALTER TABLE operating_hours ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view operating hours" ON operating_hours;
+CREATE POLICY "Anyone can view operating hours"
+    ON operating_hours
+    FOR SELECT
+    TO public
+    USING (true);
+
+DROP TRIGGER IF EXISTS update_operating_hours_updated_at ON operating_hours;
+CREATE TRIGGER update_operating_hours_updated_at
+    BEFORE UPDATE ON operating_hours
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. HOLIDAY CLOSURES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS holiday_closures (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Kitchen-local date the kitchen is closed all day
+    closed_on date NOT NULL UNIQUE,
+    reason text NOT NULL DEFAULT '',
+    created_by uuid REFERENCES admin_credentials(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE holiday_closures ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view holiday closures" ON holiday_closures;
+CREATE POLICY "Anyone can view holiday closures"
+    ON holiday_closures
+    FOR SELECT
+    TO public
+    USING (true);
+
+-- ============================================================================
+-- 3. KITCHEN PAUSE
+-- ============================================================================
+
+-- A single row: staff pause the kitchen when it is overwhelmed or out of gas
+CREATE TABLE IF NOT EXISTS kitchen_state (
+    id boolean PRIMARY KEY DEFAULT true CHECK (id),
+    is_paused boolean NOT NULL DEFAULT false,
+    pause_reason text,
+    paused_at timestamptz,
+    paused_by uuid REFERENCES admin_credentials(id) ON DELETE SET NULL,
+    updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO kitchen_state (id) VALUES (true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Read through get_kitchen_status(); written only by the server
+ALTER TABLE kitchen_state ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_kitchen_state_updated_at ON kitchen_state;
+CREATE TRIGGER update_kitchen_state_updated_at
+    BEFORE UPDATE ON kitchen_state
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 4. OPEN / CLOSED STATUS
+-- ============================================================================
+
+-- Function to describe whether the kitchen is taking orders right now, and if
+-- not, why and when it next opens
+CREATE OR REPLACE FUNCTION get_kitchen_status()
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_local timestamp := now() AT TIME ZONE kitchen_timezone();
+  v_state kitchen_state%ROWTYPE;
+  v_hours operating_hours%ROWTYPE;
+  v_holiday holiday_closures%ROWTYPE;
+  v_reason text;
+  v_message text;
+  v_next_open timestamptz;
+BEGIN
+  SELECT * INTO v_state FROM kitchen_state WHERE id = true;
+  SELECT * INTO v_holiday FROM holiday_closures WHERE closed_on = v_local::date;
+  SELECT * INTO v_hours FROM operating_hours WHERE day_of_week = extract(dow FROM v_local);
+
+  IF v_holiday.id IS NOT NULL THEN
+    v_reason := 'holiday';
+    v_message := 'We''re closed today' ||
+      CASE WHEN v_holiday.reason <> '' THEN ' for ' || v_holiday.reason ELSE '' END || '.';
+  ELSIF v_hours.day_of_week IS NULL
+     OR v_hours.is_closed
+     OR v_local::time < v_hours.opens_at
+     OR v_local::time >= v_hours.closes_at THEN
+    v_reason := 'outside_hours';
+    v_message := 'The kitchen is closed right now.';
+  ELSIF COALESCE(v_state.is_paused, false) THEN
+    v_reason := 'paused';
+    v_message := 'The kitchen has paused new orders' ||
+      CASE WHEN COALESCE(v_state.pause_reason, '') <> '' THEN ': ' || v_state.pause_reason ELSE '' END || '.';
+  END IF;
+
+  -- A pause has no end time, so only hours and holidays give a reopening time
+  IF v_reason IN ('holiday', 'outside_hours') THEN
+    SELECT (d.day + h.opens_at) AT TIME ZONE kitchen_timezone()
+    INTO v_next_open
+    FROM generate_series(v_local::date, v_local::date + 7, interval '1 day') AS d(day)
+    JOIN operating_hours h ON h.day_of_week = extract(dow FROM d.day)
+    WHERE NOT h.is_closed
+      AND d.day + h.opens_at > v_local
+      AND NOT EXISTS (SELECT 1 FROM holiday_closures hc WHERE hc.closed_on = d.day::date)
+    ORDER BY d.day
+    LIMIT 1;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'is_open', v_reason IS NULL,
+    'reason', v_reason,
+    'message', COALESCE(v_message, 'We''re open and taking orders.'),
+    'next_open_at', v_next_open,
+    'closes_at', CASE WHEN v_reason IS NULL
+      THEN (v_local::date + v_hours.closes_at) AT TIME ZONE kitchen_timezone() END
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_kitchen_status() TO anon;
+GRANT EXECUTE ON FUNCTION get_kitchen_status() TO authenticated;
+
+-- Function used by create_order_with_items() to gate ASAP orders
+CREATE OR REPLACE FUNCTION is_kitchen_open()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT (get_kitchen_status()->>'is_open')::boolean;
+$$;
+
+-- ============================================================================
+-- 5. NO PRE-ORDERS ON HOLIDAYS
+-- ============================================================================
+
+-- Same checks as before, plus the slot's day must not be a holiday closure.
+-- available_time_slots() and create_order_with_items() both go through this.
+CREATE OR REPLACE FUNCTION is_valid_slot_start(p_slot order_time_slots, p_starts_at timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT p_starts_at IS NOT NULL
+       AND (p_starts_at AT TIME ZONE kitchen_timezone())::time = p_slot.start_time
+       AND extract(dow FROM p_starts_at AT TIME ZONE kitchen_timezone())::smallint = ANY (p_slot.days_of_week)
+       AND p_starts_at > now() + make_interval(mins => p_slot.prep_lead_minutes)
+       AND p_starts_at <= now() + interval '7 days'
+       AND NOT EXISTS (
+           SELECT 1 FROM holiday_closures
+           WHERE closed_on = (p_starts_at AT TIME ZONE kitchen_timezone())::date
+       );
+$$;
+
+-- ============================================================================
+-- 6. REFUSE ASAP ORDERS WHILE CLOSED
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_session_id text,
+  p_tracking_id text,
+  p_order_items jsonb,
+  p_customer_note text DEFAULT '',
+  p_expected_total decimal DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_delivery_location_id uuid DEFAULT NULL,
+  p_delivery_room text DEFAULT NULL,
+  p_delivery_zone_id uuid DEFAULT NULL,
+  p_fulfilment_mode fulfilment_mode_enum DEFAULT 'delivery',
+  p_time_slot_id uuid DEFAULT NULL,
+  p_scheduled_for timestamptz DEFAULT NULL
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_order jsonb;
+  v_pricing jsonb;
+  v_subtotal decimal(10,2);
+  v_total decimal(10,2);
+  v_phone text;
+  v_location campus_locations%ROWTYPE;
+  v_zone delivery_zones%ROWTYPE;
+  v_delivery_fee decimal(10,2) := 0;
+  v_pickup_code text;
+  v_slot order_time_slots%ROWTYPE;
+  v_prep_starts_at timestamptz;
+BEGIN
+  -- Check for duplicate tracking ID
+  IF EXISTS (SELECT 1 FROM orders WHERE tracking_id = p_tracking_id) THEN
+    RAISE EXCEPTION 'Duplicate tracking ID';
+  END IF;
+
+  v_phone := normalize_phone(p_customer_phone);
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Please enter a valid phone number'
+      USING HINT = 'invalid_phone';
+  END IF;
+
+  p_fulfilment_mode := COALESCE(p_fulfilment_mode, 'delivery');
+
+  IF length(trim(COALESCE(p_customer_name, ''))) NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'Please enter your name'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' THEN
+    SELECT * INTO v_location
+    FROM campus_locations
+    WHERE id = p_delivery_location_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery location from the list'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    IF length(trim(COALESCE(p_delivery_room, ''))) NOT BETWEEN 1 AND 50 THEN
+      RAISE EXCEPTION 'Please enter your room or office'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    SELECT * INTO v_zone
+    FROM delivery_zones
+    WHERE id = p_delivery_zone_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery zone'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    v_delivery_fee := v_zone.fee;
+  ELSE
+    -- Collected at the counter: no address or fee, just a code to show staff
+    v_pickup_code := lpad(floor(random() * 10000)::integer::text, 4, '0');
+  END IF;
+
+  -- Pre-orders: lock the slot so two customers can't take its last place at once
+  IF p_time_slot_id IS NOT NULL THEN
+    SELECT * INTO v_slot
+    FROM order_time_slots
+    WHERE id = p_time_slot_id
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_valid_slot_start(v_slot, p_scheduled_for) THEN
+      RAISE EXCEPTION 'This time slot is no longer available. Please choose another.'
+        USING HINT = 'slot_unavailable';
+    END IF;
+
+    IF (
+      SELECT count(*) FROM orders
+      WHERE time_slot_id = v_slot.id
+        AND scheduled_for = p_scheduled_for
+        AND status <> 'cancelled'
+    ) >= v_slot.capacity THEN
+      RAISE EXCEPTION 'This time slot is full. Please choose another.'
+        USING HINT = 'slot_full';
+    END IF;
+
+    v_prep_starts_at := p_scheduled_for - make_interval(mins => v_slot.prep_lead_minutes);
+  ELSIF NOT is_kitchen_open() THEN
+    -- ASAP orders need the kitchen open right now
+    RAISE EXCEPTION '%', (get_kitchen_status())->>'message'
+      USING HINT = 'kitchen_closed';
+  END IF;
+
+  v_pricing := price_order_items(p_order_items);
+
+  IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+    RAISE EXCEPTION 'Some items in your order cannot be ordered'
+      USING DETAIL = (v_pricing->'errors')::text,
+            HINT = 'order_items_invalid';
+  END IF;
+
+  v_subtotal := (v_pricing->>'total_amount')::decimal;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'Invalid order total amount';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' AND v_subtotal < v_zone.min_order_amount THEN
+    RAISE EXCEPTION 'Orders to % must be at least ₦%', v_zone.name, v_zone.min_order_amount
+      USING DETAIL = jsonb_build_object('min_order_amount', v_zone.min_order_amount)::text,
+            HINT = 'below_minimum_order';
+  END IF;
+
+  -- The delivery fee is charged on top of the food and kept as its own line
+  v_total := v_subtotal + v_delivery_fee;
+
+  IF p_expected_total IS NOT NULL AND p_expected_total <> v_total THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout'
+      USING DETAIL = (v_pricing || jsonb_build_object('delivery_fee', v_delivery_fee))::text,
+            HINT = 'price_changed';
+  END IF;
+
+  -- Create order
+  INSERT INTO orders (
+    session_id,
+    subtotal_amount,
+    delivery_fee,
+    total_amount,
+    tracking_id,
+    customer_note,
+    customer_phone,
+    customer_name,
+    delivery_location_id,
+    delivery_location_name,
+    delivery_room,
+    delivery_zone_id,
+    delivery_zone_name,
+    fulfilment_mode,
+    pickup_code,
+    time_slot_id,
+    scheduled_for,
+    prep_starts_at,
+    status
+  ) VALUES (
+    p_session_id,
+    v_subtotal,
+    v_delivery_fee,
+    v_total,
+    p_tracking_id,
+    COALESCE(p_customer_note, ''),
+    v_phone,
+    trim(p_customer_name),
+    v_location.id,
+    v_location.name,
+    NULLIF(trim(p_delivery_room), ''),
+    v_zone.id,
+    v_zone.name,
+    p_fulfilment_mode,
+    v_pickup_code,
+    v_slot.id,
+    CASE WHEN v_slot.id IS NOT NULL THEN p_scheduled_for END,
+    v_prep_starts_at,
+    'pending'
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items at the server-side unit price
+  INSERT INTO order_items (
+    order_id,
+    food_item_id,
+    quantity,
+    unit_price
+  )
+  SELECT
+    v_order_id,
+    (item->>'food_item_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'unit_price')::decimal
+  FROM jsonb_array_elements(v_pricing->'items') AS item;
+
+  -- Add initial status to history
+  INSERT INTO order_status_history (
+    order_id,
+    status
+  ) VALUES (
+    v_order_id,
+    'pending'
+  );
+
+  -- Return the created order with its items
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'session_id', o.session_id,
+    'subtotal_amount', o.subtotal_amount,
+    'delivery_fee', o.delivery_fee,
+    'total_amount', o.total_amount,
+    'status', o.status,
+    'tracking_id', o.tracking_id,
+    'customer_note', o.customer_note,
+    'customer_phone', o.customer_phone,
+    'customer_name', o.customer_name,
+    'delivery_location_name', o.delivery_location_name,
+    'delivery_room', o.delivery_room,
+    'delivery_zone_name', o.delivery_zone_name,
+    'fulfilment_mode', o.fulfilment_mode,
+    'pickup_code', o.pickup_code,
+    'scheduled_for', o.scheduled_for,
+    'created_at', o.created_at,
+    'order_items', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'food_item_id', oi.food_item_id,
+          'name', fi.name,
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price
+        )
+      )
+      FROM order_items oi
+      JOIN food_items fi ON fi.id = oi.food_item_id
+      WHERE oi.order_id = o.id
+    )
+  )
+  INTO v_order
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz) TO anon;
@@ -0,0 +1,560 @@
+-- ============================================================================
+-- INVENTORY
+-- Items can optionally track how many are left. Creating an order takes its
+-- quantities out of stock atomically, cancelling puts them back, an item
+-- switches itself off at zero (and back on when restocked), and items with a
+-- daily par level are restocked to it every morning.
+-- stock_quantity NULL means the item isn't counted and only `available` applies.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. STOCK COLUMNS
+-- ============================================================================
+
+ALTER TABLE food_items
+    ADD COLUMN IF NOT EXISTS stock_quantity integer CHECK (stock_quantity >= 0),
+    ADD COLUMN IF NOT EXISTS daily_par integer CHECK (daily_par >= 0),
+    ADD COLUMN IF NOT EXISTS sold_out_at timestamptz,
+    ADD COLUMN IF NOT EXISTS stock_restocked_on date;
+
+-- Lets a cancellation restock exactly what its order took, once
+ALTER TABLE order_items
+    ADD COLUMN IF NOT EXISTS stock_deducted boolean NOT NULL DEFAULT false;
+
+-- ============================================================================
+-- 2. AVAILABILITY FOLLOWS STOCK
+-- ============================================================================
+
+-- Function to switch an item off when it sells out and back on when it is
+-- restocked. sold_out_at marks items switched off this way, so an item staff
+-- switched off by hand stays off after a restock.
+CREATE OR REPLACE FUNCTION sync_food_item_stock_availability()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.stock_quantity = 0 AND NEW.available THEN
+        NEW.available := false;
+        NEW.sold_out_at := now();
+    ELSIF TG_OP = 'UPDATE' AND NEW.available IS DISTINCT FROM OLD.available THEN
+        NEW.sold_out_at := NULL;
+    ELSIF NEW.sold_out_at IS NOT NULL AND COALESCE(NEW.stock_quantity, 1) > 0 THEN
+        NEW.available := true;
+        NEW.sold_out_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_food_item_stock_availability ON food_items;
+CREATE TRIGGER sync_food_item_stock_availability
+    BEFORE INSERT OR UPDATE OF stock_quantity, available ON food_items
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_food_item_stock_availability();
+
+-- ============================================================================
+-- 3. QUOTES CHECK STOCK
+-- ============================================================================
+
+-- Function to price cart lines against the current menu.
+-- Input:  [{ "food_item_id": uuid, "quantity": int }, ...]
+-- Output: { "items": [...], "total_amount": decimal, "errors": [...] }
+-- Each error is { "index", "food_item_id", "name", "reason" } where reason is
+-- one of: unknown_item, unavailable, invalid_quantity, out_of_stock.
+-- out_of_stock errors also carry "available", the number still in stock.
+CREATE OR REPLACE FUNCTION price_order_items(
+    p_order_items jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_line jsonb;
+    v_index integer := 0;
+    v_food_item_id uuid;
+    v_quantity integer;
+    v_food food_items%ROWTYPE;
+    v_items jsonb := '[]'::jsonb;
+    v_errors jsonb := '[]'::jsonb;
+    v_total decimal(10,2) := 0;
+BEGIN
+    IF p_order_items IS NULL OR jsonb_typeof(p_order_items) <> 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+        RAISE EXCEPTION 'Cart is empty'
+            USING HINT = 'cart_empty';
+    END IF;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(p_order_items)
+    LOOP
+        v_food_item_id := NULL;
+        v_quantity := NULL;
+
+        BEGIN
+            v_food_item_id := (v_line->>'food_item_id')::uuid;
+            v_quantity := (v_line->>'quantity')::integer;
+        EXCEPTION
+            WHEN invalid_text_representation OR numeric_value_out_of_range THEN
+                NULL;
+        END;
+
+        SELECT * INTO v_food FROM food_items WHERE id = v_food_item_id;
+
+        IF NOT FOUND THEN
+            v_errors := v_errors || jsonb_build_object(
+                'index', v_index,
+                'food_item_id', v_line->>'food_item_id',
+                'name', NULL,
+                'reason', 'unknown_item'
+            );
+        ELSIF NOT v_food.available THEN
+            v_errors := v_errors || jsonb_build_object(
+                'index', v_index,
+                'food_item_id', v_food.id,
+                'name', v_food.name,
+                'reason', 'unavailable'
+            );
+        ELSIF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > 100 THEN
+            v_errors := v_errors || jsonb_build_object(
+                'index', v_index,
+                'food_item_id', v_food.id,
+                'name', v_food.name,
+                'reason', 'invalid_quantity'
+            );
+        ELSIF v_food.stock_quantity IS NOT NULL AND v_quantity > v_food.stock_quantity THEN
+            v_errors := v_errors || jsonb_build_object(
+                'index', v_index,
+                'food_item_id', v_food.id,
+                'name', v_food.name,
+                'reason', 'out_of_stock',
+                'available', GREATEST(v_food.stock_quantity, 0)
+            );
+        ELSE
+            v_items := v_items || jsonb_build_object(
+                'food_item_id', v_food.id,
+                'name', v_food.name,
+                'quantity', v_quantity,
+                'unit_price', v_food.price,
+                'line_total', v_food.price * v_quantity
+            );
+            v_total := v_total + v_food.price * v_quantity;
+        END IF;
+
+        v_index := v_index + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'items', v_items,
+        'total_amount', v_total,
+        'errors', v_errors
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION price_order_items(jsonb) TO anon;
+GRANT EXECUTE ON FUNCTION price_order_items(jsonb) TO authenticated;
+
+-- ============================================================================
+-- 4. TAKING AND RETURNING STOCK
+-- ============================================================================
+
+-- Function to take an order's tracked items out of stock. Rows are locked in
+-- id order so concurrent orders queue behind each other instead of
+-- deadlocking. If any item doesn't have enough left the order is rejected
+-- with the same hint and error shape as a failed quote.
+CREATE OR REPLACE FUNCTION deduct_order_stock(p_order_id uuid, p_order_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_line record;
+    v_stock integer;
+    v_errors jsonb := '[]'::jsonb;
+BEGIN
+    FOR v_line IN
+        SELECT oi.food_item_id, sum(oi.quantity)::integer AS quantity
+        FROM order_items oi
+        JOIN food_items fi ON fi.id = oi.food_item_id
+        WHERE oi.order_id = p_order_id
+          AND fi.stock_quantity IS NOT NULL
+        GROUP BY oi.food_item_id
+        ORDER BY oi.food_item_id
+    LOOP
+        SELECT stock_quantity INTO v_stock
+        FROM food_items
+        WHERE id = v_line.food_item_id
+        FOR UPDATE;
+
+        IF v_stock < v_line.quantity THEN
+            v_errors := v_errors || (
+                SELECT jsonb_build_object(
+                    'index', min(line.ord) - 1,
+                    'food_item_id', v_line.food_item_id,
+                    'name', (SELECT name FROM food_items WHERE id = v_line.food_item_id),
+                    'reason', 'out_of_stock',
+                    'available', v_stock
+                )
+                FROM jsonb_array_elements(p_order_items) WITH ORDINALITY AS line(item, ord)
+                WHERE line.item->>'food_item_id' = v_line.food_item_id::text
+            );
+        ELSE
+            UPDATE food_items
+            SET stock_quantity = stock_quantity - v_line.quantity
+            WHERE id = v_line.food_item_id;
+
+            UPDATE order_items
+            SET stock_deducted = true
+            WHERE order_id = p_order_id
+              AND food_item_id = v_line.food_item_id;
+        END IF;
+    END LOOP;
+
+    IF jsonb_array_length(v_errors) > 0 THEN
+        RAISE EXCEPTION 'Some items in your order cannot be ordered'
+            USING DETAIL = v_errors::text,
+                  HINT = 'order_items_invalid';
+    END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION deduct_order_stock(uuid, jsonb) FROM public, anon, authenticated;
+
+-- Function to put a cancelled order's items back in stock
+CREATE OR REPLACE FUNCTION restock_cancelled_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE food_items fi
+    SET stock_quantity = fi.stock_quantity + returned.quantity
+    FROM (
+        SELECT food_item_id, sum(quantity)::integer AS quantity
+        FROM order_items
+        WHERE order_id = NEW.id
+          AND stock_deducted
+        GROUP BY food_item_id
+    ) returned
+    WHERE fi.id = returned.food_item_id
+      -- Items that stopped being counted since the order have nothing to return to
+      AND fi.stock_quantity IS NOT NULL;
+
+    UPDATE order_items
+    SET stock_deducted = false
+    WHERE order_id = NEW.id
+      AND stock_deducted;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS restock_cancelled_order ON orders;
+CREATE TRIGGER restock_cancelled_order
+    AFTER UPDATE OF status ON orders
+    FOR EACH ROW
+    WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+    EXECUTE FUNCTION restock_cancelled_order();
+
+-- ============================================================================
+-- 5. DAILY PAR RESTOCK
+-- ============================================================================
+
+-- Function to reset every item with a par level to it for the new day.
+-- Returns how many items were restocked. Safe to run more than once a day.
+CREATE OR REPLACE FUNCTION restock_daily_par()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_today date := (now() AT TIME ZONE kitchen_timezone())::date;
+    v_count integer;
+BEGIN
+    UPDATE food_items
+    SET stock_quantity = daily_par,
+        stock_restocked_on = v_today
+    WHERE daily_par IS NOT NULL;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION restock_daily_par() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION restock_daily_par() TO service_role;
+
+-- Restock at 05:00 kitchen time (04:00 UTC) where pg_cron is available.
+-- Without it, owners restock from the Manage Menu tab.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+        CREATE EXTENSION IF NOT EXISTS pg_cron;
+        EXECUTE $cron$SELECT cron.schedule('restock-daily-par', '0 4 * * *', 'SELECT restock_daily_par()')$cron$;
+    END IF;
+END $$;
+
+-- ============================================================================
+-- 6. CREATE ORDERS THAT TAKE STOCK
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_session_id text,
+  p_tracking_id text,
+  p_order_items jsonb,
+  p_customer_note text DEFAULT '',
+  p_expected_total decimal DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_delivery_location_id uuid DEFAULT NULL,
+  p_delivery_room text DEFAULT NULL,
+  p_delivery_zone_id uuid DEFAULT NULL,
+  p_fulfilment_mode fulfilment_mode_enum DEFAULT 'delivery',
+  p_time_slot_id uuid DEFAULT NULL,
+  p_scheduled_for timestamptz DEFAULT NULL
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_order jsonb;
+  v_pricing jsonb;
+  v_subtotal decimal(10,2);
+  v_total decimal(10,2);
+  v_phone text;
+  v_location campus_locations%ROWTYPE;
+  v_zone delivery_zones%ROWTYPE;
+  v_delivery_fee decimal(10,2) := 0;
+  v_pickup_code text;
+  v_slot order_time_slots%ROWTYPE;
+  v_prep_starts_at timestamptz;
+BEGIN
+  -- Check for duplicate tracking ID
+  IF EXISTS (SELECT 1 FROM orders WHERE tracking_id = p_tracking_id) THEN
+    RAISE EXCEPTION 'Duplicate tracking ID';
+  END IF;
+
+  v_phone := normalize_phone(p_customer_phone);
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Please enter a valid phone number'
+      USING HINT = 'invalid_phone';
+  END IF;
+
+  p_fulfilment_mode := COALESCE(p_fulfilment_mode, 'delivery');
+
+  IF length(trim(COALESCE(p_customer_name, ''))) NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'Please enter your name'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' THEN
+    SELECT * INTO v_location
+    FROM campus_locations
+    WHERE id = p_delivery_location_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery location from the list'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    IF length(trim(COALESCE(p_delivery_room, ''))) NOT BETWEEN 1 AND 50 THEN
+      RAISE EXCEPTION 'Please enter your room or office'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    SELECT * INTO v_zone
+    FROM delivery_zones
+    WHERE id = p_delivery_zone_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery zone'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    v_delivery_fee := v_zone.fee;
+  ELSE
+    -- Collected at the counter: no address or fee, just a code to show staff
+    v_pickup_code := lpad(floor(random() * 10000)::integer::text, 4, '0');
+  END IF;
+
+  -- Pre-orders: lock the slot so two customers can't take its last place at once
+  IF p_time_slot_id IS NOT NULL THEN
+    SELECT * INTO v_slot
+    FROM order_time_slots
+    WHERE id = p_time_slot_id
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_valid_slot_start(v_slot, p_scheduled_for) THEN
+      RAISE EXCEPTION 'This time slot is no longer available. Please choose another.'
+        USING HINT = 'slot_unavailable';
+    END IF;
+
+    IF (
+      SELECT count(*) FROM orders
+      WHERE time_slot_id = v_slot.id
+        AND scheduled_for = p_scheduled_for
+        AND status <> 'cancelled'
+    ) >= v_slot.capacity THEN
+      RAISE EXCEPTION 'This time slot is full. Please choose another.'
+        USING HINT = 'slot_full';
+    END IF;
+
+    v_prep_starts_at := p_scheduled_for - make_interval(mins => v_slot.prep_lead_minutes);
+  ELSIF NOT is_kitchen_open() THEN
+    -- ASAP orders need the kitchen open right now
+    RAISE EXCEPTION '%', (get_kitchen_status())->>'message'
+      USING HINT = 'kitchen_closed';
+  END IF;
+
+  v_pricing := price_order_items(p_order_items);
+
+  IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+    RAISE EXCEPTION 'Some items in your order cannot be ordered'
+      USING DETAIL = (v_pricing->'errors')::text,
+            HINT = 'order_items_invalid';
+  END IF;
+
+  v_subtotal := (v_pricing->>'total_amount')::decimal;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'Invalid order total amount';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' AND v_subtotal < v_zone.min_order_amount THEN
+    RAISE EXCEPTION 'Orders to % must be at least ₦%', v_zone.name, v_zone.min_order_amount
+      USING DETAIL = jsonb_build_object('min_order_amount', v_zone.min_order_amount)::text,
+            HINT = 'below_minimum_order';
+  END IF;
+
+  -- The delivery fee is charged on top of the food and kept as its own line
+  v_total := v_subtotal + v_delivery_fee;
+
+  IF p_expected_total IS NOT NULL AND p_expected_total <> v_total THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout'
+      USING DETAIL = (v_pricing || jsonb_build_object('delivery_fee', v_delivery_fee))::text,
+            HINT = 'price_changed';
+  END IF;
+
+  -- Create order
+  INSERT INTO orders (
+    session_id,
+    subtotal_amount,
+    delivery_fee,
+    total_amount,
+    tracking_id,
+    customer_note,
+    customer_phone,
+    customer_name,
+    delivery_location_id,
+    delivery_location_name,
+    delivery_room,
+    delivery_zone_id,
+    delivery_zone_name,
+    fulfilment_mode,
+    pickup_code,
+    time_slot_id,
+    scheduled_for,
+    prep_starts_at,
+    status
+  ) VALUES (
+    p_session_id,
+    v_subtotal,
+    v_delivery_fee,
+    v_total,
+    p_tracking_id,
+    COALESCE(p_customer_note, ''),
+    v_phone,
+    trim(p_customer_name),
+    v_location.id,
+    v_location.name,
+    NULLIF(trim(p_delivery_room), ''),
+    v_zone.id,
+    v_zone.name,
+    p_fulfilment_mode,
+    v_pickup_code,
+    v_slot.id,
+    CASE WHEN v_slot.id IS NOT NULL THEN p_scheduled_for END,
+    v_prep_starts_at,
+    'pending'
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items at the server-side unit price
+  INSERT INTO order_items (
+    order_id,
+    food_item_id,
+    quantity,
+    unit_price
+  )
+  SELECT
+    v_order_id,
+    (item->>'food_item_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'unit_price')::decimal
+  FROM jsonb_array_elements(v_pricing->'items') AS item;
+
+  -- Take tracked stock now; rolls the whole order back if another order got there first
+  PERFORM deduct_order_stock(v_order_id, p_order_items);
+
+  -- Add initial status to history
+  INSERT INTO order_status_history (
+    order_id,
+    status
+  ) VALUES (
+    v_order_id,
+    'pending'
+  );
+
+  -- Return the created order with its items
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'session_id', o.session_id,
+    'subtotal_amount', o.subtotal_amount,
+    'delivery_fee', o.delivery_fee,
+    'total_amount', o.total_amount,
+    'status', o.status,
+    'tracking_id', o.tracking_id,
+    'customer_note', o.customer_note,
+    'customer_phone', o.customer_phone,
+    'customer_name', o.customer_name,
+    'delivery_location_name', o.delivery_location_name,
+    'delivery_room', o.delivery_room,
+    'delivery_zone_name', o.delivery_zone_name,
+    'fulfilment_mode', o.fulfilment_mode,
+    'pickup_code', o.pickup_code,
+    'scheduled_for', o.scheduled_for,
+    'created_at', o.created_at,
+    'order_items', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'food_item_id', oi.food_item_id,
+          'name', fi.name,
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price
+        )
+      )
+      FROM order_items oi
+      JOIN food_items fi ON fi.id = oi.food_item_id
+      WHERE oi.order_id = o.id
+    )
+  )
+  INTO v_order
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz) TO anon;
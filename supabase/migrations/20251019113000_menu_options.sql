@@ -0,0 +1,557 @@
+-- ============================================================================
+-- MENU OPTIONS
+-- Items can have option groups such as "Portion" (Regular / Large) or
+-- "Extras" (Extra chicken, Plantain). A group is required or optional and
+-- single or multi-select; each option adds a price delta. Cart lines send the
+-- chosen option ids, the database checks them against the menu and prices the
+-- line, and order_items keeps a snapshot of the options and the resulting
+-- unit price.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. OPTION GROUPS AND OPTIONS
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE option_selection_enum AS ENUM ('single', 'multi');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS food_option_groups (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    food_item_id uuid NOT NULL REFERENCES food_items(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    is_required boolean NOT NULL DEFAULT false,
+    selection option_selection_enum NOT NULL DEFAULT 'single',
+    -- Multi-select only; NULL for no limit
+    max_selections integer CHECK (max_selections > 0),
+    sort_order integer NOT NULL DEFAULT 0,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    UNIQUE (food_item_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS food_options (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    group_id uuid NOT NULL REFERENCES food_option_groups(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    price_delta decimal(10,2) NOT NULL DEFAULT 0,
+    is_available boolean NOT NULL DEFAULT true,
+    sort_order integer NOT NULL DEFAULT 0,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    UNIQUE (group_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_food_option_groups_food_item ON food_option_groups(food_item_id);
+CREATE INDEX IF NOT EXISTS idx_food_options_group ON food_options(group_id);
+
+ALTER TABLE food_option_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE food_options ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view option groups" ON food_option_groups;
+CREATE POLICY "Anyone can view option groups"
+    ON food_option_groups
+    FOR SELECT
+    TO public
+    USING (true);
+
+-- Unavailable options stay visible so the picker can show them as sold out
+DROP POLICY IF EXISTS "Anyone can view options" ON food_options;
+CREATE POLICY "Anyone can view options"
+    ON food_options
+    FOR SELECT
+    TO public
+    USING (true);
+
+DROP TRIGGER IF EXISTS update_food_option_groups_updated_at ON food_option_groups;
+CREATE TRIGGER update_food_option_groups_updated_at
+    BEFORE UPDATE ON food_option_groups
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_food_options_updated_at ON food_options;
+CREATE TRIGGER update_food_options_updated_at
+    BEFORE UPDATE ON food_options
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. OPTIONS ON ORDER ITEMS
+-- ============================================================================
+
+-- Snapshot of the chosen options: [{ option_id, group_id, group_name, name, price_delta }]
+-- unit_price already includes their deltas.
+ALTER TABLE order_items
+    ADD COLUMN IF NOT EXISTS options jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- ============================================================================
+-- 3. CHECKING A LINE'S OPTIONS
+-- ============================================================================
+
+-- Function to check the options chosen for one item against its groups.
+-- Returns the options snapshot (in menu order), or NULL if the choice is not
+-- valid: an unknown, unavailable or repeated option, an option from another
+-- item, a required group left empty, or too many picks in a group.
+CREATE OR REPLACE FUNCTION resolve_food_options(p_food_item_id uuid, p_option_ids uuid[])
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_option_ids IS NULL
+       OR cardinality(p_option_ids) <> (SELECT count(DISTINCT option_id) FROM unnest(p_option_ids) AS option_id) THEN
+        RETURN NULL;
+    END IF;
+
+    IF (
+        SELECT count(*)
+        FROM food_options o
+        JOIN food_option_groups g ON g.id = o.group_id
+        WHERE o.id = ANY (p_option_ids)
+          AND g.food_item_id = p_food_item_id
+          AND o.is_available
+    ) <> cardinality(p_option_ids) THEN
+        RETURN NULL;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM food_option_groups g
+        CROSS JOIN LATERAL (
+            SELECT count(*) AS chosen
+            FROM food_options o
+            WHERE o.group_id = g.id
+              AND o.id = ANY (p_option_ids)
+        ) c
+        WHERE g.food_item_id = p_food_item_id
+          AND (
+              (g.is_required AND c.chosen = 0)
+              OR (g.selection = 'single' AND c.chosen > 1)
+              OR (g.max_selections IS NOT NULL AND c.chosen > g.max_selections)
+          )
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN COALESCE((
+        SELECT jsonb_agg(
+            jsonb_build_object(
+                'option_id', o.id,
+                'group_id', g.id,
+                'group_name', g.name,
+                'name', o.name,
+                'price_delta', o.price_delta
+            )
+            ORDER BY g.sort_order, g.name, o.sort_order, o.name
+        )
+        FROM food_options o
+        JOIN food_option_groups g ON g.id = o.group_id
+        WHERE o.id = ANY (p_option_ids)
+    ), '[]'::jsonb);
+END;
+$$;
+
+-- ============================================================================
+-- 4. PRICE LINES WITH OPTIONS
+-- ============================================================================
+
+-- Function to price cart lines against the current menu.
+-- Input:  [{ "food_item_id": uuid, "quantity": int, "option_ids": [uuid] }, ...]
+-- Output: { "items": [...], "total_amount": decimal, "errors": [...] }
+-- Each item carries the index of its cart line, its options snapshot and a
+-- unit_price that includes the option deltas.
+-- Each error is { "index", "food_item_id", "name", "reason" } where reason is
+-- one of: unknown_item, unavailable, invalid_quantity, invalid_options,
+-- out_of_stock. out_of_stock errors also carry "available".
+CREATE OR REPLACE FUNCTION price_order_items(
+    p_order_items jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_line jsonb;
+    v_index integer := 0;
+    v_food_item_id uuid;
+    v_quantity integer;
+    v_option_ids uuid[];
+    v_options jsonb;
+    v_unit_price decimal(10,2);
+    v_food food_items%ROWTYPE;
+    v_items jsonb := '[]'::jsonb;
+    v_errors jsonb := '[]'::jsonb;
+    v_total decimal(10,2) := 0;
+BEGIN
+    IF p_order_items IS NULL OR jsonb_typeof(p_order_items) <> 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+        RAISE EXCEPTION 'Cart is empty'
+            USING HINT = 'cart_empty';
+    END IF;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(p_order_items)
+    LOOP
+        v_food_item_id := NULL;
+        v_quantity := NULL;
+        v_option_ids := '{}';
+
+        BEGIN
+            v_food_item_id := (v_line->>'food_item_id')::uuid;
+            v_quantity := (v_line->>'quantity')::integer;
+
+            -- Lines from carts saved before options existed have no option_ids
+            IF jsonb_typeof(v_line->'option_ids') = 'array' THEN
+                SELECT COALESCE(array_agg(option_id::uuid), '{}')
+                INTO v_option_ids
+                FROM jsonb_array_elements_text(v_line->'option_ids') AS option_id;
+            ELSIF v_line ? 'option_ids' AND jsonb_typeof(v_line->'option_ids') <> 'null' THEN
+                v_option_ids := NULL;
+            END IF;
+        EXCEPTION
+            WHEN invalid_text_representation OR numeric_value_out_of_range THEN
+                v_option_ids := NULL;
+        END;
+
+        SELECT * INTO v_food FROM food_items WHERE id = v_food_item_id;
+
+        IF NOT FOUND THEN
+            v_errors := v_errors || jsonb_build_object(
+                'index', v_index,
+                'food_item_id', v_line->>'food_item_id',
+                'name', NULL,
+                'reason', 'unknown_item'
+            );
+        ELSIF NOT v_food.available THEN
+            v_errors := v_errors || jsonb_build_object(
+                'index', v_index,
+                'food_item_id', v_food.id,
+                'name', v_food.name,
+                'reason', 'unavailable'
+            );
+        ELSIF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > 100 THEN
+            v_errors := v_errors || jsonb_build_object(
+                'index', v_index,
+                'food_item_id', v_food.id,
+                'name', v_food.name,
+                'reason', 'invalid_quantity'
+            );
+        ELSE
+            v_options := resolve_food_options(v_food.id, v_option_ids);
+
+            IF v_options IS NULL THEN
+                v_errors := v_errors || jsonb_build_object(
+                    'index', v_index,
+                    'food_item_id', v_food.id,
+                    'name', v_food.name,
+                    'reason', 'invalid_options'
+                );
+            ELSIF v_food.stock_quantity IS NOT NULL AND v_quantity > v_food.stock_quantity THEN
+                v_errors := v_errors || jsonb_build_object(
+                    'index', v_index,
+                    'food_item_id', v_food.id,
+                    'name', v_food.name,
+                    'reason', 'out_of_stock',
+                    'available', GREATEST(v_food.stock_quantity, 0)
+                );
+            ELSE
+                v_unit_price := v_food.price + COALESCE((
+                    SELECT sum((option->>'price_delta')::decimal)
+                    FROM jsonb_array_elements(v_options) AS option
+                ), 0);
+
+                v_items := v_items || jsonb_build_object(
+                    'index', v_index,
+                    'food_item_id', v_food.id,
+                    'name', v_food.name,
+                    'quantity', v_quantity,
+                    'options', v_options,
+                    'unit_price', v_unit_price,
+                    'line_total', v_unit_price * v_quantity
+                );
+                v_total := v_total + v_unit_price * v_quantity;
+            END IF;
+        END IF;
+
+        v_index := v_index + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'items', v_items,
+        'total_amount', v_total,
+        'errors', v_errors
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION price_order_items(jsonb) TO anon;
+GRANT EXECUTE ON FUNCTION price_order_items(jsonb) TO authenticated;
+
+-- ============================================================================
+-- 5. STORE OPTIONS WITH ORDER ITEMS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_session_id text,
+  p_tracking_id text,
+  p_order_items jsonb,
+  p_customer_note text DEFAULT '',
+  p_expected_total decimal DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_delivery_location_id uuid DEFAULT NULL,
+  p_delivery_room text DEFAULT NULL,
+  p_delivery_zone_id uuid DEFAULT NULL,
+  p_fulfilment_mode fulfilment_mode_enum DEFAULT 'delivery',
+  p_time_slot_id uuid DEFAULT NULL,
+  p_scheduled_for timestamptz DEFAULT NULL
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_order jsonb;
+  v_pricing jsonb;
+  v_subtotal decimal(10,2);
+  v_total decimal(10,2);
+  v_phone text;
+  v_location campus_locations%ROWTYPE;
+  v_zone delivery_zones%ROWTYPE;
+  v_delivery_fee decimal(10,2) := 0;
+  v_pickup_code text;
+  v_slot order_time_slots%ROWTYPE;
+  v_prep_starts_at timestamptz;
+BEGIN
+  -- Check for duplicate tracking ID
+  IF EXISTS (SELECT 1 FROM orders WHERE tracking_id = p_tracking_id) THEN
+    RAISE EXCEPTION 'Duplicate tracking ID';
+  END IF;
+
+  v_phone := normalize_phone(p_customer_phone);
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Please enter a valid phone number'
+      USING HINT = 'invalid_phone';
+  END IF;
+
+  p_fulfilment_mode := COALESCE(p_fulfilment_mode, 'delivery');
+
+  IF length(trim(COALESCE(p_customer_name, ''))) NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'Please enter your name'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' THEN
+    SELECT * INTO v_location
+    FROM campus_locations
+    WHERE id = p_delivery_location_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery location from the list'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    IF length(trim(COALESCE(p_delivery_room, ''))) NOT BETWEEN 1 AND 50 THEN
+      RAISE EXCEPTION 'Please enter your room or office'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    SELECT * INTO v_zone
+    FROM delivery_zones
+    WHERE id = p_delivery_zone_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery zone'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    v_delivery_fee := v_zone.fee;
+  ELSE
+    -- Collected at the counter: no address or fee, just a code to show staff
+    v_pickup_code := lpad(floor(random() * 10000)::integer::text, 4, '0');
+  END IF;
+
+  -- Pre-orders: lock the slot so two customers can't take its last place at once
+  IF p_time_slot_id IS NOT NULL THEN
+    SELECT * INTO v_slot
+    FROM order_time_slots
+    WHERE id = p_time_slot_id
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_valid_slot_start(v_slot, p_scheduled_for) THEN
+      RAISE EXCEPTION 'This time slot is no longer available. Please choose another.'
+        USING HINT = 'slot_unavailable';
+    END IF;
+
+    IF (
+      SELECT count(*) FROM orders
+      WHERE time_slot_id = v_slot.id
+        AND scheduled_for = p_scheduled_for
+        AND status <> 'cancelled'
+    ) >= v_slot.capacity THEN
+      RAISE EXCEPTION 'This time slot is full. Please choose another.'
+        USING HINT = 'slot_full';
+    END IF;
+
+    v_prep_starts_at := p_scheduled_for - make_interval(mins => v_slot.prep_lead_minutes);
+  ELSIF NOT is_kitchen_open() THEN
+    -- ASAP orders need the kitchen open right now
+    RAISE EXCEPTION '%', (get_kitchen_status())->>'message'
+      USING HINT = 'kitchen_closed';
+  END IF;
+
+  v_pricing := price_order_items(p_order_items);
+
+  IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+    RAISE EXCEPTION 'Some items in your order cannot be ordered'
+      USING DETAIL = (v_pricing->'errors')::text,
+            HINT = 'order_items_invalid';
+  END IF;
+
+  v_subtotal := (v_pricing->>'total_amount')::decimal;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'Invalid order total amount';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' AND v_subtotal < v_zone.min_order_amount THEN
+    RAISE EXCEPTION 'Orders to % must be at least ₦%', v_zone.name, v_zone.min_order_amount
+      USING DETAIL = jsonb_build_object('min_order_amount', v_zone.min_order_amount)::text,
+            HINT = 'below_minimum_order';
+  END IF;
+
+  -- The delivery fee is charged on top of the food and kept as its own line
+  v_total := v_subtotal + v_delivery_fee;
+
+  IF p_expected_total IS NOT NULL AND p_expected_total <> v_total THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout'
+      USING DETAIL = (v_pricing || jsonb_build_object('delivery_fee', v_delivery_fee))::text,
+            HINT = 'price_changed';
+  END IF;
+
+  -- Create order
+  INSERT INTO orders (
+    session_id,
+    subtotal_amount,
+    delivery_fee,
+    total_amount,
+    tracking_id,
+    customer_note,
+    customer_phone,
+    customer_name,
+    delivery_location_id,
+    delivery_location_name,
+    delivery_room,
+    delivery_zone_id,
+    delivery_zone_name,
+    fulfilment_mode,
+    pickup_code,
+    time_slot_id,
+    scheduled_for,
+    prep_starts_at,
+    status
+  ) VALUES (
+    p_session_id,
+    v_subtotal,
+    v_delivery_fee,
+    v_total,
+    p_tracking_id,
+    COALESCE(p_customer_note, ''),
+    v_phone,
+    trim(p_customer_name),
+    v_location.id,
+    v_location.name,
+    NULLIF(trim(p_delivery_room), ''),
+    v_zone.id,
+    v_zone.name,
+    p_fulfilment_mode,
+    v_pickup_code,
+    v_slot.id,
+    CASE WHEN v_slot.id IS NOT NULL THEN p_scheduled_for END,
+    v_prep_starts_at,
+    'pending'
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items at the server-side unit price, options included
+  INSERT INTO order_items (
+    order_id,
+    food_item_id,
+    quantity,
+    unit_price,
+    options
+  )
+  SELECT
+    v_order_id,
+    (item->>'food_item_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'unit_price')::decimal,
+    COALESCE(item->'options', '[]'::jsonb)
+  FROM jsonb_array_elements(v_pricing->'items') AS item;
+
+  -- Take tracked stock now; rolls the whole order back if another order got there first
+  PERFORM deduct_order_stock(v_order_id, p_order_items);
+
+  -- Add initial status to history
+  INSERT INTO order_status_history (
+    order_id,
+    status
+  ) VALUES (
+    v_order_id,
+    'pending'
+  );
+
+  -- Return the created order with its items
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'session_id', o.session_id,
+    'subtotal_amount', o.subtotal_amount,
+    'delivery_fee', o.delivery_fee,
+    'total_amount', o.total_amount,
+    'status', o.status,
+    'tracking_id', o.tracking_id,
+    'customer_note', o.customer_note,
+    'customer_phone', o.customer_phone,
+    'customer_name', o.customer_name,
+    'delivery_location_name', o.delivery_location_name,
+    'delivery_room', o.delivery_room,
+    'delivery_zone_name', o.delivery_zone_name,
+    'fulfilment_mode', o.fulfilment_mode,
+    'pickup_code', o.pickup_code,
+    'scheduled_for', o.scheduled_for,
+    'created_at', o.created_at,
+    'order_items', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'food_item_id', oi.food_item_id,
+          'name', fi.name,
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price,
+          'options', oi.options
+        )
+      )
+      FROM order_items oi
+      JOIN food_items fi ON fi.id = oi.food_item_id
+      WHERE oi.order_id = o.id
+    )
+  )
+  INTO v_order
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz) TO anon;
@@ -0,0 +1,834 @@
+-- ============================================================================
+-- COMBO MEALS
+-- Owners bundle several menu items into a combo ("Jollof + Chicken + Drink")
+-- sold at one price. Each component has a default item and may offer swaps,
+-- e.g. a different drink, optionally for a price difference. Combos are
+-- priced and checked like any other cart line: every chosen component must be
+-- available and in stock when the order is placed.
+--
+-- An ordered combo is stored as one order_items row carrying the combo price
+-- and a snapshot of its components, plus a zero-priced child row per component
+-- so stock, restocking on cancel and kitchen counts work item by item.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. COMBOS AND THEIR COMPONENTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS combos (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL UNIQUE,
+    description text,
+    price decimal(10,2) NOT NULL CHECK (price >= 0),
+    image_url text,
+    is_active boolean NOT NULL DEFAULT true,
+    sort_order integer NOT NULL DEFAULT 0,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+-- One slot in the combo, e.g. "Drink", filled with food_item_id unless swapped.
+-- Menu items in a combo can't be deleted until they're taken out of it.
+CREATE TABLE IF NOT EXISTS combo_components (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    combo_id uuid NOT NULL REFERENCES combos(id) ON DELETE CASCADE,
+    label text NOT NULL,
+    food_item_id uuid NOT NULL REFERENCES food_items(id) ON DELETE RESTRICT,
+    quantity integer NOT NULL DEFAULT 1 CHECK (quantity BETWEEN 1 AND 20),
+    sort_order integer NOT NULL DEFAULT 0,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    UNIQUE (combo_id, label)
+);
+
+-- Items a customer may choose instead of the component's default
+CREATE TABLE IF NOT EXISTS combo_component_swaps (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    component_id uuid NOT NULL REFERENCES combo_components(id) ON DELETE CASCADE,
+    food_item_id uuid NOT NULL REFERENCES food_items(id) ON DELETE CASCADE,
+    price_delta decimal(10,2) NOT NULL DEFAULT 0,
+    created_at timestamptz DEFAULT now(),
+    UNIQUE (component_id, food_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_combo_components_combo ON combo_components(combo_id);
+CREATE INDEX IF NOT EXISTS idx_combo_components_food_item ON combo_components(food_item_id);
+CREATE INDEX IF NOT EXISTS idx_combo_component_swaps_component ON combo_component_swaps(component_id);
+
+ALTER TABLE combos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE combo_components ENABLE ROW LEVEL SECURITY;
+ALTER TABLE combo_component_swaps ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active combos" ON combos;
+CREATE POLICY "Anyone can view active combos"
+    ON combos
+    FOR SELECT
+    TO public
+    USING (is_active = true);
+
+DROP POLICY IF EXISTS "Anyone can view combo components" ON combo_components;
+CREATE POLICY "Anyone can view combo components"
+    ON combo_components
+    FOR SELECT
+    TO public
+    USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view combo swaps" ON combo_component_swaps;
+CREATE POLICY "Anyone can view combo swaps"
+    ON combo_component_swaps
+    FOR SELECT
+    TO public
+    USING (true);
+
+DROP TRIGGER IF EXISTS update_combos_updated_at ON combos;
+CREATE TRIGGER update_combos_updated_at
+    BEFORE UPDATE ON combos
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_combo_components_updated_at ON combo_components;
+CREATE TRIGGER update_combo_components_updated_at
+    BEFORE UPDATE ON combo_components
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. COMBOS ON ORDER ITEMS
+-- ============================================================================
+
+-- Combo rows have no food item of their own
+ALTER TABLE order_items
+    ALTER COLUMN food_item_id DROP NOT NULL;
+
+-- components: [{ component_id, label, food_item_id, name, quantity, price_delta, is_swap }]
+-- parent_item_id links a component row to its combo row.
+ALTER TABLE order_items
+    ADD COLUMN IF NOT EXISTS combo_id uuid REFERENCES combos(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS combo_name text,
+    ADD COLUMN IF NOT EXISTS components jsonb NOT NULL DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS parent_item_id uuid REFERENCES order_items(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_order_items_parent_item ON order_items(parent_item_id);
+
+-- A row is either a menu item (possibly part of a combo) or a combo
+ALTER TABLE order_items DROP CONSTRAINT IF EXISTS order_items_item_or_combo;
+ALTER TABLE order_items
+    ADD CONSTRAINT order_items_item_or_combo CHECK (
+        (combo_name IS NULL AND food_item_id IS NOT NULL)
+        OR (combo_name IS NOT NULL AND food_item_id IS NULL AND parent_item_id IS NULL)
+    );
+
+-- ============================================================================
+-- 3. CHECKING A COMBO LINE
+-- ============================================================================
+
+-- Function to fill a combo's components, applying the customer's swaps.
+-- p_swaps maps component ids to the chosen food item id; components left out
+-- get their default. Returns the components snapshot (in combo order), or
+-- NULL if a swap names another combo's component or an item the component
+-- doesn't offer.
+CREATE OR REPLACE FUNCTION resolve_combo_components(p_combo_id uuid, p_swaps jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_components jsonb;
+BEGIN
+    IF p_swaps IS NULL OR jsonb_typeof(p_swaps) <> 'object' THEN
+        RETURN NULL;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM jsonb_object_keys(p_swaps) AS component_key
+        WHERE NOT EXISTS (
+            SELECT 1 FROM combo_components c
+            WHERE c.combo_id = p_combo_id
+              AND c.id::text = component_key
+        )
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT jsonb_agg(
+        jsonb_build_object(
+            'component_id', c.id,
+            'label', c.label,
+            'food_item_id', chosen.id,
+            'name', chosen.name,
+            'quantity', c.quantity,
+            'price_delta', COALESCE(chosen.price_delta, 0),
+            'is_swap', chosen.id <> c.food_item_id
+        )
+        ORDER BY c.sort_order, c.label
+    )
+    INTO v_components
+    FROM combo_components c
+    LEFT JOIN LATERAL (
+        -- Compared as text so a malformed id is just an invalid choice
+        SELECT fi.id, fi.name, s.price_delta
+        FROM food_items fi
+        LEFT JOIN combo_component_swaps s
+            ON s.component_id = c.id
+           AND s.food_item_id = fi.id
+        WHERE fi.id::text = COALESCE(p_swaps->>(c.id::text), c.food_item_id::text)
+          AND (fi.id = c.food_item_id OR s.id IS NOT NULL)
+    ) chosen ON true
+    WHERE c.combo_id = p_combo_id;
+
+    IF v_components IS NULL OR EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(v_components) AS component
+        WHERE component->>'food_item_id' IS NULL
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN v_components;
+END;
+$$;
+
+-- Function to price one combo cart line: { "combo_id", "quantity", "swaps" }.
+-- Returns { "item": {...} } or { "error": {...} } in price_order_items' shapes.
+-- Component problems name the combo and carry the component in
+-- "component_name"; out_of_stock's "available" counts whole combos.
+CREATE OR REPLACE FUNCTION price_combo_line(p_line jsonb, p_index integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_combo_id uuid;
+    v_quantity integer;
+    v_combo combos%ROWTYPE;
+    v_components jsonb;
+    v_component jsonb;
+    v_food food_items%ROWTYPE;
+    v_error jsonb;
+    v_unit_price decimal(10,2);
+BEGIN
+    BEGIN
+        v_combo_id := (p_line->>'combo_id')::uuid;
+        v_quantity := (p_line->>'quantity')::integer;
+    EXCEPTION
+        WHEN invalid_text_representation OR numeric_value_out_of_range THEN
+            NULL;
+    END;
+
+    SELECT * INTO v_combo FROM combos WHERE id = v_combo_id;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', jsonb_build_object(
+            'index', p_index,
+            'combo_id', p_line->>'combo_id',
+            'food_item_id', NULL,
+            'name', NULL,
+            'reason', 'unknown_item'
+        ));
+    END IF;
+
+    v_error := jsonb_build_object(
+        'index', p_index,
+        'combo_id', v_combo.id,
+        'food_item_id', NULL,
+        'name', v_combo.name
+    );
+
+    IF NOT v_combo.is_active OR NOT EXISTS (SELECT 1 FROM combo_components WHERE combo_id = v_combo.id) THEN
+        RETURN jsonb_build_object('error', v_error || jsonb_build_object('reason', 'unavailable'));
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > 100 THEN
+        RETURN jsonb_build_object('error', v_error || jsonb_build_object('reason', 'invalid_quantity'));
+    END IF;
+
+    v_components := resolve_combo_components(v_combo.id, COALESCE(p_line->'swaps', '{}'::jsonb));
+
+    IF v_components IS NULL THEN
+        RETURN jsonb_build_object('error', v_error || jsonb_build_object('reason', 'invalid_options'));
+    END IF;
+
+    -- Every component has to be orderable on its own
+    FOR v_component IN SELECT * FROM jsonb_array_elements(v_components)
+    LOOP
+        SELECT * INTO v_food FROM food_items WHERE id = (v_component->>'food_item_id')::uuid;
+
+        IF NOT v_food.available THEN
+            RETURN jsonb_build_object('error', v_error || jsonb_build_object(
+                'food_item_id', v_food.id,
+                'component_name', v_food.name,
+                'reason', 'unavailable'
+            ));
+        ELSIF v_food.stock_quantity IS NOT NULL
+              AND v_quantity * (v_component->>'quantity')::integer > v_food.stock_quantity THEN
+            RETURN jsonb_build_object('error', v_error || jsonb_build_object(
+                'food_item_id', v_food.id,
+                'component_name', v_food.name,
+                'reason', 'out_of_stock',
+                'available', GREATEST(v_food.stock_quantity, 0) / (v_component->>'quantity')::integer
+            ));
+        END IF;
+    END LOOP;
+
+    v_unit_price := v_combo.price + COALESCE((
+        SELECT sum((component->>'price_delta')::decimal)
+        FROM jsonb_array_elements(v_components) AS component
+    ), 0);
+
+    RETURN jsonb_build_object('item', jsonb_build_object(
+        'index', p_index,
+        'combo_id', v_combo.id,
+        'food_item_id', NULL,
+        'name', v_combo.name,
+        'quantity', v_quantity,
+        'options', '[]'::jsonb,
+        'components', v_components,
+        'unit_price', v_unit_price,
+        'line_total', v_unit_price * v_quantity
+    ));
+END;
+$$;
+
+-- ============================================================================
+-- 4. PRICE COMBO LINES WITH THE REST OF THE CART
+-- ============================================================================
+
+-- Function to price cart lines against the current menu.
+-- Input:  [{ "food_item_id": uuid, "quantity": int, "option_ids": [uuid] }
+--          | { "combo_id": uuid, "quantity": int, "swaps": { component_id: food_item_id } }, ...]
+-- Output: { "items": [...], "total_amount": decimal, "errors": [...] }
+-- Each item carries the index of its cart line, its options snapshot and a
+-- unit_price that includes the option deltas. Combo lines are priced by
+-- price_combo_line() and carry combo_id and components instead.
+-- Each error is { "index", "food_item_id", "name", "reason" } where reason is
+-- one of: unknown_item, unavailable, invalid_quantity, invalid_options,
+-- out_of_stock. out_of_stock errors also carry "available".
+CREATE OR REPLACE FUNCTION price_order_items(
+    p_order_items jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_line jsonb;
+    v_index integer := 0;
+    v_food_item_id uuid;
+    v_quantity integer;
+    v_option_ids uuid[];
+    v_options jsonb;
+    v_unit_price decimal(10,2);
+    v_food food_items%ROWTYPE;
+    v_combo_line jsonb;
+    v_items jsonb := '[]'::jsonb;
+    v_errors jsonb := '[]'::jsonb;
+    v_total decimal(10,2) := 0;
+BEGIN
+    IF p_order_items IS NULL OR jsonb_typeof(p_order_items) <> 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+        RAISE EXCEPTION 'Cart is empty'
+            USING HINT = 'cart_empty';
+    END IF;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(p_order_items)
+    LOOP
+        IF v_line ? 'combo_id' THEN
+            v_combo_line := price_combo_line(v_line, v_index);
+
+            IF v_combo_line ? 'error' THEN
+                v_errors := v_errors || (v_combo_line->'error');
+            ELSE
+                v_items := v_items || (v_combo_line->'item');
+                v_total := v_total + (v_combo_line->'item'->>'line_total')::decimal;
+            END IF;
+
+            v_index := v_index + 1;
+            CONTINUE;
+        END IF;
+
+        v_food_item_id := NULL;
+        v_quantity := NULL;
+        v_option_ids := '{}';
+
+        BEGIN
+            v_food_item_id := (v_line->>'food_item_id')::uuid;
+            v_quantity := (v_line->>'quantity')::integer;
+
+            -- Lines from carts saved before options existed have no option_ids
+            IF jsonb_typeof(v_line->'option_ids') = 'array' THEN
+                SELECT COALESCE(array_agg(option_id::uuid), '{}')
+                INTO v_option_ids
+                FROM jsonb_array_elements_text(v_line->'option_ids') AS option_id;
+            ELSIF v_line ? 'option_ids' AND jsonb_typeof(v_line->'option_ids') <> 'null' THEN
+                v_option_ids := NULL;
+            END IF;
+        EXCEPTION
+            WHEN invalid_text_representation OR numeric_value_out_of_range THEN
+                v_option_ids := NULL;
+        END;
+
+        SELECT * INTO v_food FROM food_items WHERE id = v_food_item_id;
+
+        IF NOT FOUND THEN
+            v_errors := v_errors || jsonb_build_object(
+                'index', v_index,
+                'food_item_id', v_line->>'food_item_id',
+                'name', NULL,
+                'reason', 'unknown_item'
+            );
+        ELSIF NOT v_food.available THEN
+            v_errors := v_errors || jsonb_build_object(
+                'index', v_index,
+                'food_item_id', v_food.id,
+                'name', v_food.name,
+                'reason', 'unavailable'
+            );
+        ELSIF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > 100 THEN
+            v_errors := v_errors || jsonb_build_object(
+                'index', v_index,
+                'food_item_id', v_food.id,
+                'name', v_food.name,
+                'reason', 'invalid_quantity'
+            );
+        ELSE
+            v_options := resolve_food_options(v_food.id, v_option_ids);
+
+            IF v_options IS NULL THEN
+                v_errors := v_errors || jsonb_build_object(
+                    'index', v_index,
+                    'food_item_id', v_food.id,
+                    'name', v_food.name,
+                    'reason', 'invalid_options'
+                );
+            ELSIF v_food.stock_quantity IS NOT NULL AND v_quantity > v_food.stock_quantity THEN
+                v_errors := v_errors || jsonb_build_object(
+                    'index', v_index,
+                    'food_item_id', v_food.id,
+                    'name', v_food.name,
+                    'reason', 'out_of_stock',
+                    'available', GREATEST(v_food.stock_quantity, 0)
+                );
+            ELSE
+                v_unit_price := v_food.price + COALESCE((
+                    SELECT sum((option->>'price_delta')::decimal)
+                    FROM jsonb_array_elements(v_options) AS option
+                ), 0);
+
+                v_items := v_items || jsonb_build_object(
+                    'index', v_index,
+                    'food_item_id', v_food.id,
+                    'name', v_food.name,
+                    'quantity', v_quantity,
+                    'options', v_options,
+                    'unit_price', v_unit_price,
+                    'line_total', v_unit_price * v_quantity
+                );
+                v_total := v_total + v_unit_price * v_quantity;
+            END IF;
+        END IF;
+
+        v_index := v_index + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'items', v_items,
+        'total_amount', v_total,
+        'errors', v_errors
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION price_order_items(jsonb) TO anon;
+GRANT EXECUTE ON FUNCTION price_order_items(jsonb) TO authenticated;
+
+-- ============================================================================
+-- 5. STORE COMBOS WITH THEIR COMPONENTS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_session_id text,
+  p_tracking_id text,
+  p_order_items jsonb,
+  p_customer_note text DEFAULT '',
+  p_expected_total decimal DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_delivery_location_id uuid DEFAULT NULL,
+  p_delivery_room text DEFAULT NULL,
+  p_delivery_zone_id uuid DEFAULT NULL,
+  p_fulfilment_mode fulfilment_mode_enum DEFAULT 'delivery',
+  p_time_slot_id uuid DEFAULT NULL,
+  p_scheduled_for timestamptz DEFAULT NULL
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_order jsonb;
+  v_pricing jsonb;
+  v_subtotal decimal(10,2);
+  v_total decimal(10,2);
+  v_phone text;
+  v_location campus_locations%ROWTYPE;
+  v_zone delivery_zones%ROWTYPE;
+  v_delivery_fee decimal(10,2) := 0;
+  v_pickup_code text;
+  v_slot order_time_slots%ROWTYPE;
+  v_prep_starts_at timestamptz;
+  v_combo jsonb;
+  v_combo_item_id uuid;
+BEGIN
+  -- Check for duplicate tracking ID
+  IF EXISTS (SELECT 1 FROM orders WHERE tracking_id = p_tracking_id) THEN
+    RAISE EXCEPTION 'Duplicate tracking ID';
+  END IF;
+
+  v_phone := normalize_phone(p_customer_phone);
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Please enter a valid phone number'
+      USING HINT = 'invalid_phone';
+  END IF;
+
+  p_fulfilment_mode := COALESCE(p_fulfilment_mode, 'delivery');
+
+  IF length(trim(COALESCE(p_customer_name, ''))) NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'Please enter your name'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' THEN
+    SELECT * INTO v_location
+    FROM campus_locations
+    WHERE id = p_delivery_location_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery location from the list'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    IF length(trim(COALESCE(p_delivery_room, ''))) NOT BETWEEN 1 AND 50 THEN
+      RAISE EXCEPTION 'Please enter your room or office'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    SELECT * INTO v_zone
+    FROM delivery_zones
+    WHERE id = p_delivery_zone_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery zone'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    v_delivery_fee := v_zone.fee;
+  ELSE
+    -- Collected at the counter: no address or fee, just a code to show staff
+    v_pickup_code := lpad(floor(random() * 10000)::integer::text, 4, '0');
+  END IF;
+
+  -- Pre-orders: lock the slot so two customers can't take its last place at once
+  IF p_time_slot_id IS NOT NULL THEN
+    SELECT * INTO v_slot
+    FROM order_time_slots
+    WHERE id = p_time_slot_id
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_valid_slot_start(v_slot, p_scheduled_for) THEN
+      RAISE EXCEPTION 'This time slot is no longer available. Please choose another.'
+        USING HINT = 'slot_unavailable';
+    END IF;
+
+    IF (
+      SELECT count(*) FROM orders
+      WHERE time_slot_id = v_slot.id
+        AND scheduled_for = p_scheduled_for
+        AND status <> 'cancelled'
+    ) >= v_slot.capacity THEN
+      RAISE EXCEPTION 'This time slot is full. Please choose another.'
+        USING HINT = 'slot_full';
+    END IF;
+
+    v_prep_starts_at := p_scheduled_for - make_interval(mins => v_slot.prep_lead_minutes);
+  ELSIF NOT is_kitchen_open() THEN
+    -- ASAP orders need the kitchen open right now
+    RAISE EXCEPTION '%', (get_kitchen_status())->>'message'
+      USING HINT = 'kitchen_closed';
+  END IF;
+
+  v_pricing := price_order_items(p_order_items);
+
+  IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+    RAISE EXCEPTION 'Some items in your order cannot be ordered'
+      USING DETAIL = (v_pricing->'errors')::text,
+            HINT = 'order_items_invalid';
+  END IF;
+
+  v_subtotal := (v_pricing->>'total_amount')::decimal;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'Invalid order total amount';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' AND v_subtotal < v_zone.min_order_amount THEN
+    RAISE EXCEPTION 'Orders to % must be at least ₦%', v_zone.name, v_zone.min_order_amount
+      USING DETAIL = jsonb_build_object('min_order_amount', v_zone.min_order_amount)::text,
+            HINT = 'below_minimum_order';
+  END IF;
+
+  -- The delivery fee is charged on top of the food and kept as its own line
+  v_total := v_subtotal + v_delivery_fee;
+
+  IF p_expected_total IS NOT NULL AND p_expected_total <> v_total THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout'
+      USING DETAIL = (v_pricing || jsonb_build_object('delivery_fee', v_delivery_fee))::text,
+            HINT = 'price_changed';
+  END IF;
+
+  -- Create order
+  INSERT INTO orders (
+    session_id,
+    subtotal_amount,
+    delivery_fee,
+    total_amount,
+    tracking_id,
+    customer_note,
+    customer_phone,
+    customer_name,
+    delivery_location_id,
+    delivery_location_name,
+    delivery_room,
+    delivery_zone_id,
+    delivery_zone_name,
+    fulfilment_mode,
+    pickup_code,
+    time_slot_id,
+    scheduled_for,
+    prep_starts_at,
+    status
+  ) VALUES (
+    p_session_id,
+    v_subtotal,
+    v_delivery_fee,
+    v_total,
+    p_tracking_id,
+    COALESCE(p_customer_note, ''),
+    v_phone,
+    trim(p_customer_name),
+    v_location.id,
+    v_location.name,
+    NULLIF(trim(p_delivery_room), ''),
+    v_zone.id,
+    v_zone.name,
+    p_fulfilment_mode,
+    v_pickup_code,
+    v_slot.id,
+    CASE WHEN v_slot.id IS NOT NULL THEN p_scheduled_for END,
+    v_prep_starts_at,
+    'pending'
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items at the server-side unit price, options included
+  INSERT INTO order_items (
+    order_id,
+    food_item_id,
+    quantity,
+    unit_price,
+    options
+  )
+  SELECT
+    v_order_id,
+    (item->>'food_item_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'unit_price')::decimal,
+    COALESCE(item->'options', '[]'::jsonb)
+  FROM jsonb_array_elements(v_pricing->'items') AS item
+  WHERE item->>'combo_id' IS NULL;
+
+  -- Combos: the priced combo row, then its components at no extra charge
+  FOR v_combo IN
+    SELECT item FROM jsonb_array_elements(v_pricing->'items') AS item
+    WHERE item->>'combo_id' IS NOT NULL
+  LOOP
+    INSERT INTO order_items (
+      order_id,
+      combo_id,
+      combo_name,
+      quantity,
+      unit_price,
+      components
+    ) VALUES (
+      v_order_id,
+      (v_combo->>'combo_id')::uuid,
+      v_combo->>'name',
+      (v_combo->>'quantity')::integer,
+      (v_combo->>'unit_price')::decimal,
+      v_combo->'components'
+    )
+    RETURNING id INTO v_combo_item_id;
+
+    INSERT INTO order_items (
+      order_id,
+      food_item_id,
+      quantity,
+      unit_price,
+      parent_item_id
+    )
+    SELECT
+      v_order_id,
+      (component->>'food_item_id')::uuid,
+      (component->>'quantity')::integer * (v_combo->>'quantity')::integer,
+      0,
+      v_combo_item_id
+    FROM jsonb_array_elements(v_combo->'components') AS component;
+  END LOOP;
+
+  -- Take tracked stock now; rolls the whole order back if another order got there first
+  PERFORM deduct_order_stock(v_order_id, p_order_items);
+
+  -- Add initial status to history
+  INSERT INTO order_status_history (
+    order_id,
+    status
+  ) VALUES (
+    v_order_id,
+    'pending'
+  );
+
+  -- Return the created order with its items
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'session_id', o.session_id,
+    'subtotal_amount', o.subtotal_amount,
+    'delivery_fee', o.delivery_fee,
+    'total_amount', o.total_amount,
+    'status', o.status,
+    'tracking_id', o.tracking_id,
+    'customer_note', o.customer_note,
+    'customer_phone', o.customer_phone,
+    'customer_name', o.customer_name,
+    'delivery_location_name', o.delivery_location_name,
+    'delivery_room', o.delivery_room,
+    'delivery_zone_name', o.delivery_zone_name,
+    'fulfilment_mode', o.fulfilment_mode,
+    'pickup_code', o.pickup_code,
+    'scheduled_for', o.scheduled_for,
+    'created_at', o.created_at,
+    'order_items', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'food_item_id', oi.food_item_id,
+          'combo_id', oi.combo_id,
+          'name', COALESCE(fi.name, oi.combo_name),
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price,
+          'options', oi.options,
+          'components', oi.components
+        )
+      )
+      FROM order_items oi
+      LEFT JOIN food_items fi ON fi.id = oi.food_item_id
+      WHERE oi.order_id = o.id
+        AND oi.parent_item_id IS NULL
+    )
+  )
+  INTO v_order
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz) TO anon;
+
+-- ============================================================================
+-- 6. POINT STOCK ERRORS AT COMBO LINES
+-- ============================================================================
+
+-- Component rows are deducted like any other item; this only teaches the
+-- error lookup that a combo's cart line can hold the item too.
+-- Function to take an order's tracked items out of stock. Rows are locked in
+-- id order so concurrent orders queue behind each other instead of
+-- deadlocking. If any item doesn't have enough left the order is rejected
+-- with the same hint and error shape as a failed quote.
+CREATE OR REPLACE FUNCTION deduct_order_stock(p_order_id uuid, p_order_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_line record;
+    v_stock integer;
+    v_errors jsonb := '[]'::jsonb;
+BEGIN
+    FOR v_line IN
+        SELECT oi.food_item_id, sum(oi.quantity)::integer AS quantity
+        FROM order_items oi
+        JOIN food_items fi ON fi.id = oi.food_item_id
+        WHERE oi.order_id = p_order_id
+          AND fi.stock_quantity IS NOT NULL
+        GROUP BY oi.food_item_id
+        ORDER BY oi.food_item_id
+    LOOP
+        SELECT stock_quantity INTO v_stock
+        FROM food_items
+        WHERE id = v_line.food_item_id
+        FOR UPDATE;
+
+        IF v_stock < v_line.quantity THEN
+            v_errors := v_errors || (
+                SELECT jsonb_build_object(
+                    'index', min(line.ord) - 1,
+                    'food_item_id', v_line.food_item_id,
+                    'name', (SELECT name FROM food_items WHERE id = v_line.food_item_id),
+                    'reason', 'out_of_stock',
+                    'available', v_stock
+                )
+                FROM jsonb_array_elements(p_order_items) WITH ORDINALITY AS line(item, ord)
+                WHERE line.item->>'food_item_id' = v_line.food_item_id::text
+                   -- or a combo line with this item among its components
+                   OR line.item->>'combo_id' IN (
+                       SELECT combo.combo_id::text
+                       FROM order_items part
+                       JOIN order_items combo ON combo.id = part.parent_item_id
+                       WHERE part.order_id = p_order_id
+                         AND part.food_item_id = v_line.food_item_id
+                   )
+            );
+        ELSE
+            UPDATE food_items
+            SET stock_quantity = stock_quantity - v_line.quantity
+            WHERE id = v_line.food_item_id;
+
+            UPDATE order_items
+            SET stock_deducted = true
+            WHERE order_id = p_order_id
+              AND food_item_id = v_line.food_item_id;
+        END IF;
+    END LOOP;
+
+    IF jsonb_array_length(v_errors) > 0 THEN
+        RAISE EXCEPTION 'Some items in your order cannot be ordered'
+            USING DETAIL = v_errors::text,
+                  HINT = 'order_items_invalid';
+    END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION deduct_order_stock(uuid, jsonb) FROM public, anon, authenticated;
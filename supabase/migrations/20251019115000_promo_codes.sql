@@ -0,0 +1,625 @@
+-- ============================================================================
+-- PROMO CODES
+-- Owners run promotions with codes customers enter at checkout. A code takes
+-- a percentage or a fixed amount off the food, waives the delivery fee, or
+-- makes the cheapest of every X + Y qualifying items free. Codes can be
+-- limited to a validity window, a minimum spend, some menu categories, and a
+-- number of uses overall and per customer.
+--
+-- The discount is always worked out here: checkout previews it with
+-- quote_promo_code() and create_order_with_items() applies it again, locking
+-- the code so usage caps hold under concurrent orders. Each use is recorded
+-- in promo_redemptions against its order.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. PROMO CODES
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE promo_discount_type_enum AS ENUM ('percent', 'fixed', 'free_delivery', 'buy_x_get_y');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Stored upper-case; customers can type it in any case
+    code text NOT NULL UNIQUE CHECK (code = upper(code) AND code ~ '^[A-Z0-9_-]{3,30}$'),
+    description text,
+    discount_type promo_discount_type_enum NOT NULL,
+    percent_off decimal(5,2),
+    -- Caps a percentage discount; NULL for no cap
+    max_discount_amount decimal(10,2) CHECK (max_discount_amount > 0),
+    amount_off decimal(10,2),
+    buy_quantity integer,
+    get_quantity integer,
+    -- Food subtotal the order must reach, before any discount
+    min_subtotal decimal(10,2) NOT NULL DEFAULT 0 CHECK (min_subtotal >= 0),
+    -- Menu categories the discount applies to; NULL for the whole menu, combos included
+    categories food_category_enum[] CHECK (categories IS NULL OR cardinality(categories) > 0),
+    starts_at timestamptz,
+    ends_at timestamptz,
+    -- NULL for unlimited
+    max_redemptions integer CHECK (max_redemptions > 0),
+    max_per_customer integer CHECK (max_per_customer > 0),
+    is_active boolean NOT NULL DEFAULT true,
+    created_by uuid REFERENCES admin_credentials(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CONSTRAINT promo_codes_rule CHECK (
+        (discount_type = 'percent' AND percent_off > 0 AND percent_off <= 100)
+        OR (discount_type = 'fixed' AND amount_off > 0)
+        OR discount_type = 'free_delivery'
+        OR (discount_type = 'buy_x_get_y' AND buy_quantity >= 1 AND get_quantity >= 1)
+    ),
+    CONSTRAINT promo_codes_window CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at)
+);
+
+-- One code per order; cancelled orders stop counting towards the caps
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    promo_code_id uuid NOT NULL REFERENCES promo_codes(id) ON DELETE CASCADE,
+    order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+    session_id text NOT NULL,
+    customer_phone text,
+    discount_amount decimal(10,2) NOT NULL CHECK (discount_amount >= 0),
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_promo_code ON promo_redemptions(promo_code_id);
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_customer_phone ON promo_redemptions(customer_phone);
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_session ON promo_redemptions(session_id);
+
+-- Codes are only read through the functions below, so guessing can't list them
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_promo_codes_updated_at ON promo_codes;
+CREATE TRIGGER update_promo_codes_updated_at
+    BEFORE UPDATE ON promo_codes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. DISCOUNTS ON ORDERS
+-- ============================================================================
+
+-- total_amount = subtotal_amount + delivery_fee - discount_amount
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS discount_amount decimal(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+    ADD COLUMN IF NOT EXISTS promo_code_id uuid REFERENCES promo_codes(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS promo_code text;
+
+-- ============================================================================
+-- 3. WORKING OUT A DISCOUNT
+-- ============================================================================
+
+-- Function to check a code against a priced cart and work out its discount.
+-- p_pricing is price_order_items() output. Locks the code's row so two
+-- orders can't both take its last use. Returns
+-- { promo_code_id, code, description, discount_type, discount_amount } or
+-- raises with HINT 'promo_invalid' and a message for the customer.
+CREATE OR REPLACE FUNCTION evaluate_promo_code(
+    p_code text,
+    p_pricing jsonb,
+    p_delivery_fee decimal,
+    p_phone text,
+    p_session_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_promo promo_codes%ROWTYPE;
+    v_subtotal decimal(10,2) := (p_pricing->>'total_amount')::decimal;
+    -- One entry per qualifying unit, cheapest first
+    v_unit_prices decimal[];
+    v_eligible_subtotal decimal(10,2);
+    v_free_units integer;
+    v_discount decimal(10,2) := 0;
+BEGIN
+    SELECT * INTO v_promo
+    FROM promo_codes
+    WHERE code = upper(trim(COALESCE(p_code, '')))
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_promo.is_active THEN
+        RAISE EXCEPTION 'This promo code is not valid'
+            USING HINT = 'promo_invalid';
+    END IF;
+
+    IF v_promo.starts_at IS NOT NULL AND now() < v_promo.starts_at THEN
+        RAISE EXCEPTION 'This promo code is not active yet'
+            USING HINT = 'promo_invalid';
+    END IF;
+
+    IF v_promo.ends_at IS NOT NULL AND now() >= v_promo.ends_at THEN
+        RAISE EXCEPTION 'This promo code has expired'
+            USING HINT = 'promo_invalid';
+    END IF;
+
+    IF v_subtotal < v_promo.min_subtotal THEN
+        RAISE EXCEPTION 'Spend at least ₦% on food to use this code', v_promo.min_subtotal
+            USING HINT = 'promo_invalid';
+    END IF;
+
+    IF v_promo.max_redemptions IS NOT NULL AND (
+        SELECT count(*)
+        FROM promo_redemptions r
+        JOIN orders o ON o.id = r.order_id
+        WHERE r.promo_code_id = v_promo.id
+          AND o.status <> 'cancelled'
+    ) >= v_promo.max_redemptions THEN
+        RAISE EXCEPTION 'This promo code has been fully redeemed'
+            USING HINT = 'promo_invalid';
+    END IF;
+
+    -- A customer is their phone number, or this browser if they haven't given one yet
+    IF v_promo.max_per_customer IS NOT NULL AND (
+        SELECT count(*)
+        FROM promo_redemptions r
+        JOIN orders o ON o.id = r.order_id
+        WHERE r.promo_code_id = v_promo.id
+          AND o.status <> 'cancelled'
+          AND (r.customer_phone = p_phone OR r.session_id = p_session_id)
+    ) >= v_promo.max_per_customer THEN
+        RAISE EXCEPTION 'You have already used this promo code'
+            USING HINT = 'promo_invalid';
+    END IF;
+
+    SELECT COALESCE(array_agg(unit.price ORDER BY unit.price), '{}')
+    INTO v_unit_prices
+    FROM jsonb_array_elements(p_pricing->'items') AS line
+    LEFT JOIN food_items fi ON fi.id::text = line->>'food_item_id'
+    CROSS JOIN LATERAL (
+        SELECT (line->>'unit_price')::decimal AS price
+        FROM generate_series(1, (line->>'quantity')::integer)
+    ) unit
+    WHERE v_promo.categories IS NULL
+       OR fi.category = ANY (v_promo.categories);
+
+    v_eligible_subtotal := (SELECT COALESCE(sum(price), 0) FROM unnest(v_unit_prices) AS price);
+
+    IF v_promo.discount_type <> 'free_delivery' AND cardinality(v_unit_prices) = 0 THEN
+        RAISE EXCEPTION 'This promo code doesn''t apply to anything in your cart'
+            USING HINT = 'promo_invalid';
+    END IF;
+
+    CASE v_promo.discount_type
+        WHEN 'percent' THEN
+            v_discount := round(v_eligible_subtotal * v_promo.percent_off / 100, 2);
+            IF v_promo.max_discount_amount IS NOT NULL THEN
+                v_discount := LEAST(v_discount, v_promo.max_discount_amount);
+            END IF;
+        WHEN 'fixed' THEN
+            v_discount := LEAST(v_promo.amount_off, v_eligible_subtotal);
+        WHEN 'free_delivery' THEN
+            IF COALESCE(p_delivery_fee, 0) <= 0 THEN
+                RAISE EXCEPTION 'This promo code gives free delivery, so it only works on delivery orders with a fee'
+                    USING HINT = 'promo_invalid';
+            END IF;
+            v_discount := p_delivery_fee;
+        WHEN 'buy_x_get_y' THEN
+            v_free_units := cardinality(v_unit_prices) / (v_promo.buy_quantity + v_promo.get_quantity) * v_promo.get_quantity;
+
+            IF v_free_units = 0 THEN
+                RAISE EXCEPTION 'Order % qualifying items to get % free with this code',
+                    v_promo.buy_quantity + v_promo.get_quantity, v_promo.get_quantity
+                    USING HINT = 'promo_invalid';
+            END IF;
+
+            -- The cheapest qualifying items are the free ones
+            v_discount := (SELECT sum(price) FROM unnest(v_unit_prices[1:v_free_units]) AS price);
+    END CASE;
+
+    RETURN jsonb_build_object(
+        'promo_code_id', v_promo.id,
+        'code', v_promo.code,
+        'description', v_promo.description,
+        'discount_type', v_promo.discount_type,
+        'discount_amount', v_discount
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION evaluate_promo_code(text, jsonb, decimal, text, text) FROM public, anon, authenticated;
+
+-- Function to preview a code at checkout, priced exactly as the order would be.
+-- Returns the code's details with subtotal_amount, delivery_fee and the
+-- discounted total_amount; errors are raised as in create_order_with_items.
+CREATE OR REPLACE FUNCTION quote_promo_code(
+    p_code text,
+    p_order_items jsonb,
+    p_fulfilment_mode fulfilment_mode_enum DEFAULT 'delivery',
+    p_delivery_zone_id uuid DEFAULT NULL,
+    p_customer_phone text DEFAULT NULL,
+    p_session_id text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_pricing jsonb;
+    v_delivery_fee decimal(10,2) := 0;
+    v_promo jsonb;
+BEGIN
+    v_pricing := price_order_items(p_order_items);
+
+    IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+        RAISE EXCEPTION 'Some items in your order cannot be ordered'
+            USING DETAIL = (v_pricing->'errors')::text,
+                  HINT = 'order_items_invalid';
+    END IF;
+
+    -- Until a zone is chosen the preview has no delivery fee
+    IF COALESCE(p_fulfilment_mode, 'delivery') = 'delivery' THEN
+        SELECT COALESCE(fee, 0) INTO v_delivery_fee
+        FROM delivery_zones
+        WHERE id = p_delivery_zone_id
+          AND is_active = true;
+
+        v_delivery_fee := COALESCE(v_delivery_fee, 0);
+    END IF;
+
+    v_promo := evaluate_promo_code(p_code, v_pricing, v_delivery_fee, normalize_phone(p_customer_phone), p_session_id);
+
+    RETURN (v_promo - 'promo_code_id') || jsonb_build_object(
+        'subtotal_amount', (v_pricing->>'total_amount')::decimal,
+        'delivery_fee', v_delivery_fee,
+        'total_amount', (v_pricing->>'total_amount')::decimal + v_delivery_fee - (v_promo->>'discount_amount')::decimal
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION quote_promo_code(text, jsonb, fulfilment_mode_enum, uuid, text, text) TO anon;
+GRANT EXECUTE ON FUNCTION quote_promo_code(text, jsonb, fulfilment_mode_enum, uuid, text, text) TO authenticated;
+
+-- ============================================================================
+-- 4. APPLY PROMO CODES WHEN CREATING ORDERS
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz);
+
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_session_id text,
+  p_tracking_id text,
+  p_order_items jsonb,
+  p_customer_note text DEFAULT '',
+  p_expected_total decimal DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_delivery_location_id uuid DEFAULT NULL,
+  p_delivery_room text DEFAULT NULL,
+  p_delivery_zone_id uuid DEFAULT NULL,
+  p_fulfilment_mode fulfilment_mode_enum DEFAULT 'delivery',
+  p_time_slot_id uuid DEFAULT NULL,
+  p_scheduled_for timestamptz DEFAULT NULL,
+  p_promo_code text DEFAULT NULL
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_order jsonb;
+  v_pricing jsonb;
+  v_subtotal decimal(10,2);
+  v_total decimal(10,2);
+  v_phone text;
+  v_location campus_locations%ROWTYPE;
+  v_zone delivery_zones%ROWTYPE;
+  v_delivery_fee decimal(10,2) := 0;
+  v_pickup_code text;
+  v_slot order_time_slots%ROWTYPE;
+  v_prep_starts_at timestamptz;
+  v_combo jsonb;
+  v_combo_item_id uuid;
+  v_promo jsonb;
+  v_discount decimal(10,2) := 0;
+BEGIN
+  -- Check for duplicate tracking ID
+  IF EXISTS (SELECT 1 FROM orders WHERE tracking_id = p_tracking_id) THEN
+    RAISE EXCEPTION 'Duplicate tracking ID';
+  END IF;
+
+  v_phone := normalize_phone(p_customer_phone);
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Please enter a valid phone number'
+      USING HINT = 'invalid_phone';
+  END IF;
+
+  p_fulfilment_mode := COALESCE(p_fulfilment_mode, 'delivery');
+
+  IF length(trim(COALESCE(p_customer_name, ''))) NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'Please enter your name'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' THEN
+    SELECT * INTO v_location
+    FROM campus_locations
+    WHERE id = p_delivery_location_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery location from the list'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    IF length(trim(COALESCE(p_delivery_room, ''))) NOT BETWEEN 1 AND 50 THEN
+      RAISE EXCEPTION 'Please enter your room or office'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    SELECT * INTO v_zone
+    FROM delivery_zones
+    WHERE id = p_delivery_zone_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery zone'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    v_delivery_fee := v_zone.fee;
+  ELSE
+    -- Collected at the counter: no address or fee, just a code to show staff
+    v_pickup_code := lpad(floor(random() * 10000)::integer::text, 4, '0');
+  END IF;
+
+  -- Pre-orders: lock the slot so two customers can't take its last place at once
+  IF p_time_slot_id IS NOT NULL THEN
+    SELECT * INTO v_slot
+    FROM order_time_slots
+    WHERE id = p_time_slot_id
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_valid_slot_start(v_slot, p_scheduled_for) THEN
+      RAISE EXCEPTION 'This time slot is no longer available. Please choose another.'
+        USING HINT = 'slot_unavailable';
+    END IF;
+
+    IF (
+      SELECT count(*) FROM orders
+      WHERE time_slot_id = v_slot.id
+        AND scheduled_for = p_scheduled_for
+        AND status <> 'cancelled'
+    ) >= v_slot.capacity THEN
+      RAISE EXCEPTION 'This time slot is full. Please choose another.'
+        USING HINT = 'slot_full';
+    END IF;
+
+    v_prep_starts_at := p_scheduled_for - make_interval(mins => v_slot.prep_lead_minutes);
+  ELSIF NOT is_kitchen_open() THEN
+    -- ASAP orders need the kitchen open right now
+    RAISE EXCEPTION '%', (get_kitchen_status())->>'message'
+      USING HINT = 'kitchen_closed';
+  END IF;
+
+  v_pricing := price_order_items(p_order_items);
+
+  IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+    RAISE EXCEPTION 'Some items in your order cannot be ordered'
+      USING DETAIL = (v_pricing->'errors')::text,
+            HINT = 'order_items_invalid';
+  END IF;
+
+  v_subtotal := (v_pricing->>'total_amount')::decimal;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'Invalid order total amount';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' AND v_subtotal < v_zone.min_order_amount THEN
+    RAISE EXCEPTION 'Orders to % must be at least ₦%', v_zone.name, v_zone.min_order_amount
+      USING DETAIL = jsonb_build_object('min_order_amount', v_zone.min_order_amount)::text,
+            HINT = 'below_minimum_order';
+  END IF;
+
+  -- Checked again now, with the code locked, in case it ran out since checkout previewed it
+  IF NULLIF(trim(COALESCE(p_promo_code, '')), '') IS NOT NULL THEN
+    v_promo := evaluate_promo_code(p_promo_code, v_pricing, v_delivery_fee, v_phone, p_session_id);
+    v_discount := (v_promo->>'discount_amount')::decimal;
+  END IF;
+
+  -- The delivery fee is charged on top of the food and kept as its own line,
+  -- as is any discount
+  v_total := v_subtotal + v_delivery_fee - v_discount;
+
+  IF p_expected_total IS NOT NULL AND p_expected_total <> v_total THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout'
+      USING DETAIL = (v_pricing || jsonb_build_object('delivery_fee', v_delivery_fee, 'discount_amount', v_discount))::text,
+            HINT = 'price_changed';
+  END IF;
+
+  -- Create order
+  INSERT INTO orders (
+    session_id,
+    subtotal_amount,
+    delivery_fee,
+    discount_amount,
+    promo_code_id,
+    promo_code,
+    total_amount,
+    tracking_id,
+    customer_note,
+    customer_phone,
+    customer_name,
+    delivery_location_id,
+    delivery_location_name,
+    delivery_room,
+    delivery_zone_id,
+    delivery_zone_name,
+    fulfilment_mode,
+    pickup_code,
+    time_slot_id,
+    scheduled_for,
+    prep_starts_at,
+    status
+  ) VALUES (
+    p_session_id,
+    v_subtotal,
+    v_delivery_fee,
+    v_discount,
+    (v_promo->>'promo_code_id')::uuid,
+    v_promo->>'code',
+    v_total,
+    p_tracking_id,
+    COALESCE(p_customer_note, ''),
+    v_phone,
+    trim(p_customer_name),
+    v_location.id,
+    v_location.name,
+    NULLIF(trim(p_delivery_room), ''),
+    v_zone.id,
+    v_zone.name,
+    p_fulfilment_mode,
+    v_pickup_code,
+    v_slot.id,
+    CASE WHEN v_slot.id IS NOT NULL THEN p_scheduled_for END,
+    v_prep_starts_at,
+    'pending'
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items at the server-side unit price, options included
+  INSERT INTO order_items (
+    order_id,
+    food_item_id,
+    quantity,
+    unit_price,
+    options
+  )
+  SELECT
+    v_order_id,
+    (item->>'food_item_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'unit_price')::decimal,
+    COALESCE(item->'options', '[]'::jsonb)
+  FROM jsonb_array_elements(v_pricing->'items') AS item
+  WHERE item->>'combo_id' IS NULL;
+
+  -- Combos: the priced combo row, then its components at no extra charge
+  FOR v_combo IN
+    SELECT item FROM jsonb_array_elements(v_pricing->'items') AS item
+    WHERE item->>'combo_id' IS NOT NULL
+  LOOP
+    INSERT INTO order_items (
+      order_id,
+      combo_id,
+      combo_name,
+      quantity,
+      unit_price,
+      components
+    ) VALUES (
+      v_order_id,
+      (v_combo->>'combo_id')::uuid,
+      v_combo->>'name',
+      (v_combo->>'quantity')::integer,
+      (v_combo->>'unit_price')::decimal,
+      v_combo->'components'
+    )
+    RETURNING id INTO v_combo_item_id;
+
+    INSERT INTO order_items (
+      order_id,
+      food_item_id,
+      quantity,
+      unit_price,
+      parent_item_id
+    )
+    SELECT
+      v_order_id,
+      (component->>'food_item_id')::uuid,
+      (component->>'quantity')::integer * (v_combo->>'quantity')::integer,
+      0,
+      v_combo_item_id
+    FROM jsonb_array_elements(v_combo->'components') AS component;
+  END LOOP;
+
+  -- Take tracked stock now; rolls the whole order back if another order got there first
+  PERFORM deduct_order_stock(v_order_id, p_order_items);
+
+  IF v_promo IS NOT NULL THEN
+    INSERT INTO promo_redemptions (
+      promo_code_id,
+      order_id,
+      session_id,
+      customer_phone,
+      discount_amount
+    ) VALUES (
+      (v_promo->>'promo_code_id')::uuid,
+      v_order_id,
+      p_session_id,
+      v_phone,
+      v_discount
+    );
+  END IF;
+
+  -- Add initial status to history
+  INSERT INTO order_status_history (
+    order_id,
+    status
+  ) VALUES (
+    v_order_id,
+    'pending'
+  );
+
+  -- Return the created order with its items
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'session_id', o.session_id,
+    'subtotal_amount', o.subtotal_amount,
+    'delivery_fee', o.delivery_fee,
+    'discount_amount', o.discount_amount,
+    'promo_code', o.promo_code,
+    'total_amount', o.total_amount,
+    'status', o.status,
+    'tracking_id', o.tracking_id,
+    'customer_note', o.customer_note,
+    'customer_phone', o.customer_phone,
+    'customer_name', o.customer_name,
+    'delivery_location_name', o.delivery_location_name,
+    'delivery_room', o.delivery_room,
+    'delivery_zone_name', o.delivery_zone_name,
+    'fulfilment_mode', o.fulfilment_mode,
+    'pickup_code', o.pickup_code,
+    'scheduled_for', o.scheduled_for,
+    'created_at', o.created_at,
+    'order_items', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'food_item_id', oi.food_item_id,
+          'combo_id', oi.combo_id,
+          'name', COALESCE(fi.name, oi.combo_name),
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price,
+          'options', oi.options,
+          'components', oi.components
+        )
+      )
+      FROM order_items oi
+      LEFT JOIN food_items fi ON fi.id = oi.food_item_id
+      WHERE oi.order_id = o.id
+        AND oi.parent_item_id IS NULL
+    )
+  )
+  INTO v_order
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz, text) TO anon;
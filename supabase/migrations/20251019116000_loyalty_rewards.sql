@@ -0,0 +1,708 @@
+-- ============================================================================
+-- LOYALTY REWARDS
+-- Repeat customers collect rewards on delivered orders, either points per
+-- naira spent or a stamp per order towards a free meal, whichever the owner
+-- runs. Rewards belong to the ordering session; signed-in customers share one
+-- session across devices, so their rewards follow them.
+--
+-- Every change is a row in loyalty_ledger and a balance is the sum of its
+-- rows: earning on delivery, spending at checkout, reversals when an order is
+-- cancelled, and manual adjustments by owners. Rewards are only spent inside
+-- create_order_with_items(), which works out the discount itself.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SETTINGS
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE loyalty_unit_enum AS ENUM ('points', 'stamps');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE loyalty_reason_enum AS ENUM ('earned', 'redeemed', 'reversed', 'adjustment');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Single row holding the programme the owner runs
+CREATE TABLE IF NOT EXISTS loyalty_settings (
+    id boolean PRIMARY KEY DEFAULT true CHECK (id),
+    is_active boolean NOT NULL DEFAULT true,
+    mode loyalty_unit_enum NOT NULL DEFAULT 'points',
+    -- Points: one point per this many naira paid, each worth point_value at checkout
+    naira_per_point decimal(10,2) NOT NULL DEFAULT 100 CHECK (naira_per_point > 0),
+    point_value decimal(10,2) NOT NULL DEFAULT 1 CHECK (point_value > 0),
+    min_redeem_points integer NOT NULL DEFAULT 100 CHECK (min_redeem_points >= 1),
+    -- Stamps: one per delivered order of at least stamp_min_subtotal; a full card
+    -- makes the most expensive item of an order free
+    stamps_required integer NOT NULL DEFAULT 10 CHECK (stamps_required >= 2),
+    stamp_min_subtotal decimal(10,2) NOT NULL DEFAULT 0 CHECK (stamp_min_subtotal >= 0),
+    updated_by uuid REFERENCES admin_credentials(id) ON DELETE SET NULL,
+    updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO loyalty_settings (id) VALUES (true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Read through get_loyalty_status(); written only by the server
+ALTER TABLE loyalty_settings ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_loyalty_settings_updated_at ON loyalty_settings;
+CREATE TRIGGER update_loyalty_settings_updated_at
+    BEFORE UPDATE ON loyalty_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. LEDGER
+-- ============================================================================
+
+-- Append-only; a balance is sum(amount) for a session and unit
+CREATE TABLE IF NOT EXISTS loyalty_ledger (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id text NOT NULL,
+    customer_id uuid REFERENCES customers(id) ON DELETE SET NULL,
+    unit loyalty_unit_enum NOT NULL,
+    amount integer NOT NULL CHECK (amount <> 0),
+    reason loyalty_reason_enum NOT NULL,
+    order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+    note text,
+    created_by uuid REFERENCES admin_credentials(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now(),
+    CONSTRAINT loyalty_ledger_adjustment_note CHECK (reason <> 'adjustment' OR note IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_session ON loyalty_ledger(session_id, unit);
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_order ON loyalty_ledger(order_id);
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_created_at ON loyalty_ledger(created_at DESC);
+
+-- An order earns once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loyalty_ledger_earned_once
+    ON loyalty_ledger(order_id) WHERE reason = 'earned';
+
+-- Read through get_loyalty_status() and the admin API only
+ALTER TABLE loyalty_ledger ENABLE ROW LEVEL SECURITY;
+
+-- total_amount = subtotal_amount + delivery_fee - discount_amount - loyalty_discount
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS loyalty_discount decimal(10,2) NOT NULL DEFAULT 0 CHECK (loyalty_discount >= 0),
+    -- Points or stamps spent on the order
+    ADD COLUMN IF NOT EXISTS loyalty_redeemed integer NOT NULL DEFAULT 0 CHECK (loyalty_redeemed >= 0);
+
+-- Function to total a session's balance in one unit
+CREATE OR REPLACE FUNCTION loyalty_balance(p_session_id text, p_unit loyalty_unit_enum)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(sum(amount), 0)::integer
+    FROM loyalty_ledger
+    WHERE session_id = p_session_id
+      AND unit = p_unit;
+$$;
+
+REVOKE ALL ON FUNCTION loyalty_balance(text, loyalty_unit_enum) FROM public, anon, authenticated;
+
+-- Function to describe the programme and a session's balance for the
+-- navigation bar and checkout
+CREATE OR REPLACE FUNCTION get_loyalty_status(p_session_id text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_settings loyalty_settings%ROWTYPE;
+BEGIN
+    SELECT * INTO v_settings FROM loyalty_settings WHERE id = true;
+
+    RETURN jsonb_build_object(
+        'is_active', v_settings.is_active,
+        'mode', v_settings.mode,
+        'balance', loyalty_balance(p_session_id, v_settings.mode),
+        'naira_per_point', v_settings.naira_per_point,
+        'point_value', v_settings.point_value,
+        'min_redeem_points', v_settings.min_redeem_points,
+        'stamps_required', v_settings.stamps_required,
+        'stamp_min_subtotal', v_settings.stamp_min_subtotal
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_loyalty_status(text) TO anon;
+GRANT EXECUTE ON FUNCTION get_loyalty_status(text) TO authenticated;
+
+-- ============================================================================
+-- 3. EARNING AND REVERSING
+-- ============================================================================
+
+-- Function to reward a delivered order in the programme's current unit
+CREATE OR REPLACE FUNCTION earn_loyalty_for_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_settings loyalty_settings%ROWTYPE;
+    v_amount integer;
+BEGIN
+    SELECT * INTO v_settings FROM loyalty_settings WHERE id = true;
+
+    IF NOT v_settings.is_active THEN
+        RETURN NEW;
+    END IF;
+
+    -- Points are earned on what the customer actually paid
+    v_amount := CASE v_settings.mode
+        WHEN 'points' THEN floor(NEW.total_amount / v_settings.naira_per_point)::integer
+        ELSE CASE WHEN NEW.subtotal_amount >= v_settings.stamp_min_subtotal THEN 1 ELSE 0 END
+    END;
+
+    IF v_amount > 0 THEN
+        INSERT INTO loyalty_ledger (session_id, customer_id, unit, amount, reason, order_id)
+        VALUES (NEW.session_id, NEW.customer_id, v_settings.mode, v_amount, 'earned', NEW.id)
+        ON CONFLICT DO NOTHING;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS earn_loyalty_for_order ON orders;
+CREATE TRIGGER earn_loyalty_for_order
+    AFTER UPDATE OF status ON orders
+    FOR EACH ROW
+    WHEN (NEW.status = 'delivered' AND OLD.status IS DISTINCT FROM 'delivered')
+    EXECUTE FUNCTION earn_loyalty_for_order();
+
+-- Function to undo everything a cancelled order earned or spent, so spent
+-- rewards go back to the customer and earned ones are taken away
+CREATE OR REPLACE FUNCTION reverse_loyalty_for_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO loyalty_ledger (session_id, customer_id, unit, amount, reason, order_id, note)
+    SELECT NEW.session_id, NEW.customer_id, unit, -sum(amount)::integer, 'reversed', NEW.id, 'Order cancelled'
+    FROM loyalty_ledger
+    WHERE order_id = NEW.id
+    GROUP BY unit
+    HAVING sum(amount) <> 0;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reverse_loyalty_for_order ON orders;
+CREATE TRIGGER reverse_loyalty_for_order
+    AFTER UPDATE OF status ON orders
+    FOR EACH ROW
+    WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+    EXECUTE FUNCTION reverse_loyalty_for_order();
+
+-- Function to move an order's rewards with it when signing in merges the
+-- device's orders into an account
+CREATE OR REPLACE FUNCTION move_loyalty_with_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE loyalty_ledger
+    SET session_id = NEW.session_id,
+        customer_id = NEW.customer_id
+    WHERE order_id = NEW.id;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS move_loyalty_with_order ON orders;
+CREATE TRIGGER move_loyalty_with_order
+    AFTER UPDATE OF session_id, customer_id ON orders
+    FOR EACH ROW
+    WHEN (NEW.session_id IS DISTINCT FROM OLD.session_id OR NEW.customer_id IS DISTINCT FROM OLD.customer_id)
+    EXECUTE FUNCTION move_loyalty_with_order();
+
+-- ============================================================================
+-- 4. MANUAL ADJUSTMENTS
+-- ============================================================================
+
+-- Function for owners to add or remove rewards, e.g. to make up for a bad
+-- order. p_lookup is the customer's phone number or one of their tracking ids.
+CREATE OR REPLACE FUNCTION adjust_loyalty_balance(
+    p_lookup text,
+    p_amount integer,
+    p_note text,
+    p_admin_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_settings loyalty_settings%ROWTYPE;
+    v_session_id text;
+    v_customer_id uuid;
+    v_entry loyalty_ledger%ROWTYPE;
+BEGIN
+    IF COALESCE(p_amount, 0) = 0 THEN
+        RAISE EXCEPTION 'Enter how many to add or remove'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF NULLIF(trim(COALESCE(p_note, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'Add a note explaining the adjustment'
+            USING ERRCODE = '22023';
+    END IF;
+
+    SELECT id, session_id INTO v_customer_id, v_session_id
+    FROM customers
+    WHERE phone = customer_phone_key(p_lookup);
+
+    -- Customers without an account are found through their latest order
+    IF v_session_id IS NULL THEN
+        SELECT customer_id, session_id INTO v_customer_id, v_session_id
+        FROM orders
+        WHERE tracking_id = upper(trim(p_lookup))
+           OR customer_phone = normalize_phone(p_lookup)
+        ORDER BY created_at DESC
+        LIMIT 1;
+    END IF;
+
+    IF v_session_id IS NULL THEN
+        RAISE EXCEPTION 'No customer found for this phone number or tracking ID'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO v_settings FROM loyalty_settings WHERE id = true;
+
+    PERFORM pg_advisory_xact_lock(hashtext('loyalty:' || v_session_id));
+
+    IF loyalty_balance(v_session_id, v_settings.mode) + p_amount < 0 THEN
+        RAISE EXCEPTION 'This would leave the customer with a negative balance'
+            USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO loyalty_ledger (session_id, customer_id, unit, amount, reason, note, created_by)
+    VALUES (v_session_id, v_customer_id, v_settings.mode, p_amount, 'adjustment', trim(p_note), p_admin_id)
+    RETURNING * INTO v_entry;
+
+    RETURN to_jsonb(v_entry) || jsonb_build_object('balance', loyalty_balance(v_session_id, v_settings.mode));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION adjust_loyalty_balance(text, integer, text, uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION adjust_loyalty_balance(text, integer, text, uuid) TO service_role;
+
+-- ============================================================================
+-- 5. REDEEM REWARDS WHEN CREATING ORDERS
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz, text);
+
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_session_id text,
+  p_tracking_id text,
+  p_order_items jsonb,
+  p_customer_note text DEFAULT '',
+  p_expected_total decimal DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_delivery_location_id uuid DEFAULT NULL,
+  p_delivery_room text DEFAULT NULL,
+  p_delivery_zone_id uuid DEFAULT NULL,
+  p_fulfilment_mode fulfilment_mode_enum DEFAULT 'delivery',
+  p_time_slot_id uuid DEFAULT NULL,
+  p_scheduled_for timestamptz DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_redeem_loyalty boolean DEFAULT false
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_order jsonb;
+  v_pricing jsonb;
+  v_subtotal decimal(10,2);
+  v_total decimal(10,2);
+  v_phone text;
+  v_location campus_locations%ROWTYPE;
+  v_zone delivery_zones%ROWTYPE;
+  v_delivery_fee decimal(10,2) := 0;
+  v_pickup_code text;
+  v_slot order_time_slots%ROWTYPE;
+  v_prep_starts_at timestamptz;
+  v_combo jsonb;
+  v_combo_item_id uuid;
+  v_promo jsonb;
+  v_discount decimal(10,2) := 0;
+  v_loyalty loyalty_settings%ROWTYPE;
+  v_loyalty_balance integer;
+  v_loyalty_redeemed integer := 0;
+  v_loyalty_discount decimal(10,2) := 0;
+BEGIN
+  -- Check for duplicate tracking ID
+  IF EXISTS (SELECT 1 FROM orders WHERE tracking_id = p_tracking_id) THEN
+    RAISE EXCEPTION 'Duplicate tracking ID';
+  END IF;
+
+  v_phone := normalize_phone(p_customer_phone);
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Please enter a valid phone number'
+      USING HINT = 'invalid_phone';
+  END IF;
+
+  p_fulfilment_mode := COALESCE(p_fulfilment_mode, 'delivery');
+
+  IF length(trim(COALESCE(p_customer_name, ''))) NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'Please enter your name'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' THEN
+    SELECT * INTO v_location
+    FROM campus_locations
+    WHERE id = p_delivery_location_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery location from the list'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    IF length(trim(COALESCE(p_delivery_room, ''))) NOT BETWEEN 1 AND 50 THEN
+      RAISE EXCEPTION 'Please enter your room or office'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    SELECT * INTO v_zone
+    FROM delivery_zones
+    WHERE id = p_delivery_zone_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery zone'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    v_delivery_fee := v_zone.fee;
+  ELSE
+    -- Collected at the counter: no address or fee, just a code to show staff
+    v_pickup_code := lpad(floor(random() * 10000)::integer::text, 4, '0');
+  END IF;
+
+  -- Pre-orders: lock the slot so two customers can't take its last place at once
+  IF p_time_slot_id IS NOT NULL THEN
+    SELECT * INTO v_slot
+    FROM order_time_slots
+    WHERE id = p_time_slot_id
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_valid_slot_start(v_slot, p_scheduled_for) THEN
+      RAISE EXCEPTION 'This time slot is no longer available. Please choose another.'
+        USING HINT = 'slot_unavailable';
+    END IF;
+
+    IF (
+      SELECT count(*) FROM orders
+      WHERE time_slot_id = v_slot.id
+        AND scheduled_for = p_scheduled_for
+        AND status <> 'cancelled'
+    ) >= v_slot.capacity THEN
+      RAISE EXCEPTION 'This time slot is full. Please choose another.'
+        USING HINT = 'slot_full';
+    END IF;
+
+    v_prep_starts_at := p_scheduled_for - make_interval(mins => v_slot.prep_lead_minutes);
+  ELSIF NOT is_kitchen_open() THEN
+    -- ASAP orders need the kitchen open right now
+    RAISE EXCEPTION '%', (get_kitchen_status())->>'message'
+      USING HINT = 'kitchen_closed';
+  END IF;
+
+  v_pricing := price_order_items(p_order_items);
+
+  IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+    RAISE EXCEPTION 'Some items in your order cannot be ordered'
+      USING DETAIL = (v_pricing->'errors')::text,
+            HINT = 'order_items_invalid';
+  END IF;
+
+  v_subtotal := (v_pricing->>'total_amount')::decimal;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'Invalid order total amount';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' AND v_subtotal < v_zone.min_order_amount THEN
+    RAISE EXCEPTION 'Orders to % must be at least ₦%', v_zone.name, v_zone.min_order_amount
+      USING DETAIL = jsonb_build_object('min_order_amount', v_zone.min_order_amount)::text,
+            HINT = 'below_minimum_order';
+  END IF;
+
+  -- Checked again now, with the code locked, in case it ran out since checkout previewed it
+  IF NULLIF(trim(COALESCE(p_promo_code, '')), '') IS NOT NULL THEN
+    v_promo := evaluate_promo_code(p_promo_code, v_pricing, v_delivery_fee, v_phone, p_session_id);
+    v_discount := (v_promo->>'discount_amount')::decimal;
+  END IF;
+
+  -- The delivery fee is charged on top of the food and kept as its own line,
+  -- as is any discount
+  v_total := v_subtotal + v_delivery_fee - v_discount;
+
+  -- Rewards pay for whatever is left after any promo code
+  IF p_redeem_loyalty THEN
+    SELECT * INTO v_loyalty FROM loyalty_settings WHERE id = true;
+
+    IF NOT v_loyalty.is_active THEN
+      RAISE EXCEPTION 'Loyalty rewards are not available right now'
+        USING HINT = 'loyalty_unavailable';
+    END IF;
+
+    -- Two orders from the same customer can't spend the same balance
+    PERFORM pg_advisory_xact_lock(hashtext('loyalty:' || p_session_id));
+    v_loyalty_balance := loyalty_balance(p_session_id, v_loyalty.mode);
+
+    IF v_loyalty.mode = 'points' THEN
+      IF v_loyalty_balance < v_loyalty.min_redeem_points THEN
+        RAISE EXCEPTION 'You need at least % points to redeem', v_loyalty.min_redeem_points
+          USING HINT = 'loyalty_unavailable';
+      END IF;
+
+      v_loyalty_redeemed := LEAST(v_loyalty_balance, ceil(v_total / v_loyalty.point_value)::integer);
+      v_loyalty_discount := LEAST(v_loyalty_redeemed * v_loyalty.point_value, v_total);
+    ELSE
+      IF v_loyalty_balance < v_loyalty.stamps_required THEN
+        RAISE EXCEPTION 'Collect % stamps to get a free meal', v_loyalty.stamps_required
+          USING HINT = 'loyalty_unavailable';
+      END IF;
+
+      -- A full card makes the most expensive item free
+      v_loyalty_redeemed := v_loyalty.stamps_required;
+      v_loyalty_discount := LEAST(
+        (SELECT max((line->>'unit_price')::decimal) FROM jsonb_array_elements(v_pricing->'items') AS line),
+        v_total
+      );
+    END IF;
+
+    v_total := v_total - v_loyalty_discount;
+  END IF;
+
+  IF p_expected_total IS NOT NULL AND p_expected_total <> v_total THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout'
+      USING DETAIL = (v_pricing || jsonb_build_object('delivery_fee', v_delivery_fee, 'discount_amount', v_discount, 'loyalty_discount', v_loyalty_discount))::text,
+            HINT = 'price_changed';
+  END IF;
+
+  -- Create order
+  INSERT INTO orders (
+    session_id,
+    subtotal_amount,
+    delivery_fee,
+    discount_amount,
+    promo_code_id,
+    promo_code,
+    loyalty_discount,
+    loyalty_redeemed,
+    total_amount,
+    tracking_id,
+    customer_note,
+    customer_phone,
+    customer_name,
+    delivery_location_id,
+    delivery_location_name,
+    delivery_room,
+    delivery_zone_id,
+    delivery_zone_name,
+    fulfilment_mode,
+    pickup_code,
+    time_slot_id,
+    scheduled_for,
+    prep_starts_at,
+    status
+  ) VALUES (
+    p_session_id,
+    v_subtotal,
+    v_delivery_fee,
+    v_discount,
+    (v_promo->>'promo_code_id')::uuid,
+    v_promo->>'code',
+    v_loyalty_discount,
+    v_loyalty_redeemed,
+    v_total,
+    p_tracking_id,
+    COALESCE(p_customer_note, ''),
+    v_phone,
+    trim(p_customer_name),
+    v_location.id,
+    v_location.name,
+    NULLIF(trim(p_delivery_room), ''),
+    v_zone.id,
+    v_zone.name,
+    p_fulfilment_mode,
+    v_pickup_code,
+    v_slot.id,
+    CASE WHEN v_slot.id IS NOT NULL THEN p_scheduled_for END,
+    v_prep_starts_at,
+    'pending'
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items at the server-side unit price, options included
+  INSERT INTO order_items (
+    order_id,
+    food_item_id,
+    quantity,
+    unit_price,
+    options
+  )
+  SELECT
+    v_order_id,
+    (item->>'food_item_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'unit_price')::decimal,
+    COALESCE(item->'options', '[]'::jsonb)
+  FROM jsonb_array_elements(v_pricing->'items') AS item
+  WHERE item->>'combo_id' IS NULL;
+
+  -- Combos: the priced combo row, then its components at no extra charge
+  FOR v_combo IN
+    SELECT item FROM jsonb_array_elements(v_pricing->'items') AS item
+    WHERE item->>'combo_id' IS NOT NULL
+  LOOP
+    INSERT INTO order_items (
+      order_id,
+      combo_id,
+      combo_name,
+      quantity,
+      unit_price,
+      components
+    ) VALUES (
+      v_order_id,
+      (v_combo->>'combo_id')::uuid,
+      v_combo->>'name',
+      (v_combo->>'quantity')::integer,
+      (v_combo->>'unit_price')::decimal,
+      v_combo->'components'
+    )
+    RETURNING id INTO v_combo_item_id;
+
+    INSERT INTO order_items (
+      order_id,
+      food_item_id,
+      quantity,
+      unit_price,
+      parent_item_id
+    )
+    SELECT
+      v_order_id,
+      (component->>'food_item_id')::uuid,
+      (component->>'quantity')::integer * (v_combo->>'quantity')::integer,
+      0,
+      v_combo_item_id
+    FROM jsonb_array_elements(v_combo->'components') AS component;
+  END LOOP;
+
+  -- Take tracked stock now; rolls the whole order back if another order got there first
+  PERFORM deduct_order_stock(v_order_id, p_order_items);
+
+  IF v_promo IS NOT NULL THEN
+    INSERT INTO promo_redemptions (
+      promo_code_id,
+      order_id,
+      session_id,
+      customer_phone,
+      discount_amount
+    ) VALUES (
+      (v_promo->>'promo_code_id')::uuid,
+      v_order_id,
+      p_session_id,
+      v_phone,
+      v_discount
+    );
+  END IF;
+
+  IF v_loyalty_redeemed > 0 THEN
+    INSERT INTO loyalty_ledger (session_id, customer_id, unit, amount, reason, order_id)
+    SELECT session_id, customer_id, v_loyalty.mode, -v_loyalty_redeemed, 'redeemed', id
+    FROM orders
+    WHERE id = v_order_id;
+  END IF;
+
+  -- Add initial status to history
+  INSERT INTO order_status_history (
+    order_id,
+    status
+  ) VALUES (
+    v_order_id,
+    'pending'
+  );
+
+  -- Return the created order with its items
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'session_id', o.session_id,
+    'subtotal_amount', o.subtotal_amount,
+    'delivery_fee', o.delivery_fee,
+    'discount_amount', o.discount_amount,
+    'promo_code', o.promo_code,
+    'loyalty_discount', o.loyalty_discount,
+    'loyalty_redeemed', o.loyalty_redeemed,
+    'total_amount', o.total_amount,
+    'status', o.status,
+    'tracking_id', o.tracking_id,
+    'customer_note', o.customer_note,
+    'customer_phone', o.customer_phone,
+    'customer_name', o.customer_name,
+    'delivery_location_name', o.delivery_location_name,
+    'delivery_room', o.delivery_room,
+    'delivery_zone_name', o.delivery_zone_name,
+    'fulfilment_mode', o.fulfilment_mode,
+    'pickup_code', o.pickup_code,
+    'scheduled_for', o.scheduled_for,
+    'created_at', o.created_at,
+    'order_items', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'food_item_id', oi.food_item_id,
+          'combo_id', oi.combo_id,
+          'name', COALESCE(fi.name, oi.combo_name),
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price,
+          'options', oi.options,
+          'components', oi.components
+        )
+      )
+      FROM order_items oi
+      LEFT JOIN food_items fi ON fi.id = oi.food_item_id
+      WHERE oi.order_id = o.id
+        AND oi.parent_item_id IS NULL
+    )
+  )
+  INTO v_order
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz, text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz, text, boolean) TO anon;
@@ -0,0 +1,837 @@
+-- ============================================================================
+-- REFERRALS
+-- Every customer can share a referral code. A new customer who enters one on
+-- their first order, and has that order delivered, earns both themselves and
+-- the referrer a credit. Codes can't be used by the session or phone number
+-- that owns them, or by anyone who has ordered before.
+--
+-- Credits are kept in referral_credits, an append-only ledger per session,
+-- and create_order_with_items() spends whatever a customer has on their next
+-- order. Cancelling an order gives back credit it spent and takes back
+-- credit it earned.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SETTINGS
+-- ============================================================================
+
+-- Single row holding what each side of a referral earns
+CREATE TABLE IF NOT EXISTS referral_settings (
+    id boolean PRIMARY KEY DEFAULT true CHECK (id),
+    is_active boolean NOT NULL DEFAULT true,
+    referrer_credit decimal(10,2) NOT NULL DEFAULT 500 CHECK (referrer_credit >= 0),
+    referee_credit decimal(10,2) NOT NULL DEFAULT 500 CHECK (referee_credit >= 0),
+    updated_by uuid REFERENCES admin_credentials(id) ON DELETE SET NULL,
+    updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO referral_settings (id) VALUES (true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Read through get_referral_status(); written only by the server
+ALTER TABLE referral_settings ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_referral_settings_updated_at ON referral_settings;
+CREATE TRIGGER update_referral_settings_updated_at
+    BEFORE UPDATE ON referral_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. CODES AND REFERRALS
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE referral_status_enum AS ENUM ('pending', 'rewarded', 'cancelled');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- One code per session, created the first time the customer asks for it
+CREATE TABLE IF NOT EXISTS referral_codes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    code text NOT NULL UNIQUE,
+    session_id text NOT NULL UNIQUE,
+    customer_id uuid REFERENCES customers(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now()
+);
+
+-- A referral waits on the new customer's first order until it is delivered.
+-- Credits are copied from the settings when the order is placed.
+CREATE TABLE IF NOT EXISTS referrals (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    referral_code_id uuid NOT NULL REFERENCES referral_codes(id) ON DELETE CASCADE,
+    referee_session_id text NOT NULL,
+    referee_phone text NOT NULL,
+    order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+    status referral_status_enum NOT NULL DEFAULT 'pending',
+    referrer_credit decimal(10,2) NOT NULL CHECK (referrer_credit >= 0),
+    referee_credit decimal(10,2) NOT NULL CHECK (referee_credit >= 0),
+    rewarded_at timestamptz,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_referrals_referral_code ON referrals(referral_code_id);
+
+-- A customer can only be referred once, unless that order was cancelled
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referrals_referee_once
+    ON referrals(referee_session_id) WHERE status <> 'cancelled';
+
+-- Append-only; a balance is sum(amount) for a session
+CREATE TABLE IF NOT EXISTS referral_credits (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id text NOT NULL,
+    amount decimal(10,2) NOT NULL CHECK (amount <> 0),
+    reason text NOT NULL CHECK (reason IN ('referrer_reward', 'referee_reward', 'redeemed', 'reversed')),
+    referral_id uuid REFERENCES referrals(id) ON DELETE SET NULL,
+    order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_referral_credits_session ON referral_credits(session_id);
+CREATE INDEX IF NOT EXISTS idx_referral_credits_order ON referral_credits(order_id);
+
+-- Read through the functions below and the admin API only
+ALTER TABLE referral_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE referrals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE referral_credits ENABLE ROW LEVEL SECURITY;
+
+-- total_amount = subtotal_amount + delivery_fee - discount_amount - loyalty_discount - referral_credit
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS referral_credit decimal(10,2) NOT NULL DEFAULT 0 CHECK (referral_credit >= 0),
+    -- The code a new customer entered, copied as entered
+    ADD COLUMN IF NOT EXISTS referral_code text;
+
+-- ============================================================================
+-- 3. CUSTOMER FUNCTIONS
+-- ============================================================================
+
+-- Function to total a session's unspent referral credit
+CREATE OR REPLACE FUNCTION referral_credit_balance(p_session_id text)
+RETURNS decimal
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(sum(amount), 0)
+    FROM referral_credits
+    WHERE session_id = p_session_id;
+$$;
+
+REVOKE ALL ON FUNCTION referral_credit_balance(text) FROM public, anon, authenticated;
+
+-- Function to return a session's referral code, creating it on first use.
+-- Codes are "FPI-" and six characters that can't be mistaken for each other.
+CREATE OR REPLACE FUNCTION get_referral_code(p_session_id text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    v_code text;
+BEGIN
+    IF NULLIF(trim(COALESCE(p_session_id, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'Session is required'
+            USING ERRCODE = '22023';
+    END IF;
+
+    SELECT code INTO v_code FROM referral_codes WHERE session_id = p_session_id;
+
+    WHILE v_code IS NULL LOOP
+        v_code := 'FPI-' || (
+            SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::integer, 1), '')
+            FROM generate_series(1, 6)
+        );
+
+        INSERT INTO referral_codes (code, session_id, customer_id)
+        VALUES (v_code, p_session_id, (SELECT id FROM customers WHERE session_id = p_session_id))
+        ON CONFLICT DO NOTHING;
+
+        -- Another request for this session may have won the race, or the code was taken
+        SELECT code INTO v_code FROM referral_codes WHERE session_id = p_session_id;
+    END LOOP;
+
+    RETURN v_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_referral_code(text) TO anon;
+GRANT EXECUTE ON FUNCTION get_referral_code(text) TO authenticated;
+
+-- Function to describe the programme for a session: its code if it has one,
+-- its credit, and whether it can still be referred
+CREATE OR REPLACE FUNCTION get_referral_status(p_session_id text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_settings referral_settings%ROWTYPE;
+BEGIN
+    SELECT * INTO v_settings FROM referral_settings WHERE id = true;
+
+    RETURN jsonb_build_object(
+        'is_active', v_settings.is_active,
+        'referrer_credit', v_settings.referrer_credit,
+        'referee_credit', v_settings.referee_credit,
+        'code', (SELECT code FROM referral_codes WHERE session_id = p_session_id),
+        'credit_balance', referral_credit_balance(p_session_id),
+        'successful_referrals', (
+            SELECT count(*)
+            FROM referrals r
+            JOIN referral_codes rc ON rc.id = r.referral_code_id
+            WHERE rc.session_id = p_session_id
+              AND r.status = 'rewarded'
+        ),
+        'can_be_referred', v_settings.is_active AND NOT EXISTS (
+            SELECT 1 FROM orders
+            WHERE session_id = p_session_id
+              AND status <> 'cancelled'
+        )
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_referral_status(text) TO anon;
+GRANT EXECUTE ON FUNCTION get_referral_status(text) TO authenticated;
+
+-- ============================================================================
+-- 4. REWARDING AND REVERSING
+-- ============================================================================
+
+-- Function to credit both sides once a referred customer's first order is delivered
+CREATE OR REPLACE FUNCTION reward_referral_for_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_referral referrals%ROWTYPE;
+BEGIN
+    UPDATE referrals
+    SET status = 'rewarded',
+        rewarded_at = now()
+    WHERE order_id = NEW.id
+      AND status = 'pending'
+    RETURNING * INTO v_referral;
+
+    IF v_referral.id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO referral_credits (session_id, amount, reason, referral_id, order_id)
+    SELECT rc.session_id, v_referral.referrer_credit, 'referrer_reward', v_referral.id, NEW.id
+    FROM referral_codes rc
+    WHERE rc.id = v_referral.referral_code_id
+      AND v_referral.referrer_credit > 0;
+
+    IF v_referral.referee_credit > 0 THEN
+        INSERT INTO referral_credits (session_id, amount, reason, referral_id, order_id)
+        VALUES (NEW.session_id, v_referral.referee_credit, 'referee_reward', v_referral.id, NEW.id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reward_referral_for_order ON orders;
+CREATE TRIGGER reward_referral_for_order
+    AFTER UPDATE OF status ON orders
+    FOR EACH ROW
+    WHEN (NEW.status = 'delivered' AND OLD.status IS DISTINCT FROM 'delivered')
+    EXECUTE FUNCTION reward_referral_for_order();
+
+-- Function to return credit a cancelled order spent, take back credit it
+-- earned either side, and free the new customer to be referred again
+CREATE OR REPLACE FUNCTION reverse_referral_for_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE referrals
+    SET status = 'cancelled'
+    WHERE order_id = NEW.id;
+
+    INSERT INTO referral_credits (session_id, amount, reason, order_id)
+    SELECT session_id, -sum(amount), 'reversed', NEW.id
+    FROM referral_credits
+    WHERE order_id = NEW.id
+    GROUP BY session_id
+    HAVING sum(amount) <> 0;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reverse_referral_for_order ON orders;
+CREATE TRIGGER reverse_referral_for_order
+    AFTER UPDATE OF status ON orders
+    FOR EACH ROW
+    WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+    EXECUTE FUNCTION reverse_referral_for_order();
+
+-- Function to move the customer's own credit rows for an order with it when
+-- signing in merges the device's orders into an account. The referrer's
+-- rows for the same order stay with the referrer.
+CREATE OR REPLACE FUNCTION move_referral_credit_with_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE referral_credits
+    SET session_id = NEW.session_id
+    WHERE order_id = NEW.id
+      AND session_id = OLD.session_id;
+
+    UPDATE referrals
+    SET referee_session_id = NEW.session_id
+    WHERE order_id = NEW.id;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS move_referral_credit_with_order ON orders;
+CREATE TRIGGER move_referral_credit_with_order
+    AFTER UPDATE OF session_id ON orders
+    FOR EACH ROW
+    WHEN (NEW.session_id IS DISTINCT FROM OLD.session_id)
+    EXECUTE FUNCTION move_referral_credit_with_order();
+
+-- ============================================================================
+-- 5. REPORTING
+-- ============================================================================
+
+-- Function to rank referrers by delivered referrals, for the admin report.
+-- Guests are named from their latest order.
+CREATE OR REPLACE FUNCTION top_referrers(p_limit integer DEFAULT 20)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(jsonb_agg(row_to_json(ranked) ORDER BY ranked.rewarded DESC, ranked.pending DESC), '[]'::jsonb)
+    FROM (
+        SELECT
+            rc.code,
+            rc.session_id,
+            COALESCE(c.display_name, latest.customer_name) AS name,
+            COALESCE(c.phone, latest.customer_phone) AS phone,
+            count(*) FILTER (WHERE r.status = 'rewarded') AS rewarded,
+            count(*) FILTER (WHERE r.status = 'pending') AS pending,
+            COALESCE(sum(r.referrer_credit) FILTER (WHERE r.status = 'rewarded'), 0) AS credit_earned,
+            COALESCE(sum(o.total_amount) FILTER (WHERE r.status = 'rewarded'), 0) AS referred_revenue,
+            max(r.created_at) AS last_referred_at
+        FROM referral_codes rc
+        JOIN referrals r ON r.referral_code_id = rc.id
+        JOIN orders o ON o.id = r.order_id
+        LEFT JOIN customers c ON c.session_id = rc.session_id
+        LEFT JOIN LATERAL (
+            SELECT customer_name, customer_phone
+            FROM orders
+            WHERE session_id = rc.session_id
+            ORDER BY created_at DESC
+            LIMIT 1
+        ) latest ON true
+        WHERE r.status <> 'cancelled'
+        GROUP BY rc.id, c.display_name, c.phone, latest.customer_name, latest.customer_phone
+        ORDER BY rewarded DESC, pending DESC
+        LIMIT p_limit
+    ) ranked;
+$$;
+
+REVOKE ALL ON FUNCTION top_referrers(integer) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION top_referrers(integer) TO service_role;
+
+-- ============================================================================
+-- 6. REFERRALS AND CREDIT WHEN CREATING ORDERS
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz, text, boolean);
+
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_session_id text,
+  p_tracking_id text,
+  p_order_items jsonb,
+  p_customer_note text DEFAULT '',
+  p_expected_total decimal DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_delivery_location_id uuid DEFAULT NULL,
+  p_delivery_room text DEFAULT NULL,
+  p_delivery_zone_id uuid DEFAULT NULL,
+  p_fulfilment_mode fulfilment_mode_enum DEFAULT 'delivery',
+  p_time_slot_id uuid DEFAULT NULL,
+  p_scheduled_for timestamptz DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_redeem_loyalty boolean DEFAULT false,
+  p_referral_code text DEFAULT NULL
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_order jsonb;
+  v_pricing jsonb;
+  v_subtotal decimal(10,2);
+  v_total decimal(10,2);
+  v_phone text;
+  v_location campus_locations%ROWTYPE;
+  v_zone delivery_zones%ROWTYPE;
+  v_delivery_fee decimal(10,2) := 0;
+  v_pickup_code text;
+  v_slot order_time_slots%ROWTYPE;
+  v_prep_starts_at timestamptz;
+  v_combo jsonb;
+  v_combo_item_id uuid;
+  v_promo jsonb;
+  v_discount decimal(10,2) := 0;
+  v_loyalty loyalty_settings%ROWTYPE;
+  v_loyalty_balance integer;
+  v_loyalty_redeemed integer := 0;
+  v_loyalty_discount decimal(10,2) := 0;
+  v_referral_settings referral_settings%ROWTYPE;
+  v_referral_code referral_codes%ROWTYPE;
+  v_referral_credit decimal(10,2) := 0;
+BEGIN
+  -- Check for duplicate tracking ID
+  IF EXISTS (SELECT 1 FROM orders WHERE tracking_id = p_tracking_id) THEN
+    RAISE EXCEPTION 'Duplicate tracking ID';
+  END IF;
+
+  v_phone := normalize_phone(p_customer_phone);
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Please enter a valid phone number'
+      USING HINT = 'invalid_phone';
+  END IF;
+
+  p_fulfilment_mode := COALESCE(p_fulfilment_mode, 'delivery');
+
+  IF length(trim(COALESCE(p_customer_name, ''))) NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'Please enter your name'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' THEN
+    SELECT * INTO v_location
+    FROM campus_locations
+    WHERE id = p_delivery_location_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery location from the list'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    IF length(trim(COALESCE(p_delivery_room, ''))) NOT BETWEEN 1 AND 50 THEN
+      RAISE EXCEPTION 'Please enter your room or office'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    SELECT * INTO v_zone
+    FROM delivery_zones
+    WHERE id = p_delivery_zone_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery zone'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    v_delivery_fee := v_zone.fee;
+  ELSE
+    -- Collected at the counter: no address or fee, just a code to show staff
+    v_pickup_code := lpad(floor(random() * 10000)::integer::text, 4, '0');
+  END IF;
+
+  -- Pre-orders: lock the slot so two customers can't take its last place at once
+  IF p_time_slot_id IS NOT NULL THEN
+    SELECT * INTO v_slot
+    FROM order_time_slots
+    WHERE id = p_time_slot_id
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_valid_slot_start(v_slot, p_scheduled_for) THEN
+      RAISE EXCEPTION 'This time slot is no longer available. Please choose another.'
+        USING HINT = 'slot_unavailable';
+    END IF;
+
+    IF (
+      SELECT count(*) FROM orders
+      WHERE time_slot_id = v_slot.id
+        AND scheduled_for = p_scheduled_for
+        AND status <> 'cancelled'
+    ) >= v_slot.capacity THEN
+      RAISE EXCEPTION 'This time slot is full. Please choose another.'
+        USING HINT = 'slot_full';
+    END IF;
+
+    v_prep_starts_at := p_scheduled_for - make_interval(mins => v_slot.prep_lead_minutes);
+  ELSIF NOT is_kitchen_open() THEN
+    -- ASAP orders need the kitchen open right now
+    RAISE EXCEPTION '%', (get_kitchen_status())->>'message'
+      USING HINT = 'kitchen_closed';
+  END IF;
+
+  v_pricing := price_order_items(p_order_items);
+
+  IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+    RAISE EXCEPTION 'Some items in your order cannot be ordered'
+      USING DETAIL = (v_pricing->'errors')::text,
+            HINT = 'order_items_invalid';
+  END IF;
+
+  v_subtotal := (v_pricing->>'total_amount')::decimal;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'Invalid order total amount';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' AND v_subtotal < v_zone.min_order_amount THEN
+    RAISE EXCEPTION 'Orders to % must be at least ₦%', v_zone.name, v_zone.min_order_amount
+      USING DETAIL = jsonb_build_object('min_order_amount', v_zone.min_order_amount)::text,
+            HINT = 'below_minimum_order';
+  END IF;
+
+  -- Checked again now, with the code locked, in case it ran out since checkout previewed it
+  IF NULLIF(trim(COALESCE(p_promo_code, '')), '') IS NOT NULL THEN
+    v_promo := evaluate_promo_code(p_promo_code, v_pricing, v_delivery_fee, v_phone, p_session_id);
+    v_discount := (v_promo->>'discount_amount')::decimal;
+  END IF;
+
+  -- The delivery fee is charged on top of the food and kept as its own line,
+  -- as is any discount
+  v_total := v_subtotal + v_delivery_fee - v_discount;
+
+  -- Rewards pay for whatever is left after any promo code
+  IF p_redeem_loyalty THEN
+    SELECT * INTO v_loyalty FROM loyalty_settings WHERE id = true;
+
+    IF NOT v_loyalty.is_active THEN
+      RAISE EXCEPTION 'Loyalty rewards are not available right now'
+        USING HINT = 'loyalty_unavailable';
+    END IF;
+
+    -- Two orders from the same customer can't spend the same balance
+    PERFORM pg_advisory_xact_lock(hashtext('loyalty:' || p_session_id));
+    v_loyalty_balance := loyalty_balance(p_session_id, v_loyalty.mode);
+
+    IF v_loyalty.mode = 'points' THEN
+      IF v_loyalty_balance < v_loyalty.min_redeem_points THEN
+        RAISE EXCEPTION 'You need at least % points to redeem', v_loyalty.min_redeem_points
+          USING HINT = 'loyalty_unavailable';
+      END IF;
+
+      v_loyalty_redeemed := LEAST(v_loyalty_balance, ceil(v_total / v_loyalty.point_value)::integer);
+      v_loyalty_discount := LEAST(v_loyalty_redeemed * v_loyalty.point_value, v_total);
+    ELSE
+      IF v_loyalty_balance < v_loyalty.stamps_required THEN
+        RAISE EXCEPTION 'Collect % stamps to get a free meal', v_loyalty.stamps_required
+          USING HINT = 'loyalty_unavailable';
+      END IF;
+
+      -- A full card makes the most expensive item free
+      v_loyalty_redeemed := v_loyalty.stamps_required;
+      v_loyalty_discount := LEAST(
+        (SELECT max((line->>'unit_price')::decimal) FROM jsonb_array_elements(v_pricing->'items') AS line),
+        v_total
+      );
+    END IF;
+
+    v_total := v_total - v_loyalty_discount;
+  END IF;
+
+  -- Referral codes are for a new customer's first order, and never their own
+  IF NULLIF(trim(COALESCE(p_referral_code, '')), '') IS NOT NULL THEN
+    SELECT * INTO v_referral_settings FROM referral_settings WHERE id = true;
+
+    IF NOT v_referral_settings.is_active THEN
+      RAISE EXCEPTION 'Referral codes aren''t being accepted right now'
+        USING HINT = 'referral_invalid';
+    END IF;
+
+    SELECT * INTO v_referral_code
+    FROM referral_codes
+    WHERE code = upper(trim(p_referral_code));
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This referral code is not valid'
+        USING HINT = 'referral_invalid';
+    END IF;
+
+    IF v_referral_code.session_id = p_session_id
+       OR EXISTS (
+         SELECT 1 FROM orders
+         WHERE session_id = v_referral_code.session_id
+           AND customer_phone = v_phone
+       )
+       OR EXISTS (
+         SELECT 1 FROM customers
+         WHERE session_id = v_referral_code.session_id
+           AND phone = customer_phone_key(v_phone)
+       ) THEN
+      RAISE EXCEPTION 'You can''t use your own referral code'
+        USING HINT = 'referral_invalid';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM orders
+      WHERE (session_id = p_session_id OR customer_phone = v_phone)
+        AND status <> 'cancelled'
+    ) THEN
+      RAISE EXCEPTION 'Referral codes are for your first order only'
+        USING HINT = 'referral_invalid';
+    END IF;
+  END IF;
+
+  -- Referral credit is spent automatically on whatever is still owed
+  PERFORM pg_advisory_xact_lock(hashtext('referral_credit:' || p_session_id));
+  v_referral_credit := LEAST(GREATEST(referral_credit_balance(p_session_id), 0), v_total);
+  v_total := v_total - v_referral_credit;
+
+  IF p_expected_total IS NOT NULL AND p_expected_total <> v_total THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout'
+      USING DETAIL = (v_pricing || jsonb_build_object('delivery_fee', v_delivery_fee, 'discount_amount', v_discount, 'loyalty_discount', v_loyalty_discount, 'referral_credit', v_referral_credit))::text,
+            HINT = 'price_changed';
+  END IF;
+
+  -- Create order
+  INSERT INTO orders (
+    session_id,
+    subtotal_amount,
+    delivery_fee,
+    discount_amount,
+    promo_code_id,
+    promo_code,
+    loyalty_discount,
+    loyalty_redeemed,
+    referral_credit,
+    referral_code,
+    total_amount,
+    tracking_id,
+    customer_note,
+    customer_phone,
+    customer_name,
+    delivery_location_id,
+    delivery_location_name,
+    delivery_room,
+    delivery_zone_id,
+    delivery_zone_name,
+    fulfilment_mode,
+    pickup_code,
+    time_slot_id,
+    scheduled_for,
+    prep_starts_at,
+    status
+  ) VALUES (
+    p_session_id,
+    v_subtotal,
+    v_delivery_fee,
+    v_discount,
+    (v_promo->>'promo_code_id')::uuid,
+    v_promo->>'code',
+    v_loyalty_discount,
+    v_loyalty_redeemed,
+    v_referral_credit,
+    v_referral_code.code,
+    v_total,
+    p_tracking_id,
+    COALESCE(p_customer_note, ''),
+    v_phone,
+    trim(p_customer_name),
+    v_location.id,
+    v_location.name,
+    NULLIF(trim(p_delivery_room), ''),
+    v_zone.id,
+    v_zone.name,
+    p_fulfilment_mode,
+    v_pickup_code,
+    v_slot.id,
+    CASE WHEN v_slot.id IS NOT NULL THEN p_scheduled_for END,
+    v_prep_starts_at,
+    'pending'
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items at the server-side unit price, options included
+  INSERT INTO order_items (
+    order_id,
+    food_item_id,
+    quantity,
+    unit_price,
+    options
+  )
+  SELECT
+    v_order_id,
+    (item->>'food_item_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'unit_price')::decimal,
+    COALESCE(item->'options', '[]'::jsonb)
+  FROM jsonb_array_elements(v_pricing->'items') AS item
+  WHERE item->>'combo_id' IS NULL;
+
+  -- Combos: the priced combo row, then its components at no extra charge
+  FOR v_combo IN
+    SELECT item FROM jsonb_array_elements(v_pricing->'items') AS item
+    WHERE item->>'combo_id' IS NOT NULL
+  LOOP
+    INSERT INTO order_items (
+      order_id,
+      combo_id,
+      combo_name,
+      quantity,
+      unit_price,
+      components
+    ) VALUES (
+      v_order_id,
+      (v_combo->>'combo_id')::uuid,
+      v_combo->>'name',
+      (v_combo->>'quantity')::integer,
+      (v_combo->>'unit_price')::decimal,
+      v_combo->'components'
+    )
+    RETURNING id INTO v_combo_item_id;
+
+    INSERT INTO order_items (
+      order_id,
+      food_item_id,
+      quantity,
+      unit_price,
+      parent_item_id
+    )
+    SELECT
+      v_order_id,
+      (component->>'food_item_id')::uuid,
+      (component->>'quantity')::integer * (v_combo->>'quantity')::integer,
+      0,
+      v_combo_item_id
+    FROM jsonb_array_elements(v_combo->'components') AS component;
+  END LOOP;
+
+  -- Take tracked stock now; rolls the whole order back if another order got there first
+  PERFORM deduct_order_stock(v_order_id, p_order_items);
+
+  IF v_promo IS NOT NULL THEN
+    INSERT INTO promo_redemptions (
+      promo_code_id,
+      order_id,
+      session_id,
+      customer_phone,
+      discount_amount
+    ) VALUES (
+      (v_promo->>'promo_code_id')::uuid,
+      v_order_id,
+      p_session_id,
+      v_phone,
+      v_discount
+    );
+  END IF;
+
+  IF v_loyalty_redeemed > 0 THEN
+    INSERT INTO loyalty_ledger (session_id, customer_id, unit, amount, reason, order_id)
+    SELECT session_id, customer_id, v_loyalty.mode, -v_loyalty_redeemed, 'redeemed', id
+    FROM orders
+    WHERE id = v_order_id;
+  END IF;
+
+  IF v_referral_credit > 0 THEN
+    INSERT INTO referral_credits (session_id, amount, reason, order_id)
+    VALUES (p_session_id, -v_referral_credit, 'redeemed', v_order_id);
+  END IF;
+
+  IF v_referral_code.id IS NOT NULL THEN
+    INSERT INTO referrals (
+      referral_code_id,
+      referee_session_id,
+      referee_phone,
+      order_id,
+      referrer_credit,
+      referee_credit
+    ) VALUES (
+      v_referral_code.id,
+      p_session_id,
+      v_phone,
+      v_order_id,
+      v_referral_settings.referrer_credit,
+      v_referral_settings.referee_credit
+    );
+  END IF;
+
+  -- Add initial status to history
+  INSERT INTO order_status_history (
+    order_id,
+    status
+  ) VALUES (
+    v_order_id,
+    'pending'
+  );
+
+  -- Return the created order with its items
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'session_id', o.session_id,
+    'subtotal_amount', o.subtotal_amount,
+    'delivery_fee', o.delivery_fee,
+    'discount_amount', o.discount_amount,
+    'promo_code', o.promo_code,
+    'loyalty_discount', o.loyalty_discount,
+    'loyalty_redeemed', o.loyalty_redeemed,
+    'referral_credit', o.referral_credit,
+    'referral_code', o.referral_code,
+    'total_amount', o.total_amount,
+    'status', o.status,
+    'tracking_id', o.tracking_id,
+    'customer_note', o.customer_note,
+    'customer_phone', o.customer_phone,
+    'customer_name', o.customer_name,
+    'delivery_location_name', o.delivery_location_name,
+    'delivery_room', o.delivery_room,
+    'delivery_zone_name', o.delivery_zone_name,
+    'fulfilment_mode', o.fulfilment_mode,
+    'pickup_code', o.pickup_code,
+    'scheduled_for', o.scheduled_for,
+    'created_at', o.created_at,
+    'order_items', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'food_item_id', oi.food_item_id,
+          'combo_id', oi.combo_id,
+          'name', COALESCE(fi.name, oi.combo_name),
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price,
+          'options', oi.options,
+          'components', oi.components
+        )
+      )
+      FROM order_items oi
+      LEFT JOIN food_items fi ON fi.id = oi.food_item_id
+      WHERE oi.order_id = o.id
+        AND oi.parent_item_id IS NULL
+    )
+  )
+  INTO v_order
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz, text, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz, text, boolean, text) TO anon;
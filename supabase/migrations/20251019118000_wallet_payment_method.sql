@@ -0,0 +1,7 @@
+-- ============================================================================
+-- WALLET PAYMENT METHOD
+-- Added on its own because a new enum value can't be used in the same
+-- transaction that adds it. The wallet itself is in the next migration.
+-- ============================================================================
+
+ALTER TYPE payment_method_enum ADD VALUE IF NOT EXISTS 'wallet';
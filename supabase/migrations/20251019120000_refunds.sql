@@ -0,0 +1,295 @@
+-- ============================================================================
+-- REFUNDS
+-- Cashiers and owners can refund a paid order in full, or item by item when
+-- part of it was never delivered, giving a reason each time. Each refund is a
+-- row in order_refunds and a negative payment_history entry; the order keeps
+-- a running refunded_amount and a refund_status.
+--
+-- Refunds go to the customer's wallet when they have an account. Otherwise
+-- they are recorded as manual: staff return the money themselves, by bank
+-- transfer, cash or the payment gateway's dashboard. Cancelling a paid order
+-- still refunds account customers' wallets automatically, now through the
+-- same function.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. REFUND STATE ON ORDERS
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE refund_status_enum AS ENUM ('none', 'partial', 'full');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE refund_destination_enum AS ENUM ('wallet', 'manual');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS refund_status refund_status_enum NOT NULL DEFAULT 'none',
+    ADD COLUMN IF NOT EXISTS refunded_amount decimal(10,2) NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0);
+
+-- Orders refunded to a wallet on cancellation before this migration
+UPDATE orders
+SET refund_status = 'full',
+    refunded_amount = total_amount
+WHERE payment_status = 'refunded'
+  AND refund_status = 'none';
+
+-- Refunds are negative entries; payments stay positive
+ALTER TABLE payment_history DROP CONSTRAINT IF EXISTS payment_history_amount_check;
+ALTER TABLE payment_history ADD CONSTRAINT payment_history_amount_check CHECK (amount <> 0);
+
+-- ============================================================================
+-- 2. REFUND RECORDS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS order_refunds (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    amount decimal(10,2) NOT NULL CHECK (amount > 0),
+    -- Item by item rather than whatever was left on the order
+    is_partial boolean NOT NULL,
+    reason text NOT NULL CHECK (length(trim(reason)) > 0),
+    destination refund_destination_enum NOT NULL,
+    payment_history_id uuid REFERENCES payment_history(id) ON DELETE SET NULL,
+    created_by uuid REFERENCES admin_credentials(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_refunds_order ON order_refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_refunds_created_at ON order_refunds(created_at);
+
+-- What a partial refund covered, at the price the customer paid per unit
+CREATE TABLE IF NOT EXISTS order_refund_items (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    refund_id uuid NOT NULL REFERENCES order_refunds(id) ON DELETE CASCADE,
+    order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+    quantity integer NOT NULL CHECK (quantity > 0),
+    amount decimal(10,2) NOT NULL CHECK (amount >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_refund_items_refund ON order_refund_items(refund_id);
+CREATE INDEX IF NOT EXISTS idx_order_refund_items_order_item ON order_refund_items(order_item_id);
+
+-- Read through the admin API only
+ALTER TABLE order_refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_refund_items ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 3. ISSUING REFUNDS
+-- ============================================================================
+
+-- Function to refund a paid order, restricted to cashiers and owners.
+-- p_items is [{ "order_item_id", "quantity" }] for a partial refund, or null
+-- to refund everything still owed back. p_destination defaults to the wallet
+-- for customers with an account. A null p_admin_id means the system is
+-- refunding a cancelled order.
+CREATE OR REPLACE FUNCTION issue_order_refund(
+    p_order_id uuid,
+    p_admin_id uuid,
+    p_reason text,
+    p_items jsonb DEFAULT NULL,
+    p_destination refund_destination_enum DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order orders%ROWTYPE;
+    v_line record;
+    v_item order_items%ROWTYPE;
+    v_already_refunded integer;
+    v_remaining decimal(10,2);
+    v_amount decimal(10,2) := 0;
+    v_destination refund_destination_enum;
+    v_payment_id uuid;
+    v_refund_id uuid;
+BEGIN
+    IF p_admin_id IS NOT NULL AND NOT admin_has_role(p_admin_id, ARRAY['owner', 'cashier']::admin_role_enum[]) THEN
+        RAISE EXCEPTION 'permission denied: only cashiers and owners can issue refunds'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_order.payment_status = 'refunded' THEN
+        RAISE EXCEPTION 'This order has already been refunded in full'
+            USING HINT = 'refund_not_allowed';
+    END IF;
+
+    IF v_order.payment_status <> 'completed' THEN
+        RAISE EXCEPTION 'Only paid orders can be refunded'
+            USING HINT = 'refund_not_allowed';
+    END IF;
+
+    IF NULLIF(trim(COALESCE(p_reason, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'Give a reason for the refund';
+    END IF;
+
+    v_destination := COALESCE(
+        p_destination,
+        CASE WHEN v_order.customer_id IS NOT NULL THEN 'wallet' ELSE 'manual' END::refund_destination_enum
+    );
+
+    IF v_destination = 'wallet' AND v_order.customer_id IS NULL THEN
+        RAISE EXCEPTION 'This customer has no account, so the refund can''t go to a wallet';
+    END IF;
+
+    v_remaining := v_order.total_amount - v_order.refunded_amount;
+
+    IF p_items IS NULL THEN
+        v_amount := v_remaining;
+    ELSE
+        IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+            RAISE EXCEPTION 'Choose the items to refund';
+        END IF;
+
+        -- Each item can be refunded at most as many times as it was ordered
+        FOR v_line IN
+            SELECT (line->>'order_item_id')::uuid AS order_item_id, sum((line->>'quantity')::integer) AS quantity
+            FROM jsonb_array_elements(p_items) AS line
+            GROUP BY 1
+        LOOP
+            SELECT * INTO v_item
+            FROM order_items
+            WHERE id = v_line.order_item_id
+              AND order_id = p_order_id
+              AND parent_item_id IS NULL;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'One of the items is not part of this order';
+            END IF;
+
+            SELECT COALESCE(sum(ri.quantity), 0) INTO v_already_refunded
+            FROM order_refund_items ri
+            WHERE ri.order_item_id = v_item.id;
+
+            IF v_line.quantity < 1 OR v_line.quantity > v_item.quantity - v_already_refunded THEN
+                RAISE EXCEPTION 'Only % of that item can still be refunded', v_item.quantity - v_already_refunded;
+            END IF;
+
+            v_amount := v_amount + v_item.unit_price * v_line.quantity;
+        END LOOP;
+
+        -- Discounts mean the items can add up to more than was paid
+        v_amount := LEAST(v_amount, v_remaining);
+    END IF;
+
+    IF v_amount <= 0 THEN
+        RAISE EXCEPTION 'There is nothing left to refund on this order'
+            USING HINT = 'refund_not_allowed';
+    END IF;
+
+    INSERT INTO payment_history (order_id, amount, status, payment_method, reference, metadata)
+    VALUES (
+        v_order.id,
+        -v_amount,
+        'refunded',
+        CASE WHEN v_destination = 'wallet' THEN 'wallet' ELSE COALESCE(v_order.payment_method, 'bank_transfer') END::payment_method_enum,
+        'RFD-' || substr(generate_transfer_reference(), 5),
+        jsonb_build_object('reason', trim(p_reason), 'destination', v_destination)
+    )
+    RETURNING id INTO v_payment_id;
+
+    INSERT INTO order_refunds (order_id, amount, is_partial, reason, destination, payment_history_id, created_by)
+    VALUES (v_order.id, v_amount, p_items IS NOT NULL, trim(p_reason), v_destination, v_payment_id, p_admin_id)
+    RETURNING id INTO v_refund_id;
+
+    IF p_items IS NOT NULL THEN
+        INSERT INTO order_refund_items (refund_id, order_item_id, quantity, amount)
+        SELECT v_refund_id, oi.id, lines.quantity, oi.unit_price * lines.quantity
+        FROM (
+            SELECT (line->>'order_item_id')::uuid AS order_item_id, sum((line->>'quantity')::integer) AS quantity
+            FROM jsonb_array_elements(p_items) AS line
+            GROUP BY 1
+        ) lines
+        JOIN order_items oi ON oi.id = lines.order_item_id;
+    END IF;
+
+    IF v_destination = 'wallet' THEN
+        INSERT INTO wallet_ledger (customer_id, amount, reason, order_id, note, created_by)
+        VALUES (v_order.customer_id, v_amount, 'refund', v_order.id, trim(p_reason), p_admin_id);
+    END IF;
+
+    UPDATE orders
+    SET
+        refunded_amount = refunded_amount + v_amount,
+        refund_status = CASE WHEN refunded_amount + v_amount >= total_amount THEN 'full' ELSE 'partial' END::refund_status_enum,
+        payment_status = CASE WHEN refunded_amount + v_amount >= total_amount THEN 'refunded' ELSE payment_status END
+    WHERE id = v_order.id;
+
+    RETURN jsonb_build_object(
+        'id', v_refund_id,
+        'order_id', v_order.id,
+        'tracking_id', v_order.tracking_id,
+        'amount', v_amount,
+        'destination', v_destination,
+        'refunded_amount', v_order.refunded_amount + v_amount,
+        'refund_status', CASE WHEN v_order.refunded_amount + v_amount >= v_order.total_amount THEN 'full' ELSE 'partial' END
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION issue_order_refund(uuid, uuid, text, jsonb, refund_destination_enum) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION issue_order_refund(uuid, uuid, text, jsonb, refund_destination_enum) TO service_role;
+
+-- Function to refund whatever is still owed on a cancelled, paid order to the
+-- customer's wallet. Guest orders are left for staff to refund manually.
+CREATE OR REPLACE FUNCTION refund_order_to_wallet()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.customer_id IS NOT NULL
+       AND NEW.payment_status = 'completed'
+       AND NEW.refunded_amount < NEW.total_amount THEN
+        PERFORM issue_order_refund(NEW.id, NULL, 'Order cancelled', NULL, 'wallet');
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- 4. REPORTING
+-- ============================================================================
+
+-- Function to total refunds per kitchen-local day, for the admin report
+CREATE OR REPLACE FUNCTION refunds_by_day(p_from date, p_to date)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(jsonb_agg(row_to_json(days) ORDER BY days.day DESC), '[]'::jsonb)
+    FROM (
+        SELECT
+            (r.created_at AT TIME ZONE kitchen_timezone())::date AS day,
+            count(*) AS refunds,
+            count(DISTINCT r.order_id) AS orders,
+            count(*) FILTER (WHERE r.is_partial) AS partial_refunds,
+            sum(r.amount) AS total,
+            COALESCE(sum(r.amount) FILTER (WHERE r.destination = 'wallet'), 0) AS to_wallet,
+            COALESCE(sum(r.amount) FILTER (WHERE r.destination = 'manual'), 0) AS manual
+        FROM order_refunds r
+        WHERE (r.created_at AT TIME ZONE kitchen_timezone())::date BETWEEN p_from AND p_to
+        GROUP BY 1
+    ) days;
+$$;
+
+REVOKE ALL ON FUNCTION refunds_by_day(date, date) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refunds_by_day(date, date) TO service_role;
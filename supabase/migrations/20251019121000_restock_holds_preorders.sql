@@ -0,0 +1,41 @@
+-- ============================================================================
+-- DAILY RESTOCK KEEPS PRE-ORDER STOCK
+-- Pre-orders take their stock when they are placed, possibly days ahead.
+-- Resetting an item straight to its par wiped those deductions, so the
+-- pre-ordered portions were sold a second time on the day. The restock now
+-- leaves out what non-cancelled orders scheduled for that day still hold.
+-- ============================================================================
+
+-- Function to reset every item with a par level to it for the new day, less
+-- the stock held by pre-orders scheduled for today. Returns how many items
+-- were restocked. Safe to run more than once a day.
+CREATE OR REPLACE FUNCTION restock_daily_par()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_today date := (now() AT TIME ZONE kitchen_timezone())::date;
+    v_count integer;
+BEGIN
+    UPDATE food_items fi
+    SET stock_quantity = GREATEST(fi.daily_par - COALESCE((
+            SELECT sum(oi.quantity)::integer
+            FROM order_items oi
+            JOIN orders o ON o.id = oi.order_id
+            WHERE oi.food_item_id = fi.id
+              AND oi.stock_deducted
+              AND o.status <> 'cancelled'
+              AND (o.scheduled_for AT TIME ZONE kitchen_timezone())::date = v_today
+        ), 0), 0),
+        stock_restocked_on = v_today
+    WHERE fi.daily_par IS NOT NULL;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION restock_daily_par() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION restock_daily_par() TO service_role;
@@ -0,0 +1,42 @@
+-- ============================================================================
+-- REFUND LIST BY KITCHEN DAY
+-- The admin Refunds report filtered its list of refunds on UTC day
+-- boundaries while refunds_by_day groups by kitchen-local day, so refunds
+-- near midnight showed under a different day in each. The list now comes
+-- from the same expression.
+-- ============================================================================
+
+-- Function to list the refunds issued on kitchen-local days p_from to p_to,
+-- newest first, with their order and the admin who issued them
+CREATE OR REPLACE FUNCTION refunds_in_range(p_from date, p_to date)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(jsonb_agg(refunds.refund ORDER BY refunds.created_at DESC), '[]'::jsonb)
+    FROM (
+        SELECT
+            r.created_at,
+            to_jsonb(r) || jsonb_build_object(
+                'orders', jsonb_build_object(
+                    'tracking_id', o.tracking_id,
+                    'total_amount', o.total_amount,
+                    'customer_name', o.customer_name
+                ),
+                'admin_credentials', CASE
+                    WHEN a.id IS NOT NULL THEN jsonb_build_object('username', a.username)
+                END
+            ) AS refund
+        FROM order_refunds r
+        JOIN orders o ON o.id = r.order_id
+        LEFT JOIN admin_credentials a ON a.id = r.created_by
+        WHERE (r.created_at AT TIME ZONE kitchen_timezone())::date BETWEEN p_from AND p_to
+        ORDER BY r.created_at DESC
+        LIMIT 200
+    ) refunds;
+$$;
+
+REVOKE ALL ON FUNCTION refunds_in_range(date, date) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refunds_in_range(date, date) TO service_role;
@@ -0,0 +1,244 @@
+-- ============================================================================
+-- PROMO QUOTE LIMITS
+-- quote_promo_code is open to anyone, so it could be used to guess codes, and
+-- it evaluated codes with the row lock meant for placing orders, so checkout
+-- previews could hold up create_order_with_items. Previews now read the code
+-- without locking, and a session gets 10 unknown codes per 15 minutes, as
+-- track_order does for tracking lookups.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. NON-LOCKING EVALUATION
+-- ============================================================================
+
+-- Replaced rather than overloaded, so existing five-argument calls from
+-- create_order_with_items keep resolving and keep locking
+DROP FUNCTION IF EXISTS evaluate_promo_code(text, jsonb, decimal, text, text);
+
+-- Function to check a code against a priced cart and work out its discount.
+-- p_pricing is price_order_items() output. Orders lock the code's row so two
+-- of them can't both take its last use; previews pass p_lock = false. Returns
+-- { promo_code_id, code, description, discount_type, discount_amount } or
+-- raises with HINT 'promo_invalid' and a message for the customer.
+CREATE OR REPLACE FUNCTION evaluate_promo_code(
+    p_code text,
+    p_pricing jsonb,
+    p_delivery_fee decimal,
+    p_phone text,
+    p_session_id text,
+    p_lock boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_promo promo_codes%ROWTYPE;
+    v_subtotal decimal(10,2) := (p_pricing->>'total_amount')::decimal;
+    -- One entry per qualifying unit, cheapest first
+    v_unit_prices decimal[];
+    v_eligible_subtotal decimal(10,2);
+    v_free_units integer;
+    v_discount decimal(10,2) := 0;
+BEGIN
+    IF p_lock THEN
+        SELECT * INTO v_promo
+        FROM promo_codes
+        WHERE code = upper(trim(COALESCE(p_code, '')))
+        FOR UPDATE;
+    ELSE
+        SELECT * INTO v_promo
+        FROM promo_codes
+        WHERE code = upper(trim(COALESCE(p_code, '')));
+    END IF;
+
+    IF NOT FOUND OR NOT v_promo.is_active THEN
+        RAISE EXCEPTION 'This promo code is not valid'
+            USING HINT = 'promo_invalid';
+    END IF;
+
+    IF v_promo.starts_at IS NOT NULL AND now() < v_promo.starts_at THEN
+        RAISE EXCEPTION 'This promo code is not active yet'
+            USING HINT = 'promo_invalid';
+    END IF;
+
+    IF v_promo.ends_at IS NOT NULL AND now() >= v_promo.ends_at THEN
+        RAISE EXCEPTION 'This promo code has expired'
+            USING HINT = 'promo_invalid';
+    END IF;
+
+    IF v_subtotal < v_promo.min_subtotal THEN
+        RAISE EXCEPTION 'Spend at least ₦% on food to use this code', v_promo.min_subtotal
+            USING HINT = 'promo_invalid';
+    END IF;
+
+    IF v_promo.max_redemptions IS NOT NULL AND (
+        SELECT count(*)
+        FROM promo_redemptions r
+        JOIN orders o ON o.id = r.order_id
+        WHERE r.promo_code_id = v_promo.id
+          AND o.status <> 'cancelled'
+    ) >= v_promo.max_redemptions THEN
+        RAISE EXCEPTION 'This promo code has been fully redeemed'
+            USING HINT = 'promo_invalid';
+    END IF;
+
+    -- A customer is their phone number, or this browser if they haven't given one yet
+    IF v_promo.max_per_customer IS NOT NULL AND (
+        SELECT count(*)
+        FROM promo_redemptions r
+        JOIN orders o ON o.id = r.order_id
+        WHERE r.promo_code_id = v_promo.id
+          AND o.status <> 'cancelled'
+          AND (r.customer_phone = p_phone OR r.session_id = p_session_id)
+    ) >= v_promo.max_per_customer THEN
+        RAISE EXCEPTION 'You have already used this promo code'
+            USING HINT = 'promo_invalid';
+    END IF;
+
+    SELECT COALESCE(array_agg(unit.price ORDER BY unit.price), '{}')
+    INTO v_unit_prices
+    FROM jsonb_array_elements(p_pricing->'items') AS line
+    LEFT JOIN food_items fi ON fi.id::text = line->>'food_item_id'
+    CROSS JOIN LATERAL (
+        SELECT (line->>'unit_price')::decimal AS price
+        FROM generate_series(1, (line->>'quantity')::integer)
+    ) unit
+    WHERE v_promo.categories IS NULL
+       OR fi.category = ANY (v_promo.categories);
+
+    v_eligible_subtotal := (SELECT COALESCE(sum(price), 0) FROM unnest(v_unit_prices) AS price);
+
+    IF v_promo.discount_type <> 'free_delivery' AND cardinality(v_unit_prices) = 0 THEN
+        RAISE EXCEPTION 'This promo code doesn''t apply to anything in your cart'
+            USING HINT = 'promo_invalid';
+    END IF;
+
+    CASE v_promo.discount_type
+        WHEN 'percent' THEN
+            v_discount := round(v_eligible_subtotal * v_promo.percent_off / 100, 2);
+            IF v_promo.max_discount_amount IS NOT NULL THEN
+                v_discount := LEAST(v_discount, v_promo.max_discount_amount);
+            END IF;
+        WHEN 'fixed' THEN
+            v_discount := LEAST(v_promo.amount_off, v_eligible_subtotal);
+        WHEN 'free_delivery' THEN
+            IF COALESCE(p_delivery_fee, 0) <= 0 THEN
+                RAISE EXCEPTION 'This promo code gives free delivery, so it only works on delivery orders with a fee'
+                    USING HINT = 'promo_invalid';
+            END IF;
+            v_discount := p_delivery_fee;
+        WHEN 'buy_x_get_y' THEN
+            v_free_units := cardinality(v_unit_prices) / (v_promo.buy_quantity + v_promo.get_quantity) * v_promo.get_quantity;
+
+            IF v_free_units = 0 THEN
+                RAISE EXCEPTION 'Order % qualifying items to get % free with this code',
+                    v_promo.buy_quantity + v_promo.get_quantity, v_promo.get_quantity
+                    USING HINT = 'promo_invalid';
+            END IF;
+
+            -- The cheapest qualifying items are the free ones
+            v_discount := (SELECT sum(price) FROM unnest(v_unit_prices[1:v_free_units]) AS price);
+    END CASE;
+
+    RETURN jsonb_build_object(
+        'promo_code_id', v_promo.id,
+        'code', v_promo.code,
+        'description', v_promo.description,
+        'discount_type', v_promo.discount_type,
+        'discount_amount', v_discount
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION evaluate_promo_code(text, jsonb, decimal, text, text, boolean) FROM public, anon, authenticated;
+
+-- ============================================================================
+-- 2. RATE-LIMITED PREVIEWS
+-- ============================================================================
+
+-- Unknown codes tried per session, used to slow down guessing
+CREATE TABLE IF NOT EXISTS promo_quote_attempts (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id text NOT NULL,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_quote_attempts_lookup ON promo_quote_attempts(session_id, created_at);
+
+ALTER TABLE promo_quote_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Function to preview a code at checkout, priced exactly as the order would be.
+-- Returns the code's details with subtotal_amount, delivery_fee and the
+-- discounted total_amount, or NULL for a code that doesn't exist; other
+-- errors are raised as in create_order_with_items.
+CREATE OR REPLACE FUNCTION quote_promo_code(
+    p_code text,
+    p_order_items jsonb,
+    p_fulfilment_mode fulfilment_mode_enum DEFAULT 'delivery',
+    p_delivery_zone_id uuid DEFAULT NULL,
+    p_customer_phone text DEFAULT NULL,
+    p_session_id text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_pricing jsonb;
+    v_delivery_fee decimal(10,2) := 0;
+    v_promo jsonb;
+    v_session_id text := COALESCE(p_session_id, '');
+BEGIN
+    IF (
+        SELECT count(*) FROM promo_quote_attempts
+        WHERE session_id = v_session_id
+          AND created_at > now() - interval '15 minutes'
+    ) >= 10 THEN
+        RAISE EXCEPTION 'Too many attempts. Please wait a few minutes and try again.'
+            USING HINT = 'too_many_attempts';
+    END IF;
+
+    -- Unknown and inactive codes return NULL rather than raising, so the
+    -- failed attempt is kept
+    IF NOT EXISTS (
+        SELECT 1 FROM promo_codes
+        WHERE code = upper(trim(COALESCE(p_code, '')))
+          AND is_active
+    ) THEN
+        INSERT INTO promo_quote_attempts (session_id) VALUES (v_session_id);
+        RETURN NULL;
+    END IF;
+
+    v_pricing := price_order_items(p_order_items);
+
+    IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+        RAISE EXCEPTION 'Some items in your order cannot be ordered'
+            USING DETAIL = (v_pricing->'errors')::text,
+                  HINT = 'order_items_invalid';
+    END IF;
+
+    -- Until a zone is chosen the preview has no delivery fee
+    IF COALESCE(p_fulfilment_mode, 'delivery') = 'delivery' THEN
+        SELECT COALESCE(fee, 0) INTO v_delivery_fee
+        FROM delivery_zones
+        WHERE id = p_delivery_zone_id
+          AND is_active = true;
+
+        v_delivery_fee := COALESCE(v_delivery_fee, 0);
+    END IF;
+
+    v_promo := evaluate_promo_code(p_code, v_pricing, v_delivery_fee, normalize_phone(p_customer_phone), p_session_id, false);
+
+    RETURN (v_promo - 'promo_code_id') || jsonb_build_object(
+        'subtotal_amount', (v_pricing->>'total_amount')::decimal,
+        'delivery_fee', v_delivery_fee,
+        'total_amount', (v_pricing->>'total_amount')::decimal + v_delivery_fee - (v_promo->>'discount_amount')::decimal
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION quote_promo_code(text, jsonb, fulfilment_mode_enum, uuid, text, text) TO anon;
+GRANT EXECUTE ON FUNCTION quote_promo_code(text, jsonb, fulfilment_mode_enum, uuid, text, text) TO authenticated;
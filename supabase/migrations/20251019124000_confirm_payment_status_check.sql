@@ -0,0 +1,93 @@
+-- ============================================================================
+-- NO PAYMENT CONFIRMATION ON CANCELLED ORDERS
+-- confirm_payment did not look at the order's status, so a transfer could be
+-- confirmed on a cancelled order. The order then moved on as paid, and as the
+-- cancellation refund only runs when an order is cancelled, nothing recorded
+-- that the money had to go back. Cancelled and refunded orders are now refused.
+-- ============================================================================
+
+-- Function to confirm a transfer, restricted to cashiers and owners
+CREATE OR REPLACE FUNCTION confirm_payment(
+    p_order_id uuid,
+    p_admin_id uuid,
+    p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order orders%ROWTYPE;
+BEGIN
+    IF NOT admin_has_role(p_admin_id, ARRAY['owner', 'cashier']::admin_role_enum[]) THEN
+        RAISE EXCEPTION 'permission denied: only cashiers and owners can confirm payments'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Cancelling only refunds money already confirmed, so a transfer confirmed
+    -- afterwards would be kept with nothing recorded to return
+    IF v_order.status = 'cancelled' THEN
+        RAISE EXCEPTION 'This order was cancelled, so its payment can''t be confirmed. Send the transfer back to the customer instead.'
+            USING HINT = 'order_cancelled';
+    END IF;
+
+    IF v_order.payment_status = 'refunded' THEN
+        RAISE EXCEPTION 'This order has been refunded, so its payment can''t be confirmed again'
+            USING HINT = 'payment_already_confirmed';
+    END IF;
+
+    IF v_order.payment_status = 'completed' THEN
+        RAISE EXCEPTION 'Payment for this order is already confirmed'
+            USING HINT = 'payment_already_confirmed';
+    END IF;
+
+    UPDATE orders
+    SET
+        payment_status = 'completed',
+        payment_method = COALESCE(payment_method, 'bank_transfer'),
+        payment_reference = COALESCE(payment_reference, transfer_reference),
+        payment_confirmed_at = now(),
+        payment_confirmed_by = p_admin_id
+    WHERE id = p_order_id;
+
+    -- Cashiers may confirm a transfer they can see before the customer reports it
+    INSERT INTO payment_history (order_id, amount, status, payment_method, reference, metadata)
+    VALUES (
+        p_order_id,
+        v_order.total_amount,
+        'completed',
+        COALESCE(v_order.payment_method, 'bank_transfer'),
+        COALESCE(v_order.payment_reference, v_order.transfer_reference),
+        '{}'::jsonb
+    )
+    ON CONFLICT (reference) DO UPDATE
+    SET status = 'completed';
+
+    INSERT INTO payment_confirmation_history (order_id, confirmed_by, status, note)
+    VALUES (p_order_id, p_admin_id, 'completed', NULLIF(trim(p_note), ''));
+
+    IF v_order.status = 'pending' THEN
+        PERFORM transition_order_status(
+            p_order_id,
+            'payment_received',
+            p_admin_id,
+            'Payment confirmed' || COALESCE(': ' || NULLIF(trim(p_note), ''), '')
+        );
+    END IF;
+
+    RETURN jsonb_build_object(
+        'id', v_order.id,
+        'tracking_id', v_order.tracking_id,
+        'payment_status', 'completed',
+        'payment_confirmed_at', now()
+    );
+END;
+$$;
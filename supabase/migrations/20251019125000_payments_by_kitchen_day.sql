@@ -0,0 +1,24 @@
+-- ============================================================================
+-- PAYMENT FILTERS BY KITCHEN DAY
+-- The admin Payments list filtered its from/to dates on UTC days while the
+-- Refunds report uses kitchen-local days, so the two disagreed around
+-- midnight. The payments route now asks for the kitchen-local bounds here.
+-- ============================================================================
+
+-- Function to turn an inclusive range of kitchen-local days into the
+-- timestamps it covers: { start, end }, end exclusive. Either date may be
+-- null, leaving that side open.
+CREATE OR REPLACE FUNCTION kitchen_day_range(p_from date, p_to date)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'start', p_from::timestamp AT TIME ZONE kitchen_timezone(),
+        'end', (p_to + 1)::timestamp AT TIME ZONE kitchen_timezone()
+    );
+$$;
+
+REVOKE ALL ON FUNCTION kitchen_day_range(date, date) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION kitchen_day_range(date, date) TO service_role;
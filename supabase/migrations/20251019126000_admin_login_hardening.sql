@@ -0,0 +1,119 @@
+-- ============================================================================
+-- ADMIN LOGIN HARDENING
+-- The admin sessions migration gave the seeded admin account the password
+-- admin123, so every deployment started with a known owner login, and
+-- passwords could be guessed without limit. The seeded account is now locked
+-- until the operator sets its password with set_admin_password, and an
+-- account is locked for 15 minutes after 5 wrong passwords.
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- ============================================================================
+-- 1. LOCK THE SEEDED ADMIN ACCOUNT
+-- ============================================================================
+
+-- A bcrypt hash of a random, unrecorded password: nothing can log in with it.
+-- Accounts whose password was already changed are left alone.
+UPDATE admin_credentials
+SET password_hash = crypt(encode(gen_random_bytes(32), 'hex'), gen_salt('bf', 10))
+WHERE username = 'admin'
+  AND password_hash = crypt('admin123', password_hash);
+
+-- ============================================================================
+-- 2. FAILED LOGIN LIMIT
+-- ============================================================================
+
+-- Wrong passwords per username, used to lock out guessing
+CREATE TABLE IF NOT EXISTS admin_login_attempts (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    username text NOT NULL,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_login_attempts_lookup ON admin_login_attempts(username, created_at);
+
+ALTER TABLE admin_login_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Function to verify an admin username and password. After 5 failures in 15
+-- minutes the username is refused with HINT 'too_many_attempts', even with
+-- the right password. A failure returns no rows rather than raising, so the
+-- attempt is kept; a success clears the count.
+CREATE OR REPLACE FUNCTION verify_admin_credentials(
+    p_username text,
+    p_password text
+)
+RETURNS TABLE (id uuid, username text, role admin_role_enum)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+    IF (
+        SELECT count(*) FROM admin_login_attempts la
+        WHERE la.username = p_username
+          AND la.created_at > now() - interval '15 minutes'
+    ) >= 5 THEN
+        RAISE EXCEPTION 'Too many failed attempts. Please wait 15 minutes and try again.'
+            USING HINT = 'too_many_attempts';
+    END IF;
+
+    RETURN QUERY
+    SELECT ac.id, ac.username, ac.role
+    FROM admin_credentials ac
+    WHERE ac.username = p_username
+      AND ac.password_hash = crypt(p_password, ac.password_hash);
+
+    IF FOUND THEN
+        DELETE FROM admin_login_attempts la WHERE la.username = p_username;
+    ELSE
+        INSERT INTO admin_login_attempts (username) VALUES (p_username);
+    END IF;
+END;
+$$;
+
+-- ============================================================================
+-- 3. SETTING PASSWORDS
+-- ============================================================================
+
+-- Function to set an admin's password (run from the SQL editor by the
+-- operator, which is how the first owner password is set). Signs the admin
+-- out everywhere.
+CREATE OR REPLACE FUNCTION set_admin_password(
+    p_username text,
+    p_password text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_admin_id uuid;
+BEGIN
+    IF length(COALESCE(p_password, '')) < 8 THEN
+        RAISE EXCEPTION 'Password must be at least 8 characters';
+    END IF;
+
+    UPDATE admin_credentials
+    SET password_hash = crypt(p_password, gen_salt('bf', 10))
+    WHERE username = p_username
+    RETURNING id INTO v_admin_id;
+
+    IF v_admin_id IS NULL THEN
+        RAISE EXCEPTION 'No admin account is called %', p_username
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    UPDATE admin_sessions
+    SET revoked_at = now()
+    WHERE admin_id = v_admin_id
+      AND revoked_at IS NULL;
+
+    DELETE FROM admin_login_attempts WHERE username = p_username;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_admin_password(text, text) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION verify_admin_credentials(text, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION verify_admin_credentials(text, text) TO service_role;
@@ -0,0 +1,248 @@
+-- ============================================================================
+-- PRE-ORDER STOCK BY DAY
+-- A pre-order took its stock out of today's count when it was placed, and its
+-- own day's restock then took it out of that day's par again, so it was
+-- counted twice. Cancelling it after a restock gave the stock back to
+-- whichever day it was cancelled on, and restocking to par a second time in a
+-- day forgot what had already been sold that day.
+--
+-- Every order now counts against one kitchen day: the day it is scheduled
+-- for, or the day it was placed. For items with a daily par, a pre-order for
+-- a later day holds stock against that day's par and leaves today's count
+-- alone; the restock on the day turns its holds into deductions. Items
+-- without a par keep one running count, which every order takes from.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. HOLDS ON LATER DAYS
+-- ============================================================================
+
+-- Set while a pre-order's items are held against a later day's par
+ALTER TABLE order_items
+    ADD COLUMN IF NOT EXISTS stock_held boolean NOT NULL DEFAULT false;
+
+-- Function returning the kitchen day an order's stock counts against
+CREATE OR REPLACE FUNCTION order_stock_day(p_order orders)
+RETURNS date
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT (COALESCE(p_order.scheduled_for, p_order.created_at) AT TIME ZONE kitchen_timezone())::date;
+$$;
+
+-- Pre-orders for later days placed before this migration took today's
+-- stock: give it back and hold it against their own day instead
+UPDATE food_items fi
+SET stock_quantity = fi.stock_quantity + held.quantity
+FROM (
+    SELECT oi.food_item_id, sum(oi.quantity)::integer AS quantity
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE oi.stock_deducted
+      AND o.status <> 'cancelled'
+      AND order_stock_day(o) > (now() AT TIME ZONE kitchen_timezone())::date
+    GROUP BY oi.food_item_id
+) held
+WHERE fi.id = held.food_item_id
+  AND fi.daily_par IS NOT NULL
+  AND fi.stock_quantity IS NOT NULL;
+
+UPDATE order_items oi
+SET stock_deducted = false,
+    stock_held = true
+FROM orders o, food_items fi
+WHERE o.id = oi.order_id
+  AND fi.id = oi.food_item_id
+  AND oi.stock_deducted
+  AND o.status <> 'cancelled'
+  AND order_stock_day(o) > (now() AT TIME ZONE kitchen_timezone())::date
+  AND fi.daily_par IS NOT NULL
+  AND fi.stock_quantity IS NOT NULL;
+
+-- ============================================================================
+-- 2. TAKING AND RETURNING STOCK
+-- ============================================================================
+
+-- Function to take an order's tracked items out of stock, or hold them
+-- against a later day's par for a pre-order. Rows are locked in id order so
+-- concurrent orders queue behind each other instead of deadlocking. If any
+-- item doesn't have enough left the order is rejected with the same hint and
+-- error shape as a failed quote.
+CREATE OR REPLACE FUNCTION deduct_order_stock(p_order_id uuid, p_order_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_line record;
+    v_food food_items%ROWTYPE;
+    v_day date;
+    v_today date := (now() AT TIME ZONE kitchen_timezone())::date;
+    v_holds boolean;
+    v_available integer;
+    v_errors jsonb := '[]'::jsonb;
+BEGIN
+    SELECT order_stock_day(o) INTO v_day FROM orders o WHERE o.id = p_order_id;
+
+    FOR v_line IN
+        SELECT oi.food_item_id, sum(oi.quantity)::integer AS quantity
+        FROM order_items oi
+        JOIN food_items fi ON fi.id = oi.food_item_id
+        WHERE oi.order_id = p_order_id
+          AND fi.stock_quantity IS NOT NULL
+        GROUP BY oi.food_item_id
+        ORDER BY oi.food_item_id
+    LOOP
+        SELECT * INTO v_food
+        FROM food_items
+        WHERE id = v_line.food_item_id
+        FOR UPDATE;
+
+        v_holds := v_day > v_today AND v_food.daily_par IS NOT NULL;
+
+        IF v_holds THEN
+            -- What that day's par has left after the pre-orders already holding it
+            SELECT GREATEST(v_food.daily_par - COALESCE(sum(oi.quantity), 0), 0)::integer INTO v_available
+            FROM order_items oi
+            JOIN orders o ON o.id = oi.order_id
+            WHERE oi.food_item_id = v_food.id
+              AND oi.stock_held
+              AND o.status <> 'cancelled'
+              AND order_stock_day(o) = v_day;
+        ELSE
+            v_available := v_food.stock_quantity;
+        END IF;
+
+        IF v_available < v_line.quantity THEN
+            v_errors := v_errors || (
+                SELECT jsonb_build_object(
+                    'index', min(line.ord) - 1,
+                    'food_item_id', v_line.food_item_id,
+                    'name', v_food.name,
+                    'reason', 'out_of_stock',
+                    'available', v_available
+                )
+                FROM jsonb_array_elements(p_order_items) WITH ORDINALITY AS line(item, ord)
+                WHERE line.item->>'food_item_id' = v_line.food_item_id::text
+                   -- or a combo line with this item among its components
+                   OR line.item->>'combo_id' IN (
+                       SELECT combo.combo_id::text
+                       FROM order_items part
+                       JOIN order_items combo ON combo.id = part.parent_item_id
+                       WHERE part.order_id = p_order_id
+                         AND part.food_item_id = v_line.food_item_id
+                   )
+            );
+        ELSIF v_holds THEN
+            UPDATE order_items
+            SET stock_held = true
+            WHERE order_id = p_order_id
+              AND food_item_id = v_line.food_item_id;
+        ELSE
+            UPDATE food_items
+            SET stock_quantity = stock_quantity - v_line.quantity
+            WHERE id = v_line.food_item_id;
+
+            UPDATE order_items
+            SET stock_deducted = true
+            WHERE order_id = p_order_id
+              AND food_item_id = v_line.food_item_id;
+        END IF;
+    END LOOP;
+
+    IF jsonb_array_length(v_errors) > 0 THEN
+        RAISE EXCEPTION 'Some items in your order cannot be ordered'
+            USING DETAIL = v_errors::text,
+                  HINT = 'order_items_invalid';
+    END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION deduct_order_stock(uuid, jsonb) FROM public, anon, authenticated;
+
+-- Function to release a cancelled order's stock. Only today's orders give
+-- their items back to today's count; holds on later days are just dropped,
+-- and earlier days' stock is gone.
+CREATE OR REPLACE FUNCTION restock_cancelled_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF order_stock_day(NEW) = (now() AT TIME ZONE kitchen_timezone())::date THEN
+        UPDATE food_items fi
+        SET stock_quantity = fi.stock_quantity + returned.quantity
+        FROM (
+            SELECT food_item_id, sum(quantity)::integer AS quantity
+            FROM order_items
+            WHERE order_id = NEW.id
+              AND stock_deducted
+            GROUP BY food_item_id
+        ) returned
+        WHERE fi.id = returned.food_item_id
+          -- Items that stopped being counted since the order have nothing to return to
+          AND fi.stock_quantity IS NOT NULL;
+    END IF;
+
+    UPDATE order_items
+    SET stock_deducted = false,
+        stock_held = false
+    WHERE order_id = NEW.id
+      AND (stock_deducted OR stock_held);
+
+    RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- 3. DAILY PAR RESTOCK
+-- ============================================================================
+
+-- Function to reset every item with a par level to it for today, less
+-- everything today's orders have taken or hold: sales already made today and
+-- pre-orders scheduled for today. Those pre-orders' holds become deductions,
+-- so cancelling one now returns its stock to today. Returns how many items
+-- were restocked. Running it again later in the day gives the same count.
+CREATE OR REPLACE FUNCTION restock_daily_par()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_today date := (now() AT TIME ZONE kitchen_timezone())::date;
+    v_count integer;
+BEGIN
+    UPDATE food_items fi
+    SET stock_quantity = GREATEST(fi.daily_par - COALESCE((
+            SELECT sum(oi.quantity)::integer
+            FROM order_items oi
+            JOIN orders o ON o.id = oi.order_id
+            WHERE oi.food_item_id = fi.id
+              AND (oi.stock_deducted OR oi.stock_held)
+              AND o.status <> 'cancelled'
+              AND order_stock_day(o) = v_today
+        ), 0), 0),
+        stock_restocked_on = v_today
+    WHERE fi.daily_par IS NOT NULL;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    UPDATE order_items oi
+    SET stock_held = false,
+        stock_deducted = true
+    FROM orders o, food_items fi
+    WHERE o.id = oi.order_id
+      AND fi.id = oi.food_item_id
+      AND oi.stock_held
+      AND fi.daily_par IS NOT NULL
+      AND order_stock_day(o) = v_today;
+
+    RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION restock_daily_par() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION restock_daily_par() TO service_role;
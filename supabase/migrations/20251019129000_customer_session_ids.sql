@@ -0,0 +1,144 @@
+-- ============================================================================
+-- CUSTOMER SESSION IDS
+-- A new account took the anonymous session id of the device it was created
+-- on, so anyone who had seen that id could read the account's orders and
+-- rewards, and it never changed. Signing in also merged every anonymous
+-- order under whatever session id the caller sent.
+--
+-- Accounts now get a session id generated here, only orders placed with the
+-- phone number that was just verified are merged, and signing out moves the
+-- account to a fresh id. Devices still signed in pick the new id up from the
+-- session endpoint.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. ROTATING AN ACCOUNT'S SESSION ID
+-- ============================================================================
+
+-- Function to move an account and everything keyed by its session id to a
+-- new id. Rewards tied to an order follow it through the order triggers.
+CREATE OR REPLACE FUNCTION rotate_customer_session_id(p_customer_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_old text;
+    v_new text := gen_random_uuid()::text;
+BEGIN
+    SELECT session_id INTO v_old FROM customers WHERE id = p_customer_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    UPDATE customers SET session_id = v_new WHERE id = p_customer_id;
+
+    IF v_old IS NULL THEN
+        RETURN v_new;
+    END IF;
+
+    UPDATE orders SET session_id = v_new WHERE session_id = v_old;
+
+    UPDATE loyalty_ledger SET session_id = v_new WHERE session_id = v_old;
+    UPDATE referral_codes SET session_id = v_new WHERE session_id = v_old;
+    UPDATE referral_credits SET session_id = v_new WHERE session_id = v_old;
+    UPDATE referrals SET referee_session_id = v_new WHERE referee_session_id = v_old;
+    UPDATE promo_redemptions SET session_id = v_new WHERE session_id = v_old;
+
+    RETURN v_new;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION rotate_customer_session_id(uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rotate_customer_session_id(uuid) TO service_role;
+
+-- Existing accounts still use the id of the device they were created on
+SELECT rotate_customer_session_id(id) FROM customers;
+
+-- ============================================================================
+-- 2. SIGNING IN
+-- ============================================================================
+
+-- Function to check a sign-in code, create the account on first sign-in and
+-- merge the device's anonymous orders placed with the verified phone
+CREATE OR REPLACE FUNCTION verify_customer_otp(
+    p_phone text,
+    p_code text,
+    p_session_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_phone text := customer_phone_key(p_phone);
+    v_otp customer_otp_codes%ROWTYPE;
+    v_customer customers%ROWTYPE;
+    v_merged integer := 0;
+BEGIN
+    SELECT * INTO v_otp
+    FROM customer_otp_codes
+    WHERE phone = v_phone
+      AND consumed_at IS NULL
+      AND expires_at > now()
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_otp.attempts >= 5 THEN
+        RAISE EXCEPTION 'This code has expired. Please request a new one.'
+            USING HINT = 'otp_expired';
+    END IF;
+
+    IF v_otp.code_hash <> crypt(COALESCE(p_code, ''), v_otp.code_hash) THEN
+        -- Count the failed attempt; the RETURN keeps it from being rolled back
+        UPDATE customer_otp_codes SET attempts = attempts + 1 WHERE id = v_otp.id;
+        RETURN jsonb_build_object('verified', false, 'attempts_left', 4 - v_otp.attempts);
+    END IF;
+
+    UPDATE customer_otp_codes SET consumed_at = now() WHERE id = v_otp.id;
+
+    SELECT * INTO v_customer FROM customers WHERE phone = v_phone FOR UPDATE;
+
+    IF NOT FOUND THEN
+        INSERT INTO customers (phone, session_id, last_sign_in_at)
+        VALUES (v_phone, gen_random_uuid()::text, now())
+        RETURNING * INTO v_customer;
+    ELSE
+        UPDATE customers SET last_sign_in_at = now() WHERE id = v_customer.id;
+    END IF;
+
+    -- Move this device's anonymous orders onto the account. The session id
+    -- comes from the browser, so only orders placed with this phone count.
+    IF p_session_id IS NOT NULL AND p_session_id <> v_customer.session_id THEN
+        UPDATE orders
+        SET session_id = v_customer.session_id
+        WHERE session_id = p_session_id
+          AND customer_id IS NULL
+          AND customer_phone_key(customer_phone) = v_phone;
+        GET DIAGNOSTICS v_merged = ROW_COUNT;
+    END IF;
+
+    UPDATE orders
+    SET customer_id = v_customer.id
+    WHERE session_id = v_customer.session_id
+      AND customer_id IS NULL;
+
+    RETURN jsonb_build_object(
+        'verified', true,
+        'merged_orders', v_merged,
+        'customer', jsonb_build_object(
+            'id', v_customer.id,
+            'phone', v_customer.phone,
+            'display_name', v_customer.display_name,
+            'session_id', v_customer.session_id
+        )
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION verify_customer_otp(text, text, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION verify_customer_otp(text, text, text) TO service_role;
@@ -0,0 +1,722 @@
+-- ============================================================================
+-- WALLETS BEHIND THE SERVER
+-- The wallet functions found their owner by the session id the browser sent,
+-- and anyone could call them. A session id is kept in the browser and is not
+-- a secret, so whoever held one could read the balance, start and report
+-- top-ups, and pay for orders from someone else's wallet.
+--
+-- The wallet is now reached only through server routes that resolve the
+-- signed customer cookie. They pass the customer's id to these functions,
+-- which only the service role can call. Orders are placed through a server
+-- route as well, so create_order_with_items can trust the customer id it is
+-- given for wallet payments.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. WALLET STATUS AND TOP-UPS BY CUSTOMER
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS get_wallet_status(text);
+DROP FUNCTION IF EXISTS request_wallet_topup(text, decimal);
+DROP FUNCTION IF EXISTS mark_wallet_topup_paid(text, text, uuid, text);
+
+-- Function to describe a customer's wallet: its balance, latest entries and
+-- top-ups
+CREATE FUNCTION get_wallet_status(p_customer_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_customer customers%ROWTYPE;
+BEGIN
+    SELECT * INTO v_customer FROM customers WHERE id = p_customer_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN jsonb_build_object(
+        'has_account', true,
+        'balance', wallet_balance(v_customer.id),
+        'entries', COALESCE((
+            SELECT jsonb_agg(entry ORDER BY entry.created_at DESC)
+            FROM (
+                SELECT wl.id, wl.amount, wl.reason, wl.created_at, o.tracking_id, wt.reference
+                FROM wallet_ledger wl
+                LEFT JOIN orders o ON o.id = wl.order_id
+                LEFT JOIN wallet_topups wt ON wt.id = wl.topup_id
+                WHERE wl.customer_id = v_customer.id
+                ORDER BY wl.created_at DESC
+                LIMIT 20
+            ) entry
+        ), '[]'::jsonb),
+        'topups', COALESCE((
+            SELECT jsonb_agg(topup ORDER BY topup.created_at DESC)
+            FROM (
+                SELECT id, amount, reference, status, bank_detail_id, sender_name, created_at
+                FROM wallet_topups
+                WHERE customer_id = v_customer.id
+                  AND (status <> 'completed' OR created_at > now() - interval '7 days')
+                ORDER BY created_at DESC
+                LIMIT 5
+            ) topup
+        ), '[]'::jsonb)
+    );
+END;
+$$;
+
+-- Function for a signed-in customer to start a top-up. Returns the amount and
+-- the reference to put in the transfer narration.
+CREATE FUNCTION request_wallet_topup(
+    p_customer_id uuid,
+    p_amount decimal
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_customer customers%ROWTYPE;
+    v_topup wallet_topups%ROWTYPE;
+BEGIN
+    SELECT * INTO v_customer FROM customers WHERE id = p_customer_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sign in to use a wallet'
+            USING HINT = 'wallet_unavailable';
+    END IF;
+
+    IF p_amount IS NULL OR p_amount < 100 OR p_amount > 200000 OR p_amount <> round(p_amount, 2) THEN
+        RAISE EXCEPTION 'Top-ups must be between ₦100 and ₦200,000';
+    END IF;
+
+    -- Unreported top-ups are just intentions; keep one at a time
+    DELETE FROM wallet_topups
+    WHERE customer_id = v_customer.id
+      AND status = 'pending';
+
+    INSERT INTO wallet_topups (customer_id, amount)
+    VALUES (v_customer.id, p_amount)
+    RETURNING * INTO v_topup;
+
+    RETURN jsonb_build_object(
+        'id', v_topup.id,
+        'amount', v_topup.amount,
+        'reference', v_topup.reference,
+        'status', v_topup.status,
+        'bank_detail_id', v_topup.bank_detail_id,
+        'sender_name', v_topup.sender_name,
+        'created_at', v_topup.created_at
+    );
+END;
+$$;
+
+-- Function for the customer to report the transfer for a top-up
+CREATE FUNCTION mark_wallet_topup_paid(
+    p_customer_id uuid,
+    p_reference text,
+    p_bank_detail_id uuid,
+    p_sender_name text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_topup wallet_topups%ROWTYPE;
+BEGIN
+    SELECT * INTO v_topup
+    FROM wallet_topups
+    WHERE reference = p_reference
+      AND customer_id = p_customer_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Top-up not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_topup.status NOT IN ('pending', 'failed') THEN
+        RAISE EXCEPTION 'This top-up is already %', v_topup.status
+            USING HINT = 'payment_already_reported';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM bank_details WHERE id = p_bank_detail_id AND is_active = true) THEN
+        RAISE EXCEPTION 'Please choose one of the listed bank accounts';
+    END IF;
+
+    UPDATE wallet_topups
+    SET
+        status = 'processing',
+        bank_detail_id = p_bank_detail_id,
+        sender_name = NULLIF(trim(p_sender_name), ''),
+        marked_paid_at = now()
+    WHERE id = v_topup.id;
+
+    RETURN jsonb_build_object(
+        'reference', v_topup.reference,
+        'status', 'processing'
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_wallet_status(uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION request_wallet_topup(uuid, decimal) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION mark_wallet_topup_paid(uuid, text, uuid, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_wallet_status(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION request_wallet_topup(uuid, decimal) TO service_role;
+GRANT EXECUTE ON FUNCTION mark_wallet_topup_paid(uuid, text, uuid, text) TO service_role;
+
+-- ============================================================================
+-- 2. ORDERS PLACED THROUGH THE SERVER
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz, text, boolean, text, boolean);
+
+-- Function to create an order. p_customer_id is the signed-in customer the
+-- order route resolved from its cookie; only they can pay from a wallet.
+CREATE FUNCTION create_order_with_items(
+  p_session_id text,
+  p_tracking_id text,
+  p_order_items jsonb,
+  p_customer_note text DEFAULT '',
+  p_expected_total decimal DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_delivery_location_id uuid DEFAULT NULL,
+  p_delivery_room text DEFAULT NULL,
+  p_delivery_zone_id uuid DEFAULT NULL,
+  p_fulfilment_mode fulfilment_mode_enum DEFAULT 'delivery',
+  p_time_slot_id uuid DEFAULT NULL,
+  p_scheduled_for timestamptz DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_redeem_loyalty boolean DEFAULT false,
+  p_referral_code text DEFAULT NULL,
+  p_pay_with_wallet boolean DEFAULT false,
+  p_customer_id uuid DEFAULT NULL
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_order jsonb;
+  v_pricing jsonb;
+  v_subtotal decimal(10,2);
+  v_total decimal(10,2);
+  v_phone text;
+  v_location campus_locations%ROWTYPE;
+  v_zone delivery_zones%ROWTYPE;
+  v_delivery_fee decimal(10,2) := 0;
+  v_pickup_code text;
+  v_slot order_time_slots%ROWTYPE;
+  v_prep_starts_at timestamptz;
+  v_combo jsonb;
+  v_combo_item_id uuid;
+  v_promo jsonb;
+  v_discount decimal(10,2) := 0;
+  v_loyalty loyalty_settings%ROWTYPE;
+  v_loyalty_balance integer;
+  v_loyalty_redeemed integer := 0;
+  v_loyalty_discount decimal(10,2) := 0;
+  v_referral_settings referral_settings%ROWTYPE;
+  v_referral_code referral_codes%ROWTYPE;
+  v_referral_credit decimal(10,2) := 0;
+  v_wallet_customer customers%ROWTYPE;
+  v_wallet_balance decimal(10,2);
+  v_wallet_payment decimal(10,2) := 0;
+BEGIN
+  -- Check for duplicate tracking ID
+  IF EXISTS (SELECT 1 FROM orders WHERE tracking_id = p_tracking_id) THEN
+    RAISE EXCEPTION 'Duplicate tracking ID';
+  END IF;
+
+  v_phone := normalize_phone(p_customer_phone);
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Please enter a valid phone number'
+      USING HINT = 'invalid_phone';
+  END IF;
+
+  p_fulfilment_mode := COALESCE(p_fulfilment_mode, 'delivery');
+
+  IF length(trim(COALESCE(p_customer_name, ''))) NOT BETWEEN 2 AND 100 THEN
+    RAISE EXCEPTION 'Please enter your name'
+      USING HINT = 'invalid_delivery_details';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' THEN
+    SELECT * INTO v_location
+    FROM campus_locations
+    WHERE id = p_delivery_location_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery location from the list'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    IF length(trim(COALESCE(p_delivery_room, ''))) NOT BETWEEN 1 AND 50 THEN
+      RAISE EXCEPTION 'Please enter your room or office'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    SELECT * INTO v_zone
+    FROM delivery_zones
+    WHERE id = p_delivery_zone_id
+      AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose a delivery zone'
+        USING HINT = 'invalid_delivery_details';
+    END IF;
+
+    v_delivery_fee := v_zone.fee;
+  ELSE
+    -- Collected at the counter: no address or fee, just a code to show staff
+    v_pickup_code := lpad(floor(random() * 10000)::integer::text, 4, '0');
+  END IF;
+
+  -- Pre-orders: lock the slot so two customers can't take its last place at once
+  IF p_time_slot_id IS NOT NULL THEN
+    SELECT * INTO v_slot
+    FROM order_time_slots
+    WHERE id = p_time_slot_id
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_valid_slot_start(v_slot, p_scheduled_for) THEN
+      RAISE EXCEPTION 'This time slot is no longer available. Please choose another.'
+        USING HINT = 'slot_unavailable';
+    END IF;
+
+    IF (
+      SELECT count(*) FROM orders
+      WHERE time_slot_id = v_slot.id
+        AND scheduled_for = p_scheduled_for
+        AND status <> 'cancelled'
+    ) >= v_slot.capacity THEN
+      RAISE EXCEPTION 'This time slot is full. Please choose another.'
+        USING HINT = 'slot_full';
+    END IF;
+
+    v_prep_starts_at := p_scheduled_for - make_interval(mins => v_slot.prep_lead_minutes);
+  ELSIF NOT is_kitchen_open() THEN
+    -- ASAP orders need the kitchen open right now
+    RAISE EXCEPTION '%', (get_kitchen_status())->>'message'
+      USING HINT = 'kitchen_closed';
+  END IF;
+
+  v_pricing := price_order_items(p_order_items);
+
+  IF jsonb_array_length(v_pricing->'errors') > 0 THEN
+    RAISE EXCEPTION 'Some items in your order cannot be ordered'
+      USING DETAIL = (v_pricing->'errors')::text,
+            HINT = 'order_items_invalid';
+  END IF;
+
+  v_subtotal := (v_pricing->>'total_amount')::decimal;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'Invalid order total amount';
+  END IF;
+
+  IF p_fulfilment_mode = 'delivery' AND v_subtotal < v_zone.min_order_amount THEN
+    RAISE EXCEPTION 'Orders to % must be at least ₦%', v_zone.name, v_zone.min_order_amount
+      USING DETAIL = jsonb_build_object('min_order_amount', v_zone.min_order_amount)::text,
+            HINT = 'below_minimum_order';
+  END IF;
+
+  -- Checked again now, with the code locked, in case it ran out since checkout previewed it
+  IF NULLIF(trim(COALESCE(p_promo_code, '')), '') IS NOT NULL THEN
+    v_promo := evaluate_promo_code(p_promo_code, v_pricing, v_delivery_fee, v_phone, p_session_id);
+    v_discount := (v_promo->>'discount_amount')::decimal;
+  END IF;
+
+  -- The delivery fee is charged on top of the food and kept as its own line,
+  -- as is any discount
+  v_total := v_subtotal + v_delivery_fee - v_discount;
+
+  -- Rewards pay for whatever is left after any promo code
+  IF p_redeem_loyalty THEN
+    SELECT * INTO v_loyalty FROM loyalty_settings WHERE id = true;
+
+    IF NOT v_loyalty.is_active THEN
+      RAISE EXCEPTION 'Loyalty rewards are not available right now'
+        USING HINT = 'loyalty_unavailable';
+    END IF;
+
+    -- Two orders from the same customer can't spend the same balance
+    PERFORM pg_advisory_xact_lock(hashtext('loyalty:' || p_session_id));
+    v_loyalty_balance := loyalty_balance(p_session_id, v_loyalty.mode);
+
+    IF v_loyalty.mode = 'points' THEN
+      IF v_loyalty_balance < v_loyalty.min_redeem_points THEN
+        RAISE EXCEPTION 'You need at least % points to redeem', v_loyalty.min_redeem_points
+          USING HINT = 'loyalty_unavailable';
+      END IF;
+
+      v_loyalty_redeemed := LEAST(v_loyalty_balance, ceil(v_total / v_loyalty.point_value)::integer);
+      v_loyalty_discount := LEAST(v_loyalty_redeemed * v_loyalty.point_value, v_total);
+    ELSE
+      IF v_loyalty_balance < v_loyalty.stamps_required THEN
+        RAISE EXCEPTION 'Collect % stamps to get a free meal', v_loyalty.stamps_required
+          USING HINT = 'loyalty_unavailable';
+      END IF;
+
+      -- A full card makes the most expensive item free
+      v_loyalty_redeemed := v_loyalty.stamps_required;
+      v_loyalty_discount := LEAST(
+        (SELECT max((line->>'unit_price')::decimal) FROM jsonb_array_elements(v_pricing->'items') AS line),
+        v_total
+      );
+    END IF;
+
+    v_total := v_total - v_loyalty_discount;
+  END IF;
+
+  -- Referral codes are for a new customer's first order, and never their own
+  IF NULLIF(trim(COALESCE(p_referral_code, '')), '') IS NOT NULL THEN
+    SELECT * INTO v_referral_settings FROM referral_settings WHERE id = true;
+
+    IF NOT v_referral_settings.is_active THEN
+      RAISE EXCEPTION 'Referral codes aren''t being accepted right now'
+        USING HINT = 'referral_invalid';
+    END IF;
+
+    SELECT * INTO v_referral_code
+    FROM referral_codes
+    WHERE code = upper(trim(p_referral_code));
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This referral code is not valid'
+        USING HINT = 'referral_invalid';
+    END IF;
+
+    IF v_referral_code.session_id = p_session_id
+       OR EXISTS (
+         SELECT 1 FROM orders
+         WHERE session_id = v_referral_code.session_id
+           AND customer_phone = v_phone
+       )
+       OR EXISTS (
+         SELECT 1 FROM customers
+         WHERE session_id = v_referral_code.session_id
+           AND phone = customer_phone_key(v_phone)
+       ) THEN
+      RAISE EXCEPTION 'You can''t use your own referral code'
+        USING HINT = 'referral_invalid';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM orders
+      WHERE (session_id = p_session_id OR customer_phone = v_phone)
+        AND status <> 'cancelled'
+    ) THEN
+      RAISE EXCEPTION 'Referral codes are for your first order only'
+        USING HINT = 'referral_invalid';
+    END IF;
+  END IF;
+
+  -- Referral credit is spent automatically on whatever is still owed
+  PERFORM pg_advisory_xact_lock(hashtext('referral_credit:' || p_session_id));
+  v_referral_credit := LEAST(GREATEST(referral_credit_balance(p_session_id), 0), v_total);
+  v_total := v_total - v_referral_credit;
+
+  IF p_expected_total IS NOT NULL AND p_expected_total <> v_total THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout'
+      USING DETAIL = (v_pricing || jsonb_build_object('delivery_fee', v_delivery_fee, 'discount_amount', v_discount, 'loyalty_discount', v_loyalty_discount, 'referral_credit', v_referral_credit))::text,
+            HINT = 'price_changed';
+  END IF;
+
+  -- The wallet pays for the whole order or none of it. The owner comes from
+  -- the signed-in customer the server resolved, never from the session id.
+  IF p_pay_with_wallet AND v_total > 0 THEN
+    SELECT * INTO v_wallet_customer FROM customers WHERE id = p_customer_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Sign in to pay from your wallet'
+        USING HINT = 'wallet_unavailable';
+    END IF;
+
+    -- Two orders from the same customer can't spend the same balance
+    PERFORM pg_advisory_xact_lock(hashtext('wallet:' || v_wallet_customer.id));
+    v_wallet_balance := wallet_balance(v_wallet_customer.id);
+
+    IF v_wallet_balance < v_total THEN
+      RAISE EXCEPTION 'Your wallet has ₦%. Top up or choose another way to pay.', v_wallet_balance
+        USING DETAIL = jsonb_build_object('balance', v_wallet_balance)::text,
+              HINT = 'insufficient_wallet_balance';
+    END IF;
+
+    v_wallet_payment := v_total;
+  END IF;
+
+  -- Create order
+  INSERT INTO orders (
+    session_id,
+    subtotal_amount,
+    delivery_fee,
+    discount_amount,
+    promo_code_id,
+    promo_code,
+    loyalty_discount,
+    loyalty_redeemed,
+    referral_credit,
+    referral_code,
+    total_amount,
+    tracking_id,
+    customer_note,
+    customer_phone,
+    customer_name,
+    delivery_location_id,
+    delivery_location_name,
+    delivery_room,
+    delivery_zone_id,
+    delivery_zone_name,
+    fulfilment_mode,
+    pickup_code,
+    time_slot_id,
+    scheduled_for,
+    prep_starts_at,
+    status
+  ) VALUES (
+    p_session_id,
+    v_subtotal,
+    v_delivery_fee,
+    v_discount,
+    (v_promo->>'promo_code_id')::uuid,
+    v_promo->>'code',
+    v_loyalty_discount,
+    v_loyalty_redeemed,
+    v_referral_credit,
+    v_referral_code.code,
+    v_total,
+    p_tracking_id,
+    COALESCE(p_customer_note, ''),
+    v_phone,
+    trim(p_customer_name),
+    v_location.id,
+    v_location.name,
+    NULLIF(trim(p_delivery_room), ''),
+    v_zone.id,
+    v_zone.name,
+    p_fulfilment_mode,
+    v_pickup_code,
+    v_slot.id,
+    CASE WHEN v_slot.id IS NOT NULL THEN p_scheduled_for END,
+    v_prep_starts_at,
+    'pending'
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items at the server-side unit price, options included
+  INSERT INTO order_items (
+    order_id,
+    food_item_id,
+    quantity,
+    unit_price,
+    options
+  )
+  SELECT
+    v_order_id,
+    (item->>'food_item_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'unit_price')::decimal,
+    COALESCE(item->'options', '[]'::jsonb)
+  FROM jsonb_array_elements(v_pricing->'items') AS item
+  WHERE item->>'combo_id' IS NULL;
+
+  -- Combos: the priced combo row, then its components at no extra charge
+  FOR v_combo IN
+    SELECT item FROM jsonb_array_elements(v_pricing->'items') AS item
+    WHERE item->>'combo_id' IS NOT NULL
+  LOOP
+    INSERT INTO order_items (
+      order_id,
+      combo_id,
+      combo_name,
+      quantity,
+      unit_price,
+      components
+    ) VALUES (
+      v_order_id,
+      (v_combo->>'combo_id')::uuid,
+      v_combo->>'name',
+      (v_combo->>'quantity')::integer,
+      (v_combo->>'unit_price')::decimal,
+      v_combo->'components'
+    )
+    RETURNING id INTO v_combo_item_id;
+
+    INSERT INTO order_items (
+      order_id,
+      food_item_id,
+      quantity,
+      unit_price,
+      parent_item_id
+    )
+    SELECT
+      v_order_id,
+      (component->>'food_item_id')::uuid,
+      (component->>'quantity')::integer * (v_combo->>'quantity')::integer,
+      0,
+      v_combo_item_id
+    FROM jsonb_array_elements(v_combo->'components') AS component;
+  END LOOP;
+
+  -- Take tracked stock now; rolls the whole order back if another order got there first
+  PERFORM deduct_order_stock(v_order_id, p_order_items);
+
+  IF v_promo IS NOT NULL THEN
+    INSERT INTO promo_redemptions (
+      promo_code_id,
+      order_id,
+      session_id,
+      customer_phone,
+      discount_amount
+    ) VALUES (
+      (v_promo->>'promo_code_id')::uuid,
+      v_order_id,
+      p_session_id,
+      v_phone,
+      v_discount
+    );
+  END IF;
+
+  IF v_loyalty_redeemed > 0 THEN
+    INSERT INTO loyalty_ledger (session_id, customer_id, unit, amount, reason, order_id)
+    SELECT session_id, customer_id, v_loyalty.mode, -v_loyalty_redeemed, 'redeemed', id
+    FROM orders
+    WHERE id = v_order_id;
+  END IF;
+
+  IF v_referral_credit > 0 THEN
+    INSERT INTO referral_credits (session_id, amount, reason, order_id)
+    VALUES (p_session_id, -v_referral_credit, 'redeemed', v_order_id);
+  END IF;
+
+  IF v_wallet_payment > 0 THEN
+    INSERT INTO wallet_ledger (customer_id, amount, reason, order_id)
+    VALUES (v_wallet_customer.id, -v_wallet_payment, 'payment', v_order_id);
+
+    UPDATE orders
+    SET
+      payment_method = 'wallet',
+      payment_status = 'completed',
+      payment_reference = transfer_reference,
+      payment_confirmed_at = now()
+    WHERE id = v_order_id;
+
+    INSERT INTO payment_history (order_id, amount, status, payment_method, reference)
+    SELECT id, total_amount, 'completed', 'wallet', payment_reference
+    FROM orders
+    WHERE id = v_order_id;
+  END IF;
+
+  IF v_referral_code.id IS NOT NULL THEN
+    INSERT INTO referrals (
+      referral_code_id,
+      referee_session_id,
+      referee_phone,
+      order_id,
+      referrer_credit,
+      referee_credit
+    ) VALUES (
+      v_referral_code.id,
+      p_session_id,
+      v_phone,
+      v_order_id,
+      v_referral_settings.referrer_credit,
+      v_referral_settings.referee_credit
+    );
+  END IF;
+
+  -- Add initial status to history
+  INSERT INTO order_status_history (
+    order_id,
+    status
+  ) VALUES (
+    v_order_id,
+    'pending'
+  );
+
+  -- Discounts can cover the whole order, leaving nothing to pay
+  IF v_total = 0 THEN
+    UPDATE orders
+    SET
+      payment_status = 'completed',
+      payment_confirmed_at = now()
+    WHERE id = v_order_id;
+  END IF;
+
+  -- Wallet orders and orders with nothing to pay skip waiting for payment
+  IF v_wallet_payment > 0 THEN
+    PERFORM transition_order_status(v_order_id, 'payment_received', NULL, 'Paid from wallet');
+  ELSIF v_total = 0 THEN
+    PERFORM transition_order_status(v_order_id, 'payment_received', NULL, 'Nothing to pay');
+  END IF;
+
+  -- Return the created order with its items
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'session_id', o.session_id,
+    'subtotal_amount', o.subtotal_amount,
+    'delivery_fee', o.delivery_fee,
+    'discount_amount', o.discount_amount,
+    'promo_code', o.promo_code,
+    'loyalty_discount', o.loyalty_discount,
+    'loyalty_redeemed', o.loyalty_redeemed,
+    'referral_credit', o.referral_credit,
+    'referral_code', o.referral_code,
+    'total_amount', o.total_amount,
+    'status', o.status,
+    'payment_method', o.payment_method,
+    'payment_status', o.payment_status,
+    'tracking_id', o.tracking_id,
+    'customer_note', o.customer_note,
+    'customer_phone', o.customer_phone,
+    'customer_name', o.customer_name,
+    'delivery_location_name', o.delivery_location_name,
+    'delivery_room', o.delivery_room,
+    'delivery_zone_name', o.delivery_zone_name,
+    'fulfilment_mode', o.fulfilment_mode,
+    'pickup_code', o.pickup_code,
+    'scheduled_for', o.scheduled_for,
+    'created_at', o.created_at,
+    'order_items', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'food_item_id', oi.food_item_id,
+          'combo_id', oi.combo_id,
+          'name', COALESCE(fi.name, oi.combo_name),
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price,
+          'options', oi.options,
+          'components', oi.components
+        )
+      )
+      FROM order_items oi
+      LEFT JOIN food_items fi ON fi.id = oi.food_item_id
+      WHERE oi.order_id = o.id
+        AND oi.parent_item_id IS NULL
+    )
+  )
+  INTO v_order
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz, text, boolean, text, boolean, uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(text, text, jsonb, text, decimal, text, text, uuid, text, uuid, fulfilment_mode_enum, uuid, timestamptz, text, boolean, text, boolean, uuid) TO service_role;